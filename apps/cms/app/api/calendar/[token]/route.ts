@@ -0,0 +1,34 @@
+import { ICS_CONTENT_TYPE, NO_STORE_HEADERS, NotFoundError, apiError } from '@workspace/core'
+import { db } from '@workspace/database'
+import { getTechnicianCalendar } from '../../../../src/lib/calendar'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// A technician's visits as an iCalendar feed. Calendar apps cannot sign in,
+// so the secret token in the URL is the credential.
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const calendar = await getTechnicianCalendar(db, token.replace(/\.ics$/, ''))
+
+    if (!calendar) {
+      throw new NotFoundError('Calendar')
+    }
+
+    return new Response(calendar, {
+      headers: {
+        ...NO_STORE_HEADERS,
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="appointments.ics"',
+      },
+    })
+  } catch (error) {
+    return apiError(error)
+  }
+}
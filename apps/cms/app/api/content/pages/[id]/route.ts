@@ -0,0 +1,7 @@
+import { contentRoutes } from '../../../../../src/lib/content-resources'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export const { GET, PATCH, DELETE } = contentRoutes.pages.item
@@ -0,0 +1,20 @@
+import { FollowUpScheduler, apiError, apiJson } from '@workspace/core'
+import { db } from '@workspace/database'
+import { assertCronRequest } from '../../../../src/lib/cron'
+import { emailFollowUpNotifier } from '../../../../src/lib/follow-ups'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Sets SLA deadlines, escalates missed ones and emails follow-up digests
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request)
+
+    const result = await new FollowUpScheduler(db, emailFollowUpNotifier).run()
+    return apiJson(result)
+  } catch (error) {
+    return apiError(error)
+  }
+}
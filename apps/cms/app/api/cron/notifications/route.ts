@@ -0,0 +1,20 @@
+import { apiError, apiJson } from '@workspace/core'
+import { db } from '@workspace/database'
+import { NotificationOutbox } from '@workspace/notifications'
+import { assertCronRequest } from '../../../../src/lib/cron'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Retries queued emails whose first send failed or whose backoff has passed
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request)
+
+    const result = await new NotificationOutbox(db).processDue()
+    return apiJson(result)
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,19 @@
+import { QuoteManager, apiError, apiJson } from '@workspace/core'
+import { db } from '@workspace/database'
+import { assertCronRequest } from '../../../../src/lib/cron'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Marks sent quotes past their expiry date as expired
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request)
+
+    const expired = await new QuoteManager(db).expireQuotes()
+    return apiJson({ expired })
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,34 @@
+import { createYoga } from 'graphql-yoga'
+import { auth } from '@workspace/auth'
+import { db } from '@workspace/database'
+import {
+  createLoaders,
+  maskError,
+  schema,
+  toSessionUser,
+  type GraphQLServerContext,
+} from '../../../src/lib/graphql'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const yoga = createYoga<GraphQLServerContext>({
+  schema,
+  graphqlEndpoint: '/api/graphql',
+  graphiql: false,
+  maskedErrors: { maskError },
+  fetchAPI: { Response },
+  // Fresh loaders per request so batching never leaks data across users
+  context: () => ({ db, loaders: createLoaders(db) }),
+})
+
+export async function POST(request: Request) {
+  const session = await auth()
+  const response = await yoga.handleRequest(request, { user: toSessionUser(session?.user) })
+
+  const headers = new Headers(response.headers)
+  headers.set('Cache-Control', 'no-store')
+
+  return new Response(response.body, { status: response.status, headers })
+}
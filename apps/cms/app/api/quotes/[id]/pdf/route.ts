@@ -0,0 +1,43 @@
+import { policyWhere } from '@workspace/auth'
+import { NO_STORE_HEADERS, NotFoundError, apiError, renderQuotePdf } from '@workspace/core'
+import { db } from '@workspace/database'
+import { getSessionUser, requirePermission } from '../../../../../src/lib/session'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The customer-facing PDF for one quote version
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const user = requirePermission({ user: await getSessionUser() }, 'quote:manage')
+
+    const { id } = await params
+    // Quotes the user may not manage read as missing
+    const quote = await db.quote.findFirst({
+      where: { AND: [{ id }, policyWhere(user, 'quote:manage', 'Quote')] },
+      include: { items: { orderBy: { order: 'asc' } }, lead: true },
+    })
+
+    if (!quote) {
+      throw new NotFoundError('Quote', id)
+    }
+
+    const pdf = await renderQuotePdf(quote, quote.lead)
+    const filename = `quote-${quote.number}${quote.version > 1 ? `-v${quote.version}` : ''}.pdf`
+
+    return new Response(Buffer.from(pdf), {
+      headers: {
+        ...NO_STORE_HEADERS,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    return apiError(error)
+  }
+}
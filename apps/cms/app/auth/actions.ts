@@ -0,0 +1,113 @@
+"use server"
+
+import { headers } from "next/headers"
+import { ZodError } from "zod"
+import {
+  AUTH_ERRORS,
+  createUser,
+  getUserByEmail,
+  newPasswordSchema,
+  registerSchema,
+  requestEmailVerification,
+  requestPasswordReset,
+  resetPassword,
+  resetPasswordSchema,
+  verifyEmailToken,
+} from "@workspace/auth"
+import { API_CONFIG } from "@workspace/config"
+import {
+  ForbiddenError,
+  RateLimitError,
+  SettingsManager,
+  ValidationError,
+  createRateLimiter,
+  getClientIp,
+  toAPIError,
+} from "@workspace/core"
+import { db } from "@workspace/database"
+
+export type AuthActionResult = { ok: true } | { ok: false; error: string; field?: string }
+
+// Signing up and the resend forms send email, so each client gets
+// API_CONFIG.RATE_LIMITS.auth attempts per form
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.auth)
+
+async function checkRateLimit(form: string) {
+  const { allowed, retryAfterMs } = rateLimiter.hit(`${form}:${getClientIp(await headers())}`)
+  if (!allowed) {
+    throw new RateLimitError(retryAfterMs)
+  }
+}
+
+// Runs an auth form submission. The first invalid field comes back with
+// its message; other errors come back as messages for the form's alert.
+async function authAction(run: () => Promise<unknown>): Promise<AuthActionResult> {
+  try {
+    await run()
+    return { ok: true }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return { ok: false, error: issue?.message ?? "Invalid value", field: String(issue?.path[0] ?? "") }
+    }
+    const { status, error: body } = toAPIError(error)
+    if (status >= 500) {
+      console.error("Auth action error:", error)
+    }
+    return { ok: false, error: body.message }
+  }
+}
+
+// The token helpers throw plain errors; a bad link is the user's problem to fix
+function invalidToken(): never {
+  throw new ValidationError(AUTH_ERRORS.INVALID_TOKEN)
+}
+
+// Creates a User account and emails its verification link. Only open
+// while the allow_registration setting is on.
+export async function signUp(input: { name: string; email: string; password: string }): Promise<AuthActionResult> {
+  return authAction(async () => {
+    if (!(await new SettingsManager(db).getSetting("allow_registration"))) {
+      throw new ForbiddenError("Sign-ups are closed. Ask an administrator for an account.")
+    }
+    await checkRateLimit("signup")
+
+    // Like the resend and reset forms, the result never says whether the
+    // address has an account; an unverified owner just gets a fresh link
+    const data = registerSchema.parse(input)
+    if (!(await getUserByEmail(data.email))) {
+      await createUser(data)
+    }
+    await requestEmailVerification(data.email)
+  })
+}
+
+export async function confirmEmail(token: string): Promise<AuthActionResult> {
+  return authAction(() => verifyEmailToken(token).catch(invalidToken))
+}
+
+// Succeeds whether or not the address has an unverified account
+export async function resendVerificationEmail(email: string): Promise<AuthActionResult> {
+  return authAction(async () => {
+    await checkRateLimit("verify-email")
+    await requestEmailVerification(resetPasswordSchema.parse({ email }).email)
+  })
+}
+
+// Succeeds whether or not the address has an account
+export async function sendPasswordResetLink(email: string): Promise<AuthActionResult> {
+  return authAction(async () => {
+    await checkRateLimit("forgot-password")
+    await requestPasswordReset(resetPasswordSchema.parse({ email }).email)
+  })
+}
+
+export async function setNewPassword(
+  token: string,
+  input: { password: string; confirmPassword: string }
+): Promise<AuthActionResult> {
+  return authAction(async () => {
+    const { password } = newPasswordSchema.parse(input)
+    await resetPassword(token, password).catch(invalidToken)
+  })
+}
@@ -0,0 +1,22 @@
+import type { ReactNode } from "react"
+
+interface AuthLayoutProps {
+  title: string
+  description?: string
+  children: ReactNode
+}
+
+// Centered card shared by the sign-in, sign-up and account email pages
+export function AuthLayout({ title, description, children }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">{title}</h2>
+          {description && <p className="mt-2 text-center text-sm text-gray-600">{description}</p>}
+        </div>
+        {children}
+      </div>
+    </div>
+  )
+}
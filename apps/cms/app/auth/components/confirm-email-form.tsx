@@ -0,0 +1,54 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button, Alert, AlertDescription } from "@workspace/ui"
+import { Loader2, AlertCircle } from "lucide-react"
+import { confirmEmail } from "../actions"
+
+interface ConfirmEmailFormProps {
+  token: string
+}
+
+// Verification links only verify on a click, not on page load, so mail
+// scanners that open links can't use them up
+export function ConfirmEmailForm({ token }: ConfirmEmailFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const router = useRouter()
+
+  const onConfirm = async () => {
+    setIsLoading(true)
+    setError("")
+
+    const result = await confirmEmail(token)
+    if (result.ok) {
+      router.push("/auth/signin?verified=1")
+    } else {
+      setIsLoading(false)
+      setError(result.error)
+    }
+  }
+
+  return (
+    <div className="mt-8 space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="button" className="w-full" onClick={onConfirm} disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying...
+          </>
+        ) : (
+          "Verify my email"
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button, Input, Label, Alert, AlertDescription } from "@workspace/ui"
+import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import { resendVerificationEmail, sendPasswordResetLink } from "../actions"
+
+const emailSchema = z.object({
+  email: z.string().email("Invalid email address"),
+})
+
+type EmailFormData = z.infer<typeof emailSchema>
+
+// The actions succeed for unknown addresses too, so the confirmation is
+// worded the same either way
+const FORMS = {
+  "verify-email": {
+    action: resendVerificationEmail,
+    submit: "Send verification link",
+    sent: "If that address has an unverified account, a new verification link is on its way.",
+  },
+  "reset-password": {
+    action: sendPasswordResetLink,
+    submit: "Send reset link",
+    sent: "If that address has an account, a password reset link is on its way. It works for one hour.",
+  },
+}
+
+interface EmailLinkFormProps {
+  kind: keyof typeof FORMS
+}
+
+// Asks for an email address and sends it a verification or password reset link
+export function EmailLinkForm({ kind }: EmailLinkFormProps) {
+  const { action, submit, sent } = FORMS[kind]
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [isSent, setIsSent] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<EmailFormData>({
+    resolver: zodResolver(emailSchema),
+  })
+
+  const onSubmit = async ({ email }: EmailFormData) => {
+    setIsLoading(true)
+    setError("")
+
+    const result = await action(email)
+    setIsLoading(false)
+
+    if (result.ok) {
+      setIsSent(true)
+    } else {
+      setError(result.error)
+    }
+  }
+
+  if (isSent) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertDescription>{sent}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div>
+        <Label htmlFor="email">Email address</Label>
+        <Input id="email" type="email" autoComplete="email" required className="mt-1" {...register("email")} />
+        {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          submit
+        )}
+      </Button>
+    </form>
+  )
+}
@@ -2,12 +2,14 @@
 
 import { useState } from "react"
 import { signIn } from "next-auth/react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { Button, Input, Label, Alert, AlertDescription } from "@workspace/ui"
-import { Loader2, AlertCircle } from "lucide-react"
+import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import { resendVerificationEmail } from "../actions"
 
 const signInSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -19,16 +21,21 @@ type SignInFormData = z.infer<typeof signInSchema>
 interface SignInFormProps {
   callbackUrl?: string
   error?: string
+  notice?: string
+  allowRegistration?: boolean
 }
 
-export function SignInForm({ callbackUrl, error }: SignInFormProps) {
+export function SignInForm({ callbackUrl, error, notice, allowRegistration }: SignInFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [authError, setAuthError] = useState(error || "")
+  const [message, setMessage] = useState(notice || "")
+  const [resendError, setResendError] = useState("")
   const router = useRouter()
 
   const {
     register,
     handleSubmit,
+    getValues,
     formState: { errors },
   } = useForm<SignInFormData>({
     resolver: zodResolver(signInSchema),
@@ -37,6 +44,7 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
   const onSubmit = async (data: SignInFormData) => {
     setIsLoading(true)
     setAuthError("")
+    setMessage("")
 
     try {
       const result = await signIn("credentials", {
@@ -46,7 +54,8 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
       })
 
       if (result?.error) {
-        setAuthError("Invalid email or password")
+        // Auth.js passes the authorize error's code, e.g. EMAIL_NOT_VERIFIED
+        setAuthError(result.code === "EMAIL_NOT_VERIFIED" ? result.code : "CredentialsSignin")
       } else if (result?.ok) {
         router.push(callbackUrl || "/dashboard")
         router.refresh()
@@ -58,12 +67,30 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
     }
   }
 
+  const resendVerification = async () => {
+    setIsLoading(true)
+    setResendError("")
+    const result = await resendVerificationEmail(getValues("email"))
+    setIsLoading(false)
+
+    if (result.ok) {
+      setAuthError("")
+      setMessage("We sent a new verification link. Check your inbox.")
+    } else {
+      setResendError(result.error)
+    }
+  }
+
   const getErrorMessage = (error: string) => {
     switch (error) {
       case "CredentialsSignin":
         return "Invalid email or password"
+      case "EMAIL_NOT_VERIFIED":
+        return "Please verify your email address before signing in."
       case "AccessDenied":
         return "Access denied. Please contact an administrator."
+      case "Verification":
+        return "This link is invalid or has expired."
       default:
         return "An error occurred during sign in"
     }
@@ -76,9 +103,28 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
             {getErrorMessage(authError)}
+            {authError === "EMAIL_NOT_VERIFIED" && (
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 ml-1"
+                onClick={resendVerification}
+                disabled={isLoading}
+              >
+                Resend the link
+              </Button>
+            )}
+            {resendError && <span className="block mt-1">{resendError}</span>}
           </AlertDescription>
         </Alert>
       )}
+
+      {message && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>{message}</AlertDescription>
+        </Alert>
+      )}
       
       <div className="space-y-4">
         <div>
@@ -97,7 +143,12 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
         </div>
         
         <div>
-          <Label htmlFor="password">Password</Label>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="password">Password</Label>
+            <Link href="/auth/forgot-password" className="text-sm text-gray-600 hover:text-gray-900">
+              Forgot password?
+            </Link>
+          </div>
           <Input
             id="password"
             type="password"
@@ -126,6 +177,15 @@ export function SignInForm({ callbackUrl, error }: SignInFormProps) {
           "Sign in"
         )}
       </Button>
+
+      {allowRegistration && (
+        <p className="text-center text-sm text-gray-600">
+          No account yet?{" "}
+          <Link href="/auth/signup" className="font-medium text-gray-900 hover:underline">
+            Sign up
+          </Link>
+        </p>
+      )}
     </form>
   )
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Button, Input, Label, Alert, AlertDescription } from "@workspace/ui"
+import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import { signUp } from "../actions"
+
+// Mirrors registerSchema in @workspace/auth, which the action checks again
+const signUpSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+})
+
+type SignUpFormData = z.infer<typeof signUpSchema>
+
+export function SignUpForm() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [sentTo, setSentTo] = useState("")
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SignUpFormData>({
+    resolver: zodResolver(signUpSchema),
+  })
+
+  const onSubmit = async (data: SignUpFormData) => {
+    setIsLoading(true)
+    setError("")
+
+    const result = await signUp(data)
+    setIsLoading(false)
+
+    if (result.ok) {
+      setSentTo(data.email)
+    } else {
+      setError(result.error)
+    }
+  }
+
+  if (sentTo) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertDescription>
+          We sent a verification link to {sentTo}. Open it to finish setting up your account.
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <form className="mt-8 space-y-6" onSubmit={handleSubmit(onSubmit)}>
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <Label htmlFor="name">Name</Label>
+          <Input id="name" autoComplete="name" required className="mt-1" {...register("name")} />
+          {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+        </div>
+
+        <div>
+          <Label htmlFor="email">Email address</Label>
+          <Input id="email" type="email" autoComplete="email" required className="mt-1" {...register("email")} />
+          {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+        </div>
+
+        <div>
+          <Label htmlFor="password">Password</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            required
+            className="mt-1"
+            {...register("password")}
+          />
+          {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>}
+        </div>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Creating account...
+          </>
+        ) : (
+          "Create account"
+        )}
+      </Button>
+    </form>
+  )
+}
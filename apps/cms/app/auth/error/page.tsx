@@ -0,0 +1,32 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { AuthLayout } from "../components/auth-layout"
+
+export const metadata: Metadata = {
+  title: "Sign In Error - Aurora CMS",
+  description: "Something went wrong while signing in",
+}
+
+// Auth.js sends failed sign-ins here with ?error=<type>
+const ERROR_MESSAGES: Record<string, string> = {
+  Configuration: "Sign-in is not set up correctly on the server. Please contact an administrator.",
+  AccessDenied: "Access denied. Please contact an administrator.",
+  Verification: "This sign-in link is invalid or has expired.",
+  CredentialsSignin: "Invalid email or password.",
+  OAuthAccountNotLinked: "This email already signs in another way. Use the method you signed up with.",
+}
+
+export default async function AuthErrorPage({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
+  const { error } = await searchParams
+  const message = (error && ERROR_MESSAGES[error]) || "An error occurred during sign in."
+
+  return (
+    <AuthLayout title="Unable to sign in" description={message}>
+      <p className="text-center text-sm text-gray-600">
+        <Link href="/auth/signin" className="font-medium text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,25 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { AuthLayout } from "../components/auth-layout"
+import { EmailLinkForm } from "../components/email-link-form"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Forgot Password - Aurora CMS",
+  description: "Reset your Aurora CMS password",
+}
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthLayout title="Forgot your password?" description="We'll email you a link to choose a new one">
+      <EmailLinkForm kind="reset-password" />
+      <p className="text-center text-sm text-gray-600">
+        <Link href="/auth/signin" className="font-medium text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,43 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { verifyPasswordResetToken } from "@workspace/auth"
+import { AuthLayout } from "../components/auth-layout"
+import { ResetPasswordForm } from "../components/reset-password-form"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Reset Password - Aurora CMS",
+  description: "Choose a new Aurora CMS password",
+}
+
+export default async function ResetPasswordPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = await searchParams
+  if (!token) {
+    redirect("/auth/forgot-password")
+  }
+
+  // Checked up front so nobody types a new password into a dead link; the
+  // link is only used up when the form is submitted
+  const isValid = await verifyPasswordResetToken(token).then(
+    () => true,
+    () => false
+  )
+
+  return (
+    <AuthLayout title="Choose a new password" description={isValid ? "You'll sign in with it from now on" : undefined}>
+      {isValid ? (
+        <ResetPasswordForm token={token} />
+      ) : (
+        <p className="text-center text-sm text-gray-600">
+          This reset link is invalid, expired or already used.{" "}
+          <Link href="/auth/forgot-password" className="font-medium text-gray-900 hover:underline">
+            Request a new one
+          </Link>
+        </p>
+      )}
+    </AuthLayout>
+  )
+}
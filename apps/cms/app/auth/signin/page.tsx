@@ -1,6 +1,9 @@
 import { Metadata } from "next"
 import { redirect } from "next/navigation"
 import { auth } from "@workspace/auth"
+import { SettingsManager } from "@workspace/core"
+import { db } from "@workspace/database"
+import { AuthLayout } from "../components/auth-layout"
 import { SignInForm } from "../components/signin-form"
 
 // FLUX Rule: Fresh by default for admin interfaces
@@ -14,7 +17,7 @@ export const metadata: Metadata = {
 export default async function SignInPage({
   searchParams,
 }: {
-  searchParams: Promise<{ callbackUrl?: string; error?: string }>
+  searchParams: Promise<{ callbackUrl?: string; error?: string; verified?: string; reset?: string }>
 }) {
   const session = await auth()
   const params = await searchParams
@@ -24,22 +27,21 @@ export default async function SignInPage({
     redirect(params.callbackUrl || "/dashboard")
   }
 
+  const allowRegistration = await new SettingsManager(db).getSetting("allow_registration")
+  const notice = params.verified
+    ? "Your email is verified. You can sign in now."
+    : params.reset
+      ? "Your password was changed. Sign in with the new one."
+      : undefined
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
-      <div className="max-w-md w-full space-y-8">
-        <div>
-          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            Sign in to Aurora CMS
-          </h2>
-          <p className="mt-2 text-center text-sm text-gray-600">
-            Access your content management system
-          </p>
-        </div>
-        <SignInForm 
-          callbackUrl={params.callbackUrl}
-          error={params.error}
-        />
-      </div>
-    </div>
+    <AuthLayout title="Sign in to Aurora CMS" description="Access your content management system">
+      <SignInForm
+        callbackUrl={params.callbackUrl}
+        error={params.error}
+        notice={notice}
+        allowRegistration={allowRegistration}
+      />
+    </AuthLayout>
   )
-}
\ No newline at end of file
+}
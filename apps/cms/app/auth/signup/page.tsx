@@ -0,0 +1,44 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { auth } from "@workspace/auth"
+import { SettingsManager } from "@workspace/core"
+import { db } from "@workspace/database"
+import { AuthLayout } from "../components/auth-layout"
+import { SignUpForm } from "../components/signup-form"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Sign Up - Aurora CMS",
+  description: "Create an Aurora CMS account",
+}
+
+export default async function SignUpPage() {
+  if (await auth()) {
+    redirect("/dashboard")
+  }
+
+  // Admins turn sign-ups on under Settings > General
+  const allowRegistration = await new SettingsManager(db).getSetting("allow_registration")
+
+  return (
+    <AuthLayout
+      title="Create your account"
+      description={allowRegistration ? "We'll email you a link to verify your address" : undefined}
+    >
+      {allowRegistration ? (
+        <SignUpForm />
+      ) : (
+        <p className="text-center text-sm text-gray-600">Sign-ups are closed. Ask an administrator for an account.</p>
+      )}
+      <p className="text-center text-sm text-gray-600">
+        Already have an account?{" "}
+        <Link href="/auth/signin" className="font-medium text-gray-900 hover:underline">
+          Sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  )
+}
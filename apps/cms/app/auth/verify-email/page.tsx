@@ -0,0 +1,35 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { AuthLayout } from "../components/auth-layout"
+import { ConfirmEmailForm } from "../components/confirm-email-form"
+import { EmailLinkForm } from "../components/email-link-form"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Verify Email - Aurora CMS",
+  description: "Verify your Aurora CMS email address",
+}
+
+// With a token from the verification email this confirms the address;
+// without one it sends a fresh link
+export default async function VerifyEmailPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = await searchParams
+
+  return (
+    <AuthLayout
+      title="Verify your email"
+      description={
+        token ? "Confirm this is your address to finish setting up your account" : "Enter your address for a new link"
+      }
+    >
+      {token ? <ConfirmEmailForm token={token} /> : <EmailLinkForm kind="verify-email" />}
+      <p className="text-center text-sm text-gray-600">
+        <Link href="/auth/signin" className="font-medium text-gray-900 hover:underline">
+          Back to sign in
+        </Link>
+      </p>
+    </AuthLayout>
+  )
+}
@@ -0,0 +1,25 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { toAPIError } from "@workspace/core"
+import { db } from "@workspace/database"
+import { getCalendarFeed, resetCalendarToken } from "../../src/lib/calendar"
+import { getSessionUser, requirePermission } from "../../src/lib/session"
+
+export type CalendarFeedResult = { ok: true } | { ok: false; error: string }
+
+// Creates the feed link, or replaces it so old subscriptions stop working
+export async function resetCalendarFeed(): Promise<CalendarFeedResult> {
+  try {
+    const user = requirePermission({ user: await getSessionUser() }, "dashboard:view")
+    if (!(await getCalendarFeed(db, user.id))) {
+      return { ok: false, error: "Your account is not linked to a technician" }
+    }
+
+    await resetCalendarToken(db, user.id)
+    revalidatePath("/dashboard")
+    return { ok: true }
+  } catch (error) {
+    return { ok: false, error: toAPIError(error).error.message }
+  }
+}
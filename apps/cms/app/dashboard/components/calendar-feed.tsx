@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Button, Input } from "@workspace/ui"
+import { Copy, RefreshCw } from "lucide-react"
+import { resetCalendarFeed } from "../actions"
+
+interface CalendarFeedProps {
+  url: string | null
+}
+
+// Subscribe link for the technician's own visits. Resetting it cuts off any
+// calendar still using the old one.
+export function CalendarFeed({ url }: CalendarFeedProps) {
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const reset = () => {
+    if (url && !window.confirm("Calendars subscribed to the current link will stop updating. Continue?")) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await resetCalendarFeed()
+      if (!result.ok) setError(result.error)
+    })
+  }
+
+  const copy = async () => {
+    if (!url) return
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-2">
+      {url ? (
+        <div className="flex gap-2">
+          <Input readOnly value={url} onFocus={(event) => event.currentTarget.select()} />
+          <Button variant="outline" onClick={copy}>
+            <Copy className="mr-2 h-4 w-4" />
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button variant="outline" disabled={isPending} onClick={reset}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Reset
+          </Button>
+        </div>
+      ) : (
+        <Button disabled={isPending} onClick={reset}>
+          Create feed link
+        </Button>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button, Calendar, Popover, PopoverContent, PopoverTrigger } from "@workspace/ui"
+import { CalendarIcon } from "lucide-react"
+
+// yyyy-MM-dd days in the business's time zone
+interface DateRangePickerProps {
+  from: string
+  to: string
+}
+
+const rangeFormat = new Intl.DateTimeFormat("en", { dateStyle: "medium" })
+
+// yyyy-MM-dd in local time, the format the dashboard reads from the URL
+function toDateParam(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// The day as a local date, which is what the calendar widget selects
+function fromDateParam(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function DateRangePicker(props: DateRangePickerProps) {
+  const from = fromDateParam(props.from)
+  const to = fromDateParam(props.to)
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [range, setRange] = useState<{ from?: Date; to?: Date } | undefined>({ from, to })
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (next) setRange({ from, to })
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal">
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {rangeFormat.format(from)} – {rangeFormat.format(to)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={from}
+          selected={range?.from ? { from: range.from, to: range.to } : undefined}
+          onSelect={setRange}
+          disabled={{ after: new Date() }}
+        />
+        <div className="flex justify-end gap-2 border-t p-3">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!range?.from || !range.to}
+            onClick={() => {
+              if (!range?.from || !range.to) return
+              setOpen(false)
+              router.push(`/dashboard?from=${toDateParam(range.from)}&to=${toDateParam(range.to)}`)
+            }}
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts"
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@workspace/ui"
+import type { DashboardData } from "../../../src/lib/dashboard"
+
+const trendConfig = {
+  leads: { label: "Leads", color: "var(--chart-1)" },
+  conversions: { label: "Won", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+export function LeadTrendChart({ data }: { data: DashboardData["trends"] }) {
+  return (
+    <ChartContainer config={trendConfig} className="h-72 w-full">
+      <BarChart data={data} margin={{ left: -20 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={(month: string) => month.slice(0, 3)} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="leads" fill="var(--color-leads)" radius={4} />
+        <Bar dataKey="conversions" fill="var(--color-conversions)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
+
+export function LeadStatusChart({ data }: { data: DashboardData["byStatus"] }) {
+  const config = Object.fromEntries(data.map(({ key, name, color }) => [key, { label: name, color }])) satisfies ChartConfig
+  const slices = data.filter((datum) => datum.count > 0)
+
+  if (slices.length === 0) {
+    return <p className="py-16 text-center text-sm text-muted-foreground">No leads in this period.</p>
+  }
+
+  return (
+    <ChartContainer config={config} className="mx-auto h-72 w-full">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+        <Pie data={slices} dataKey="count" nameKey="key" innerRadius={60} strokeWidth={2}>
+          {slices.map((datum) => (
+            <Cell key={datum.key} fill={datum.color} />
+          ))}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap" />
+      </PieChart>
+    </ChartContainer>
+  )
+}
+
+const sourceConfig = {
+  leads: { label: "Leads", color: "var(--chart-3)" },
+  conversions: { label: "Won", color: "var(--chart-2)" },
+} satisfies ChartConfig
+
+export function LeadSourceChart({ data }: { data: DashboardData["sources"] }) {
+  if (data.length === 0) {
+    return <p className="py-16 text-center text-sm text-muted-foreground">No leads in this period.</p>
+  }
+
+  return (
+    <ChartContainer config={sourceConfig} className="h-72 w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <YAxis dataKey="name" type="category" tickLine={false} axisLine={false} width={100} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="leads" fill="var(--color-leads)" radius={4} />
+        <Bar dataKey="conversions" fill="var(--color-conversions)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  )
+}
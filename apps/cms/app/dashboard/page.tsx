@@ -2,7 +2,15 @@ import { Metadata } from "next"
 import { auth } from "@workspace/auth"
 import { redirect } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, Badge } from "@workspace/ui"
-import { Users, FileText, MessageSquare, TrendingUp } from "lucide-react"
+import { db } from "@workspace/database"
+import { BusinessCalendarManager, formatCurrency } from "@workspace/core"
+import { Activity, DollarSign, MessageSquare, TrendingUp } from "lucide-react"
+import { getCalendarFeed } from "../../src/lib/calendar"
+import { getDashboardData, parseDashboardRange } from "../../src/lib/dashboard"
+import { isAllowed, toSessionUser } from "../../src/lib/session"
+import { CalendarFeed } from "./components/calendar-feed"
+import { DateRangePicker } from "./components/date-range-picker"
+import { LeadSourceChart, LeadStatusChart, LeadTrendChart } from "./components/lead-charts"
 
 // FLUX Rule: Fresh by default for admin interfaces
 export const revalidate = 0
@@ -12,7 +20,13 @@ export const metadata: Metadata = {
   description: "Aurora CMS Dashboard", 
 }
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+const activityTime = new Intl.DateTimeFormat("en", { dateStyle: "medium", timeStyle: "short" })
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const session = await auth()
   
   if (!session) {
@@ -22,13 +36,13 @@ export default async function DashboardPage() {
   const user = session.user
   const userRole = user.role
 
-  // Mock data - in real app, fetch from API
-  const stats = {
-    totalUsers: 156,
-    totalPosts: 89,
-    totalLeads: 234,
-    conversionRate: "12.5%"
-  }
+  // Lead metrics are for the staff who work leads
+  // Days and months turn over in the business's time zone
+  const { timezone } = await new BusinessCalendarManager(db).getCalendar()
+  const range = parseDashboardRange(await searchParams, timezone)
+  const sessionUser = toSessionUser(user)
+  const stats = isAllowed(sessionUser, "analytics:view") ? await getDashboardData(db, range, timezone) : null
+  const calendarFeed = sessionUser ? await getCalendarFeed(db, sessionUser.id) : null
 
   return (
     <div className="space-y-6">
@@ -56,60 +70,154 @@ export default async function DashboardPage() {
         </CardContent>
       </Card>
 
-      {/* Stats Grid */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-            <Users className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats.totalUsers}</div>
-            <p className="text-xs text-muted-foreground">
-              +12% from last month
-            </p>
-          </CardContent>
-        </Card>
-        
+      {calendarFeed && (
         <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Content Posts</CardTitle>
-            <FileText className="h-4 w-4 text-muted-foreground" />
+          <CardHeader>
+            <CardTitle>Calendar Feed</CardTitle>
+            <CardDescription>
+              Subscribe to this link in your phone&apos;s calendar to see your upcoming jobs. Keep it private.
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalPosts}</div>
-            <p className="text-xs text-muted-foreground">
-              +8% from last month
-            </p>
+            <CalendarFeed url={calendarFeed.url} />
           </CardContent>
         </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Leads</CardTitle>
-            <MessageSquare className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats.totalLeads}</div>
-            <p className="text-xs text-muted-foreground">
-              +23% from last month
-            </p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
-            <TrendingUp className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{stats.conversionRate}</div>
-            <p className="text-xs text-muted-foreground">
-              +2.1% from last month
-            </p>
-          </CardContent>
-        </Card>
-      </div>
+      )}
+
+      {stats && (
+        <>
+          {/* Stats Grid */}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-xl font-semibold tracking-tight">Leads</h2>
+            <DateRangePicker from={range.fromDay} to={range.toDay} />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">New Leads</CardTitle>
+                <MessageSquare className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.leads.total}</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats.leads.byStatus.NEW ?? 0} still waiting for contact
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Conversion Rate</CardTitle>
+                <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.conversion.rate}%</div>
+                <p className="text-xs text-muted-foreground">
+                  {stats.conversion.converted} of {stats.conversion.total} leads won
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Won Value</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(stats.value.won)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Estimated value of won leads
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Open Pipeline</CardTitle>
+                <Activity className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(stats.value.pipeline)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Estimated value of leads still in progress
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Charts */}
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Monthly Trend</CardTitle>
+                <CardDescription>Leads created and won over the last 12 months</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LeadTrendChart data={stats.trends} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Leads by Status</CardTitle>
+                <CardDescription>Where this period&apos;s leads are now</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LeadStatusChart data={stats.byStatus} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Lead Sources</CardTitle>
+                <CardDescription>Leads and wins per source</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LeadSourceChart data={stats.sources} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Priority</CardTitle>
+                <CardDescription>Leads in this period by priority</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {stats.byPriority.map((priority) => (
+                  <div key={priority.key} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: priority.color }} />
+                      <span className="text-sm">{priority.name}</span>
+                    </div>
+                    <span className="text-sm font-medium">{priority.count}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Activity</CardTitle>
+                <CardDescription>Latest updates on leads</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {stats.recentActivity.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No activity in this period.</p>
+                )}
+                {stats.recentActivity.map((activity) => (
+                  <div key={activity.id} className="space-y-0.5">
+                    <p className="text-sm font-medium">{activity.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {activity.lead?.name ?? "Deleted lead"} · {activityTime.format(activity.createdAt)}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
 
       {/* Quick Actions */}
       <Card>
@@ -0,0 +1,132 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { after } from "next/server"
+import { z } from "zod"
+import type { Permission } from "@workspace/auth"
+import { leadStatusSchema } from "@workspace/config"
+import {
+  AppointmentManager,
+  ConflictError,
+  LeadAssignmentManager,
+  LeadManager,
+  toAPIError,
+  type AppointmentInput,
+  type AppointmentRecord,
+  type AppointmentRescheduleInput,
+} from "@workspace/core"
+import { db, type Prisma } from "@workspace/database"
+import { emailAppointmentUpdate } from "../../src/lib/calendar"
+import { requireAppointmentLead, requireLead } from "../../src/lib/leads"
+import { getSessionUser, requirePermission, type SessionUser } from "../../src/lib/session"
+
+export type LeadActionResult = { ok: true } | { ok: false; error: string }
+
+// Runs a lead mutation for a session with `permission` and refreshes /leads.
+// Errors come back as messages so the client can show them next to the control.
+async function leadAction(
+  run: (user: SessionUser) => Promise<unknown>,
+  permission: Permission = "lead:update"
+): Promise<LeadActionResult> {
+  try {
+    const user = requirePermission({ user: await getSessionUser() }, permission)
+    await run(user)
+    revalidatePath("/leads")
+    return { ok: true }
+  } catch (error) {
+    const { status, error: body } = toAPIError(error)
+    if (status >= 500) {
+      console.error("Lead action error:", error)
+    }
+    return { ok: false, error: body.message }
+  }
+}
+
+const idSchema = z.string().min(1)
+
+// Each action also checks the lead itself: agents only work the leads assigned to them
+export async function moveLead(leadId: string, status: string): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const lead = await requireLead(db, user, "lead:update", idSchema.parse(leadId))
+    await new LeadManager(db).updateLeadStatus(lead.id, leadStatusSchema.parse(status))
+  })
+}
+
+export async function addLeadNote(leadId: string, note: string): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const lead = await requireLead(db, user, "lead:update", idSchema.parse(leadId))
+    await new LeadManager(db).addLeadNote(lead.id, z.string().max(5000).parse(note), user.id)
+  })
+}
+
+// Pass null to unassign
+export async function assignLead(leadId: string, userId: string | null): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const lead = await requireLead(db, user, "lead:assign", idSchema.parse(leadId))
+    await new LeadAssignmentManager(db).assign(lead.id, userId && idSchema.parse(userId), { actorId: user.id })
+  }, "lead:assign")
+}
+
+// Hands an unassigned lead to the next agent in line
+export async function autoAssignLead(leadId: string): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const lead = await requireLead(db, user, "lead:assign", idSchema.parse(leadId))
+    const result = await new LeadAssignmentManager(db).autoAssign(lead.id, { actorId: user.id })
+    if (!result) {
+      throw new ConflictError("No active agent is available for this lead")
+    }
+  }, "lead:assign")
+}
+
+// Sends the customer an updated calendar event. A failed email leaves the
+// change in place; staff can still call the customer.
+function notifyCustomer(appointment: AppointmentRecord) {
+  return emailAppointmentUpdate(db, appointment).catch((error: unknown) =>
+    console.error("Appointment email failed:", error)
+  )
+}
+
+// Booking checks run in a serializable transaction so two visits cannot take the same slot
+export async function bookAppointment(leadId: string, input: AppointmentInput): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const lead = await requireLead(db, user, "lead:update", idSchema.parse(leadId))
+    await db.$transaction(
+      (tx: Prisma.TransactionClient) =>
+        new AppointmentManager(tx).bookAppointment(lead.id, input, { actorId: user.id }),
+      { isolationLevel: "Serializable" }
+    )
+  })
+}
+
+export async function rescheduleAppointment(
+  appointmentId: string,
+  input: AppointmentRescheduleInput
+): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const id = idSchema.parse(appointmentId)
+    await requireAppointmentLead(db, user, "lead:update", id)
+    const appointment = await db.$transaction(
+      (tx: Prisma.TransactionClient) =>
+        new AppointmentManager(tx).rescheduleAppointment(id, input, { actorId: user.id }),
+      { isolationLevel: "Serializable" }
+    )
+    after(() => notifyCustomer(appointment))
+  })
+}
+
+export async function cancelAppointment(appointmentId: string, reason: string): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const id = idSchema.parse(appointmentId)
+    await requireAppointmentLead(db, user, "lead:update", id)
+    const appointment = await new AppointmentManager(db).cancelAppointment(id, { reason }, { actorId: user.id })
+    after(() => notifyCustomer(appointment))
+  })
+}
+
+export async function closeAppointment(appointmentId: string, status: string): Promise<LeadActionResult> {
+  return leadAction(async (user) => {
+    const id = idSchema.parse(appointmentId)
+    await requireAppointmentLead(db, user, "lead:update", id)
+    await new AppointmentManager(db).closeAppointment(id, z.enum(["COMPLETED", "NO_SHOW"]).parse(status))
+  })
+}
@@ -0,0 +1,18 @@
+const dateFormat = new Intl.DateTimeFormat("en", { dateStyle: "medium" })
+const dateTimeFormat = new Intl.DateTimeFormat("en", { dateStyle: "medium", timeStyle: "short" })
+const currencyFormat = new Intl.NumberFormat("en", { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+
+export function formatLeadDate(date: Date | null, withTime = false): string {
+  if (!date) return "—"
+  return (withTime ? dateTimeFormat : dateFormat).format(date)
+}
+
+export function formatLeadValue(value: number | null): string {
+  return value === null ? "—" : currencyFormat.format(value)
+}
+
+// Value for an <input type="datetime-local">, in the browser's time zone
+export function toDateTimeInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import {
+  Badge,
+  Button,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@workspace/ui"
+import { CalendarPlus } from "lucide-react"
+import type { LeadDetail, Technician } from "../../../src/lib/leads"
+import {
+  bookAppointment,
+  cancelAppointment,
+  closeAppointment,
+  rescheduleAppointment,
+  type LeadActionResult,
+} from "../actions"
+import { formatLeadDate, toDateTimeInput } from "./format"
+
+interface LeadAppointmentsProps {
+  lead: Pick<LeadDetail, "id" | "appointments">
+  technicians: Technician[]
+  statuses: Record<string, string>
+  isPending: boolean
+  run: (action: () => Promise<LeadActionResult>) => Promise<boolean>
+}
+
+type Editing = { mode: "book" } | { mode: "reschedule" | "cancel"; id: string } | null
+
+const ANY_TECHNICIAN = "any"
+
+// Scheduled visits can be moved, cancelled or closed out; staff bookings skip the online notice rules
+export function LeadAppointments({ lead, technicians, statuses, isPending, run }: LeadAppointmentsProps) {
+  const [editing, setEditing] = useState<Editing>(null)
+  const [startsAt, setStartsAt] = useState("")
+  const [technicianId, setTechnicianId] = useState(ANY_TECHNICIAN)
+  const [serviceLocation, setServiceLocation] = useState("")
+  const [reason, setReason] = useState("")
+
+  const open = (next: Editing, start = "", technician = ANY_TECHNICIAN) => {
+    setEditing(next)
+    setStartsAt(start)
+    setTechnicianId(technician)
+    setReason("")
+  }
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!editing) return
+
+    const technician = technicianId === ANY_TECHNICIAN ? undefined : technicianId
+    const done = await run(() => {
+      if (editing.mode === "book") {
+        return bookAppointment(lead.id, { startsAt: new Date(startsAt), technicianId: technician, serviceLocation })
+      }
+      return editing.mode === "reschedule"
+        ? rescheduleAppointment(editing.id, { startsAt: new Date(startsAt), technicianId: technician })
+        : cancelAppointment(editing.id, reason)
+    })
+
+    if (done) setEditing(null)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Appointments</h3>
+        <Button size="sm" variant="outline" disabled={isPending} onClick={() => open({ mode: "book" })}>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Book visit
+        </Button>
+      </div>
+
+      {lead.appointments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No appointments yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {lead.appointments.map((appointment) => (
+            <li key={appointment.id} className="space-y-2 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{formatLeadDate(appointment.startsAt, true)}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {appointment.technician.name} · {appointment.serviceLocation}
+                  </p>
+                  {appointment.cancelReason && (
+                    <p className="text-xs text-muted-foreground">Reason: {appointment.cancelReason}</p>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {appointment.emergency && <Badge variant="destructive">Emergency</Badge>}
+                  <Badge variant="outline">{statuses[appointment.status] ?? appointment.status}</Badge>
+                </div>
+              </div>
+              {appointment.status === "SCHEDULED" && (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() =>
+                      open(
+                        { mode: "reschedule", id: appointment.id },
+                        toDateTimeInput(appointment.startsAt),
+                        appointment.technician.id
+                      )
+                    }
+                  >
+                    Reschedule
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() => open({ mode: "cancel", id: appointment.id })}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() => run(() => closeAppointment(appointment.id, "COMPLETED"))}
+                  >
+                    Completed
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={isPending}
+                    onClick={() => run(() => closeAppointment(appointment.id, "NO_SHOW"))}
+                  >
+                    No show
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <form onSubmit={submit} className="space-y-3 rounded-md border p-3">
+          {editing.mode === "cancel" ? (
+            <div className="space-y-2">
+              <Label htmlFor="appointment-reason">Why is the visit cancelled?</Label>
+              <Textarea
+                id="appointment-reason"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                rows={2}
+                required
+                minLength={3}
+              />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="appointment-starts-at">Starts at</Label>
+                  <Input
+                    id="appointment-starts-at"
+                    type="datetime-local"
+                    value={startsAt}
+                    onChange={(event) => setStartsAt(event.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="appointment-technician">Technician</Label>
+                  <Select value={technicianId} onValueChange={setTechnicianId}>
+                    <SelectTrigger id="appointment-technician">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_TECHNICIAN}>Any available</SelectItem>
+                      {technicians.map((technician) => (
+                        <SelectItem key={technician.id} value={technician.id}>
+                          {technician.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {editing.mode === "book" && (
+                <div className="space-y-2">
+                  <Label htmlFor="appointment-location">Service address</Label>
+                  <Input
+                    id="appointment-location"
+                    value={serviceLocation}
+                    onChange={(event) => setServiceLocation(event.target.value)}
+                    required
+                    minLength={5}
+                  />
+                </div>
+              )}
+            </>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" disabled={isPending} onClick={() => setEditing(null)}>
+              Back
+            </Button>
+            <Button type="submit" size="sm" disabled={isPending}>
+              {editing.mode === "book" ? "Book" : editing.mode === "reschedule" ? "Move visit" : "Cancel visit"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
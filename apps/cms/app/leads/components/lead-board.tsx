@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import type { LeadStatus } from "@workspace/config"
+import { Alert, AlertDescription, Badge, Card, CardContent, cn } from "@workspace/ui"
+import { AlertCircle } from "lucide-react"
+import type { LeadStatusColumn, LeadSummary } from "../../../src/lib/leads"
+import { moveLead } from "../actions"
+import { leadsHref, type LeadParams } from "../search-params"
+import { formatLeadDate } from "./format"
+
+interface LeadBoardProps {
+  leads: LeadSummary[]
+  columns: LeadStatusColumn[]
+  params: LeadParams
+}
+
+export function LeadBoard({ leads, columns, params }: LeadBoardProps) {
+  // Statuses shown before the server confirms a move
+  const [moved, setMoved] = useState<Record<string, LeadStatus>>({})
+  const [dragging, setDragging] = useState<LeadSummary | null>(null)
+  const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null)
+  const [error, setError] = useState("")
+
+  // Fresh server data replaces any optimistic moves
+  useEffect(() => setMoved({}), [leads])
+
+  const statusOf = (lead: LeadSummary) => moved[lead.id] ?? lead.status
+  const allowedTargets = dragging
+    ? columns.find((column) => column.status === statusOf(dragging))?.next ?? []
+    : []
+
+  const drop = async (status: LeadStatus) => {
+    const lead = dragging
+    setDragging(null)
+    setDropTarget(null)
+
+    if (!lead || !allowedTargets.includes(status)) return
+
+    setError("")
+    setMoved((current) => ({ ...current, [lead.id]: status }))
+
+    const result = await moveLead(lead.id, status)
+    if (!result.ok) {
+      setError(`Could not move ${lead.name}: ${result.error}`)
+      setMoved(({ [lead.id]: _, ...rest }) => rest)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map((column) => {
+          const columnLeads = leads.filter((lead) => statusOf(lead) === column.status)
+          const canDrop = allowedTargets.includes(column.status)
+
+          return (
+            <section
+              key={column.status}
+              aria-label={column.name}
+              className={cn(
+                "flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 transition-colors",
+                dragging && !canDrop && column.status !== statusOf(dragging) && "opacity-50",
+                dropTarget === column.status && "border-primary bg-primary/5"
+              )}
+              onDragOver={(event) => {
+                if (!canDrop) return
+                event.preventDefault()
+                setDropTarget(column.status)
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === column.status ? null : current))}
+              onDrop={(event) => {
+                event.preventDefault()
+                drop(column.status)
+              }}
+            >
+              <header className="flex items-center justify-between border-b px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: column.color }} />
+                  <h2 className="text-sm font-medium">{column.name}</h2>
+                </div>
+                <Badge variant="secondary">{columnLeads.length}</Badge>
+              </header>
+
+              <div className="flex min-h-24 flex-col gap-2 p-2">
+                {columnLeads.map((lead) => (
+                  <Card
+                    key={lead.id}
+                    draggable={column.next.length > 0}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move"
+                      event.dataTransfer.setData("text/plain", lead.id)
+                      setDragging(lead)
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null)
+                      setDropTarget(null)
+                    }}
+                    className={cn(
+                      "cursor-grab active:cursor-grabbing",
+                      moved[lead.id] && "opacity-70",
+                      column.next.length === 0 && "cursor-default"
+                    )}
+                  >
+                    <CardContent className="space-y-1 p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <Link href={leadsHref(params, { lead: lead.id })} scroll={false} className="font-medium hover:underline">
+                          {lead.name}
+                        </Link>
+                        <Badge variant="secondary" className="tabular-nums" title="Lead score">
+                          {lead.score}
+                        </Badge>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">{lead.company ?? lead.email}</p>
+                      <div className="flex items-center justify-between pt-1 text-xs text-muted-foreground">
+                        <span>{lead.assignedTo?.name ?? "Unassigned"}</span>
+                        <span>{formatLeadDate(lead.createdAt)}</span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
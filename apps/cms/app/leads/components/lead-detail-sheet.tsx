@@ -0,0 +1,284 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  Alert,
+  AlertDescription,
+  Badge,
+  Button,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Separator,
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  Textarea,
+} from "@workspace/ui"
+import { AlertCircle, FileText, Loader2, MessageCircle, Plus } from "lucide-react"
+import type { Assignee, LeadDetail, LeadStatusColumn, Technician } from "../../../src/lib/leads"
+import { addLeadNote, assignLead, moveLead, type LeadActionResult } from "../actions"
+import { leadsHref, type LeadParams } from "../search-params"
+import { formatLeadDate, formatLeadValue } from "./format"
+import { LeadAppointments } from "./lead-appointments"
+
+interface LeadDetailSheetProps {
+  lead: LeadDetail | null
+  columns: LeadStatusColumn[]
+  assignees: Assignee[]
+  technicians: Technician[]
+  labels: {
+    priorities: Record<string, string>
+    sources: Record<string, string>
+    activityTypes: Record<string, string>
+    quoteStatuses: Record<string, string>
+    appointmentStatuses: Record<string, string>
+  }
+  params: LeadParams
+}
+
+const UNASSIGNED = "unassigned"
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="text-sm">{children}</dd>
+    </div>
+  )
+}
+
+export function LeadDetailSheet({ lead, columns, assignees, technicians, labels, params }: LeadDetailSheetProps) {
+  const router = useRouter()
+  const [note, setNote] = useState("")
+  const [error, setError] = useState("")
+  const [isPending, setIsPending] = useState(false)
+
+  const close = () => {
+    setError("")
+    router.push(leadsHref(params, { lead: undefined }), { scroll: false })
+  }
+
+  const run = async (action: () => Promise<LeadActionResult>) => {
+    setError("")
+    setIsPending(true)
+    const result = await action()
+    setIsPending(false)
+    if (!result.ok) setError(result.error)
+    return result.ok
+  }
+
+  if (!lead) return null
+
+  const status = columns.find((column) => column.status === lead.status)
+  const nextStatuses = columns.filter((column) => status?.next.includes(column.status))
+
+  const submitNote = async (event: FormEvent) => {
+    event.preventDefault()
+    if (await run(() => addLeadNote(lead.id, note))) {
+      setNote("")
+    }
+  }
+
+  return (
+    <Sheet open onOpenChange={(open) => !open && close()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{lead.name}</SheetTitle>
+          <SheetDescription>
+            {lead.email}
+            {lead.phone && ` · ${lead.phone}`}
+          </SheetDescription>
+          {lead.whatsapp && (
+            <div className="flex gap-2 pt-2">
+              <Button asChild size="sm" variant="outline">
+                <a href={lead.whatsapp.en} target="_blank" rel="noreferrer">
+                  <MessageCircle className="mr-2 h-4 w-4" />
+                  WhatsApp
+                </a>
+              </Button>
+              <Button asChild size="sm" variant="outline">
+                <a href={lead.whatsapp.ar} target="_blank" rel="noreferrer" lang="ar">
+                  <MessageCircle className="mr-2 h-4 w-4" />
+                  واتساب
+                </a>
+              </Button>
+            </div>
+          )}
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="lead-status">Status</Label>
+              <Select
+                value={lead.status}
+                disabled={isPending || nextStatuses.length === 0}
+                onValueChange={(next) => run(() => moveLead(lead.id, next))}
+              >
+                <SelectTrigger id="lead-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={lead.status}>{status?.name ?? lead.status}</SelectItem>
+                  {nextStatuses.map((column) => (
+                    <SelectItem key={column.status} value={column.status}>
+                      {column.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lead-assignee">Assignee</Label>
+              <Select
+                value={lead.assignedTo?.id ?? UNASSIGNED}
+                disabled={isPending}
+                onValueChange={(userId) => run(() => assignLead(lead.id, userId === UNASSIGNED ? null : userId))}
+              >
+                <SelectTrigger id="lead-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {assignee.name ?? assignee.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-4">
+            <Field label="Company">{lead.company ?? "—"}</Field>
+            <Field label="Service">{lead.service?.title ?? lead.serviceType ?? "—"}</Field>
+            <Field label="Source">{labels.sources[lead.source] ?? lead.source}</Field>
+            <Field label="Priority">{labels.priorities[lead.priority] ?? lead.priority}</Field>
+            <Field label="Score">{lead.score} / 100</Field>
+            <Field label="City">{[lead.city, lead.zipCode].filter(Boolean).join(" ") || "—"}</Field>
+            <Field label="Service area">
+              {lead.inServiceArea === null
+                ? "Not checked"
+                : lead.inServiceArea
+                  ? `${lead.serviceArea ?? "In area"} · ${formatLeadValue(lead.travelSurcharge)} travel`
+                  : "Out of area"}
+            </Field>
+            <Field label="Estimated value">{formatLeadValue(lead.estimatedValue)}</Field>
+            <Field label="Follow-up">{formatLeadDate(lead.followUpDate, true)}</Field>
+          </dl>
+
+          {lead.message && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Message</p>
+              <p className="whitespace-pre-wrap text-sm">{lead.message}</p>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Quotes</h3>
+              <Button asChild size="sm" variant="outline">
+                <Link href={`/quotes/new?lead=${lead.id}`}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New quote
+                </Link>
+              </Button>
+            </div>
+            {lead.quotes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No quotes yet.</p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {lead.quotes.map((quote) => (
+                  <li key={quote.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <Link href={`/quotes/${quote.id}`} className="truncate text-sm font-medium hover:underline">
+                        {quote.title}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        {quote.label} · {formatLeadValue(quote.total)}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Badge variant="outline">{labels.quoteStatuses[quote.status] ?? quote.status}</Badge>
+                      <Button asChild size="icon" variant="ghost" title="Download PDF">
+                        <a href={`/api/quotes/${quote.id}/pdf`} target="_blank" rel="noreferrer">
+                          <FileText className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <LeadAppointments
+            lead={lead}
+            technicians={technicians}
+            statuses={labels.appointmentStatuses}
+            isPending={isPending}
+            run={run}
+          />
+
+          <Separator />
+
+          <form onSubmit={submitNote} className="space-y-2">
+            <Label htmlFor="lead-note">Add a note</Label>
+            <Textarea
+              id="lead-note"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="Called back, left a voicemail…"
+              rows={3}
+            />
+            <div className="flex justify-end">
+              <Button type="submit" size="sm" disabled={isPending || !note.trim()}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add note
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Activity</h3>
+            {lead.activities.length === 0 && <p className="text-sm text-muted-foreground">No activity yet.</p>}
+            <ol className="space-y-4 border-l pl-4">
+              {lead.activities.map((activity) => (
+                <li key={activity.id} className="relative">
+                  <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground" />
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">{activity.title}</p>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {labels.activityTypes[activity.type] ?? activity.type}
+                    </Badge>
+                  </div>
+                  {activity.description && (
+                    <p className="whitespace-pre-wrap text-sm text-muted-foreground">{activity.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{formatLeadDate(activity.createdAt, true)}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@workspace/ui"
+import { MoreHorizontal } from "lucide-react"
+import type { LeadStatusColumn, LeadSummary } from "../../../src/lib/leads"
+import { assignLead, autoAssignLead, moveLead, type LeadActionResult } from "../actions"
+import { leadsHref, type LeadParams } from "../search-params"
+
+interface LeadRowActionsProps {
+  lead: LeadSummary
+  columns: LeadStatusColumn[]
+  params: LeadParams
+  currentUserId: string
+  onError: (message: string) => void
+}
+
+export function LeadRowActions({ lead, columns, params, currentUserId, onError }: LeadRowActionsProps) {
+  const router = useRouter()
+  const [isPending, setIsPending] = useState(false)
+  const next = columns.find((column) => column.status === lead.status)?.next ?? []
+
+  const run = async (action: () => Promise<LeadActionResult>) => {
+    setIsPending(true)
+    const result = await action()
+    setIsPending(false)
+    if (!result.ok) {
+      onError(`Could not update ${lead.name}: ${result.error}`)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" disabled={isPending} aria-label={`Actions for ${lead.name}`}>
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{lead.name}</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => router.push(leadsHref(params, { lead: lead.id }), { scroll: false })}>
+          View details
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={next.length === 0}>Move to</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {columns
+              .filter((column) => next.includes(column.status))
+              .map((column) => (
+                <DropdownMenuItem key={column.status} onSelect={() => run(() => moveLead(lead.id, column.status))}>
+                  {column.name}
+                </DropdownMenuItem>
+              ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        {!lead.assignedTo && (
+          <DropdownMenuItem onSelect={() => run(() => autoAssignLead(lead.id))}>Auto-assign</DropdownMenuItem>
+        )}
+        {lead.assignedTo?.id === currentUserId ? (
+          <DropdownMenuItem onSelect={() => run(() => assignLead(lead.id, null))}>Unassign me</DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem onSelect={() => run(() => assignLead(lead.id, currentUserId))}>Assign to me</DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,175 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  Alert,
+  AlertDescription,
+  Badge,
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@workspace/ui"
+import { AlertCircle, ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import type { LeadStatusColumn, LeadSummary } from "../../../src/lib/leads"
+import { leadsHref, type LeadParams } from "../search-params"
+import { formatLeadDate, formatLeadValue } from "./format"
+import { LeadRowActions } from "./lead-row-actions"
+
+interface LeadTableProps {
+  leads: LeadSummary[]
+  total: number
+  page: number
+  pageCount: number
+  columns: LeadStatusColumn[]
+  priorities: Record<string, string>
+  params: LeadParams
+  currentUserId: string
+}
+
+interface SortableHeadProps {
+  field: string
+  label: string
+  params: LeadParams
+}
+
+function SortableHead({ field, label, params }: SortableHeadProps) {
+  const active = (params.sort ?? "createdAt") === field
+  const order = params.order === "asc" ? "asc" : "desc"
+  const Icon = !active ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead aria-sort={active ? (order === "asc" ? "ascending" : "descending") : undefined}>
+      <Link
+        href={leadsHref(params, { sort: field, order: active && order === "desc" ? "asc" : "desc" })}
+        className="inline-flex items-center gap-1 hover:text-foreground"
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </Link>
+    </TableHead>
+  )
+}
+
+// Page numbers around the current page, with the first and last always shown
+function pageWindow(page: number, pageCount: number): number[] {
+  const pages = new Set([1, page - 1, page, page + 1, pageCount])
+  return [...pages].filter((n) => n >= 1 && n <= pageCount).sort((a, b) => a - b)
+}
+
+export function LeadTable({ leads, total, page, pageCount, columns, priorities, params, currentUserId }: LeadTableProps) {
+  const router = useRouter()
+  const [error, setError] = useState("")
+  const statuses = Object.fromEntries(columns.map((column) => [column.status, column]))
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableHead field="name" label="Name" params={params} />
+              <SortableHead field="status" label="Status" params={params} />
+              <SortableHead field="priority" label="Priority" params={params} />
+              <SortableHead field="score" label="Score" params={params} />
+              <TableHead>Service</TableHead>
+              <TableHead>Assignee</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <SortableHead field="followUpDate" label="Follow-up" params={params} />
+              <SortableHead field="createdAt" label="Created" params={params} />
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {leads.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={10} className="h-24 text-center text-muted-foreground">
+                  No leads match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+            {leads.map((lead) => (
+              <TableRow
+                key={lead.id}
+                className="cursor-pointer"
+                onClick={() => router.push(leadsHref(params, { lead: lead.id }), { scroll: false })}
+              >
+                <TableCell>
+                  <div className="font-medium">{lead.name}</div>
+                  <div className="text-xs text-muted-foreground">{lead.email}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" style={{ borderColor: statuses[lead.status]?.color }}>
+                    {statuses[lead.status]?.name ?? lead.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{priorities[lead.priority] ?? lead.priority}</TableCell>
+                <TableCell className="tabular-nums">{lead.score}</TableCell>
+                <TableCell>{lead.service?.title ?? lead.serviceType ?? "—"}</TableCell>
+                <TableCell>{lead.assignedTo?.name ?? "Unassigned"}</TableCell>
+                <TableCell className="text-right">{formatLeadValue(lead.estimatedValue)}</TableCell>
+                <TableCell>{formatLeadDate(lead.followUpDate)}</TableCell>
+                <TableCell>{formatLeadDate(lead.createdAt)}</TableCell>
+                <TableCell onClick={(event) => event.stopPropagation()}>
+                  <LeadRowActions
+                    lead={lead}
+                    columns={columns}
+                    params={params}
+                    currentUserId={currentUserId}
+                    onError={setError}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total} {total === 1 ? "lead" : "leads"}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              {page > 1 && (
+                <PaginationItem>
+                  <PaginationPrevious href={leadsHref(params, { page: String(page - 1) })} />
+                </PaginationItem>
+              )}
+              {pageWindow(page, pageCount).map((n) => (
+                <PaginationItem key={n}>
+                  <PaginationLink href={leadsHref(params, { page: String(n) })} isActive={n === page}>
+                    {n}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              {page < pageCount && (
+                <PaginationItem>
+                  <PaginationNext href={leadsHref(params, { page: String(page + 1) })} />
+                </PaginationItem>
+              )}
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  Button,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@workspace/ui"
+import { KanbanSquare, Search, Table2 } from "lucide-react"
+import type { Assignee } from "../../../src/lib/leads"
+import { leadsHref, type LeadParams } from "../search-params"
+
+export interface FilterOption {
+  value: string
+  name: string
+}
+
+interface LeadToolbarProps {
+  params: LeadParams
+  statuses: FilterOption[]
+  priorities: FilterOption[]
+  sources: FilterOption[]
+  assignees: Assignee[]
+}
+
+// Radix Select items cannot have an empty value
+const ALL = "all"
+
+interface FilterSelectProps {
+  label: string
+  value: string | undefined
+  options: FilterOption[]
+  onChange: (value: string | undefined) => void
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps) {
+  return (
+    <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? undefined : next)}>
+      <SelectTrigger className="w-40" aria-label={label}>
+        <SelectValue placeholder={label} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All {label.toLowerCase()}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function LeadToolbar({ params, statuses, priorities, sources, assignees }: LeadToolbarProps) {
+  const router = useRouter()
+  const [search, setSearch] = useState(params.search ?? "")
+  const view = params.view === "table" ? "table" : "board"
+
+  const filter = (key: string) => (value: string | undefined) => router.push(leadsHref(params, { [key]: value }))
+
+  const dueOptions = [
+    { value: "overdue", name: "Overdue" },
+    { value: "today", name: "Due today" },
+  ]
+
+  const assigneeOptions = [
+    { value: "me", name: "My leads" },
+    { value: "unassigned", name: "Unassigned" },
+    ...assignees.map((assignee) => ({ value: assignee.id, name: assignee.name ?? assignee.email })),
+  ]
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex rounded-md border p-0.5">
+        <Button asChild size="sm" variant={view === "board" ? "secondary" : "ghost"}>
+          <Link href={leadsHref(params, { view: "board" })}>
+            <KanbanSquare className="mr-1 h-4 w-4" />
+            Board
+          </Link>
+        </Button>
+        <Button asChild size="sm" variant={view === "table" ? "secondary" : "ghost"}>
+          <Link href={leadsHref(params, { view: "table" })}>
+            <Table2 className="mr-1 h-4 w-4" />
+            Table
+          </Link>
+        </Button>
+      </div>
+
+      <form
+        className="relative"
+        onSubmit={(event) => {
+          event.preventDefault()
+          router.push(leadsHref(params, { search: search.trim() || undefined }))
+        }}
+      >
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search name, email, phone…"
+          className="w-64 pl-8"
+        />
+      </form>
+
+      {/* Board columns already split leads by status */}
+      {view === "table" && (
+        <FilterSelect label="Statuses" value={params.status} options={statuses} onChange={filter("status")} />
+      )}
+      <FilterSelect label="Priorities" value={params.priority} options={priorities} onChange={filter("priority")} />
+      <FilterSelect label="Sources" value={params.source} options={sources} onChange={filter("source")} />
+      <FilterSelect label="Assignees" value={params.assignee} options={assigneeOptions} onChange={filter("assignee")} />
+      <FilterSelect label="Follow-ups" value={params.due} options={dueOptions} onChange={filter("due")} />
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { Metadata } from "next"
+import { redirect } from "next/navigation"
+import {
+  APPOINTMENT_STATUS_META,
+  LEAD_ACTIVITY_TYPE_META,
+  LEAD_SOURCES,
+  LEAD_SOURCE_META,
+  PRIORITIES,
+  PRIORITY_META,
+  QUOTE_STATUS_META,
+  type EnumMeta,
+} from "@workspace/config"
+import { db } from "@workspace/database"
+import {
+  getLeadDetail,
+  getLeadStatusColumns,
+  listAssignees,
+  listLeadBoard,
+  listLeadTable,
+  listTechnicians,
+  parseLeadQuery,
+} from "../../src/lib/leads"
+import { getSessionUser, isAllowed } from "../../src/lib/session"
+import { LeadBoard } from "./components/lead-board"
+import { LeadDetailSheet } from "./components/lead-detail-sheet"
+import { LeadTable } from "./components/lead-table"
+import { LeadToolbar } from "./components/lead-toolbar"
+import type { LeadParams } from "./search-params"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Leads - Aurora CMS",
+  description: "Track and work incoming leads",
+}
+
+interface LeadsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+function toNames(meta: Readonly<Record<string, EnumMeta>>): Record<string, string> {
+  return Object.fromEntries(Object.entries(meta).map(([value, { name }]) => [value, name]))
+}
+
+export default async function LeadsPage({ searchParams }: LeadsPageProps) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    redirect("/auth/signin")
+  }
+
+  if (!isAllowed(user, "lead:read")) {
+    redirect("/dashboard")
+  }
+
+  const query = parseLeadQuery(await searchParams)
+  const params: LeadParams = Object.fromEntries(
+    Object.entries(query).map(([key, value]) => [key, value === undefined ? undefined : String(value)])
+  )
+  const columns = getLeadStatusColumns()
+  // "me" is kept in the URL so the link works for every agent
+  const filters = query.assignee === "me" ? { ...query, assignee: user.id } : query
+
+  const [assignees, technicians, lead, table, board] = await Promise.all([
+    listAssignees(db),
+    listTechnicians(db),
+    query.lead ? getLeadDetail(db, user, query.lead) : null,
+    query.view === "table" ? listLeadTable(db, user, filters) : null,
+    query.view === "board" ? listLeadBoard(db, user, filters) : null,
+  ])
+
+  const labels = {
+    priorities: toNames(PRIORITY_META),
+    sources: toNames(LEAD_SOURCE_META),
+    activityTypes: toNames(LEAD_ACTIVITY_TYPE_META),
+    quoteStatuses: toNames(QUOTE_STATUS_META),
+    appointmentStatuses: toNames(APPOINTMENT_STATUS_META),
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Leads</h1>
+        <p className="text-muted-foreground">
+          Move leads through the pipeline, assign them and keep notes on every conversation.
+        </p>
+      </div>
+
+      <LeadToolbar
+        params={params}
+        statuses={columns.map(({ status, name }) => ({ value: status, name }))}
+        priorities={PRIORITIES.map((value) => ({ value, name: PRIORITY_META[value].name }))}
+        sources={LEAD_SOURCES.map((value) => ({ value, name: LEAD_SOURCE_META[value].name }))}
+        assignees={assignees}
+      />
+
+      {table && (
+        <LeadTable
+          {...table}
+          columns={columns}
+          priorities={labels.priorities}
+          params={params}
+          currentUserId={user.id}
+        />
+      )}
+      {board && <LeadBoard leads={board} columns={columns} params={params} />}
+
+      <LeadDetailSheet
+        lead={lead}
+        columns={columns}
+        assignees={assignees}
+        technicians={technicians}
+        labels={labels}
+        params={params}
+      />
+    </div>
+  )
+}
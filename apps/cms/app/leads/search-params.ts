@@ -0,0 +1,23 @@
+// Current /leads query string values, as strings
+export type LeadParams = Record<string, string | undefined>
+
+// Query keys that change which leads are listed; changing one resets paging
+const FILTER_KEYS = ["search", "status", "priority", "source", "assignee", "due", "sort", "order"]
+
+// Builds a /leads URL from the current params with `changes` applied.
+// Empty values are dropped.
+export function leadsHref(params: LeadParams, changes: LeadParams = {}): string {
+  const next = { ...params, ...changes }
+
+  if (!("page" in changes) && FILTER_KEYS.some((key) => key in changes)) {
+    delete next.page
+  }
+
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(next)) {
+    if (value) search.set(key, value)
+  }
+
+  const query = search.toString()
+  return query ? `/leads?${query}` : "/leads"
+}
@@ -0,0 +1,163 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { QUOTE_STATUS_META } from "@workspace/config"
+import { db } from "@workspace/database"
+import { Badge, Button, Card, CardContent, CardHeader, CardTitle } from "@workspace/ui"
+import { ArrowLeft, ExternalLink, FileText } from "lucide-react"
+import { getQuoteBuilderOptions, getQuoteDetail } from "../../../src/lib/quotes"
+import { getSessionUser, isAllowed } from "../../../src/lib/session"
+import { QuoteBuilder } from "../components/quote-builder"
+import { formatQuoteAmount } from "../components/format"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Quote - Aurora CMS",
+  description: "Review, revise and send a quote",
+}
+
+interface QuotePageProps {
+  params: Promise<{ id: string }>
+}
+
+const dateFormat = new Intl.DateTimeFormat("en", { dateStyle: "medium" })
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between text-sm ${strong ? "font-semibold" : ""}`}>
+      <span className={strong ? undefined : "text-muted-foreground"}>{label}</span>
+      <span className="tabular-nums">{value}</span>
+    </div>
+  )
+}
+
+export default async function QuotePage({ params }: QuotePageProps) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    redirect("/auth/signin")
+  }
+
+  if (!isAllowed(user, "quote:manage")) {
+    redirect("/dashboard")
+  }
+
+  const quote = await getQuoteDetail(db, user, (await params).id)
+
+  if (!quote) {
+    notFound()
+  }
+
+  const status = QUOTE_STATUS_META[quote.status]
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <Link
+            href={`/leads?lead=${quote.lead.id}`}
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            {quote.lead.name}
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">Quote {quote.label}</h1>
+            <Badge variant="outline">{status.name}</Badge>
+          </div>
+          <p className="text-muted-foreground">
+            {quote.sentAt
+              ? `Sent ${dateFormat.format(quote.sentAt)}${quote.expiresAt ? `, valid until ${dateFormat.format(quote.expiresAt)}` : ""}`
+              : `Created ${dateFormat.format(quote.createdAt)}`}
+          </p>
+        </div>
+        <Button asChild variant="outline">
+          <a href={`/api/quotes/${quote.id}/pdf`} target="_blank" rel="noreferrer">
+            <FileText className="mr-2 h-4 w-4" />
+            Download PDF
+          </a>
+        </Button>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <QuoteBuilder leadId={quote.lead.id} quote={quote} options={getQuoteBuilderOptions()} />
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Saved totals</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Row label="Subtotal" value={formatQuoteAmount(quote.subtotal)} />
+              {quote.surcharge > 0 && <Row label="Emergency surcharge" value={formatQuoteAmount(quote.surcharge)} />}
+              <Row label={`Tax (${Number((quote.taxRate * 100).toFixed(3))}%)`} value={formatQuoteAmount(quote.tax)} />
+              <Row label="Total" value={formatQuoteAmount(quote.total)} strong />
+
+              {quote.financing.length > 0 && (
+                <div className="space-y-1 border-t pt-3">
+                  <p className="text-xs font-medium text-muted-foreground">Financing offered</p>
+                  {quote.financing.map((offer) => (
+                    <Row
+                      key={offer.months}
+                      label={`${offer.months} mo at ${offer.apr}% APR`}
+                      value={`${formatQuoteAmount(offer.monthlyPayment)}/mo`}
+                    />
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {(quote.acceptedAt || quote.declinedAt) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Customer response</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {quote.acceptedAt ? (
+                  <>
+                    <Row label="Accepted" value={dateFormat.format(quote.acceptedAt)} />
+                    <Row label="Signed by" value={quote.signatureName ?? ""} />
+                    <Row
+                      label="Payment"
+                      value={quote.financingMonths ? `Financed over ${quote.financingMonths} months` : "In full"}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Row label="Declined" value={dateFormat.format(quote.declinedAt!)} />
+                    <p className="whitespace-pre-line text-sm">{quote.declineReason}</p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {quote.customerUrl && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Customer link</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  Emailed to {quote.lead.email} when the quote was sent. The customer accepts or declines here.
+                </p>
+                <p className="break-all text-xs">{quote.customerUrl}</p>
+                <Button asChild variant="outline" size="sm">
+                  <a href={quote.customerUrl} target="_blank" rel="noreferrer">
+                    <ExternalLink className="mr-2 h-4 w-4" />
+                    Open customer page
+                  </a>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { after } from "next/server"
+import { z, ZodError } from "zod"
+import { QuoteManager, toAPIError, type QuoteInput } from "@workspace/core"
+import { db, type Prisma } from "@workspace/database"
+import { requireLead } from "../../src/lib/leads"
+import { emailQuoteToCustomer, requireQuote } from "../../src/lib/quotes"
+import { getSessionUser, requirePermission, type SessionUser } from "../../src/lib/session"
+
+export type QuoteActionResult = { ok: true; id: string } | { ok: false; error: string }
+
+// Runs a quote mutation for a session with quote:manage and refreshes the quote and
+// the lead it belongs to. Validation errors come back as the first message.
+async function quoteAction(run: (user: SessionUser) => Promise<{ id: string }>): Promise<QuoteActionResult> {
+  try {
+    const user = requirePermission({ user: await getSessionUser() }, "quote:manage")
+    const quote = await run(user)
+    revalidatePath("/leads")
+    revalidatePath(`/quotes/${quote.id}`)
+    return { ok: true, id: quote.id }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { ok: false, error: error.issues[0]?.message ?? "Invalid quote" }
+    }
+    const { status, error: body } = toAPIError(error)
+    if (status >= 500) {
+      console.error("Quote action error:", error)
+    }
+    return { ok: false, error: body.message }
+  }
+}
+
+const idSchema = z.string().min(1)
+
+// Creates a quote, or revises one. Sent quotes are revised as a new version.
+// Agents only quote the leads assigned to them.
+export async function saveQuote(leadId: string, quoteId: string | null, input: QuoteInput): Promise<QuoteActionResult> {
+  return quoteAction(async (user) => {
+    if (quoteId) {
+      const quote = await requireQuote(db, user, idSchema.parse(quoteId))
+      return db.$transaction((tx: Prisma.TransactionClient) =>
+        new QuoteManager(tx).reviseQuote(quote.id, input, { actorId: user.id })
+      )
+    }
+
+    const lead = await requireLead(db, user, "lead:update", idSchema.parse(leadId))
+    return new QuoteManager(db).createQuote(lead.id, input, { actorId: user.id })
+  })
+}
+
+// Sends the customer a link to accept or decline. A failed email leaves the
+// quote sent; the link can still be shared from the quote page.
+export async function sendQuote(quoteId: string): Promise<QuoteActionResult> {
+  return quoteAction(async (user) => {
+    const { id } = await requireQuote(db, user, idSchema.parse(quoteId))
+    const quote = await db.$transaction((tx: Prisma.TransactionClient) =>
+      new QuoteManager(tx).sendQuote(id, { actorId: user.id })
+    )
+    after(() => emailQuoteToCustomer(db, quote).catch((error: unknown) => console.error("Quote email failed:", error)))
+    return quote
+  })
+}
@@ -0,0 +1,6 @@
+const amountFormat = new Intl.NumberFormat("en", { style: "currency", currency: "USD" })
+
+// Quotes show cents, unlike the rounded lead values
+export function formatQuoteAmount(amount: number): string {
+  return amountFormat.format(amount)
+}
@@ -0,0 +1,304 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from "@workspace/ui"
+import { AlertCircle, Loader2, Plus, Send, Trash2 } from "lucide-react"
+import type { QuoteInput } from "@workspace/core"
+import type { QuoteBuilderOptions, QuoteDetail } from "../../../src/lib/quotes"
+import { saveQuote, sendQuote, type QuoteActionResult } from "../actions"
+import { formatQuoteAmount } from "./format"
+
+interface QuoteBuilderProps {
+  leadId: string
+  quote: QuoteDetail | null
+  options: QuoteBuilderOptions
+}
+
+// Form state keeps numbers as typed; they are converted on submit
+interface ItemRow {
+  key: number
+  type: string
+  description: string
+  quantity: string
+  unitPrice: string
+}
+
+let nextKey = 0
+const toRow = (item: Partial<Omit<ItemRow, "key">> = {}): ItemRow => ({
+  key: nextKey++,
+  type: "LABOR",
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  ...item,
+})
+
+const toDateInput = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : "")
+
+export function QuoteBuilder({ leadId, quote, options }: QuoteBuilderProps) {
+  const router = useRouter()
+  const [title, setTitle] = useState(quote?.title ?? "")
+  const [notes, setNotes] = useState(quote?.notes ?? "")
+  const [items, setItems] = useState<ItemRow[]>(
+    quote
+      ? quote.items.map(({ type, description, quantity, unitPrice }) =>
+          toRow({ type, description, quantity: String(quantity), unitPrice: String(unitPrice) })
+        )
+      : [toRow({ type: "DIAGNOSTIC", description: "Diagnostic visit" }), toRow()]
+  )
+  const [emergency, setEmergency] = useState(quote?.emergency ?? false)
+  const [serviceDate, setServiceDate] = useState(toDateInput(quote?.serviceDate ?? null))
+  const [taxPercent, setTaxPercent] = useState(String(Number(((quote?.taxRate ?? options.taxRate) * 100).toFixed(3))))
+  const [validDays, setValidDays] = useState(String(quote?.validDays ?? options.validDays))
+  const [offerFinancing, setOfferFinancing] = useState(quote ? quote.financing.length > 0 : true)
+  const [error, setError] = useState("")
+  const [isPending, setIsPending] = useState(false)
+
+  // Accepted quotes are final; anything else already sent is revised as a new version
+  const readOnly = quote?.status === "ACCEPTED"
+  const isDraft = !quote || quote.status === "DRAFT"
+
+  const defaultPrice = (type: string) => options.itemTypes.find((option) => option.value === type)?.defaultPrice ?? null
+  const lineTotal = (item: ItemRow) =>
+    (Number(item.quantity) || 0) *
+    (item.unitPrice === "" ? (defaultPrice(item.type) ?? 0) : Number(item.unitPrice) || 0)
+  const subtotal = items.reduce((sum, item) => sum + lineTotal(item), 0)
+
+  const updateItem = (key: number, changes: Partial<ItemRow>) =>
+    setItems((rows) => rows.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+
+  const run = async (action: () => Promise<QuoteActionResult>) => {
+    setError("")
+    setIsPending(true)
+    const result = await action()
+    setIsPending(false)
+
+    if (!result.ok) {
+      setError(result.error)
+      return
+    }
+    if (result.id === quote?.id) {
+      router.refresh()
+    } else {
+      router.push(`/quotes/${result.id}`)
+    }
+  }
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault()
+
+    const input: QuoteInput = {
+      title,
+      notes: notes.trim() || undefined,
+      items: items.map((item) => ({
+        type: item.type as QuoteInput["items"][number]["type"],
+        description: item.description,
+        quantity: Number(item.quantity),
+        unitPrice: item.unitPrice === "" ? undefined : Number(item.unitPrice),
+      })),
+      emergency,
+      // Noon keeps the calendar day the same in every US time zone
+      serviceDate: serviceDate ? new Date(`${serviceDate}T12:00:00`) : undefined,
+      taxRate: Number(taxPercent) / 100,
+      validDays: Number(validDays),
+      offerFinancing,
+    }
+
+    run(() => saveQuote(leadId, quote?.id ?? null, input))
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <fieldset disabled={readOnly || isPending} className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="quote-title">Title</Label>
+          <Input
+            id="quote-title"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Furnace replacement"
+          />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Line items</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {items.map((item) => (
+              <div key={item.key} className="grid grid-cols-12 items-end gap-2">
+                <div className="col-span-2">
+                  <Select value={item.type} onValueChange={(type) => updateItem(item.key, { type })}>
+                    <SelectTrigger aria-label="Type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options.itemTypes.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  className="col-span-5"
+                  aria-label="Description"
+                  value={item.description}
+                  onChange={(event) => updateItem(item.key, { description: event.target.value })}
+                  placeholder="Description"
+                />
+                <Input
+                  className="col-span-1"
+                  aria-label="Quantity"
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  value={item.quantity}
+                  onChange={(event) => updateItem(item.key, { quantity: event.target.value })}
+                />
+                <Input
+                  className="col-span-2"
+                  aria-label="Unit price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unitPrice}
+                  onChange={(event) => updateItem(item.key, { unitPrice: event.target.value })}
+                  placeholder={defaultPrice(item.type)?.toFixed(2) ?? "0.00"}
+                />
+                <p className="col-span-1 pb-2 text-right text-sm tabular-nums">{formatQuoteAmount(lineTotal(item))}</p>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1"
+                  title="Remove item"
+                  disabled={items.length === 1}
+                  onClick={() => setItems((rows) => rows.filter((row) => row.key !== item.key))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setItems((rows) => [...rows, toRow()])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add item
+              </Button>
+              <p className="text-sm">
+                Subtotal <span className="font-medium tabular-nums">{formatQuoteAmount(subtotal)}</span>
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="quote-service-date">Service date</Label>
+            <Input
+              id="quote-service-date"
+              type="date"
+              value={serviceDate}
+              onChange={(event) => setServiceDate(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-tax">Tax rate (%)</Label>
+            <Input
+              id="quote-tax"
+              type="number"
+              min="0"
+              max="25"
+              step="0.001"
+              value={taxPercent}
+              onChange={(event) => setTaxPercent(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-valid-days">Valid for (days)</Label>
+            <Input
+              id="quote-valid-days"
+              type="number"
+              min="1"
+              max="365"
+              value={validDays}
+              onChange={(event) => setValidDays(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="quote-emergency"
+              checked={emergency}
+              onCheckedChange={(checked) => setEmergency(checked === true)}
+            />
+            <Label htmlFor="quote-emergency">Emergency service (adds after-hours surcharges)</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="quote-financing"
+              checked={offerFinancing}
+              onCheckedChange={(checked) => setOfferFinancing(checked === true)}
+            />
+            <Label htmlFor="quote-financing">Offer financing when eligible</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="quote-notes">Notes for the customer</Label>
+          <Textarea
+            id="quote-notes"
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            placeholder="Warranty, scheduling, what is not included…"
+            rows={4}
+          />
+        </div>
+      </fieldset>
+
+      {!readOnly && (
+        <div className="flex justify-end gap-2">
+          <Button type="submit" variant={isDraft && quote ? "outline" : "default"} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {!quote ? "Create draft" : isDraft ? "Save draft" : "Save as new version"}
+          </Button>
+          {quote && isDraft && (
+            <Button type="button" disabled={isPending} onClick={() => run(() => sendQuote(quote.id))}>
+              <Send className="mr-2 h-4 w-4" />
+              Mark as sent
+            </Button>
+          )}
+        </div>
+      )}
+    </form>
+  )
+}
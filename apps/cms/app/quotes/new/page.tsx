@@ -0,0 +1,66 @@
+import { Metadata } from "next"
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { policyWhere } from "@workspace/auth"
+import { db } from "@workspace/database"
+import { ArrowLeft } from "lucide-react"
+import { getQuoteBuilderOptions } from "../../../src/lib/quotes"
+import { getSessionUser, isAllowed } from "../../../src/lib/session"
+import { QuoteBuilder } from "../components/quote-builder"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "New quote - Aurora CMS",
+  description: "Build a quote for a lead",
+}
+
+interface NewQuotePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function NewQuotePage({ searchParams }: NewQuotePageProps) {
+  const user = await getSessionUser()
+
+  if (!user) {
+    redirect("/auth/signin")
+  }
+
+  if (!isAllowed(user, "quote:manage")) {
+    redirect("/dashboard")
+  }
+
+  const { lead: leadId } = await searchParams
+  const lead =
+    typeof leadId === "string"
+      ? await db.lead.findFirst({
+          where: { AND: [{ id: leadId }, policyWhere(user, "lead:update", "Lead")] },
+          select: { id: true, name: true },
+        })
+      : null
+
+  if (!lead) {
+    notFound()
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      <div>
+        <Link
+          href={`/leads?lead=${lead.id}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {lead.name}
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">New quote</h1>
+        <p className="text-muted-foreground">
+          Labor and diagnostic visits are priced from the standard rates unless you enter a price.
+        </p>
+      </div>
+
+      <QuoteBuilder leadId={lead.id} quote={null} options={getQuoteBuilderOptions()} />
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { ZodError } from "zod"
+import { SETTINGS, isSettingKey } from "@workspace/config"
+import { SettingsManager, ValidationError, toAPIError } from "@workspace/core"
+import { db } from "@workspace/database"
+import { revalidateContent } from "../../src/lib/revalidation"
+import { parseSettingsForm, type SettingFieldValue } from "../../src/lib/settings"
+import { getSessionUser, requirePermission } from "../../src/lib/session"
+
+export type SettingsActionResult = { ok: true } | { ok: false; error: string; field?: string }
+
+// Saves the whole form for a session with settings:manage. Nothing is saved unless every
+// field validates; the first problem comes back with the field it belongs to.
+export async function saveSettings(form: Record<string, SettingFieldValue>): Promise<SettingsActionResult> {
+  try {
+    requirePermission({ user: await getSessionUser() }, "settings:manage")
+    await new SettingsManager(db).setSettings(parseSettingsForm(form))
+    revalidatePath("/settings")
+    revalidateContent("Setting")
+    return { ok: true }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      const field = String(issue?.path[0] ?? "")
+      const label = isSettingKey(field) ? SETTINGS[field].label : "Setting"
+      return { ok: false, error: `${label}: ${issue?.message ?? "Invalid value"}`, field }
+    }
+    if (error instanceof ValidationError) {
+      return { ok: false, error: error.message, field: error.field }
+    }
+    const { status, error: body } = toAPIError(error)
+    if (status >= 500) {
+      console.error("Settings action error:", error)
+    }
+    return { ok: false, error: body.message }
+  }
+}
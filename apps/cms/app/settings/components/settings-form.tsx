@@ -0,0 +1,139 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Alert,
+  AlertDescription,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Switch,
+  Textarea,
+} from "@workspace/ui"
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+import type { SettingField, SettingFieldValue, SettingsSection } from "../../../src/lib/settings"
+import { saveSettings } from "../actions"
+
+interface SettingsFormProps {
+  sections: SettingsSection[]
+}
+
+// One input per registry entry; the input kind comes from the registry
+function SettingInput({
+  field,
+  value,
+  invalid,
+  onChange,
+}: {
+  field: SettingField
+  value: SettingFieldValue
+  invalid: boolean
+  onChange: (value: SettingFieldValue) => void
+}) {
+  const id = `setting-${field.key}`
+
+  if (field.input === "switch") {
+    return <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+  }
+
+  if (field.input === "textarea" || field.input === "json") {
+    return (
+      <Textarea
+        id={id}
+        value={String(value)}
+        onChange={(event) => onChange(event.target.value)}
+        rows={field.input === "json" ? 12 : 3}
+        className={field.input === "json" ? "font-mono text-xs" : undefined}
+        aria-invalid={invalid}
+        spellCheck={field.input !== "json"}
+      />
+    )
+  }
+
+  return (
+    <Input
+      id={id}
+      type={field.input}
+      value={String(value)}
+      onChange={(event) => onChange(event.target.value)}
+      aria-invalid={invalid}
+    />
+  )
+}
+
+export function SettingsForm({ sections }: SettingsFormProps) {
+  const router = useRouter()
+  const [values, setValues] = useState<Record<string, SettingFieldValue>>(() =>
+    Object.fromEntries(sections.flatMap((section) => section.fields.map((field) => [field.key, field.value])))
+  )
+  const [error, setError] = useState<{ message: string; field?: string } | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [isPending, setIsPending] = useState(false)
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    setSaved(false)
+    setIsPending(true)
+    const result = await saveSettings(values)
+    setIsPending(false)
+
+    if (!result.ok) {
+      setError({ message: result.error, field: result.field })
+      return
+    }
+    setSaved(true)
+    router.refresh()
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+      {saved && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>Settings saved.</AlertDescription>
+        </Alert>
+      )}
+
+      {sections.map((section) => (
+        <Card key={section.category}>
+          <CardHeader>
+            <CardTitle className="text-base">{section.label}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {section.fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`setting-${field.key}`}>{field.label}</Label>
+                <SettingInput
+                  field={field}
+                  value={values[field.key] ?? field.value}
+                  invalid={error?.field === field.key}
+                  onChange={(value) => setValues((current) => ({ ...current, [field.key]: value }))}
+                />
+                {field.description && <p className="text-sm text-muted-foreground">{field.description}</p>}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save settings
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,39 @@
+import { Metadata } from "next"
+import { redirect } from "next/navigation"
+import { db } from "@workspace/database"
+import { getSettingsSections } from "../../src/lib/settings"
+import { getSessionUser, isAllowed } from "../../src/lib/session"
+import { SettingsForm } from "./components/settings-form"
+
+// FLUX Rule: Fresh by default for admin interfaces
+export const revalidate = 0
+
+export const metadata: Metadata = {
+  title: "Settings - Aurora CMS",
+  description: "Business profile, contact details and calls to action",
+}
+
+export default async function SettingsPage() {
+  const user = await getSessionUser()
+
+  if (!user) {
+    redirect("/auth/signin")
+  }
+
+  if (!isAllowed(user, "settings:manage")) {
+    redirect("/dashboard")
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Changes reach the website within a minute. Empty optional fields hide what they control.
+        </p>
+      </div>
+
+      <SettingsForm sections={await getSettingsSections(db)} />
+    </div>
+  )
+}
@@ -1,71 +1,29 @@
-import { middlewareAuthHandler as auth } from "@workspace/auth/middleware"
+import { middlewareAuthHandler as auth, hasPermission, toRole, type Permission } from "@workspace/auth/middleware"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
 
-// Define role-based access control
-const roleBasedRoutes = {
-  // Admin-only routes
-  admin: [
-    "/admin",
-    "/users",
-    "/settings",
-    "/analytics"
-  ],
-  // Editor and above routes
-  editor: [
-    "/content",
-    "/posts",
-    "/pages",
-    "/media"
-  ],
-  // Author and above routes
-  author: [
-    "/my-content",
-    "/drafts"
-  ],
-  // All authenticated users
-  authenticated: [
-    "/dashboard",
-    "/profile"
-  ]
-}
+// Permission each route prefix needs. Roles and what they may do are
+// defined once, in packages/auth/src/permissions.ts.
+const routePermissions: [prefix: string, permission: Permission][] = [
+  ["/admin", "user:manage"],
+  ["/users", "user:manage"],
+  ["/settings", "settings:manage"],
+  ["/analytics", "analytics:view"],
+  ["/content", "content:read"],
+  ["/posts", "content:read"],
+  ["/pages", "content:read"],
+  ["/media", "content:create"],
+  ["/my-content", "content:create"],
+  ["/drafts", "content:create"],
+  ["/leads", "lead:read"],
+  ["/quotes", "quote:manage"],
+  ["/dashboard", "dashboard:view"],
+  ["/profile", "dashboard:view"],
+]
 
-// Role hierarchy for access control
-const roleHierarchy = {
-  Admin: 4,
-  Editor: 3,
-  Author: 2,
-  Viewer: 1
-}
-
-function hasAccess(userRole: string, requiredLevel: string): boolean {
-  const userLevel = roleHierarchy[userRole as keyof typeof roleHierarchy] || 0
-  const required = roleHierarchy[requiredLevel as keyof typeof roleHierarchy] || 0
-  return userLevel >= required
-}
-
-function getRequiredRole(pathname: string): string | null {
-  // Check admin routes
-  if (roleBasedRoutes.admin.some(route => pathname.startsWith(route))) {
-    return "Admin"
-  }
-  
-  // Check editor routes
-  if (roleBasedRoutes.editor.some(route => pathname.startsWith(route))) {
-    return "Editor"
-  }
-  
-  // Check author routes
-  if (roleBasedRoutes.author.some(route => pathname.startsWith(route))) {
-    return "Author"
-  }
-  
-  // Check authenticated routes
-  if (roleBasedRoutes.authenticated.some(route => pathname.startsWith(route))) {
-    return "Viewer"
-  }
-  
-  return null
+function getRequiredPermission(pathname: string): Permission | null {
+  const match = routePermissions.find(([prefix]) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return match ? match[1] : null
 }
 
 export default auth((req: any) => {
@@ -78,21 +36,21 @@ export default auth((req: any) => {
   }
   
   // Check if route requires authentication
-  const requiredRole = getRequiredRole(pathname)
+  const requiredPermission = getRequiredPermission(pathname)
   
-  if (requiredRole) {
-    // Redirect to signin if not authenticated
-    if (!session) {
+  if (requiredPermission) {
+    const role = toRole(session?.user?.role)
+
+    // Redirect to signin if not authenticated, or signed in with a role
+    // that no longer exists
+    if (!session || !role) {
       const signInUrl = new URL("/auth/signin", req.url)
       signInUrl.searchParams.set("callbackUrl", pathname)
       return NextResponse.redirect(signInUrl)
     }
     
-    const userRole = session.user?.role as string
-    
-    // Check if user has required access level
-    if (!hasAccess(userRole, requiredRole)) {
-      // Redirect to access denied page or dashboard based on role
+    // Every role can view the dashboard, so this never loops
+    if (!hasPermission(role, requiredPermission)) {
       const redirectUrl = new URL("/dashboard", req.url)
       redirectUrl.searchParams.set("error", "access_denied")
       return NextResponse.redirect(redirectUrl)
@@ -0,0 +1,130 @@
+import { generateCalendarToken } from '@workspace/auth'
+import { BUSINESS_INFO, env } from '@workspace/config'
+import {
+  ICS_CONTENT_TYPE,
+  appointmentToEvent,
+  buildCalendar,
+  formatAppointmentTime,
+  type AppointmentRecord,
+} from '@workspace/core'
+import type { PrismaClient } from '@workspace/database'
+import { sendEmail } from '@workspace/notifications'
+
+type Database = PrismaClient
+
+// Past visits stay in the feed for a while so technicians can look back
+const FEED_HISTORY_DAYS = 30
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${env.NEXT_PUBLIC_CMS_URL}/api/calendar/${token}.ics`
+}
+
+/**
+ * The feed for the technician linked to the user holding `token`, or null
+ * when the token is unknown. Cancelled visits are kept so subscribed
+ * calendars drop them instead of showing a stale copy.
+ */
+export async function getTechnicianCalendar(db: Database, token: string): Promise<string | null> {
+  const user = await db.user.findUnique({
+    where: { calendarToken: token },
+    select: { teamMember: { select: { id: true, name: true } } },
+  })
+
+  if (!user) return null
+
+  const appointments = user.teamMember
+    ? await db.appointment.findMany({
+        where: {
+          technicianId: user.teamMember.id,
+          startsAt: { gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+        },
+        include: { lead: { select: { name: true, phone: true, service: { select: { title: true } } } } },
+        orderBy: { startsAt: 'asc' },
+      })
+    : []
+
+  return buildCalendar({
+    name: `${BUSINESS_INFO.name} jobs${user.teamMember ? ` – ${user.teamMember.name}` : ''}`,
+    events: appointments.map((appointment) =>
+      appointmentToEvent(appointment, {
+        summary: `${appointment.emergency ? 'EMERGENCY: ' : ''}${appointment.lead.service?.title ?? appointment.serviceType ?? 'Service visit'} – ${appointment.lead.name}`,
+        description: [`Customer: ${appointment.lead.name}`, `Phone: ${appointment.lead.phone}`, appointment.notes]
+          .filter(Boolean)
+          .join('\n'),
+        url: `${env.NEXT_PUBLIC_CMS_URL}/leads?lead=${appointment.leadId}`,
+      })
+    ),
+  })
+}
+
+// Replaces the user's feed token, which stops any old subscription
+export async function resetCalendarToken(db: Database, userId: string): Promise<string> {
+  const calendarToken = generateCalendarToken()
+  await db.user.update({ where: { id: userId }, data: { calendarToken } })
+  return calendarToken
+}
+
+// The feed link for a user who is linked to a technician. Null means there is
+// no feed to offer; an empty url means the link has not been created yet.
+export async function getCalendarFeed(db: Database, userId: string): Promise<{ url: string | null } | null> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { calendarToken: true, teamMember: { select: { technician: true } } },
+  })
+
+  if (!user?.teamMember?.technician) return null
+
+  return { url: user.calendarToken ? getCalendarFeedUrl(user.calendarToken) : null }
+}
+
+/**
+ * Tells the customer a visit was moved or cancelled. The attached event has
+ * the same UID as the one from the booking email and a higher SEQUENCE, so
+ * calendar apps update or remove it.
+ */
+export async function emailAppointmentUpdate(db: Database, appointment: AppointmentRecord): Promise<void> {
+  const [lead, technician] = await Promise.all([
+    db.lead.findUnique({ where: { id: appointment.leadId }, select: { name: true, email: true } }),
+    db.teamMember.findUnique({ where: { id: appointment.technicianId }, select: { name: true } }),
+  ])
+
+  if (!lead) return
+
+  const cancelled = appointment.status === 'CANCELLED'
+  const when = formatAppointmentTime(appointment.startsAt)
+
+  await sendEmail(db, {
+    to: lead.email,
+    subject: cancelled
+      ? `Your ${BUSINESS_INFO.name} appointment on ${when} is cancelled`
+      : `Your ${BUSINESS_INFO.name} appointment has moved to ${when}`,
+    text: [
+      `Hi ${lead.name},`,
+      '',
+      cancelled
+        ? `Your appointment on ${when} is cancelled.`
+        : `Your appointment is now on ${when}${technician ? ` with ${technician.name}` : ''}.`,
+      `Address: ${appointment.serviceLocation}`,
+      '',
+      `Questions? Call us at ${BUSINESS_INFO.phone}.`,
+      '',
+      BUSINESS_INFO.name,
+    ].join('\n'),
+    attachments: [
+      {
+        filename: 'appointment.ics',
+        contentType: ICS_CONTENT_TYPE,
+        content: buildCalendar({
+          events: [
+            appointmentToEvent(appointment, {
+              summary: `${BUSINESS_INFO.name} service visit`,
+              description: technician
+                ? `Technician: ${technician.name}\nQuestions? Call ${BUSINESS_INFO.phone}`
+                : `Questions? Call ${BUSINESS_INFO.phone}`,
+            }),
+          ],
+        }),
+      },
+    ],
+  })
+}
@@ -0,0 +1,174 @@
+import type { Permission } from '@workspace/auth'
+import {
+  BusinessError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  apiJson,
+  createErrorResponse,
+  createSuccessResponse,
+  toAPIError,
+  type RevalidationModel,
+} from '@workspace/core'
+import type { ListPage } from '@workspace/database'
+import { revalidateContent } from './revalidation'
+import { getSessionUser, isAllowed, requireAccess, requirePermission, type SessionUser } from './session'
+
+interface ItemRouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * One /api/content/<name> resource. Handlers receive the raw query or body
+ * and validate it with the matching @workspace/core schema.
+ */
+export interface ContentResource<T> {
+  // Prisma model; its cache tags are revalidated after every mutation
+  model: RevalidationModel
+  // Name used in messages, defaults to the model
+  label?: string
+  list(query: Record<string, string>): Promise<ListPage<T>>
+  get(id: string): Promise<T | null>
+  create(body: unknown, user: SessionUser): Promise<T>
+  update(id: string, body: unknown): Promise<T | null>
+  archive(id: string): Promise<T | null>
+}
+
+// Prisma reports constraint failures as known request errors with a P-code
+function fromPrismaError(error: unknown, label: string): unknown {
+  const code = (error as { code?: unknown } | null)?.code
+
+  if (code === 'P2002') {
+    return new ConflictError(`A ${label.toLowerCase()} with this slug already exists`)
+  }
+
+  if (code === 'P2003') {
+    return new ValidationError('A referenced record does not exist')
+  }
+
+  return error
+}
+
+function contentError(error: unknown, label: string): Response {
+  const { status, error: body } = toAPIError(fromPrismaError(error, label))
+
+  if (status >= 500) {
+    console.error('Content API error:', error)
+  }
+
+  return apiJson(createErrorResponse(new BusinessError(body.message, body.code, status), body.details), status)
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    throw new ValidationError('Request body must be valid JSON')
+  }
+}
+
+async function requireContent(permission: Permission) {
+  return requirePermission({ user: await getSessionUser() }, permission)
+}
+
+// Putting content live needs content:publish. Without it, new records are
+// saved as drafts and writes that publish or approve are refused.
+function withoutPublishing(user: SessionUser, body: unknown, creating: boolean): unknown {
+  if (isAllowed(user, 'content:publish') || !body || typeof body !== 'object') {
+    return body
+  }
+
+  const { status, approved } = body as { status?: unknown; approved?: unknown }
+  if ((status !== undefined && status !== 'DRAFT') || approved === true) {
+    throw new ForbiddenError('Only editors can publish content')
+  }
+
+  return creating ? { status: 'DRAFT', ...body } : body
+}
+
+function found<T>(record: T | null, label: string, id: string): T {
+  if (!record) {
+    throw new NotFoundError(label, id)
+  }
+  return record
+}
+
+/**
+ * Route handlers for a content resource. Each method needs its content:*
+ * permission, and writes are checked against the resource policies too, so
+ * authors only edit their own posts. DELETE archives instead of removing the row.
+ */
+export function createContentRoutes<T>(resource: ContentResource<T>) {
+  const { model, label = model } = resource
+
+  // Checks the stored record, whose owner the request body cannot change
+  async function requireRecord(user: SessionUser, permission: Permission, id: string) {
+    requireAccess(user, permission, { model, record: found(await resource.get(id), label, id) as object })
+  }
+
+  return {
+    collection: {
+      async GET(request: Request) {
+        try {
+          await requireContent('content:read')
+          const query = Object.fromEntries(new URL(request.url).searchParams)
+          return apiJson(createSuccessResponse(await resource.list(query)))
+        } catch (error) {
+          return contentError(error, label)
+        }
+      },
+
+      async POST(request: Request) {
+        try {
+          const user = await requireContent('content:create')
+          requireAccess(user, 'content:create', { model })
+          const record = await resource.create(withoutPublishing(user, await readJson(request), true), user)
+          revalidateContent(model)
+          return apiJson(createSuccessResponse(record, `${label} created`), 201)
+        } catch (error) {
+          return contentError(error, label)
+        }
+      },
+    },
+
+    item: {
+      async GET(_request: Request, { params }: ItemRouteContext) {
+        try {
+          await requireContent('content:read')
+          const { id } = await params
+          return apiJson(createSuccessResponse(found(await resource.get(id), label, id)))
+        } catch (error) {
+          return contentError(error, label)
+        }
+      },
+
+      async PATCH(request: Request, { params }: ItemRouteContext) {
+        try {
+          const user = await requireContent('content:update')
+          const { id } = await params
+          await requireRecord(user, 'content:update', id)
+          const body = withoutPublishing(user, await readJson(request), false)
+          const record = found(await resource.update(id, body), label, id)
+          revalidateContent(model)
+          return apiJson(createSuccessResponse(record, `${label} updated`))
+        } catch (error) {
+          return contentError(error, label)
+        }
+      },
+
+      async DELETE(_request: Request, { params }: ItemRouteContext) {
+        try {
+          const user = await requireContent('content:delete')
+          const { id } = await params
+          await requireRecord(user, 'content:delete', id)
+          const record = found(await resource.archive(id), label, id)
+          revalidateContent(model)
+          return apiJson(createSuccessResponse(record, `${label} archived`))
+        } catch (error) {
+          return contentError(error, label)
+        }
+      },
+    },
+  }
+}
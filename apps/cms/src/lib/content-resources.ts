@@ -0,0 +1,108 @@
+import {
+  pageDataSchema,
+  pageListQuerySchema,
+  postDataSchema,
+  postListQuerySchema,
+  projectDataSchema,
+  projectListQuerySchema,
+  serviceDataSchema,
+  serviceListQuerySchema,
+  serviceAreaListQuerySchema,
+  serviceAreaSchema,
+  teamMemberDataSchema,
+  teamMemberListQuerySchema,
+  testimonialDataSchema,
+  testimonialListQuerySchema,
+  toContentSlug,
+  toListOptions,
+} from '@workspace/core'
+import {
+  contentUtils,
+  projectUtils,
+  serviceAreaUtils,
+  serviceUtils,
+  teamUtils,
+  testimonialUtils,
+} from '@workspace/database'
+import { createContentRoutes } from './content-api'
+
+// Route handlers for /api/content/*; see app/api/content
+export const contentRoutes = {
+  services: createContentRoutes({
+    model: 'Service',
+    list: (query) => serviceUtils.listServices(toListOptions(serviceListQuerySchema.parse(query))),
+    get: (id) => serviceUtils.getServiceById(id),
+    create: (body) => {
+      const data = serviceDataSchema.parse(body)
+      return serviceUtils.createService({ ...data, slug: data.slug ?? toContentSlug(data.title) })
+    },
+    update: (id, body) => serviceUtils.updateService(id, serviceDataSchema.partial().parse(body)),
+    archive: (id) => serviceUtils.archiveService(id),
+  }),
+
+  posts: createContentRoutes({
+    model: 'Post',
+    list: (query) => contentUtils.listPosts(toListOptions(postListQuerySchema.parse(query))),
+    get: (id) => contentUtils.getPostById(id),
+    create: (body, user) => {
+      const data = postDataSchema.parse(body)
+      return contentUtils.createPost({ ...data, slug: data.slug ?? toContentSlug(data.title), authorId: user.id })
+    },
+    update: (id, body) => contentUtils.updatePost(id, postDataSchema.partial().parse(body)),
+    archive: (id) => contentUtils.archivePost(id),
+  }),
+
+  pages: createContentRoutes({
+    model: 'Page',
+    list: (query) => contentUtils.listPages(toListOptions(pageListQuerySchema.parse(query))),
+    get: (id) => contentUtils.getPageById(id),
+    create: (body) => {
+      const data = pageDataSchema.parse(body)
+      return contentUtils.createPage({ ...data, slug: data.slug ?? toContentSlug(data.title) })
+    },
+    update: (id, body) => contentUtils.updatePage(id, pageDataSchema.partial().parse(body)),
+    archive: (id) => contentUtils.archivePage(id),
+  }),
+
+  projects: createContentRoutes({
+    model: 'Project',
+    list: (query) => projectUtils.listProjects(toListOptions(projectListQuerySchema.parse(query))),
+    get: (id) => projectUtils.getProjectById(id),
+    create: (body) => {
+      const data = projectDataSchema.parse(body)
+      return projectUtils.createProject({ ...data, slug: data.slug ?? toContentSlug(data.title) })
+    },
+    update: (id, body) => projectUtils.updateProject(id, projectDataSchema.partial().parse(body)),
+    archive: (id) => projectUtils.archiveProject(id),
+  }),
+
+  testimonials: createContentRoutes({
+    model: 'Testimonial',
+    list: (query) => testimonialUtils.listTestimonials(toListOptions(testimonialListQuerySchema.parse(query))),
+    get: (id) => testimonialUtils.getTestimonialById(id),
+    create: (body) => testimonialUtils.createTestimonial(testimonialDataSchema.parse(body)),
+    update: (id, body) => testimonialUtils.updateTestimonial(id, testimonialDataSchema.partial().parse(body)),
+    archive: (id) => testimonialUtils.archiveTestimonial(id),
+  }),
+
+  team: createContentRoutes({
+    model: 'TeamMember',
+    label: 'Team member',
+    list: (query) => teamUtils.listTeamMembers(toListOptions(teamMemberListQuerySchema.parse(query))),
+    get: (id) => teamUtils.getTeamMemberById(id),
+    create: (body) => teamUtils.createTeamMember(teamMemberDataSchema.parse(body)),
+    update: (id, body) => teamUtils.updateTeamMember(id, teamMemberDataSchema.partial().parse(body)),
+    archive: (id) => teamUtils.archiveTeamMember(id),
+  }),
+
+  // DELETE deactivates the area; leads keep their tag
+  serviceAreas: createContentRoutes({
+    model: 'ServiceArea',
+    label: 'Service area',
+    list: (query) => serviceAreaUtils.listServiceAreas(toListOptions(serviceAreaListQuerySchema.parse(query))),
+    get: (id) => serviceAreaUtils.getServiceAreaById(id),
+    create: (body) => serviceAreaUtils.createServiceArea(serviceAreaSchema.parse(body)),
+    update: (id, body) => serviceAreaUtils.updateServiceArea(id, serviceAreaSchema.partial().parse(body)),
+    archive: (id) => serviceAreaUtils.archiveServiceArea(id),
+  }),
+}
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from 'crypto'
+import { env } from '@workspace/config'
+import { BusinessError, UnauthorizedError } from '@workspace/core'
+
+/**
+ * Scheduled jobs are plain GET routes under /api/cron. Vercel Cron sends
+ * CRON_SECRET as a bearer token; anything else is rejected.
+ */
+export function assertCronRequest(request: Request) {
+  if (!env.CRON_SECRET) {
+    throw new BusinessError('Scheduled jobs are not configured', 'CRON_DISABLED', 503)
+  }
+
+  const expected = Buffer.from(`Bearer ${env.CRON_SECRET}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new UnauthorizedError('Invalid cron secret')
+  }
+}
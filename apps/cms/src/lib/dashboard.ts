@@ -0,0 +1,93 @@
+import {
+  LEAD_SOURCE_META,
+  LEAD_STATUSES,
+  LEAD_STATUS_META,
+  PRIORITIES,
+  PRIORITY_META,
+  addDaysToDateKey,
+  toDateKeyIn,
+  zonedDateTime,
+} from '@workspace/config'
+import { BusinessAnalytics, type DateRange } from '@workspace/core'
+import type { PrismaClient } from '@workspace/database'
+
+// Days covered when the URL has no valid range
+const DEFAULT_RANGE_DAYS = 30
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/
+
+// The range as instants for queries, and as yyyy-MM-dd days for the picker
+export interface DashboardRange extends DateRange {
+  fromDay: string
+  toDay: string
+}
+
+// A yyyy-MM-dd param that names a real calendar day
+function parseDateParam(value: string | string[] | undefined): string | null {
+  if (typeof value !== 'string' || !DATE_PARAM.test(value)) return null
+
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null
+}
+
+/**
+ * The dashboard's `?from=&to=` range, covering both days in full in the
+ * business's time zone. Missing, invalid or reversed dates fall back to the
+ * last 30 days.
+ */
+export function parseDashboardRange(
+  searchParams: Record<string, string | string[] | undefined>,
+  timeZone: string,
+  now: Date = new Date()
+): DashboardRange {
+  let fromDay = parseDateParam(searchParams.from)
+  let toDay = parseDateParam(searchParams.to)
+
+  if (!fromDay || !toDay || fromDay > toDay) {
+    toDay = toDateKeyIn(now, timeZone)
+    fromDay = addDaysToDateKey(toDay, -(DEFAULT_RANGE_DAYS - 1))
+  }
+
+  return {
+    from: zonedDateTime(fromDay, 0, timeZone),
+    // The last millisecond before the next day starts
+    to: new Date(zonedDateTime(addDaysToDateKey(toDay, 1), 0, timeZone).getTime() - 1),
+    fromDay,
+    toDay,
+  }
+}
+
+export interface ChartDatum {
+  key: string
+  name: string
+  color: string
+  count: number
+}
+
+// Counts for every value of an enum, in schema order, with its label and color
+function toChartData<K extends string>(
+  keys: readonly K[],
+  meta: Readonly<Record<K, { name: string; color: string }>>,
+  counts: Record<string, number>
+): ChartDatum[] {
+  return keys.map((key) => ({ key, ...meta[key], count: counts[key] ?? 0 }))
+}
+
+// Monthly trends follow the same time zone as the range
+export async function getDashboardData(db: PrismaClient, range: DateRange, timeZone: string) {
+  const [stats, trends, sources] = await Promise.all([
+    BusinessAnalytics.getDashboardStats(db, range),
+    BusinessAnalytics.getMonthlyTrends(db, 12, new Date(), timeZone),
+    BusinessAnalytics.getLeadSourcePerformance(db, range),
+  ])
+
+  return {
+    ...stats,
+    byStatus: toChartData(LEAD_STATUSES, LEAD_STATUS_META, stats.leads.byStatus),
+    byPriority: toChartData(PRIORITIES, PRIORITY_META, stats.leads.byPriority),
+    trends: trends.map(({ month, leads, conversions, revenue }) => ({ month, leads, conversions, revenue })),
+    sources: sources.map((source) => ({ ...source, name: LEAD_SOURCE_META[source.source].name })),
+  }
+}
+
+export type DashboardData = Awaited<ReturnType<typeof getDashboardData>>
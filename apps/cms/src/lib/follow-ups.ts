@@ -0,0 +1,35 @@
+import { env } from '@workspace/config'
+import type { FollowUpNotifier, FollowUpReminder, LeadRecord } from '@workspace/core'
+import { db } from '@workspace/database'
+import { sendEmail } from '@workspace/notifications'
+
+const dueFormat = new Intl.DateTimeFormat('en', { dateStyle: 'medium', timeStyle: 'short' })
+
+function leadLine(lead: LeadRecord) {
+  const url = new URL(`/leads?lead=${lead.id}`, env.NEXTAUTH_URL)
+  return `- ${lead.name} (${lead.priority}), due ${dueFormat.format(lead.followUpDate!)}: ${url}`
+}
+
+function section(title: string, leads: LeadRecord[]) {
+  return leads.length ? [`${title}:`, ...leads.map(leadLine), ''] : []
+}
+
+// Plain-text digest. Unassigned leads go to the business inbox.
+export const emailFollowUpNotifier: FollowUpNotifier = {
+  async sendReminder({ assignee, overdue, dueToday }: FollowUpReminder) {
+    const count = overdue.length + dueToday.length
+
+    await sendEmail(db, {
+      to: assignee?.email ?? env.BUSINESS_EMAIL,
+      subject: overdue.length
+        ? `${overdue.length} overdue lead follow-up${overdue.length === 1 ? '' : 's'}`
+        : `${count} lead follow-up${count === 1 ? '' : 's'} due today`,
+      text: [
+        assignee ? `Hi ${assignee.name ?? assignee.email},` : 'These leads have no owner yet.',
+        '',
+        ...section('Overdue', overdue),
+        ...section('Due today', dueToday),
+      ].join('\n'),
+    })
+  },
+}
@@ -0,0 +1,15 @@
+import type { SessionUser } from '../session'
+import type { Database, Loaders } from './loaders'
+
+export { toSessionUser, requirePermission } from '../session'
+export type { SessionUser }
+
+// Passed by the route handler to yoga.handleRequest
+export interface GraphQLServerContext {
+  user: SessionUser | null
+}
+
+export interface GraphQLContext extends GraphQLServerContext {
+  db: Database
+  loaders: Loaders
+}
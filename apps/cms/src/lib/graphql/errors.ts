@@ -0,0 +1,32 @@
+import { GraphQLError } from 'graphql'
+import { toAPIError } from '@workspace/core'
+
+/**
+ * yoga `maskedErrors.maskError`: business errors keep their message and
+ * surface the APIError code and details as extensions; anything unexpected
+ * is replaced by the generic masked message.
+ */
+export function maskError(error: unknown, message: string): Error {
+  if (!(error instanceof GraphQLError)) {
+    return new GraphQLError(message, { extensions: { code: 'INTERNAL_ERROR' } })
+  }
+
+  // Parse and validation errors raised by graphql-js itself
+  if (!error.originalError) {
+    return error
+  }
+
+  const { status, error: apiError } = toAPIError(error.originalError)
+  const expose = status < 500
+
+  return new GraphQLError(expose ? apiError.message : message, {
+    nodes: error.nodes,
+    source: error.source,
+    positions: error.positions,
+    path: error.path,
+    extensions: {
+      code: expose ? apiError.code : 'INTERNAL_ERROR',
+      ...(expose && apiError.details && { details: apiError.details }),
+    },
+  })
+}
@@ -0,0 +1,11 @@
+import { createSchema } from 'graphql-yoga'
+import type { GraphQLContext } from './context'
+import { resolvers } from './resolvers'
+import { typeDefs } from './type-defs'
+
+export const schema = createSchema<GraphQLContext>({ typeDefs, resolvers })
+
+export { createLoaders } from './loaders'
+export { toSessionUser, requirePermission } from './context'
+export type { GraphQLContext, GraphQLServerContext, SessionUser } from './context'
+export { maskError } from './errors'
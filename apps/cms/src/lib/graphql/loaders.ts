@@ -0,0 +1,56 @@
+import DataLoader from 'dataloader'
+import type { LeadActivity, PrismaClient, Service } from '@workspace/database'
+
+export type Database = PrismaClient
+
+// Fields of User that are safe to expose through the API
+export const PUBLIC_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+  role: true,
+} as const
+
+export interface PublicUser {
+  id: string
+  name: string | null
+  email: string
+  image: string | null
+  role: string
+}
+
+function orderById<T extends { id: string }>(rows: T[], ids: readonly string[]): (T | null)[] {
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  return ids.map((id) => byId.get(id) ?? null)
+}
+
+/**
+ * Per-request loaders so nested fields (Lead.service, Lead.assignedTo,
+ * Post.author, ...) resolve with one query per type instead of one per row.
+ */
+export function createLoaders(db: Database) {
+  return {
+    service: new DataLoader<string, Service | null>(async (ids) =>
+      orderById(await db.service.findMany({ where: { id: { in: [...ids] } } }), ids)
+    ),
+
+    user: new DataLoader<string, PublicUser | null>(async (ids) =>
+      orderById(
+        await db.user.findMany({ where: { id: { in: [...ids] } }, select: PUBLIC_USER_SELECT }),
+        ids
+      )
+    ),
+
+    leadActivities: new DataLoader<string, LeadActivity[]>(async (leadIds) => {
+      const activities = await db.leadActivity.findMany({
+        where: { leadId: { in: [...leadIds] } },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return leadIds.map((leadId) => activities.filter((activity) => activity.leadId === leadId))
+    }),
+  }
+}
+
+export type Loaders = ReturnType<typeof createLoaders>
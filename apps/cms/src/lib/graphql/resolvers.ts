@@ -0,0 +1,298 @@
+import { GraphQLScalarType, Kind } from 'graphql'
+import { policyWhere } from '@workspace/auth'
+import {
+  API_CONFIG,
+  type ContentStatus,
+  type LeadActivityType,
+  type LeadStatus,
+  type Priority,
+} from '@workspace/config'
+import {
+  LeadAssignmentManager,
+  LeadManager,
+  ServiceAreaManager,
+  ValidationError,
+  decimalToNumber,
+  getAllowedLeadTransitions,
+  type LeadInput,
+} from '@workspace/core'
+import type { Lead, Post, Project, Service, Testimonial } from '@workspace/database'
+import { requireLead, updateLead } from '../leads'
+import { revalidateTags } from '../revalidation'
+import { requirePermission, type GraphQLContext } from './context'
+
+interface PageArgs {
+  skip?: number | null
+  take?: number | null
+}
+
+interface ContentListArgs extends PageArgs {
+  status?: ContentStatus | null
+}
+
+interface LookupArgs {
+  id?: string | null
+  slug?: string | null
+}
+
+type LeadSortField = (typeof API_CONFIG.SORT_FIELDS.leads)[number]
+
+interface UpdateLeadInput {
+  status?: LeadStatus | null
+  priority?: Priority | null
+  assignedToId?: string | null
+  notes?: string | null
+  estimatedValue?: number | null
+  followUpDate?: Date | null
+}
+
+function paginate({ skip, take }: PageArgs) {
+  const { defaultTake, maxTake } = API_CONFIG.PAGINATION
+  return {
+    skip: Math.max(0, skip ?? 0),
+    take: Math.min(Math.max(1, take ?? defaultTake), maxTake),
+  }
+}
+
+function lookup({ id, slug }: LookupArgs) {
+  if (id) return { id }
+  if (slug) return { slug }
+  throw new ValidationError('Provide an id or slug', 'id')
+}
+
+// GraphQL nulls mean "not provided" for filters and for inputs that cannot be cleared
+function withoutNulls<T extends object>(input: T) {
+  return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== null && value !== undefined)) as {
+    [K in keyof T]?: NonNullable<T[K]>
+  }
+}
+
+const DateTime = new GraphQLScalarType<Date | null, string>({
+  name: 'DateTime',
+  description: 'ISO-8601 date-time string',
+  serialize: (value) => (value instanceof Date ? value : new Date(value as string)).toISOString(),
+  parseValue: (value) => new Date(value as string),
+  parseLiteral: (ast) => (ast.kind === Kind.STRING ? new Date(ast.value) : null),
+})
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+  serialize: (value) => value,
+  parseValue: (value) => value,
+})
+
+export const resolvers = {
+  DateTime,
+  JSON: JSONScalar,
+
+  Query: {
+    me: async (_: unknown, __: unknown, context: GraphQLContext) =>
+      context.user ? context.loaders.user.load(context.user.id) : null,
+
+    leads: async (
+      _: unknown,
+      args: PageArgs & {
+        status?: LeadStatus | null
+        search?: string | null
+        assignedToId?: string | null
+        sort?: LeadSortField | null
+        order?: 'asc' | 'desc' | null
+      },
+      context: GraphQLContext
+    ) => {
+      const user = requirePermission(context, 'lead:read')
+
+      const search = args.search?.trim()
+      return context.db.lead.findMany({
+        where: {
+          AND: [
+            policyWhere(user, 'lead:read', 'Lead'),
+            {
+              ...withoutNulls({ status: args.status, assignedToId: args.assignedToId }),
+              ...(search && {
+                OR: [
+                  { name: { contains: search, mode: 'insensitive' } },
+                  { email: { contains: search, mode: 'insensitive' } },
+                  { phone: { contains: search } },
+                  { company: { contains: search, mode: 'insensitive' } },
+                ],
+              }),
+            },
+          ],
+        },
+        orderBy: [{ [args.sort ?? 'createdAt']: args.order ?? 'desc' }, { id: 'asc' }],
+        ...paginate(args),
+      })
+    },
+
+    // Null for leads the user may not read
+    lead: async (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
+      const user = requirePermission(context, 'lead:read')
+      return context.db.lead.findFirst({ where: { AND: [{ id }, policyWhere(user, 'lead:read', 'Lead')] } })
+    },
+
+    myLeads: async (_: unknown, args: { includeClosed?: boolean | null }, context: GraphQLContext) => {
+      const user = requirePermission(context, 'lead:read')
+      return new LeadAssignmentManager(context.db).getQueue(user.id, { includeClosed: args.includeClosed ?? false })
+    },
+
+    services: async (_: unknown, args: ContentListArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.service.findMany({
+        where: withoutNulls({ status: args.status }),
+        orderBy: { createdAt: 'desc' },
+        ...paginate(args),
+      })
+    },
+
+    service: async (_: unknown, args: LookupArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.service.findUnique({ where: lookup(args) })
+    },
+
+    projects: async (_: unknown, args: ContentListArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.project.findMany({
+        where: withoutNulls({ status: args.status }),
+        orderBy: { createdAt: 'desc' },
+        ...paginate(args),
+      })
+    },
+
+    project: async (_: unknown, args: LookupArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.project.findUnique({ where: lookup(args) })
+    },
+
+    posts: async (_: unknown, args: ContentListArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.post.findMany({
+        where: withoutNulls({ status: args.status }),
+        orderBy: { createdAt: 'desc' },
+        ...paginate(args),
+      })
+    },
+
+    post: async (_: unknown, args: LookupArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.post.findUnique({ where: lookup(args) })
+    },
+
+    pages: async (_: unknown, args: ContentListArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.page.findMany({
+        where: withoutNulls({ status: args.status }),
+        orderBy: { createdAt: 'desc' },
+        ...paginate(args),
+      })
+    },
+
+    page: async (_: unknown, args: LookupArgs, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.page.findUnique({ where: lookup(args) })
+    },
+
+    testimonials: async (_: unknown, args: PageArgs & { approved?: boolean | null }, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.testimonial.findMany({
+        where: withoutNulls({ approved: args.approved }),
+        orderBy: { createdAt: 'desc' },
+        ...paginate(args),
+      })
+    },
+
+    teamMembers: async (_: unknown, args: { active?: boolean | null }, context: GraphQLContext) => {
+      requirePermission(context, 'content:read')
+      return context.db.teamMember.findMany({
+        where: withoutNulls({ active: args.active }),
+        orderBy: { order: 'asc' },
+      })
+    },
+  },
+
+  Mutation: {
+    createLead: async (_: unknown, { input }: { input: LeadInput }, context: GraphQLContext) => {
+      requirePermission(context, 'lead:create')
+      const lead = withoutNulls(input) as LeadInput
+      const serviceArea = await new ServiceAreaManager(context.db).matchLead(lead)
+      return new LeadManager(context.db).createLead(lead, serviceArea)
+    },
+
+    updateLead: async (_: unknown, { id, input }: { id: string; input: UpdateLeadInput }, context: GraphQLContext) => {
+      const user = requirePermission(context, 'lead:update')
+      await requireLead(context.db, user, 'lead:update', id)
+      // Reassigning is held to the same rules as assignLead and autoAssignLead
+      if (input.assignedToId !== undefined) {
+        await requireLead(context.db, user, 'lead:assign', id)
+      }
+      // Null clears the nullable fields; status and priority cannot be cleared
+      const { status, priority, ...fields } = input
+      return updateLead(context.db, id, { ...withoutNulls({ status, priority }), ...fields }, user.id)
+    },
+
+    // Null when the lead already has an owner or no agent is available
+    autoAssignLead: async (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
+      const user = requirePermission(context, 'lead:assign')
+      await requireLead(context.db, user, 'lead:assign', id)
+      const result = await new LeadAssignmentManager(context.db).autoAssign(id, { actorId: user.id })
+      return result?.lead ?? null
+    },
+
+    addLeadActivity: async (
+      _: unknown,
+      args: { leadId: string; type: LeadActivityType; title: string; description?: string | null },
+      context: GraphQLContext
+    ) => {
+      const user = requirePermission(context, 'lead:update')
+      await requireLead(context.db, user, 'lead:update', args.leadId)
+
+      return new LeadManager(context.db).addLeadActivity(
+        args.leadId,
+        args.type,
+        args.title,
+        args.description ?? undefined
+      )
+    },
+
+    revalidate: async (_: unknown, { tag }: { tag: string }, context: GraphQLContext) => {
+      requirePermission(context, 'cache:revalidate')
+      if (!tag.startsWith('content:')) {
+        throw new ValidationError('Only content:<model> tags can be revalidated', 'tag')
+      }
+
+      revalidateTags([tag], 'graphql')
+      return true
+    },
+  },
+
+  Lead: {
+    estimatedValue: (lead: Lead) => decimalToNumber(lead.estimatedValue),
+    travelSurcharge: (lead: Lead) => decimalToNumber(lead.travelSurcharge),
+    service: (lead: Lead, _: unknown, context: GraphQLContext) =>
+      lead.serviceId ? context.loaders.service.load(lead.serviceId) : null,
+    assignedTo: (lead: Lead, _: unknown, context: GraphQLContext) =>
+      lead.assignedToId ? context.loaders.user.load(lead.assignedToId) : null,
+    activities: (lead: Lead, _: unknown, context: GraphQLContext) => context.loaders.leadActivities.load(lead.id),
+    allowedTransitions: (lead: Lead) => getAllowedLeadTransitions(lead.status),
+  },
+
+  Service: {
+    price: (service: Service) => decimalToNumber(service.price),
+  },
+
+  Project: {
+    value: (project: Project) => decimalToNumber(project.value),
+    service: (project: Project, _: unknown, context: GraphQLContext) =>
+      project.serviceId ? context.loaders.service.load(project.serviceId) : null,
+  },
+
+  Post: {
+    author: (post: Post, _: unknown, context: GraphQLContext) => context.loaders.user.load(post.authorId),
+  },
+
+  Testimonial: {
+    service: (testimonial: Testimonial, _: unknown, context: GraphQLContext) =>
+      testimonial.serviceId ? context.loaders.service.load(testimonial.serviceId) : null,
+  },
+}
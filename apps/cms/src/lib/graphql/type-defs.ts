@@ -0,0 +1,249 @@
+import {
+  API_CONFIG,
+  CONTENT_STATUSES,
+  LEAD_ACTIVITY_TYPES,
+  LEAD_SOURCES,
+  LEAD_STATUSES,
+  PRICE_TYPES,
+  PRIORITIES,
+  URGENCIES,
+  USER_ROLES,
+} from '@workspace/config'
+
+// Enum members come from the Prisma schema via @workspace/config
+const enumType = (name: string, values: readonly string[]) => `enum ${name} {\n  ${values.join('\n  ')}\n}`
+
+export const typeDefs = /* GraphQL */ `
+scalar DateTime
+scalar JSON
+
+${enumType('UserRole', USER_ROLES)}
+${enumType('ContentStatus', CONTENT_STATUSES)}
+${enumType('PriceType', PRICE_TYPES)}
+${enumType('LeadSource', LEAD_SOURCES)}
+${enumType('LeadStatus', LEAD_STATUSES)}
+${enumType('Priority', PRIORITIES)}
+${enumType('Urgency', URGENCIES)}
+${enumType('LeadActivityType', LEAD_ACTIVITY_TYPES)}
+${enumType('LeadSortField', API_CONFIG.SORT_FIELDS.leads)}
+${enumType('SortOrder', ['asc', 'desc'])}
+
+type User {
+  id: ID!
+  name: String
+  email: String!
+  image: String
+  role: UserRole!
+}
+
+type Lead {
+  id: ID!
+  name: String!
+  email: String!
+  phone: String
+  company: String
+  message: String
+  source: LeadSource!
+  status: LeadStatus!
+  priority: Priority!
+  urgency: Urgency!
+  serviceType: String
+  city: String
+  zipCode: String
+  inServiceArea: Boolean
+  travelSurcharge: Float
+  score: Int!
+  estimatedValue: Float
+  notes: String
+  followUpDate: DateTime
+  createdAt: DateTime!
+  updatedAt: DateTime!
+  service: Service
+  assignedTo: User
+  activities: [LeadActivity!]!
+  allowedTransitions: [LeadStatus!]!
+}
+
+type LeadActivity {
+  id: ID!
+  type: LeadActivityType!
+  title: String!
+  description: String
+  metadata: JSON
+  createdAt: DateTime!
+}
+
+type Service {
+  id: ID!
+  title: String!
+  slug: String!
+  description: String
+  content: String
+  excerpt: String
+  image: String
+  gallery: [String!]!
+  price: Float
+  priceType: PriceType!
+  category: String!
+  tags: [String!]!
+  features: [String!]!
+  status: ContentStatus!
+  seoTitle: String
+  seoDescription: String
+  published: Boolean!
+  publishedAt: DateTime
+  createdAt: DateTime!
+  updatedAt: DateTime!
+}
+
+type Project {
+  id: ID!
+  title: String!
+  slug: String!
+  description: String
+  content: String
+  images: [String!]!
+  beforeImage: String
+  afterImage: String
+  clientName: String
+  location: String
+  duration: String
+  value: Float
+  status: ContentStatus!
+  featured: Boolean!
+  published: Boolean!
+  publishedAt: DateTime
+  completedAt: DateTime
+  createdAt: DateTime!
+  updatedAt: DateTime!
+  service: Service
+}
+
+type Post {
+  id: ID!
+  title: String!
+  slug: String!
+  content: String
+  excerpt: String
+  image: String
+  category: String
+  tags: [String!]!
+  status: ContentStatus!
+  seoTitle: String
+  seoDescription: String
+  published: Boolean!
+  publishedAt: DateTime
+  createdAt: DateTime!
+  updatedAt: DateTime!
+  author: User
+}
+
+type Page {
+  id: ID!
+  title: String!
+  slug: String!
+  content: String
+  template: String
+  status: ContentStatus!
+  seoTitle: String
+  seoDescription: String
+  published: Boolean!
+  publishedAt: DateTime
+  createdAt: DateTime!
+  updatedAt: DateTime!
+}
+
+type Testimonial {
+  id: ID!
+  name: String!
+  company: String
+  position: String
+  content: String!
+  rating: Int!
+  image: String
+  featured: Boolean!
+  approved: Boolean!
+  status: ContentStatus!
+  createdAt: DateTime!
+  updatedAt: DateTime!
+  service: Service
+}
+
+type TeamMember {
+  id: ID!
+  name: String!
+  position: String!
+  bio: String
+  image: String
+  email: String
+  phone: String
+  linkedin: String
+  twitter: String
+  specialties: [String!]!
+  featured: Boolean!
+  active: Boolean!
+  status: ContentStatus!
+  order: Int!
+  createdAt: DateTime!
+  updatedAt: DateTime!
+}
+
+input CreateLeadInput {
+  name: String!
+  email: String!
+  phone: String!
+  serviceType: String!
+  serviceId: ID
+  message: String
+  source: LeadSource
+  priority: Priority
+  urgency: Urgency
+  city: String
+  zipCode: String
+  estimatedValue: Float
+}
+
+input UpdateLeadInput {
+  status: LeadStatus
+  priority: Priority
+  assignedToId: ID
+  notes: String
+  estimatedValue: Float
+  followUpDate: DateTime
+}
+
+type Query {
+  me: User
+
+  leads(
+    status: LeadStatus
+    search: String
+    assignedToId: ID
+    sort: LeadSortField
+    order: SortOrder
+    skip: Int
+    take: Int
+  ): [Lead!]!
+  lead(id: ID!): Lead
+  myLeads(includeClosed: Boolean): [Lead!]!
+
+  services(status: ContentStatus, skip: Int, take: Int): [Service!]!
+  service(id: ID, slug: String): Service
+  projects(status: ContentStatus, skip: Int, take: Int): [Project!]!
+  project(id: ID, slug: String): Project
+  posts(status: ContentStatus, skip: Int, take: Int): [Post!]!
+  post(id: ID, slug: String): Post
+  pages(status: ContentStatus, skip: Int, take: Int): [Page!]!
+  page(id: ID, slug: String): Page
+  testimonials(approved: Boolean, skip: Int, take: Int): [Testimonial!]!
+  teamMembers(active: Boolean): [TeamMember!]!
+}
+
+type Mutation {
+  createLead(input: CreateLeadInput!): Lead!
+  updateLead(id: ID!, input: UpdateLeadInput!): Lead!
+  autoAssignLead(id: ID!): Lead
+  addLeadActivity(leadId: ID!, type: LeadActivityType!, title: String!, description: String): LeadActivity!
+  revalidate(tag: String!): Boolean!
+}
+`
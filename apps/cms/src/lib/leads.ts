@@ -0,0 +1,350 @@
+import { z } from 'zod'
+import { policyWhere, type Permission } from '@workspace/auth'
+import {
+  API_CONFIG,
+  LEAD_STATUSES,
+  LEAD_STATUS_META,
+  getNextLeadStatuses,
+  leadSourceSchema,
+  leadStatusSchema,
+  prioritySchema,
+  type LeadSource,
+  type BusinessCalendar,
+  type LeadStatus,
+  type Priority,
+} from '@workspace/config'
+import {
+  BusinessCalendarManager,
+  LEAD_OWNER_ROLES,
+  LeadAssignmentManager,
+  LeadManager,
+  NotFoundError,
+  buildWhatsAppLink,
+  decimalToNumber,
+  followUpWhere,
+  getWhatsAppReply,
+} from '@workspace/core'
+import type { Lead, Prisma, PrismaClient } from '@workspace/database'
+import { toQuoteSummary } from './quotes'
+import { requireAccess, type SessionUser } from './session'
+
+type Database = PrismaClient
+
+// Lead list state lives in the /leads query string. Unknown values fall
+// back to the defaults instead of failing the page.
+export const leadQuerySchema = z.object({
+  view: z.enum(['board', 'table']).catch('board'),
+  search: z.string().trim().optional().catch(undefined),
+  status: leadStatusSchema.optional().catch(undefined),
+  priority: prioritySchema.optional().catch(undefined),
+  source: leadSourceSchema.optional().catch(undefined),
+  // A user id, "me" or "unassigned"
+  assignee: z.string().optional().catch(undefined),
+  // Open leads whose follow-up is overdue or due later today
+  due: z.enum(['overdue', 'today']).optional().catch(undefined),
+  sort: z.enum(API_CONFIG.SORT_FIELDS.leads).catch('createdAt'),
+  order: z.enum(['asc', 'desc']).catch('desc'),
+  page: z.coerce.number().int().min(1).catch(1),
+  // Lead shown in the detail sheet
+  lead: z.string().optional().catch(undefined),
+})
+
+export type LeadQuery = z.infer<typeof leadQuerySchema>
+
+export function parseLeadQuery(searchParams: Record<string, string | string[] | undefined>): LeadQuery {
+  const values = Object.fromEntries(
+    Object.entries(searchParams).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value || undefined])
+  )
+  return leadQuerySchema.parse(values)
+}
+
+// Board columns need enough rows to be useful without paging
+const BOARD_LIMIT = 200
+
+const LEAD_SUMMARY_INCLUDE = {
+  assignedTo: { select: { id: true, name: true } },
+  service: { select: { title: true } },
+} as const
+
+// Plain, serializable lead shape passed to client components
+export interface LeadSummary {
+  id: string
+  name: string
+  email: string
+  phone: string | null
+  company: string | null
+  source: LeadSource
+  status: LeadStatus
+  priority: Priority
+  score: number
+  serviceType: string | null
+  estimatedValue: number | null
+  followUpDate: Date | null
+  createdAt: Date
+  updatedAt: Date
+  assignedTo: { id: string; name: string | null } | null
+  service: { title: string } | null
+}
+
+export interface LeadStatusColumn {
+  status: LeadStatus
+  name: string
+  color: string
+  next: readonly LeadStatus[]
+}
+
+export interface Assignee {
+  id: string
+  name: string | null
+  email: string
+}
+
+export interface Technician {
+  id: string
+  name: string
+}
+
+type LeadWithSummary = Lead & Pick<LeadSummary, 'assignedTo' | 'service'>
+
+function toLeadSummary(lead: LeadWithSummary): LeadSummary {
+  return {
+    id: lead.id,
+    name: lead.name,
+    email: lead.email,
+    phone: lead.phone,
+    company: lead.company,
+    source: lead.source,
+    status: lead.status,
+    priority: lead.priority,
+    score: lead.score,
+    serviceType: lead.serviceType,
+    estimatedValue: decimalToNumber(lead.estimatedValue),
+    followUpDate: lead.followUpDate,
+    createdAt: lead.createdAt,
+    updatedAt: lead.updatedAt,
+    assignedTo: lead.assignedTo,
+    service: lead.service,
+  }
+}
+
+// Status columns in workflow order, with the moves each one allows
+export function getLeadStatusColumns(): LeadStatusColumn[] {
+  return LEAD_STATUSES.map((status) => ({
+    status,
+    ...LEAD_STATUS_META[status],
+    next: getNextLeadStatuses(status),
+  }))
+}
+
+type LeadFilters = Pick<LeadQuery, 'search' | 'status' | 'priority' | 'source' | 'assignee' | 'due'>
+
+// The filters, within the leads the user may read. The policy goes through
+// AND so its own conditions cannot be overridden by the query's. "Due today"
+// ends at midnight in the business calendar's time zone.
+function leadWhere(
+  user: SessionUser,
+  query: LeadFilters,
+  calendar: BusinessCalendar,
+  now = new Date()
+): Prisma.LeadWhereInput {
+  const { search, status, priority, source, assignee, due } = query
+
+  const filters: Prisma.LeadWhereInput = {
+    ...(status && { status }),
+    ...(priority && { priority }),
+    ...(source && { source }),
+    ...(assignee && { assignedToId: assignee === 'unassigned' ? null : assignee }),
+    ...(due && { AND: [followUpWhere(due, now, calendar)] }),
+    ...(search && {
+      OR: [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+        { company: { contains: search, mode: 'insensitive' } },
+      ],
+    }),
+  }
+
+  return { AND: [policyWhere(user, 'lead:read', 'Lead'), filters] }
+}
+
+export async function listLeadTable(db: Database, user: SessionUser, query: LeadQuery) {
+  const pageSize = API_CONFIG.PAGINATION.defaultTake
+  const calendar = await new BusinessCalendarManager(db).getCalendar()
+  const where = leadWhere(user, query, calendar)
+
+  const [leads, total] = await Promise.all([
+    db.lead.findMany({
+      where,
+      include: LEAD_SUMMARY_INCLUDE,
+      orderBy: [{ [query.sort]: query.order }, { id: 'asc' }],
+      skip: (query.page - 1) * pageSize,
+      take: pageSize,
+    }),
+    db.lead.count({ where }),
+  ])
+
+  return {
+    leads: leads.map(toLeadSummary),
+    total,
+    page: query.page,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+  }
+}
+
+// The board ignores the status filter; every status is a column
+export async function listLeadBoard(db: Database, user: SessionUser, query: LeadQuery) {
+  const calendar = await new BusinessCalendarManager(db).getCalendar()
+  const leads = await db.lead.findMany({
+    where: leadWhere(user, { ...query, status: undefined }, calendar),
+    include: LEAD_SUMMARY_INCLUDE,
+    orderBy: { updatedAt: 'desc' },
+    take: BOARD_LIMIT,
+  })
+
+  return leads.map(toLeadSummary)
+}
+
+// Click-to-chat with the lead, prefilled in English and Arabic. Null without a usable phone.
+function getWhatsAppLinks(lead: Pick<Lead, 'name' | 'phone' | 'serviceType'>) {
+  const en = lead.phone && buildWhatsAppLink(lead.phone, getWhatsAppReply('en', lead))
+  const ar = lead.phone && buildWhatsAppLink(lead.phone, getWhatsAppReply('ar', lead))
+  return en && ar ? { en, ar } : null
+}
+
+// Null for leads the user may not read, as for ones that do not exist
+export async function getLeadDetail(db: Database, user: SessionUser, id: string) {
+  const lead = await db.lead.findFirst({
+    where: { AND: [{ id }, policyWhere(user, 'lead:read', 'Lead')] },
+    include: {
+      ...LEAD_SUMMARY_INCLUDE,
+      activities: { orderBy: { createdAt: 'desc' } },
+      quotes: { orderBy: { createdAt: 'desc' } },
+      appointments: { orderBy: { startsAt: 'asc' }, include: { technician: { select: { id: true, name: true } } } },
+      serviceArea: { select: { name: true } },
+    },
+  })
+
+  if (!lead) return null
+
+  return {
+    ...toLeadSummary(lead),
+    message: lead.message,
+    notes: lead.notes,
+    city: lead.city,
+    zipCode: lead.zipCode,
+    // null when the lead gave no location to check
+    inServiceArea: lead.inServiceArea,
+    serviceArea: lead.serviceArea?.name ?? null,
+    travelSurcharge: decimalToNumber(lead.travelSurcharge),
+    whatsapp: getWhatsAppLinks(lead),
+    activities: lead.activities.map(({ id, type, title, description, createdAt }) => ({
+      id,
+      type,
+      title,
+      description,
+      createdAt,
+    })),
+    quotes: lead.quotes.map(toQuoteSummary),
+    appointments: lead.appointments.map(
+      ({ id, status, startsAt, endsAt, serviceLocation, emergency, cancelReason, technician }) => ({
+        id,
+        status,
+        startsAt,
+        endsAt,
+        serviceLocation,
+        emergency,
+        cancelReason,
+        technician,
+      })
+    ),
+  }
+}
+
+export type LeadDetail = NonNullable<Awaited<ReturnType<typeof getLeadDetail>>>
+
+// Active staff who can own leads
+export async function listAssignees(db: Database): Promise<Assignee[]> {
+  return db.user.findMany({
+    where: { role: { in: [...LEAD_OWNER_ROLES] }, active: true },
+    select: { id: true, name: true, email: true },
+    orderBy: { name: 'asc' },
+  })
+}
+
+// Team members who take booked visits
+export async function listTechnicians(db: Database): Promise<Technician[]> {
+  return db.teamMember.findMany({
+    where: { technician: true, active: true },
+    select: { id: true, name: true },
+    orderBy: { order: 'asc' },
+  })
+}
+
+/**
+ * Loads the lead's owner and checks `permission` on it, throwing NotFoundError
+ * or ForbiddenError. Agents only reach the leads assigned to them; see
+ * POLICY_RULES in @workspace/auth.
+ */
+export async function requireLead(db: Database, user: SessionUser, permission: Permission, id: string) {
+  const lead = await db.lead.findUnique({ where: { id }, select: { id: true, assignedToId: true } })
+  if (!lead) {
+    throw new NotFoundError('Lead', id)
+  }
+
+  requireAccess(user, permission, { model: 'Lead', record: lead })
+  return lead
+}
+
+// Appointments are worked through their lead
+export async function requireAppointmentLead(db: Database, user: SessionUser, permission: Permission, id: string) {
+  const appointment = await db.appointment.findUnique({
+    where: { id },
+    select: { lead: { select: { id: true, assignedToId: true } } },
+  })
+  if (!appointment) {
+    throw new NotFoundError('Appointment', id)
+  }
+
+  requireAccess(user, permission, { model: 'Lead', record: appointment.lead })
+  return appointment.lead
+}
+
+// Null clears a field; null for assignedToId unassigns the lead
+export interface UpdateLeadInput {
+  status?: LeadStatus
+  priority?: Priority
+  assignedToId?: string | null
+  notes?: string | null
+  estimatedValue?: number | null
+  followUpDate?: Date | null
+}
+
+export async function updateLead(db: Database, id: string, input: UpdateLeadInput, actorId?: string) {
+  const { status, estimatedValue, assignedToId, ...fields } = input
+
+  return db.$transaction(async (tx) => {
+    const lead = await tx.lead.findUnique({ where: { id }, select: { id: true } })
+    if (!lead) {
+      throw new NotFoundError('Lead', id)
+    }
+
+    // Assignment is validated and logged by the routing engine
+    if (assignedToId !== undefined) {
+      await new LeadAssignmentManager(tx).assign(id, assignedToId, { actorId })
+    }
+
+    // Status changes go through the lead workflow, which checks the
+    // transition and records the estimated value along with it
+    if (status) {
+      if (Object.keys(fields).length > 0) {
+        await tx.lead.update({ where: { id }, data: fields })
+      }
+      return new LeadManager(tx).updateLeadStatus(id, status, { estimatedValue })
+    }
+
+    await tx.lead.update({ where: { id }, data: { ...fields, estimatedValue } })
+    // The estimated value feeds the lead score
+    return new LeadManager(tx).rescoreLead(id)
+  })
+}
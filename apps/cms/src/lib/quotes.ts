@@ -0,0 +1,188 @@
+import { createQuoteToken, policyWhere } from '@workspace/auth'
+import {
+  PRICING_CONFIG,
+  QUOTE_ITEM_TYPES,
+  QUOTE_ITEM_TYPE_META,
+  type QuoteItemType,
+  type QuoteStatus,
+  env,
+} from '@workspace/config'
+import {
+  QUOTE_DEFAULT_UNIT_PRICES,
+  NotFoundError,
+  decimalToNumber,
+  formatQuoteNumber,
+  type FinancingOffer,
+  type QuoteRow,
+} from '@workspace/core'
+import type { PrismaClient, Quote, QuoteLineItem } from '@workspace/database'
+import { sendEmail } from '@workspace/notifications'
+import { requireAccess, type SessionUser } from './session'
+
+type Database = PrismaClient
+
+// Plain, serializable quote shape passed to client components
+export interface QuoteSummary {
+  id: string
+  number: string
+  version: number
+  // Number with the version, as printed on the PDF
+  label: string
+  status: QuoteStatus
+  title: string
+  total: number
+  sentAt: Date | null
+  expiresAt: Date | null
+  createdAt: Date
+}
+
+export interface QuoteItemView {
+  type: QuoteItemType
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+}
+
+export interface QuoteDetail extends QuoteSummary {
+  notes: string | null
+  emergency: boolean
+  serviceDate: Date | null
+  subtotal: number
+  surcharge: number
+  taxRate: number
+  tax: number
+  validDays: number
+  financing: FinancingOffer[]
+  items: QuoteItemView[]
+  lead: { id: string; name: string; email: string }
+  // The customer's answer, from the public quote page
+  acceptedAt: Date | null
+  signatureName: string | null
+  financingMonths: number | null
+  declinedAt: Date | null
+  declineReason: string | null
+  // Link to the public quote page while the customer can still answer
+  customerUrl: string | null
+}
+
+// Defaults and labels the quote builder needs on the client
+export interface QuoteBuilderOptions {
+  itemTypes: { value: QuoteItemType; name: string; defaultPrice: number | null }[]
+  taxRate: number
+  validDays: number
+}
+
+export function toQuoteSummary(quote: Quote): QuoteSummary {
+  return {
+    id: quote.id,
+    number: quote.number,
+    version: quote.version,
+    label: formatQuoteNumber(quote),
+    status: quote.status,
+    title: quote.title,
+    total: decimalToNumber(quote.total) ?? 0,
+    sentAt: quote.sentAt,
+    expiresAt: quote.expiresAt,
+    createdAt: quote.createdAt,
+  }
+}
+
+const money = (value: Quote['total']) => decimalToNumber(value) ?? 0
+
+// Null for quotes the user may not manage, as for ones that do not exist
+export async function getQuoteDetail(db: Database, user: SessionUser, id: string): Promise<QuoteDetail | null> {
+  const quote = await db.quote.findFirst({
+    where: { AND: [{ id }, policyWhere(user, 'quote:manage', 'Quote')] },
+    include: {
+      items: { orderBy: { order: 'asc' } },
+      lead: { select: { id: true, name: true, email: true } },
+    },
+  })
+
+  if (!quote) return null
+
+  return {
+    ...toQuoteSummary(quote),
+    notes: quote.notes,
+    emergency: quote.emergency,
+    serviceDate: quote.serviceDate,
+    subtotal: money(quote.subtotal),
+    surcharge: money(quote.surcharge),
+    taxRate: money(quote.taxRate),
+    tax: money(quote.tax),
+    validDays: quote.validDays,
+    financing: Array.isArray(quote.financing) ? (quote.financing as unknown as FinancingOffer[]) : [],
+    items: quote.items.map((item: QuoteLineItem) => ({
+      type: item.type,
+      description: item.description,
+      quantity: money(item.quantity),
+      unitPrice: money(item.unitPrice),
+      total: money(item.total),
+    })),
+    lead: quote.lead,
+    acceptedAt: quote.acceptedAt,
+    signatureName: quote.signatureName,
+    financingMonths: quote.financingMonths,
+    declinedAt: quote.declinedAt,
+    declineReason: quote.declineReason,
+    customerUrl: quote.status === 'SENT' && quote.expiresAt ? getCustomerQuoteUrl(quote.id, quote.expiresAt) : null,
+  }
+}
+
+/**
+ * Loads the quote's lead owner and checks quote:manage on it, throwing
+ * NotFoundError or ForbiddenError. Agents only reach quotes on the leads
+ * assigned to them; see POLICY_RULES in @workspace/auth.
+ */
+export async function requireQuote(db: Database, user: SessionUser, id: string) {
+  const quote = await db.quote.findUnique({
+    where: { id },
+    select: { id: true, lead: { select: { assignedToId: true } } },
+  })
+  if (!quote) {
+    throw new NotFoundError('Quote', id)
+  }
+
+  requireAccess(user, 'quote:manage', { model: 'Quote', record: quote })
+  return quote
+}
+
+// Unprefixed, so the web app picks the customer's language
+export function getCustomerQuoteUrl(quoteId: string, expiresAt: Date): string {
+  return new URL(`/quotes/${createQuoteToken(quoteId, expiresAt)}`, env.NEXT_PUBLIC_APP_URL).toString()
+}
+
+const amountFormat = new Intl.NumberFormat('en', { style: 'currency', currency: 'USD' })
+const expiryFormat = new Intl.DateTimeFormat('en', { dateStyle: 'long' })
+
+// Plain-text email linking the customer to the page where they accept or decline
+export async function emailQuoteToCustomer(db: Database, quote: QuoteRow): Promise<void> {
+  const lead = await db.lead.findUnique({ where: { id: quote.leadId }, select: { name: true, email: true } })
+
+  if (!lead || !quote.expiresAt) return
+
+  await sendEmail(db, {
+    to: lead.email,
+    subject: `Your quote from ${env.BUSINESS_NAME}: ${quote.title}`,
+    text: [
+      `Hi ${lead.name},`,
+      '',
+      `Your quote ${formatQuoteNumber(quote)} for ${quote.title} comes to ${amountFormat.format(decimalToNumber(quote.total) ?? 0)}.`,
+      `Review it, then accept or decline it here before ${expiryFormat.format(quote.expiresAt)}:`,
+      getCustomerQuoteUrl(quote.id, quote.expiresAt),
+    ].join('\n'),
+  })
+}
+
+export function getQuoteBuilderOptions(): QuoteBuilderOptions {
+  return {
+    itemTypes: QUOTE_ITEM_TYPES.map((value) => ({
+      value,
+      name: QUOTE_ITEM_TYPE_META[value].name,
+      defaultPrice: QUOTE_DEFAULT_UNIT_PRICES[value] ?? null,
+    })),
+    taxRate: PRICING_CONFIG.QUOTES.TAX_RATE,
+    validDays: PRICING_CONFIG.QUOTES.VALID_DAYS,
+  }
+}
@@ -0,0 +1,38 @@
+import { revalidateTag } from 'next/cache'
+import { after } from 'next/server'
+import { getRevalidationConfig } from '@workspace/config'
+import {
+  createRevalidationSender,
+  getRevalidationTags,
+  type RevalidationLogEntry,
+  type RevalidationModel,
+} from '@workspace/core'
+import { db } from '@workspace/database'
+
+const config = getRevalidationConfig()
+
+// Without WEB_REVALIDATE_URL and REVALIDATE_SECRET the web app only
+// refreshes on its ISR interval
+const sender =
+  config &&
+  createRevalidationSender({
+    ...config,
+    log: { record: (entry: RevalidationLogEntry) => db.revalidationLog.create({ data: entry }) },
+  })
+
+/**
+ * Clears the tags in this app and, once the response has been sent, posts
+ * them to the web app with retries. Every outcome lands in RevalidationLog.
+ */
+export function revalidateTags(tags: string[], source: string) {
+  tags.forEach((tag) => revalidateTag(tag))
+
+  if (sender) {
+    after(() => sender.send({ source, tags }))
+  }
+}
+
+// Called after every content mutation
+export function revalidateContent(model: RevalidationModel) {
+  revalidateTags(getRevalidationTags(model), model)
+}
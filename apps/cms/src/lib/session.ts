@@ -0,0 +1,51 @@
+import { auth, can, hasPermission, toRole, type Permission, type PolicyResource } from '@workspace/auth'
+import type { UserRole } from '@workspace/config'
+import { ForbiddenError, UnauthorizedError } from '@workspace/core'
+
+export interface SessionUser {
+  id: string
+  role: UserRole
+}
+
+// Reads the id and role the auth callbacks put on session.user. Roles from
+// sessions signed before the roles were unified are mapped to current ones.
+export function toSessionUser(user: unknown): SessionUser | null {
+  const { id, role } = (user ?? {}) as { id?: unknown; role?: unknown }
+  const parsedRole = toRole(role)
+
+  if (typeof id !== 'string' || !parsedRole) {
+    return null
+  }
+
+  return { id, role: parsedRole }
+}
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = await auth()
+  return toSessionUser(session?.user)
+}
+
+// What each role may do is ROLE_PERMISSIONS in @workspace/auth
+export function isAllowed(user: SessionUser | null, permission: Permission): user is SessionUser {
+  return !!user && hasPermission(user.role, permission)
+}
+
+export function requirePermission(context: { user: SessionUser | null }, permission: Permission): SessionUser {
+  if (!context.user) {
+    throw new UnauthorizedError('Sign in to access this resource')
+  }
+
+  if (!isAllowed(context.user, permission)) {
+    throw new ForbiddenError()
+  }
+
+  return context.user
+}
+
+// Row-level checks on top of requirePermission, e.g. agents and the leads
+// assigned to them. The rules are POLICY_RULES in @workspace/auth.
+export function requireAccess(user: SessionUser, permission: Permission, resource: PolicyResource): void {
+  if (!can(user, permission, resource)) {
+    throw new ForbiddenError()
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  SETTINGS,
+  SETTING_CATEGORIES,
+  SETTING_KEYS,
+  isSettingKey,
+  type SettingCategory,
+  type SettingDefinition,
+  type SettingInput,
+  type SettingKey,
+  type SettingValues,
+} from '@workspace/config'
+import { SettingsManager, ValidationError } from '@workspace/core'
+import type { PrismaClient } from '@workspace/database'
+
+type Database = PrismaClient
+
+// Form values: switches are booleans, everything else is edited as text
+export type SettingFieldValue = string | boolean
+
+// Plain, serializable registry entry passed to the settings form
+export interface SettingField {
+  key: SettingKey
+  label: string
+  description: string | null
+  input: SettingInput
+  value: SettingFieldValue
+}
+
+export interface SettingsSection {
+  category: SettingCategory
+  label: string
+  fields: SettingField[]
+}
+
+function toFieldValue(key: SettingKey, value: unknown): SettingFieldValue {
+  switch (SETTINGS[key].input) {
+    case 'switch':
+      return value === true
+    case 'json':
+      return JSON.stringify(value, null, 2)
+    default:
+      return String(value ?? '')
+  }
+}
+
+// Every registry setting with its current value, grouped by category in registry order
+export async function getSettingsSections(db: Database): Promise<SettingsSection[]> {
+  const values = (await new SettingsManager(db).getSettings()) as SettingValues
+
+  return (Object.keys(SETTING_CATEGORIES) as SettingCategory[]).map((category) => ({
+    category,
+    label: SETTING_CATEGORIES[category],
+    fields: SETTING_KEYS.filter((key) => SETTINGS[key].category === category).map((key) => {
+      const { label, description, input }: SettingDefinition = SETTINGS[key]
+      return { key, label, description: description ?? null, input, value: toFieldValue(key, values[key]) }
+    }),
+  }))
+}
+
+/**
+ * Form values back to setting values for SettingsManager.setSettings. JSON
+ * fields are parsed here; the registry schemas validate everything else.
+ */
+export function parseSettingsForm(form: Record<string, SettingFieldValue>): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(form)) {
+    if (!isSettingKey(key) || SETTINGS[key].input !== 'json' || typeof value !== 'string') {
+      values[key] = value
+      continue
+    }
+    try {
+      values[key] = JSON.parse(value)
+    } catch {
+      throw new ValidationError(`${SETTINGS[key].label} is not valid JSON`, key)
+    }
+  }
+
+  return values
+}
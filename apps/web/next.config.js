@@ -35,6 +35,7 @@ const nextConfig = {
     '@workspace/core',
     '@workspace/database',
     '@workspace/auth',
+    '@workspace/notifications',
     '@workspace/search',
     '@workspace/analytics',
     '@workspace/config'
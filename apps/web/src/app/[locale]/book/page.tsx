@@ -0,0 +1,38 @@
+import { getTranslations } from 'next-intl/server'
+import { APPOINTMENT_CONFIG, SERVICE_CATEGORIES, env, formatServiceName } from '@workspace/config'
+import { BookingForm } from '../../../components/booking-form'
+
+// Availability changes with every booking
+export const dynamic = 'force-dynamic'
+
+interface Props {
+  params: Promise<{ locale: string }>
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'booking' })
+
+  return { title: t('metaTitle'), description: t('subtitle', { days: APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS }) }
+}
+
+export default async function BookPage({ params }: Props) {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'booking' })
+
+  // Emergencies are handled by phone, so they are not offered as a service here
+  const services = Object.values(SERVICE_CATEGORIES)
+    .filter((category) => category.id !== SERVICE_CATEGORIES.EMERGENCY.id)
+    .flatMap((category) => category.services)
+    .map((service) => ({ value: service, label: formatServiceName(service) }))
+
+  return (
+    <main className="mx-auto max-w-3xl space-y-6 px-4 py-16">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold">{t('title')}</h1>
+        <p className="text-gray-600">{t('subtitle', { days: APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS })}</p>
+      </div>
+      <BookingForm services={services} recaptchaSiteKey={env.RECAPTCHA_SITE_KEY} />
+    </main>
+  )
+}
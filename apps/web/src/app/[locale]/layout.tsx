@@ -5,6 +5,8 @@ import { notFound } from 'next/navigation';
 import { ReactNode } from 'react';
 import { locales, type Locale } from '../../i18n';
 import LanguageSwitcher from '../../components/language-switcher';
+import { BusinessStatus } from '../../components/business-status';
+import { WhatsAppButton } from '../../components/whatsapp-button';
 import '../globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -97,10 +99,12 @@ export default async function LocaleLayout({
     <html lang={locale} dir={isRTL ? 'rtl' : 'ltr'} className={isRTL ? 'rtl' : 'ltr'}>
       <body className={`${inter.className} ${isRTL ? 'font-arabic' : ''}`}>
         <NextIntlClientProvider messages={messages}>
-          <header className="fixed top-0 right-0 z-50 p-4">
+          <header className="fixed top-0 right-0 z-50 flex items-center gap-3 p-4">
+            <BusinessStatus />
             <LanguageSwitcher />
           </header>
           {children}
+          <WhatsAppButton />
         </NextIntlClientProvider>
       </body>
     </html>
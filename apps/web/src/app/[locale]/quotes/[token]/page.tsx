@@ -0,0 +1,131 @@
+import { notFound } from 'next/navigation'
+import { getFormatter, getTranslations } from 'next-intl/server'
+import { Card, CardContent, CardHeader, CardTitle } from '../../../../components/ui/card'
+import { QuoteResponseForm } from '../../../../components/quote-response-form'
+import { getCustomerQuote } from '../../../../lib/quotes'
+
+// Quote links are personal and change as soon as the customer answers
+export const dynamic = 'force-dynamic'
+
+interface Props {
+  params: Promise<{ locale: string; token: string }>
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { locale } = await params
+  const t = await getTranslations({ locale, namespace: 'quote' })
+
+  return {
+    title: t('metaTitle'),
+    robots: { index: false, follow: false },
+  }
+}
+
+export default async function QuotePage({ params }: Props) {
+  const { locale, token } = await params
+  const quote = await getCustomerQuote(token)
+
+  if (!quote) {
+    notFound()
+  }
+
+  const t = await getTranslations({ locale, namespace: 'quote' })
+  const format = await getFormatter({ locale })
+  const money = (amount: number) => format.number(amount, { style: 'currency', currency: 'USD' })
+  const date = (value: Date) => format.dateTime(value, 'long')
+
+  return (
+    <main className="mx-auto max-w-3xl space-y-6 px-4 py-16">
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold">{t('title', { label: quote.label })}</h1>
+        <p className="text-lg">{quote.title}</p>
+        {quote.state === 'open' && quote.expiresAt && (
+          <p className="text-sm text-gray-600">{t('validUntil', { date: date(quote.expiresAt) })}</p>
+        )}
+      </div>
+
+      {quote.state === 'open' ? (
+        <p>
+          {t('greeting', { name: quote.customerName })} {t('intro')}
+        </p>
+      ) : (
+        <div className="rounded-lg border bg-gray-50 p-4" role="status">
+          {quote.state === 'accepted' && (
+            <>
+              <p>{t('states.accepted', { date: date(quote.acceptedAt!), name: quote.signatureName! })}</p>
+              {quote.financingMonths && <p>{t('states.acceptedFinancing', { months: quote.financingMonths })}</p>}
+            </>
+          )}
+          {quote.state === 'declined' && <p>{t('states.declined', { date: date(quote.declinedAt!) })}</p>}
+          {quote.state === 'expired' && <p>{t('states.expired')}</p>}
+          {quote.state === 'superseded' && <p>{t('states.superseded')}</p>}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('scope')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-start text-gray-600">
+                <th className="py-2 text-start font-medium">{t('description')}</th>
+                <th className="py-2 text-end font-medium">{t('quantity')}</th>
+                <th className="py-2 text-end font-medium">{t('unitPrice')}</th>
+                <th className="py-2 text-end font-medium">{t('amount')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quote.items.map((item, index) => (
+                <tr key={index} className="border-b align-top">
+                  <td className="py-2">
+                    <p>{item.description}</p>
+                    <p className="text-xs text-gray-500">{t(`itemTypes.${item.type}`)}</p>
+                  </td>
+                  <td className="py-2 text-end tabular-nums">{format.number(item.quantity)}</td>
+                  <td className="py-2 text-end tabular-nums">{money(item.unitPrice)}</td>
+                  <td className="py-2 text-end tabular-nums">{money(item.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <dl className="ms-auto mt-4 max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt>{t('subtotal')}</dt>
+              <dd className="tabular-nums">{money(quote.subtotal)}</dd>
+            </div>
+            {quote.surcharge > 0 && (
+              <div className="flex justify-between">
+                <dt>{t('surcharge')}</dt>
+                <dd className="tabular-nums">{money(quote.surcharge)}</dd>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <dt>{t('tax')}</dt>
+              <dd className="tabular-nums">{money(quote.tax)}</dd>
+            </div>
+            <div className="flex justify-between border-t pt-1 text-base font-semibold">
+              <dt>{t('total')}</dt>
+              <dd className="tabular-nums">{money(quote.total)}</dd>
+            </div>
+          </dl>
+        </CardContent>
+      </Card>
+
+      {quote.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t('notes')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="whitespace-pre-line text-sm">{quote.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {quote.state === 'open' && <QuoteResponseForm token={token} total={quote.total} financing={quote.financing} />}
+    </main>
+  )
+}
@@ -0,0 +1,37 @@
+import { API_CONFIG } from '@workspace/config'
+import {
+  AppointmentManager,
+  RateLimitError,
+  apiError,
+  apiJson,
+  availabilityQuerySchema,
+  createRateLimiter,
+  getClientIp,
+} from '@workspace/core'
+import { db } from '@workspace/database'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/appointments/availability?serviceType=furnace_repair[&from=2024-03-04&days=7]
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = availabilityQuerySchema.parse(Object.fromEntries(searchParams))
+    const slots = await new AppointmentManager(db).getAvailability(query)
+
+    // Which technician takes the visit is decided at booking time
+    return apiJson({ slots: slots.map(({ startsAt, endsAt }) => ({ startsAt, endsAt })) })
+  } catch (error) {
+    return apiError(error)
+  }
+}
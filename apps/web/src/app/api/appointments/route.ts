@@ -0,0 +1,83 @@
+import { after } from 'next/server'
+import { API_CONFIG, env, isProduction } from '@workspace/config'
+import {
+  AppointmentManager,
+  ConflictError,
+  LeadAssignmentManager,
+  LeadCaptureManager,
+  ValidationError,
+  apiError,
+  apiJson,
+  appointmentRequestSchema,
+  createRateLimiter,
+  createRecaptchaVerifier,
+  getClientIp,
+} from '@workspace/core'
+import { db, type Prisma } from '@workspace/database'
+import { resolveLocale } from '@workspace/notifications'
+import { emailAppointmentConfirmation } from '../../../lib/appointment-notifications'
+import { notifyNewLead } from '../../../lib/lead-notifications'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.contact)
+
+const captcha = createRecaptchaVerifier({
+  secretKey: env.RECAPTCHA_SECRET_KEY,
+  allowWithoutSecret: !isProduction(),
+})
+
+// Postgres aborts one of two serializable transactions that race for a slot
+const isSerializationFailure = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2034'
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => {
+      throw new ValidationError('Request body must be valid JSON')
+    })
+    const { startsAt, serviceLocation, emergencyService, serviceType, message } = appointmentRequestSchema.parse(body)
+
+    // The lead is kept even if the slot is gone, so sales can still call back.
+    // Every booking gets its own lead: knowing a customer's email or phone
+    // must not be enough to book visits on their lead.
+    const capture = new LeadCaptureManager({ db, captcha, rateLimiter })
+    const { lead } = await capture.captureLead(
+      { ...body, address: body.address ?? serviceLocation, ...(emergencyService && { urgency: 'IMMEDIATE' }) },
+      { ip: getClientIp(request.headers), dedup: false }
+    )
+
+    const appointment = await db
+      .$transaction(
+        (tx: Prisma.TransactionClient) =>
+          new AppointmentManager(tx).bookAppointment(lead.id, {
+            startsAt,
+            serviceType,
+            serviceLocation,
+            notes: message,
+            emergency: emergencyService,
+          }),
+        { isolationLevel: 'Serializable' }
+      )
+      .catch((error: unknown) => {
+        throw isSerializationFailure(error) ? new ConflictError('No technician is available at that time') : error
+      })
+
+    after(async () => {
+      const assigned = await new LeadAssignmentManager(db)
+        .autoAssign(lead.id)
+        .catch((error: unknown) => console.error('Lead routing failed:', error))
+      await notifyNewLead(assigned?.lead ?? lead)
+      await emailAppointmentConfirmation(appointment, lead, resolveLocale(body.locale)).catch((error: unknown) =>
+        console.error('Appointment confirmation failed:', error)
+      )
+    })
+
+    return apiJson({ id: appointment.id, startsAt: appointment.startsAt }, 201)
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,25 @@
+import { API_CONFIG, getBusinessStatus } from '@workspace/config'
+import { RateLimitError, apiError, apiJson, createRateLimiter, getClientIp } from '@workspace/core'
+import { getBusinessCalendar } from '../../../lib/content'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/business-status: open now and until when, or when we open next
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const calendar = await getBusinessCalendar()
+    return apiJson(getBusinessStatus(new Date(), calendar))
+  } catch (error) {
+    return apiError(error)
+  }
+}
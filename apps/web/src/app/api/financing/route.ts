@@ -0,0 +1,34 @@
+import { API_CONFIG } from '@workspace/config'
+import {
+  RateLimitError,
+  apiError,
+  apiJson,
+  createRateLimiter,
+  financingRequestSchema,
+  getClientIp,
+  getFinancingPlans,
+} from '@workspace/core'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/financing?amount=5000[&months=24]
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const plans = getFinancingPlans(financingRequestSchema.parse(Object.fromEntries(searchParams)))
+
+    return apiJson({ plans })
+  } catch (error) {
+    return apiError(error)
+  }
+}
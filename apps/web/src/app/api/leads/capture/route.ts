@@ -0,0 +1,53 @@
+import { after } from 'next/server'
+import { API_CONFIG, env, isProduction } from '@workspace/config'
+import {
+  LeadAssignmentManager,
+  LeadCaptureManager,
+  ValidationError,
+  apiError,
+  apiJson,
+  createRateLimiter,
+  createRecaptchaVerifier,
+  getClientIp,
+} from '@workspace/core'
+import { db } from '@workspace/database'
+import { notifyNewLead } from '../../../../lib/lead-notifications'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.contact)
+
+const captcha = createRecaptchaVerifier({
+  secretKey: env.RECAPTCHA_SECRET_KEY,
+  allowWithoutSecret: !isProduction(),
+})
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => {
+      throw new ValidationError('Request body must be valid JSON')
+    })
+
+    const capture = new LeadCaptureManager({ db, captcha, rateLimiter })
+    const { lead, duplicate } = await capture.captureLead(body, { ip: getClientIp(request.headers) })
+
+    // Routing and the owner's alert run after the response so they cannot fail or slow the submission
+    if (!duplicate) {
+      after(async () => {
+        const assigned = await new LeadAssignmentManager(db)
+          .autoAssign(lead.id)
+          .catch((error: unknown) => console.error('Lead routing failed:', error))
+        await notifyNewLead(assigned?.lead ?? lead)
+      })
+    }
+
+    // New and repeat submissions get the same answer, so the endpoint cannot
+    // be used to find out whether an email or phone is already a customer
+    return apiJson({ received: true }, 202)
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,68 @@
+import { after } from 'next/server'
+import { verifyQuoteToken } from '@workspace/auth'
+import { API_CONFIG } from '@workspace/config'
+import {
+  NotFoundError,
+  QuoteManager,
+  RateLimitError,
+  ValidationError,
+  apiError,
+  apiJson,
+  createRateLimiter,
+  getClientIp,
+  quoteAcceptanceSchema,
+  quoteDeclineSchema,
+} from '@workspace/core'
+import { db, type Prisma } from '@workspace/database'
+import { emailQuoteResponseNotifier } from '../../../../lib/quote-notifications'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.quoteResponse)
+
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const ip = getClientIp(request.headers)
+    const limit = rateLimiter.hit(ip)
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { token } = await params
+    let quoteId: string
+    try {
+      quoteId = verifyQuoteToken(token)
+    } catch {
+      throw new NotFoundError('Quote')
+    }
+
+    const body = await request.json().catch(() => {
+      throw new ValidationError('Request body must be valid JSON')
+    })
+    const { decision, ...input } = body ?? {}
+    if (decision !== 'accept' && decision !== 'decline') {
+      throw new ValidationError('Decision must be accept or decline', 'decision')
+    }
+
+    const response = await db.$transaction((tx: Prisma.TransactionClient) => {
+      const quotes = new QuoteManager(tx)
+      return decision === 'accept'
+        ? quotes.acceptQuote(quoteId, quoteAcceptanceSchema.parse(input), { ip })
+        : quotes.declineQuote(quoteId, quoteDeclineSchema.parse(input))
+    })
+
+    // The agent is told after the response so a mail failure cannot undo the answer
+    after(() =>
+      emailQuoteResponseNotifier
+        .quoteResponded(response)
+        .catch((error: unknown) => console.error('Quote response notification failed:', error))
+    )
+
+    return apiJson({ status: response.quote.status })
+  } catch (error) {
+    return apiError(error)
+  }
+}
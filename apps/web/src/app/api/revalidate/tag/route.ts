@@ -0,0 +1,36 @@
+import { revalidateTag } from 'next/cache'
+import { env } from '@workspace/config'
+import {
+  BusinessError,
+  REVALIDATION_SIGNATURE_HEADER,
+  apiError,
+  apiJson,
+  parseRevalidationRequest,
+} from '@workspace/core'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Signed webhook from the CMS; see createRevalidationSender in @workspace/core
+export async function POST(request: Request) {
+  try {
+    if (!env.REVALIDATE_SECRET) {
+      throw new BusinessError('Revalidation is not configured', 'REVALIDATION_DISABLED', 503)
+    }
+
+    const { tags } = parseRevalidationRequest(
+      await request.text(),
+      request.headers.get(REVALIDATION_SIGNATURE_HEADER),
+      env.REVALIDATE_SECRET
+    )
+
+    for (const tag of tags) {
+      revalidateTag(tag)
+    }
+
+    return apiJson({ revalidated: tags, now: Date.now() })
+  } catch (error) {
+    return apiError(error)
+  }
+}
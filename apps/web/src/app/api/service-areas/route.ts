@@ -0,0 +1,40 @@
+import { API_CONFIG } from '@workspace/config'
+import {
+  RateLimitError,
+  apiError,
+  apiJson,
+  createRateLimiter,
+  getClientIp,
+  serviceAreaLookupSchema,
+} from '@workspace/core'
+import { lookupServiceArea } from '../../../lib/content'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/service-areas?zip=62704 (or city=, address=, lat=&lng=)
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { zip, city, address, lat, lng } = serviceAreaLookupSchema.parse(Object.fromEntries(searchParams))
+    const match = await lookupServiceArea({
+      zipCode: zip,
+      city,
+      address,
+      point: lat !== undefined && lng !== undefined ? { lat, lng } : null,
+    })
+
+    return apiJson({ inArea: match.inArea, area: match.area?.name ?? null, surcharge: match.surcharge })
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,24 @@
+import { API_CONFIG } from '@workspace/config'
+import { RateLimitError, apiError, apiJson, createRateLimiter, getClientIp } from '@workspace/core'
+import { getPublicSettings } from '../../../lib/content'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/settings: public settings only (contact details, CTAs, WhatsApp)
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    return apiJson(await getPublicSettings())
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,37 @@
+import { API_CONFIG } from '@workspace/config'
+import {
+  RateLimitError,
+  apiError,
+  apiJson,
+  buildWhatsAppLink,
+  createRateLimiter,
+  getClientIp,
+  getWhatsAppInquiry,
+} from '@workspace/core'
+import { getWhatsAppNumber } from '../../../lib/content'
+
+// FLUX Rule: API routes require Node runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Module scope so limits hold across requests served by a warm instance
+const rateLimiter = createRateLimiter(API_CONFIG.RATE_LIMITS.default)
+
+// GET /api/whatsapp?locale=ar[&serviceType=ac_repair]: click-to-chat link to
+// the business with a prefilled question, or null when no number is set
+export async function GET(request: Request) {
+  try {
+    const limit = rateLimiter.hit(getClientIp(request.headers))
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { searchParams } = new URL(request.url)
+    const number = await getWhatsAppNumber()
+    const text = getWhatsAppInquiry(searchParams.get('locale') ?? 'en', searchParams.get('serviceType'))
+
+    return apiJson({ url: number ? buildWhatsAppLink(number, text) : null })
+  } catch (error) {
+    return apiError(error)
+  }
+}
@@ -0,0 +1,291 @@
+'use client'
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react'
+import Script from 'next/script'
+import { useFormatter, useLocale, useTranslations } from 'next-intl'
+import {
+  Button,
+  Checkbox,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from '@workspace/ui'
+import { Loader2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { getRecaptchaToken, recaptchaScriptUrl } from '../lib/recaptcha'
+
+interface BookingFormProps {
+  services: { value: string; label: string }[]
+  recaptchaSiteKey?: string
+}
+
+interface Slot {
+  startsAt: string
+  endsAt: string
+}
+
+// Error codes from the appointments API that have their own message
+const ERROR_MESSAGES: Record<string, string> = {
+  CONFLICT: 'errors.taken',
+  RATE_LIMITED: 'errors.rateLimited',
+  VALIDATION_ERROR: 'errors.invalid',
+}
+
+const DAYS_SHOWN = 14
+
+/**
+ * Public booking form. Slots come from GET /api/appointments/availability for
+ * the chosen service; submitting creates or links the lead and books the
+ * visit in one request.
+ */
+export function BookingForm({ services, recaptchaSiteKey }: BookingFormProps) {
+  const t = useTranslations('booking')
+  const format = useFormatter()
+  const locale = useLocale()
+  const [serviceType, setServiceType] = useState('')
+  const [slots, setSlots] = useState<Slot[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [startsAt, setStartsAt] = useState<string | null>(null)
+  const [details, setDetails] = useState({ name: '', email: '', phone: '', serviceLocation: '', message: '' })
+  const [emergencyService, setEmergencyService] = useState(false)
+  const [error, setError] = useState('')
+  const [isPending, setIsPending] = useState(false)
+  const [booked, setBooked] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!serviceType) return
+
+    const controller = new AbortController()
+    const query = new URLSearchParams({ serviceType, days: String(DAYS_SHOWN) })
+    setLoadingSlots(true)
+    setStartsAt(null)
+
+    fetch(`/api/appointments/availability?${query}`, { signal: controller.signal, cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : { slots: [] }))
+      .then((data: { slots: Slot[] }) => setSlots(data.slots))
+      .catch(() => {
+        if (!controller.signal.aborted) setSlots([])
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingSlots(false)
+      })
+
+    return () => controller.abort()
+  }, [serviceType])
+
+  // Slots grouped under their day
+  const days = useMemo(() => {
+    const groups = new Map<string, Slot[]>()
+    for (const slot of slots) {
+      const day = format.dateTime(new Date(slot.startsAt), 'long')
+      groups.set(day, [...(groups.get(day) ?? []), slot])
+    }
+    return [...groups]
+  }, [slots, format])
+
+  const time = (value: string) => format.dateTime(new Date(value), { hour: 'numeric', minute: '2-digit' })
+
+  const update = (field: keyof typeof details) => (event: { target: { value: string } }) =>
+    setDetails((current) => ({ ...current, [field]: event.target.value }))
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!startsAt) return
+
+    setError('')
+    setIsPending(true)
+
+    try {
+      const captchaToken = await getRecaptchaToken(recaptchaSiteKey, 'book_appointment')
+      const response = await fetch('/api/appointments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...details, serviceType, startsAt, emergencyService, captchaToken, locale }),
+        cache: 'no-store',
+      })
+
+      if (!response.ok) {
+        const { code } = await response.json().catch(() => ({ code: null }))
+        setError(t(ERROR_MESSAGES[code] ?? 'errors.generic'))
+        // Someone else took the slot; show what is left
+        if (code === 'CONFLICT') {
+          setSlots((current) => current.filter((slot) => slot.startsAt !== startsAt))
+          setStartsAt(null)
+        }
+        return
+      }
+
+      setBooked(startsAt)
+    } catch {
+      setError(t('errors.generic'))
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  if (booked) {
+    return (
+      <Card>
+        <CardContent className="space-y-2 pt-6" role="status">
+          <p className="text-lg font-semibold">{t('booked.title')}</p>
+          <p>
+            {t('booked.body', {
+              date: format.dateTime(new Date(booked), 'long'),
+              time: time(booked),
+            })}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-6">
+      {recaptchaSiteKey && <Script src={recaptchaScriptUrl(recaptchaSiteKey)} strategy="afterInteractive" />}
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('when')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="booking-service">{t('service')}</Label>
+            <Select value={serviceType} onValueChange={setServiceType}>
+              <SelectTrigger id="booking-service">
+                <SelectValue placeholder={t('servicePlaceholder')} />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map((service) => (
+                  <SelectItem key={service.value} value={service.value}>
+                    {service.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loadingSlots ? (
+            <p className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('loadingSlots')}
+            </p>
+          ) : serviceType && days.length === 0 ? (
+            <p className="text-sm text-gray-600">{t('noSlots')}</p>
+          ) : (
+            days.map(([day, daySlots]) => (
+              <fieldset key={day} className="space-y-2">
+                <legend className="text-sm font-medium">{day}</legend>
+                <div className="flex flex-wrap gap-2">
+                  {daySlots.map((slot) => (
+                    <Button
+                      key={slot.startsAt}
+                      type="button"
+                      size="sm"
+                      variant={slot.startsAt === startsAt ? 'default' : 'outline'}
+                      aria-pressed={slot.startsAt === startsAt}
+                      onClick={() => setStartsAt(slot.startsAt)}
+                    >
+                      {time(slot.startsAt)}
+                    </Button>
+                  ))}
+                </div>
+              </fieldset>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t('details')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="booking-name">{t('name')}</Label>
+              <Input
+                id="booking-name"
+                value={details.name}
+                onChange={update('name')}
+                autoComplete="name"
+                required
+                minLength={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-phone">{t('phone')}</Label>
+              <Input
+                id="booking-phone"
+                type="tel"
+                value={details.phone}
+                onChange={update('phone')}
+                autoComplete="tel"
+                required
+                minLength={10}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booking-email">{t('email')}</Label>
+            <Input
+              id="booking-email"
+              type="email"
+              value={details.email}
+              onChange={update('email')}
+              autoComplete="email"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booking-location">{t('serviceLocation')}</Label>
+            <Input
+              id="booking-location"
+              value={details.serviceLocation}
+              onChange={update('serviceLocation')}
+              autoComplete="street-address"
+              required
+              minLength={5}
+              maxLength={300}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="booking-message">{t('message')}</Label>
+            <Textarea
+              id="booking-message"
+              value={details.message}
+              onChange={update('message')}
+              placeholder={t('messagePlaceholder')}
+              rows={3}
+            />
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="booking-emergency"
+              checked={emergencyService}
+              onCheckedChange={(checked) => setEmergencyService(checked === true)}
+            />
+            <Label htmlFor="booking-emergency" className="leading-snug">
+              {t('emergency')}
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Button type="submit" disabled={isPending || !startsAt}>
+        {isPending && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+        {t('submit')}
+      </Button>
+    </form>
+  )
+}
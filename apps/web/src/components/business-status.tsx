@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useFormatter, useTranslations } from 'next-intl'
+import { cn } from '../lib/utils'
+
+interface BusinessStatus {
+  open: boolean
+  closesAt: string | null
+  opensAt: string | null
+  closedFor: string | null
+  timezone: string
+}
+
+// Often enough to flip to "closed" soon after closing time
+const REFRESH_MS = 5 * 60 * 1000
+
+/**
+ * "Open now until 6 PM" or "Closed, opens Mon 8 AM" from
+ * GET /api/business-status. Times are shown in the business time zone so
+ * visitors elsewhere see the hours the office keeps.
+ */
+export function BusinessStatus({ className }: { className?: string }) {
+  const t = useTranslations('businessStatus')
+  const format = useFormatter()
+  const [status, setStatus] = useState<BusinessStatus | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const load = () =>
+      fetch('/api/business-status', { signal: controller.signal, cache: 'no-store' })
+        .then((response) => (response.ok ? response.json() : null))
+        .then(setStatus)
+        .catch(() => {})
+
+    load()
+    const timer = setInterval(load, REFRESH_MS)
+    return () => {
+      controller.abort()
+      clearInterval(timer)
+    }
+  }, [])
+
+  if (!status) return null
+
+  const { timezone } = status
+  const day = (date: Date) => format.dateTime(date, { timeZone: timezone, dateStyle: 'short' })
+  // The weekday is left out for times later today
+  const time = (value: string) =>
+    format.dateTime(new Date(value), {
+      timeZone: timezone,
+      weekday: day(new Date(value)) === day(new Date()) ? undefined : 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+
+  let label = t('closed')
+  if (status.open && status.closesAt) {
+    label = t('openUntil', { time: time(status.closesAt) })
+  } else if (status.opensAt) {
+    const opens = time(status.opensAt)
+    label = status.closedFor ? t('closedFor', { reason: status.closedFor, time: opens }) : t('opensAt', { time: opens })
+  }
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-2 rounded-full border bg-background/90 px-3 py-1 text-sm shadow-sm',
+        className
+      )}
+    >
+      <span className={cn('h-2 w-2 rounded-full', status.open ? 'bg-green-500' : 'bg-muted-foreground')} />
+      {label}
+    </span>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import {
+  FinancingCalculator,
+  type FinancingCalculatorLabels,
+  type FinancingCalculatorPlan,
+  type FinancingCalculatorProps,
+} from '@workspace/ui'
+
+const LABEL_KEYS: (keyof FinancingCalculatorLabels)[] = [
+  'title',
+  'amount',
+  'term',
+  'termOption',
+  'monthlyPayment',
+  'apr',
+  'promotional',
+  'totalInterest',
+  'totalPaid',
+  'showSchedule',
+  'hideSchedule',
+  'period',
+  'payment',
+  'principal',
+  'interest',
+  'balance',
+  'unavailable',
+  'outOfRange',
+]
+
+// Raw messages, so the calculator fills in {months}, {min} and {max} itself
+export function useFinancingLabels(): FinancingCalculatorLabels {
+  const t = useTranslations('financing')
+  return Object.fromEntries(LABEL_KEYS.map((key) => [key, t.raw(key)])) as FinancingCalculatorLabels
+}
+
+// Locale-aware props shared by every embedded calculator
+export function useFinancingCalculatorProps(): Pick<FinancingCalculatorProps, 'labels' | 'locale' | 'currency'> {
+  return { labels: useFinancingLabels(), locale: useLocale(), currency: 'USD' }
+}
+
+interface FinancingEstimateProps {
+  initialAmount: number
+  initialPlans: FinancingCalculatorPlan[]
+  minAmount: number
+  maxAmount: number
+}
+
+/**
+ * Calculator for service pages. The visitor can change the amount; plans
+ * come from GET /api/financing so the rates stay on the server.
+ */
+export function FinancingEstimate({ initialAmount, initialPlans, minAmount, maxAmount }: FinancingEstimateProps) {
+  const calculatorProps = useFinancingCalculatorProps()
+  const [amount, setAmount] = useState(initialAmount)
+  const [plans, setPlans] = useState(initialPlans)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (amount === initialAmount) return
+
+    // Waits for typing to settle; out-of-range amounts come back as a 400
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/financing?amount=${amount}`, {
+          cache: 'no-store',
+          signal: controller.signal,
+        })
+        setPlans(response.ok ? (await response.json()).plans : [])
+      } catch {
+        if (!controller.signal.aborted) setPlans([])
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }, 300)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [amount, initialAmount])
+
+  return (
+    <FinancingCalculator
+      {...calculatorProps}
+      amount={amount}
+      plans={amount === initialAmount ? initialPlans : plans}
+      minAmount={minAmount}
+      maxAmount={maxAmount}
+      onAmountChange={setAmount}
+      loading={loading}
+    />
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, type FormEvent } from 'react'
+import { useRouter } from 'next/navigation'
+import { useFormatter, useTranslations } from 'next-intl'
+import {
+  Button,
+  Checkbox,
+  FinancingCalculator,
+  Input,
+  Label,
+  RadioGroup,
+  RadioGroupItem,
+  Textarea,
+} from '@workspace/ui'
+import { Loader2 } from 'lucide-react'
+import type { FinancingPlan } from '@workspace/core'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { useFinancingCalculatorProps } from './financing-estimate'
+
+interface QuoteResponseFormProps {
+  token: string
+  total: number
+  financing: FinancingPlan[]
+}
+
+// Error codes from the quote API that have their own message
+const ERROR_MESSAGES: Record<string, string> = {
+  CONFLICT: 'errors.closed',
+  RATE_LIMITED: 'errors.rateLimited',
+}
+
+export function QuoteResponseForm({ token, total, financing }: QuoteResponseFormProps) {
+  const t = useTranslations('quote')
+  const format = useFormatter()
+  const router = useRouter()
+  const [decision, setDecision] = useState<'accept' | 'decline' | null>(null)
+  const financingProps = useFinancingCalculatorProps()
+  const [payment, setPayment] = useState<'full' | 'finance'>('full')
+  const [financingMonths, setFinancingMonths] = useState(financing[0]?.months ?? null)
+  const [signatureName, setSignatureName] = useState('')
+  const [agreed, setAgreed] = useState(false)
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState('')
+  const [isPending, setIsPending] = useState(false)
+
+  const money = (amount: number) => format.number(amount, { style: 'currency', currency: 'USD' })
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    setError('')
+    setIsPending(true)
+
+    const body =
+      decision === 'accept'
+        ? {
+            decision,
+            signatureName,
+            financingMonths: payment === 'finance' ? financingMonths : null,
+            agreed,
+          }
+        : { decision, reason }
+
+    try {
+      const response = await fetch(`/api/quotes/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        cache: 'no-store',
+      })
+
+      if (!response.ok) {
+        const { code } = await response.json().catch(() => ({ code: null }))
+        setError(t(ERROR_MESSAGES[code] ?? 'errors.generic'))
+        return
+      }
+
+      router.refresh()
+    } catch {
+      setError(t('errors.generic'))
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t('respond')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!decision ? (
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={() => setDecision('accept')}>{t('accept')}</Button>
+            <Button variant="outline" onClick={() => setDecision('decline')}>
+              {t('decline')}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={submit} className="space-y-5">
+            {error && (
+              <p role="alert" className="text-sm text-red-600">
+                {error}
+              </p>
+            )}
+
+            {decision === 'accept' ? (
+              <>
+                {financing.length > 0 && (
+                  <fieldset className="space-y-3">
+                    <legend className="mb-2 text-sm font-medium">{t('payment')}</legend>
+                    <RadioGroup value={payment} onValueChange={(value) => setPayment(value as 'full' | 'finance')}>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem id="quote-pay-full" value="full" />
+                        <Label htmlFor="quote-pay-full">{t('payInFull', { amount: money(total) })}</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem id="quote-pay-finance" value="finance" />
+                        <Label htmlFor="quote-pay-finance">{t('finance')}</Label>
+                      </div>
+                    </RadioGroup>
+                    {payment === 'finance' && (
+                      <FinancingCalculator
+                        {...financingProps}
+                        amount={total}
+                        plans={financing}
+                        selectedMonths={financingMonths ?? undefined}
+                        onSelectedMonthsChange={setFinancingMonths}
+                      />
+                    )}
+                  </fieldset>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="quote-signature">{t('signature')}</Label>
+                  <Input
+                    id="quote-signature"
+                    value={signatureName}
+                    onChange={(event) => setSignatureName(event.target.value)}
+                    autoComplete="name"
+                    className="font-serif text-lg italic"
+                    required
+                    minLength={2}
+                    maxLength={100}
+                  />
+                </div>
+
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="quote-agree"
+                    checked={agreed}
+                    onCheckedChange={(checked) => setAgreed(checked === true)}
+                  />
+                  <Label htmlFor="quote-agree" className="leading-snug">
+                    {t('agree')}
+                  </Label>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="quote-decline-reason">{t('declineReason')}</Label>
+                <Textarea
+                  id="quote-decline-reason"
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  placeholder={t('declinePlaceholder')}
+                  rows={4}
+                  required
+                  minLength={3}
+                  maxLength={2000}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+              <Button
+                type="submit"
+                variant={decision === 'decline' ? 'destructive' : 'default'}
+                disabled={isPending || (decision === 'accept' && !agreed)}
+              >
+                {isPending && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+                {decision === 'accept' ? t('submitAccept') : t('submitDecline')}
+              </Button>
+              <Button type="button" variant="ghost" disabled={isPending} onClick={() => setDecision(null)}>
+                {t('back')}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { MessageCircle } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface WhatsAppButtonProps {
+  // Prefills a question about this service instead of a general one
+  serviceType?: string
+  className?: string
+}
+
+/**
+ * Floating click-to-chat button. The wa.me link comes from GET /api/whatsapp
+ * with a message in the page language, and the button stays hidden while the
+ * WhatsApp number setting is empty.
+ */
+export function WhatsAppButton({ serviceType, className }: WhatsAppButtonProps) {
+  const t = useTranslations('whatsapp')
+  const locale = useLocale()
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const query = new URLSearchParams({ locale, ...(serviceType && { serviceType }) })
+
+    fetch(`/api/whatsapp?${query}`, { signal: controller.signal, cache: 'no-store' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setUrl(result?.url ?? null))
+      .catch(() => {})
+
+    return () => controller.abort()
+  }, [locale, serviceType])
+
+  if (!url) return null
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      aria-label={t('chat')}
+      className={cn(
+        'fixed bottom-6 end-6 z-50 inline-flex items-center gap-2 rounded-full bg-[#25D366] px-4 py-3 font-medium text-white shadow-lg transition-transform hover:scale-105',
+        className
+      )}
+    >
+      <MessageCircle className="h-5 w-5" />
+      <span className="hidden sm:inline">{t('chat')}</span>
+    </a>
+  )
+}
@@ -0,0 +1,56 @@
+import { BUSINESS_INFO } from '@workspace/config'
+import {
+  BusinessCalendarManager,
+  ICS_CONTENT_TYPE,
+  appointmentToEvent,
+  buildCalendar,
+  type AppointmentRecord,
+  type LeadRecord,
+} from '@workspace/core'
+import { db } from '@workspace/database'
+import { sendTemplate, type NotificationLocale } from '@workspace/notifications'
+
+// Confirmation to the customer who booked online, in the language they booked
+// in, with the visit attached as an .ics file for their calendar
+export async function emailAppointmentConfirmation(
+  appointment: AppointmentRecord,
+  lead: LeadRecord,
+  locale?: NotificationLocale
+) {
+  const [technician, calendar] = await Promise.all([
+    db.teamMember.findUnique({ where: { id: appointment.technicianId }, select: { name: true } }),
+    new BusinessCalendarManager(db).getCalendar(),
+  ])
+
+  await sendTemplate(
+    db,
+    'appointment-confirmation',
+    {
+      name: lead.name,
+      startsAt: appointment.startsAt,
+      timeZone: calendar.timezone,
+      location: appointment.serviceLocation,
+      technician: technician?.name,
+    },
+    {
+      to: lead.email,
+      locale,
+      attachments: [
+        {
+          filename: 'appointment.ics',
+          contentType: ICS_CONTENT_TYPE,
+          content: buildCalendar({
+            events: [
+              appointmentToEvent(appointment, {
+                summary: `${BUSINESS_INFO.name} service visit`,
+                description: technician
+                  ? `Technician: ${technician.name}\nQuestions? Call ${BUSINESS_INFO.phone}`
+                  : `Questions? Call ${BUSINESS_INFO.phone}`,
+              }),
+            ],
+          }),
+        },
+      ],
+    }
+  )
+}
@@ -0,0 +1,32 @@
+import { unstable_cache } from 'next/cache'
+import {
+  BusinessCalendarManager,
+  ServiceAreaManager,
+  SettingsManager,
+  cacheContentRead,
+  type ServiceAreaLocation,
+} from '@workspace/core'
+import { db } from '@workspace/database'
+
+// CMS content the web app serves. Each read stays cached until the CMS
+// revalidates the tags of the models it comes from (see /api/revalidate/tag).
+
+export const getPublicSettings = cacheContentRead(unstable_cache, ['Setting'], 'public-settings', () =>
+  new SettingsManager(db).getPublicSettings()
+)
+
+export const getWhatsAppNumber = cacheContentRead(unstable_cache, ['Setting'], 'whatsapp-number', () =>
+  new SettingsManager(db).getSetting('whatsapp_number')
+)
+
+export const getBusinessCalendar = cacheContentRead(unstable_cache, ['Setting'], 'business-calendar', () =>
+  new BusinessCalendarManager(db).getCalendar()
+)
+
+// Cached per location; the arguments are part of the cache key
+export const lookupServiceArea = cacheContentRead(
+  unstable_cache,
+  ['ServiceArea'],
+  'service-area-lookup',
+  (location: ServiceAreaLocation) => new ServiceAreaManager(db).lookup(location)
+)
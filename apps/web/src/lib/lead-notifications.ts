@@ -0,0 +1,59 @@
+import { LEAD_SOURCE_META, PRIORITY_META, env } from '@workspace/config'
+import { WhatsAppAlertManager, createWhatsAppCloudProvider, type LeadRecord } from '@workspace/core'
+import { db } from '@workspace/database'
+import { sendTemplate } from '@workspace/notifications'
+
+// Off until the WhatsApp Business API is configured
+const whatsApp =
+  env.WHATSAPP_ACCESS_TOKEN && env.WHATSAPP_PHONE_NUMBER_ID
+    ? createWhatsAppCloudProvider({
+        accessToken: env.WHATSAPP_ACCESS_TOKEN,
+        phoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID,
+        apiUrl: env.WHATSAPP_API_URL,
+      })
+    : null
+
+const leadUrl = (lead: LeadRecord) => new URL(`/leads?lead=${lead.id}`, env.NEXT_PUBLIC_CMS_URL).toString()
+
+// New-lead alert to the lead's owner. Leads routing left unassigned go to the business inbox.
+export async function emailNewLeadAlert(lead: LeadRecord) {
+  const [assignee, serviceArea] = await Promise.all([
+    lead.assignedToId ? db.user.findUnique({ where: { id: lead.assignedToId }, select: { email: true } }) : null,
+    lead.serviceAreaId
+      ? db.serviceArea.findUnique({ where: { id: lead.serviceAreaId }, select: { name: true } })
+      : null,
+  ])
+
+  await sendTemplate(
+    db,
+    'new-lead',
+    {
+      name: lead.name,
+      email: lead.email,
+      phone: lead.phone,
+      serviceType: lead.serviceType,
+      serviceArea: serviceArea?.name,
+      message: lead.message,
+      source: LEAD_SOURCE_META[lead.source].name,
+      priority: PRIORITY_META[lead.priority].name,
+      url: leadUrl(lead),
+    },
+    { to: assignee?.email ?? env.BUSINESS_EMAIL }
+  )
+}
+
+// WhatsApp template to the lead's owner. The send, or its failure, is logged on the lead.
+export async function whatsAppNewLeadAlert(lead: LeadRecord) {
+  if (!whatsApp) return
+
+  const result = await new WhatsAppAlertManager(db, whatsApp).alertNewLead(lead.id, { url: leadUrl(lead) })
+  if (result?.error) console.error('WhatsApp lead alert failed:', result.error)
+}
+
+// Every new-lead alert; one channel failing does not hold up the other
+export async function notifyNewLead(lead: LeadRecord) {
+  const results = await Promise.allSettled([emailNewLeadAlert(lead), whatsAppNewLeadAlert(lead)])
+  for (const result of results) {
+    if (result.status === 'rejected') console.error('New lead alert failed:', result.reason)
+  }
+}
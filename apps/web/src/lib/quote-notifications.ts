@@ -0,0 +1,34 @@
+import { env } from '@workspace/config'
+import { decimalToNumber, formatQuoteNumber, type QuoteResponse, type QuoteResponseNotifier } from '@workspace/core'
+import { db } from '@workspace/database'
+import { sendEmail } from '@workspace/notifications'
+
+const amountFormat = new Intl.NumberFormat('en', { style: 'currency', currency: 'USD' })
+
+// Plain-text email to the lead's owner. Unassigned leads go to the business inbox.
+export const emailQuoteResponseNotifier: QuoteResponseNotifier = {
+  async quoteResponded({ outcome, quote, lead }: QuoteResponse) {
+    const assignee = lead.assignedToId
+      ? await db.user.findUnique({ where: { id: lead.assignedToId }, select: { name: true, email: true } })
+      : null
+    const label = formatQuoteNumber(quote)
+    const total = amountFormat.format(decimalToNumber(quote.total) ?? 0)
+    const url = new URL(`/quotes/${quote.id}`, env.NEXT_PUBLIC_CMS_URL)
+
+    await sendEmail(db, {
+      to: assignee?.email ?? env.BUSINESS_EMAIL,
+      subject: outcome === 'ACCEPTED' ? `${lead.name} accepted quote ${label}` : `${lead.name} declined quote ${label}`,
+      text: [
+        assignee ? `Hi ${assignee.name ?? assignee.email},` : 'This lead has no owner yet.',
+        '',
+        outcome === 'ACCEPTED'
+          ? `${quote.signatureName} signed quote ${label} (${quote.title}) for ${total}.`
+          : `${lead.name} declined quote ${label} (${quote.title}).`,
+        ...(quote.financingMonths ? [`They chose financing over ${quote.financingMonths} months.`] : []),
+        ...(quote.declineReason ? ['', `Reason: ${quote.declineReason}`] : []),
+        '',
+        url.toString(),
+      ].join('\n'),
+    })
+  },
+}
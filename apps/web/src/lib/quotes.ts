@@ -0,0 +1,89 @@
+import { verifyQuoteToken } from '@workspace/auth'
+import type { QuoteItemType } from '@workspace/config'
+import { amortize, decimalToNumber, formatQuoteNumber, type FinancingOffer, type FinancingPlan } from '@workspace/core'
+import { db, type QuoteLineItem } from '@workspace/database'
+
+// Where the customer's answer stands. Drafts are never linked to customers.
+export type CustomerQuoteState = 'open' | 'accepted' | 'declined' | 'expired' | 'superseded'
+
+// Plain, serializable quote shape for the customer page
+export interface CustomerQuote {
+  label: string
+  state: CustomerQuoteState
+  title: string
+  notes: string | null
+  customerName: string
+  items: { type: QuoteItemType; description: string; quantity: number; unitPrice: number; total: number }[]
+  subtotal: number
+  surcharge: number
+  tax: number
+  total: number
+  // The offers saved on the quote, with totals and schedules
+  financing: FinancingPlan[]
+  expiresAt: Date | null
+  acceptedAt: Date | null
+  signatureName: string | null
+  financingMonths: number | null
+  declinedAt: Date | null
+}
+
+const money = (value: QuoteLineItem['total']) => decimalToNumber(value) ?? 0
+
+// Null when the link is invalid or points at a quote the customer never saw
+export async function getCustomerQuote(token: string, now = new Date()): Promise<CustomerQuote | null> {
+  let quoteId: string
+  try {
+    quoteId = verifyQuoteToken(token)
+  } catch {
+    return null
+  }
+
+  const quote = await db.quote.findUnique({
+    where: { id: quoteId },
+    include: { items: { orderBy: { order: 'asc' } }, lead: { select: { name: true } } },
+  })
+
+  if (!quote || quote.status === 'DRAFT') {
+    return null
+  }
+
+  const total = money(quote.total)
+  const offers = Array.isArray(quote.financing) ? (quote.financing as unknown as FinancingOffer[]) : []
+  const standardAPR = Math.max(...offers.map((offer) => offer.apr))
+
+  const expired = quote.status === 'EXPIRED' || (quote.status === 'SENT' && !!quote.expiresAt && quote.expiresAt < now)
+  const state: CustomerQuoteState = expired
+    ? 'expired'
+    : quote.status === 'SENT'
+      ? 'open'
+      : quote.status === 'ACCEPTED'
+        ? 'accepted'
+        : quote.status === 'DECLINED'
+          ? 'declined'
+          : 'superseded'
+
+  return {
+    label: formatQuoteNumber(quote),
+    state,
+    title: quote.title,
+    notes: quote.notes,
+    customerName: quote.lead.name,
+    items: quote.items.map((item: QuoteLineItem) => ({
+      type: item.type,
+      description: item.description,
+      quantity: money(item.quantity),
+      unitPrice: money(item.unitPrice),
+      total: money(item.total),
+    })),
+    subtotal: money(quote.subtotal),
+    surcharge: money(quote.surcharge),
+    tax: money(quote.tax),
+    total,
+    financing: offers.map((offer) => amortize(total, offer.apr, offer.months, offer.apr < standardAPR)),
+    expiresAt: quote.expiresAt,
+    acceptedAt: quote.acceptedAt,
+    signatureName: quote.signatureName,
+    financingMonths: quote.financingMonths,
+    declinedAt: quote.declinedAt,
+  }
+}
@@ -0,0 +1,22 @@
+// Browser-side reCAPTCHA v3. Without a site key (local development) a
+// placeholder token is sent, which the server accepts outside production.
+
+declare global {
+  interface Window {
+    grecaptcha?: {
+      ready(callback: () => void): void
+      execute(siteKey: string, options: { action: string }): Promise<string>
+    }
+  }
+}
+
+export const recaptchaScriptUrl = (siteKey: string) =>
+  `https://www.google.com/recaptcha/api.js?render=${encodeURIComponent(siteKey)}`
+
+export async function getRecaptchaToken(siteKey: string | undefined, action: string): Promise<string> {
+  const grecaptcha = window.grecaptcha
+  if (!siteKey || !grecaptcha) return 'unverified'
+
+  await new Promise<void>((resolve) => grecaptcha.ready(resolve))
+  return grecaptcha.execute(siteKey, { action })
+}
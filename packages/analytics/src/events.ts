@@ -20,7 +20,7 @@ const serviceEventSchema = baseEventSchema.extend({
   serviceId: z.string(),
   serviceName: z.string(),
   serviceCategory: z.string().optional(),
-  priceType: z.enum(['FIXED', 'HOURLY', 'QUOTE']).optional(),
+  priceType: z.enum(['FIXED', 'STARTING_FROM', 'QUOTE_REQUIRED', 'HOURLY']).optional(),
 })
 
 const projectEventSchema = baseEventSchema.extend({
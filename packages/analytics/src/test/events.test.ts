@@ -117,7 +117,7 @@ describe('Analytics Events', () => {
         serviceId: 'service-123',
         serviceName: 'Web Development',
         serviceCategory: 'development',
-        priceType: 'QUOTE' as const,
+        priceType: 'QUOTE_REQUIRED' as const,
       }
       
       trackQuoteRequested(serviceData)
@@ -127,7 +127,7 @@ describe('Analytics Events', () => {
           serviceId: 'service-123',
           serviceName: 'Web Development',
           serviceCategory: 'development',
-          priceType: 'QUOTE',
+          priceType: 'QUOTE_REQUIRED',
         },
       })
     })
@@ -311,7 +311,7 @@ describe('Analytics Hooks', () => {
         serviceId: 'service-123',
         serviceName: 'Web Development',
         serviceCategory: 'development',
-        priceType: 'QUOTE' as const,
+        priceType: 'QUOTE_REQUIRED' as const,
       }
       
       act(() => {
@@ -323,7 +323,7 @@ describe('Analytics Hooks', () => {
           serviceId: 'service-123',
           serviceName: 'Web Development',
           serviceCategory: 'development',
-          priceType: 'QUOTE',
+          priceType: 'QUOTE_REQUIRED',
         },
       })
     })
@@ -1,2 +1,8 @@
 // Middleware entry point - no Prisma imports
-export { middlewareAuthHandler, middlewareAuthHandler as default } from './src/middleware'
\ No newline at end of file
+export {
+  middlewareAuthHandler,
+  middlewareAuthHandler as default,
+  toRole,
+  hasPermission,
+  type Permission,
+} from './src/middleware'
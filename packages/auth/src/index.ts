@@ -1,7 +1,7 @@
 // Aurora Authentication Package
 // Built with Auth.js v5 and Prisma
 
-import NextAuth, { type NextAuthConfig } from "next-auth"
+import NextAuth, { CredentialsSignin, type NextAuthConfig } from "next-auth"
 import { PrismaAdapter } from "@auth/prisma-adapter"
 import Google from "next-auth/providers/google"
 import Credentials from "next-auth/providers/credentials"
@@ -11,6 +11,12 @@ import { loginSchema } from "./utils"
 import type { NextAuthResult } from "next-auth"
 import { z } from "zod"
 
+// Sign-in error for a correct password on an address that was never
+// verified. Auth.js hands `code` to the sign-in form as result.code.
+export class EmailNotVerifiedError extends CredentialsSignin {
+  code = "EMAIL_NOT_VERIFIED"
+}
+
 // Main auth configuration
 const authConfig = NextAuth({
   adapter: PrismaAdapter(prisma),
@@ -46,6 +52,10 @@ const authConfig = NextAuth({
           return null
         }
 
+        if (!user.emailVerified) {
+          throw new EmailNotVerifiedError()
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -115,6 +125,33 @@ export { handlers, auth, signIn, signOut }
 // Export middleware-compatible auth handler
 export { middlewareAuthHandler } from './middleware'
 
+// Roles & permissions
+export {
+  ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  toRole,
+  getPermissions,
+  hasPermission,
+  getRolesWith,
+  type Permission,
+} from './permissions'
+
+// Resource policies
+export {
+  CURRENT_USER,
+  POLICY_RULES,
+  can,
+  policyWhere,
+  type PolicyConditions,
+  type PolicyModel,
+  type PolicyResource,
+  type PolicyRule,
+  type PolicyUser,
+  type PolicyValue,
+  type PolicyWhere,
+} from './policies'
+
 // Export with explicit types for better TypeScript support
 export type { NextAuthConfig } from "next-auth"
 export type { Session, User } from "next-auth"
@@ -125,6 +162,7 @@ export {
   registerSchema,
   loginSchema,
   resetPasswordSchema,
+  newPasswordSchema,
   changePasswordSchema,
   
   // Password utilities
@@ -142,7 +180,6 @@ export {
   updateUserPassword,
   
   // Email utilities
-  sendEmail,
   sendVerificationEmail,
   sendPasswordResetEmail,
   
@@ -151,6 +188,12 @@ export {
   createPasswordResetToken,
   verifyEmailToken,
   verifyPasswordResetToken,
+  resetPassword,
+  requestEmailVerification,
+  requestPasswordReset,
+  createQuoteToken,
+  verifyQuoteToken,
+  generateCalendarToken,
 } from './utils'
 
 // Type definitions
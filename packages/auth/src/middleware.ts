@@ -63,4 +63,7 @@ const middlewareAuth = NextAuth(middlewareAuthConfig)
 // Export with explicit type annotation
 const { auth: middlewareAuthHandler }: any = middlewareAuth
 export { middlewareAuthHandler }
-export default middlewareAuthHandler
\ No newline at end of file
+export default middlewareAuthHandler
+
+// Permission checks for route gating; see ./permissions
+export { toRole, hasPermission, type Permission } from "./permissions"
@@ -0,0 +1,96 @@
+// Roles & permissions
+// The role set is Prisma's UserRole enum. Apps check permissions, never role
+// names, so what a role may do is decided here and nowhere else. Nothing in
+// this file touches the database, so middleware can use it on the edge.
+
+// Type-only: the config package validates env vars when it loads
+import type { UserRole } from "@workspace/config"
+
+export const PERMISSIONS = [
+  "dashboard:view",
+  "analytics:view",
+  "content:read",
+  "content:create",
+  "content:update",
+  "content:publish",
+  "content:delete",
+  "cache:revalidate",
+  "lead:read",
+  "lead:create",
+  "lead:update",
+  "lead:assign",
+  "quote:manage",
+  "settings:manage",
+  "user:manage",
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+const AUTHOR_PERMISSIONS: readonly Permission[] = [
+  "dashboard:view",
+  "content:read",
+  "content:create",
+  "content:update",
+]
+
+const AGENT_PERMISSIONS: readonly Permission[] = [
+  "dashboard:view",
+  "content:read",
+  "lead:read",
+  "lead:create",
+  "lead:update",
+  "lead:assign",
+  "quote:manage",
+]
+
+// Admins can do everything. Editors run content and work leads but leave
+// settings and users to admins. Authors write content without publishing it,
+// agents work leads and quotes, and viewers only look.
+export const ROLE_PERMISSIONS: Readonly<Record<UserRole, readonly Permission[]>> = {
+  ADMIN: PERMISSIONS,
+  EDITOR: PERMISSIONS.filter((permission) => permission !== "settings:manage" && permission !== "user:manage"),
+  AUTHOR: AUTHOR_PERMISSIONS,
+  AGENT: AGENT_PERMISSIONS,
+  VIEWER: ["dashboard:view", "content:read", "lead:read"],
+}
+
+// In enum order. ROLE_PERMISSIONS is typed by UserRole, so a role added to
+// the schema fails to compile until it is given permissions here.
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[]
+
+const isRole = (value: unknown): value is UserRole =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value)
+
+// Names older sessions and the first middleware used. Sessions signed before
+// the roles were unified still carry them until they expire.
+const LEGACY_ROLES: Readonly<Record<string, UserRole>> = {
+  USER: "VIEWER",
+  Admin: "ADMIN",
+  Editor: "EDITOR",
+  Author: "AUTHOR",
+  Viewer: "VIEWER",
+}
+
+// The canonical role for a session or token value, or null for anything else
+export function toRole(value: unknown): UserRole | null {
+  if (isRole(value)) {
+    return value
+  }
+
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(LEGACY_ROLES, value)
+    ? LEGACY_ROLES[value]
+    : null
+}
+
+export function getPermissions(role: UserRole | null | undefined): readonly Permission[] {
+  return role ? ROLE_PERMISSIONS[role] : []
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission)
+}
+
+// Roles that hold `permission`, e.g. for a Prisma `role: { in: [...] }` filter
+export function getRolesWith(permission: Permission): UserRole[] {
+  return ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission))
+}
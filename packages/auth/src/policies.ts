@@ -0,0 +1,164 @@
+// Resource policies
+// ROLE_PERMISSIONS decides what a role may do at all; the rules here narrow a
+// permission down to particular rows. can() checks one record and
+// policyWhere() turns the same rules into a Prisma filter, so list queries
+// never load rows the user could not open. Like permissions.ts, nothing here
+// touches the database.
+
+// Type-only: the config package validates env vars when it loads
+import type { UserRole } from "@workspace/config"
+import type { Prisma } from "@workspace/database"
+import { hasPermission, type Permission } from "./permissions"
+
+// The Prisma filter for each model a policy can cover
+interface PolicyWhereInputs {
+  Lead: Prisma.LeadWhereInput
+  Quote: Prisma.QuoteWhereInput
+  Post: Prisma.PostWhereInput
+  Page: Prisma.PageWhereInput
+  Service: Prisma.ServiceWhereInput
+  Project: Prisma.ProjectWhereInput
+  Testimonial: Prisma.TestimonialWhereInput
+  TeamMember: Prisma.TeamMemberWhereInput
+  ServiceArea: Prisma.ServiceAreaWhereInput
+  Setting: Prisma.SettingWhereInput
+  User: Prisma.UserWhereInput
+}
+
+export type PolicyModel = keyof PolicyWhereInputs
+
+export type PolicyWhere<M extends PolicyModel> = PolicyWhereInputs[M]
+
+export interface PolicyUser {
+  id: string
+  role: UserRole
+}
+
+// Stands for the acting user's id in a rule's conditions
+export const CURRENT_USER: unique symbol = Symbol("currentUser")
+
+export type PolicyValue = string | null | typeof CURRENT_USER
+
+// Field values a row must have, all of them. A nested object holds the
+// conditions for a related row, e.g. a quote's lead.
+export interface PolicyConditions {
+  readonly [field: string]: PolicyValue | PolicyConditions
+}
+
+export interface PolicyRule {
+  role: UserRole
+  model: PolicyModel
+  permissions: readonly Permission[]
+  // False when the role may not use these permissions on the model at all
+  when: PolicyConditions | false
+}
+
+export interface PolicyResource {
+  model: PolicyModel
+  // The row acted on, with the fields its rules check. Without one, can()
+  // answers whether the user may act on some row of the model.
+  record?: object
+}
+
+// Content an author may read but not write; authors write posts
+const NON_POST_CONTENT = ["Page", "Service", "Project", "Testimonial", "TeamMember", "ServiceArea"] as const
+
+// A permission a role holds applies to every row unless a rule below names
+// that role, model and permission. Several matching rules allow the rows any
+// of them allows.
+export const POLICY_RULES: readonly PolicyRule[] = [
+  // Agents work the leads assigned to them. Unassigned leads are handed out
+  // by editors, admins and the assignment rules.
+  {
+    role: "AGENT",
+    model: "Lead",
+    permissions: ["lead:read", "lead:update", "lead:assign"],
+    when: { assignedToId: CURRENT_USER },
+  },
+  // Quotes follow their lead, since they carry the customer's details
+  { role: "AGENT", model: "Quote", permissions: ["quote:manage"], when: { lead: { assignedToId: CURRENT_USER } } },
+  { role: "AUTHOR", model: "Post", permissions: ["content:update"], when: { authorId: CURRENT_USER } },
+  ...NON_POST_CONTENT.map(
+    (model): PolicyRule => ({ role: "AUTHOR", model, permissions: ["content:create", "content:update"], when: false })
+  ),
+]
+
+function getRules(user: PolicyUser, permission: Permission, model: PolicyModel): PolicyRule[] {
+  return POLICY_RULES.filter(
+    (rule) => rule.role === user.role && rule.model === model && rule.permissions.includes(permission)
+  )
+}
+
+const isConditions = (value: PolicyValue | PolicyConditions): value is PolicyConditions =>
+  typeof value === "object" && value !== null
+
+function resolve(value: PolicyValue, user: PolicyUser): string | null {
+  return value === CURRENT_USER ? user.id : value
+}
+
+// A field missing from the record never matches, so a partly loaded row is refused
+function matches(when: PolicyConditions, record: object, user: PolicyUser): boolean {
+  const values = record as Record<string, unknown>
+  return Object.entries(when).every(([field, value]) => {
+    const actual = values[field]
+    if (isConditions(value)) {
+      return typeof actual === "object" && actual !== null && matches(value, actual, user)
+    }
+    return actual === resolve(value, user)
+  })
+}
+
+// The conditions as a Prisma filter; nested ones become relation filters
+function toWhere(when: PolicyConditions, user: PolicyUser): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(when).map(([field, value]) => [
+      field,
+      isConditions(value) ? toWhere(value, user) : resolve(value, user),
+    ])
+  )
+}
+
+export function can(user: PolicyUser | null | undefined, permission: Permission, resource?: PolicyResource): boolean {
+  if (!user || !hasPermission(user.role, permission)) {
+    return false
+  }
+
+  const rules = resource ? getRules(user, permission, resource.model) : []
+  if (rules.length === 0) {
+    return true
+  }
+
+  const record = resource?.record
+  return rules.some(({ when }) => when !== false && (!record || matches(when, record, user)))
+}
+
+// Ids are never empty, so this matches no row
+const NO_ROWS = { id: { in: [] } }
+
+/**
+ * The rows of `model` the user may use `permission` on, as a Prisma filter.
+ * Combine it with other filters through AND, since it may carry its own OR:
+ * `where: { AND: [filters, policyWhere(user, "lead:read", "Lead")] }`.
+ */
+export function policyWhere<M extends PolicyModel>(
+  user: PolicyUser | null | undefined,
+  permission: Permission,
+  model: M
+): PolicyWhere<M> {
+  if (!user || !hasPermission(user.role, permission)) {
+    return NO_ROWS as PolicyWhere<M>
+  }
+
+  const rules = getRules(user, permission, model)
+  if (rules.length === 0) {
+    return {} as PolicyWhere<M>
+  }
+
+  const filters = rules.flatMap(({ when }) => (when === false ? [] : [toWhere(when, user)]))
+
+  if (filters.length === 0) {
+    return NO_ROWS as PolicyWhere<M>
+  }
+
+  return (filters.length === 1 ? filters[0] : { OR: filters }) as PolicyWhere<M>
+}
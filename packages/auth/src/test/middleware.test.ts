@@ -225,6 +225,15 @@ describe('Auth Middleware', () => {
         expect(middlewareModule.middlewareAuthHandler).toBeDefined()
         expect(typeof middlewareModule.middlewareAuthHandler).toBe('function')
       })
+
+      // Apps import @workspace/auth/middleware, which is the package root file
+      it('should export the permission helpers from the package entry', async () => {
+        const entry = await import('../../middleware')
+        expect(typeof entry.middlewareAuthHandler).toBe('function')
+        expect(entry.toRole('Editor')).toBe('EDITOR')
+        expect(entry.hasPermission('AGENT', 'lead:update')).toBe(true)
+        expect(entry.hasPermission('VIEWER', 'lead:update')).toBe(false)
+      })
     })
   })
 })
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ROLES,
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  getPermissions,
+  getRolesWith,
+  hasPermission,
+  toRole,
+} from '../permissions'
+
+describe('Auth Permissions', () => {
+  it('should give every role a set of known permissions', () => {
+    expect(ROLES).toEqual(['ADMIN', 'EDITOR', 'AUTHOR', 'AGENT', 'VIEWER'])
+
+    for (const role of ROLES) {
+      expect(ROLE_PERMISSIONS[role].length).toBeGreaterThan(0)
+      expect(ROLE_PERMISSIONS[role].every((permission) => PERMISSIONS.includes(permission))).toBe(true)
+    }
+  })
+
+  it('should follow the CMS permission matrix', () => {
+    expect(getPermissions('ADMIN')).toEqual(PERMISSIONS)
+
+    expect(hasPermission('EDITOR', 'content:publish')).toBe(true)
+    expect(hasPermission('EDITOR', 'lead:update')).toBe(true)
+    expect(hasPermission('EDITOR', 'user:manage')).toBe(false)
+    expect(hasPermission('EDITOR', 'settings:manage')).toBe(false)
+
+    expect(hasPermission('AUTHOR', 'content:update')).toBe(true)
+    expect(hasPermission('AUTHOR', 'content:publish')).toBe(false)
+    expect(hasPermission('AUTHOR', 'lead:read')).toBe(false)
+
+    expect(hasPermission('AGENT', 'lead:assign')).toBe(true)
+    expect(hasPermission('AGENT', 'quote:manage')).toBe(true)
+    expect(hasPermission('AGENT', 'content:update')).toBe(false)
+
+    expect(getPermissions('VIEWER')).toEqual(['dashboard:view', 'content:read', 'lead:read'])
+  })
+
+  it('should deny everything without a role', () => {
+    expect(getPermissions(null)).toEqual([])
+    expect(hasPermission(undefined, 'dashboard:view')).toBe(false)
+  })
+
+  it('should list the roles that hold a permission', () => {
+    expect(getRolesWith('user:manage')).toEqual(['ADMIN'])
+    expect(getRolesWith('lead:update')).toEqual(['ADMIN', 'EDITOR', 'AGENT'])
+    expect(getRolesWith('dashboard:view')).toEqual(ROLES)
+  })
+
+  it('should read canonical and legacy role names', () => {
+    expect(toRole('AGENT')).toBe('AGENT')
+    expect(toRole('USER')).toBe('VIEWER')
+    expect(toRole('Editor')).toBe('EDITOR')
+    expect(toRole('Author')).toBe('AUTHOR')
+    expect(toRole('constructor')).toBeNull()
+    expect(toRole('SUPERUSER')).toBeNull()
+    expect(toRole(undefined)).toBeNull()
+  })
+})
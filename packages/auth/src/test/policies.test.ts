@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import { PERMISSIONS, ROLES, hasPermission } from '../permissions'
+import { POLICY_RULES, can, policyWhere, type PolicyModel, type PolicyUser } from '../policies'
+
+const MODELS: PolicyModel[] = [
+  'Lead',
+  'Quote',
+  'Post',
+  'Page',
+  'Service',
+  'Project',
+  'Testimonial',
+  'TeamMember',
+  'ServiceArea',
+  'Setting',
+  'User',
+]
+
+const users = Object.fromEntries(ROLES.map((role) => [role, { id: `${role.toLowerCase()}_1`, role }])) as Record<
+  PolicyUser['role'],
+  PolicyUser
+>
+const { ADMIN: admin, EDITOR: editor, AUTHOR: author, AGENT: agent, VIEWER: viewer } = users
+
+// Rows owned by the agent and author above, by someone else, and by nobody
+const SAMPLE_RECORDS = [
+  { id: 'row_1', assignedToId: agent.id, authorId: author.id, lead: { assignedToId: agent.id } },
+  { id: 'row_2', assignedToId: 'agent_2', authorId: 'author_2', lead: { assignedToId: 'agent_2' } },
+  { id: 'row_3', assignedToId: null, authorId: null, lead: { assignedToId: null } },
+  { id: 'row_4', lead: null },
+]
+
+// Evaluates the filters policyWhere builds against a plain object
+function matchesWhere(where: Record<string, any>, record: Record<string, any>): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return condition.some((branch: Record<string, any>) => matchesWhere(branch, record))
+    if (condition && typeof condition === 'object' && 'in' in condition) return condition.in.includes(record[field])
+    if (condition && typeof condition === 'object') return !!record[field] && matchesWhere(condition, record[field])
+    return record[field] === condition
+  })
+}
+
+describe('Auth Policies', () => {
+  it('should only narrow permissions the role holds', () => {
+    for (const rule of POLICY_RULES) {
+      expect(MODELS).toContain(rule.model)
+      for (const permission of rule.permissions) {
+        expect(hasPermission(rule.role, permission)).toBe(true)
+      }
+    }
+  })
+
+  it('should follow the permission matrix for every role, permission and model', () => {
+    for (const user of Object.values(users)) {
+      for (const permission of PERMISSIONS) {
+        expect(can(user, permission)).toBe(hasPermission(user.role, permission))
+
+        for (const model of MODELS) {
+          const authorCannotWrite =
+            user.role === 'AUTHOR' &&
+            !['Post', 'Lead', 'Quote', 'Setting', 'User'].includes(model) &&
+            (permission === 'content:create' || permission === 'content:update')
+
+          expect(can(user, permission, { model })).toBe(hasPermission(user.role, permission) && !authorCannotWrite)
+        }
+      }
+    }
+  })
+
+  it('should let agents see and work only the leads assigned to them', () => {
+    const own = { model: 'Lead', record: { id: 'lead_1', assignedToId: agent.id } } as const
+    const other = { model: 'Lead', record: { id: 'lead_2', assignedToId: 'agent_2' } } as const
+    const unassigned = { model: 'Lead', record: { id: 'lead_3', assignedToId: null } } as const
+
+    for (const permission of ['lead:read', 'lead:update', 'lead:assign'] as const) {
+      expect(can(agent, permission, own)).toBe(true)
+      expect(can(agent, permission, other)).toBe(false)
+      expect(can(agent, permission, unassigned)).toBe(false)
+      expect(can(agent, permission, { model: 'Lead' })).toBe(true)
+    }
+
+    // Leads are created before anyone owns them
+    expect(can(agent, 'lead:create', { model: 'Lead' })).toBe(true)
+    // A record loaded without the owner field is refused rather than guessed
+    expect(can(agent, 'lead:read', { model: 'Lead', record: { id: 'lead_1' } })).toBe(false)
+
+    expect(policyWhere(agent, 'lead:read', 'Lead')).toEqual({ assignedToId: agent.id })
+  })
+
+  it("should keep quotes on other agents' leads away from an agent", () => {
+    const own = { model: 'Quote', record: { id: 'quote_1', lead: { assignedToId: agent.id } } } as const
+    const other = { model: 'Quote', record: { id: 'quote_2', lead: { assignedToId: 'agent_2' } } } as const
+    const unassigned = { model: 'Quote', record: { id: 'quote_3', lead: { assignedToId: null } } } as const
+
+    expect(can(agent, 'quote:manage', own)).toBe(true)
+    expect(can(agent, 'quote:manage', other)).toBe(false)
+    expect(can(agent, 'quote:manage', unassigned)).toBe(false)
+    // A quote loaded without its lead is refused
+    expect(can(agent, 'quote:manage', { model: 'Quote', record: { id: 'quote_1', leadId: 'lead_1' } })).toBe(false)
+
+    expect(can(editor, 'quote:manage', other)).toBe(true)
+    expect(can(viewer, 'quote:manage', own)).toBe(false)
+
+    expect(policyWhere(agent, 'quote:manage', 'Quote')).toEqual({ lead: { assignedToId: agent.id } })
+    expect(policyWhere(admin, 'quote:manage', 'Quote')).toEqual({})
+  })
+
+  it('should leave other roles on leads to the permission matrix', () => {
+    const other = { model: 'Lead', record: { id: 'lead_2', assignedToId: 'agent_2' } } as const
+
+    for (const user of [admin, editor]) {
+      expect(can(user, 'lead:update', other)).toBe(true)
+      expect(can(user, 'lead:assign', other)).toBe(true)
+      expect(policyWhere(user, 'lead:read', 'Lead')).toEqual({})
+    }
+
+    expect(can(viewer, 'lead:read', other)).toBe(true)
+    expect(can(viewer, 'lead:update', other)).toBe(false)
+    expect(can(author, 'lead:read', other)).toBe(false)
+    expect(policyWhere(viewer, 'lead:update', 'Lead')).toEqual({ id: { in: [] } })
+  })
+
+  it('should let authors edit only their own posts', () => {
+    const own = { model: 'Post', record: { id: 'post_1', authorId: author.id } } as const
+    const other = { model: 'Post', record: { id: 'post_2', authorId: 'author_2' } } as const
+
+    expect(can(author, 'content:create', { model: 'Post' })).toBe(true)
+    expect(can(author, 'content:update', own)).toBe(true)
+    expect(can(author, 'content:update', other)).toBe(false)
+    expect(can(author, 'content:read', other)).toBe(true)
+    expect(can(author, 'content:delete', own)).toBe(false)
+    expect(can(author, 'content:publish', own)).toBe(false)
+
+    expect(can(author, 'content:create', { model: 'Page' })).toBe(false)
+    expect(can(author, 'content:update', { model: 'Service', record: { id: 'service_1' } })).toBe(false)
+
+    expect(can(editor, 'content:update', other)).toBe(true)
+    expect(can(editor, 'content:delete', other)).toBe(true)
+
+    expect(policyWhere(author, 'content:update', 'Post')).toEqual({ authorId: author.id })
+    expect(policyWhere(author, 'content:update', 'Page')).toEqual({ id: { in: [] } })
+    expect(policyWhere(author, 'content:read', 'Post')).toEqual({})
+  })
+
+  it('should keep users and settings with admins', () => {
+    const user = { model: 'User', record: { id: 'viewer_1' } } as const
+
+    expect(can(admin, 'user:manage', user)).toBe(true)
+    expect(can(admin, 'settings:manage', { model: 'Setting' })).toBe(true)
+
+    for (const other of [editor, author, agent, viewer]) {
+      expect(can(other, 'user:manage', user)).toBe(false)
+      expect(can(other, 'settings:manage', { model: 'Setting' })).toBe(false)
+      expect(policyWhere(other, 'user:manage', 'User')).toEqual({ id: { in: [] } })
+    }
+  })
+
+  it('should deny everything without a user', () => {
+    expect(can(null, 'dashboard:view')).toBe(false)
+    expect(can(undefined, 'content:read', { model: 'Post' })).toBe(false)
+    expect(policyWhere(null, 'lead:read', 'Lead')).toEqual({ id: { in: [] } })
+  })
+
+  it('should load through policyWhere exactly the rows can() allows', () => {
+    for (const user of Object.values(users)) {
+      for (const permission of PERMISSIONS) {
+        for (const model of MODELS) {
+          const where = policyWhere(user, permission, model) as Record<string, any>
+
+          for (const record of SAMPLE_RECORDS) {
+            expect(matchesWhere(where, record)).toBe(can(user, permission, { model, record }))
+          }
+        }
+      }
+    }
+  })
+})
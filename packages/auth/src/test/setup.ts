@@ -2,6 +2,9 @@ import { vi, beforeEach, afterEach } from 'vitest'
 
 // Mock NextAuth
 vi.mock('next-auth', () => ({
+  CredentialsSignin: class CredentialsSignin extends Error {
+    code = 'credentials'
+  },
   default: vi.fn(() => ({
     handlers: { GET: vi.fn(), POST: vi.fn() },
     auth: vi.fn(),
@@ -44,16 +47,9 @@ vi.mock('jsonwebtoken', () => ({
   verify: vi.fn().mockReturnValue({ id: 'user123', email: 'test@example.com' }),
 }))
 
-// Mock nodemailer
-vi.mock('nodemailer', () => ({
-  default: {
-    createTransporter: vi.fn(() => ({
-      sendMail: vi.fn().mockResolvedValue({ messageId: 'mock_message_id' }),
-    })),
-  },
-  createTransporter: vi.fn(() => ({
-    sendMail: vi.fn().mockResolvedValue({ messageId: 'mock_message_id' }),
-  })),
+// Mock the notifications outbox
+vi.mock('@workspace/notifications', () => ({
+  sendTemplate: vi.fn().mockResolvedValue('SENT'),
 }))
 
 // Mock Prisma database
@@ -69,13 +65,16 @@ vi.mock('@workspace/database', () => ({
     verificationToken: {
       create: vi.fn(),
       findUnique: vi.fn(),
+      findFirst: vi.fn(),
       delete: vi.fn(),
+      deleteMany: vi.fn(),
     },
     passwordResetToken: {
       create: vi.fn(),
       findUnique: vi.fn(),
       delete: vi.fn(),
     },
+    $transaction: vi.fn((operations) => Promise.all(operations)),
   },
 }))
 
@@ -110,7 +109,7 @@ global.createMockUser = (overrides = {}) => ({
   id: 'user123',
   name: 'Test User',
   email: 'test@example.com',
-  role: 'USER',
+  role: 'VIEWER',
   emailVerified: new Date(),
   image: null,
   createdAt: new Date(),
@@ -123,7 +122,7 @@ global.createMockSession = (overrides = {}) => ({
     id: 'user123',
     name: 'Test User',
     email: 'test@example.com',
-    role: 'USER',
+    role: 'VIEWER',
     image: null,
   },
   expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
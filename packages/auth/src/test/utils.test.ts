@@ -8,18 +8,26 @@ import {
   verifyPassword,
   generateToken,
   verifyToken,
+  createQuoteToken,
+  verifyQuoteToken,
   createUser,
   getUserByEmail,
   getUserById,
   updateUserPassword,
-  sendEmail,
   sendVerificationEmail,
   sendPasswordResetEmail,
+  createVerificationToken,
+  verifyEmailToken,
+  verifyPasswordResetToken,
+  resetPassword,
+  requestEmailVerification,
+  requestPasswordReset,
+  newPasswordSchema,
 } from '../utils'
 import { db as prisma } from '@workspace/database'
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
-import nodemailer from 'nodemailer'
+import { sendTemplate } from '@workspace/notifications'
 
 describe('Auth Utils', () => {
   beforeEach(() => {
@@ -103,6 +111,14 @@ describe('Auth Utils', () => {
       })
     })
 
+    describe('newPasswordSchema', () => {
+      it('should require matching passwords', () => {
+        expect(newPasswordSchema.safeParse({ password: 'secret123', confirmPassword: 'secret123' }).success).toBe(true)
+        expect(newPasswordSchema.safeParse({ password: 'secret123', confirmPassword: 'secret124' }).success).toBe(false)
+        expect(newPasswordSchema.safeParse({ password: '123', confirmPassword: '123' }).success).toBe(false)
+      })
+    })
+
     describe('changePasswordSchema', () => {
       it('should validate matching passwords', () => {
         const validData = {
@@ -206,6 +222,27 @@ describe('Auth Utils', () => {
         expect(() => verifyToken(token)).toThrow('Invalid or expired token')
       })
     })
+
+    describe('quote tokens', () => {
+      it('should sign the quote id until 30 days after the quote expires', () => {
+        const expiresAt = new Date(Date.now() + 60 * 60 * 1000)
+        createQuoteToken('quote_1', expiresAt)
+
+        expect(jwt.sign).toHaveBeenCalledWith({ quoteId: 'quote_1', type: 'quote-response' }, 'test_secret', {
+          expiresIn: `${3600 + 30 * 24 * 60 * 60}s`,
+        })
+      })
+
+      it('should return the quote id from a quote token', () => {
+        vi.mocked(jwt.verify).mockReturnValueOnce({ quoteId: 'quote_1', type: 'quote-response' } as any)
+
+        expect(verifyQuoteToken('quote_token')).toBe('quote_1')
+      })
+
+      it('should reject tokens issued for something else', () => {
+        expect(() => verifyQuoteToken('valid_token')).toThrow('Invalid or expired quote link')
+      })
+    })
   })
 
   describe('User Management', () => {
@@ -221,7 +258,7 @@ describe('Auth Utils', () => {
           id: 'user123',
           name: 'John Doe',
           email: 'john@example.com',
-          role: 'USER',
+          role: 'VIEWER',
           createdAt: new Date(),
         }
         
@@ -238,7 +275,7 @@ describe('Auth Utils', () => {
             name: userData.name,
             email: userData.email,
             password: 'hashed_password',
-            role: 'USER',
+            role: 'VIEWER',
             emailVerified: null,
           },
           select: {
@@ -368,97 +405,155 @@ describe('Auth Utils', () => {
   })
 
   describe('Email Utilities', () => {
-    const mockTransporter = {
-      sendMail: vi.fn().mockResolvedValue({ messageId: 'mock_message_id' }),
-    }
+    describe('sendVerificationEmail', () => {
+      it('should queue the verification template in the requested language', async () => {
+        await sendVerificationEmail('test@example.com', 'verification_token', 'ar')
+
+        expect(sendTemplate).toHaveBeenCalledWith(
+          prisma,
+          'verify-email',
+          { url: expect.stringContaining('verify-email?token=verification_token') },
+          { to: 'test@example.com', locale: 'ar' }
+        )
+      })
+    })
+
+    describe('sendPasswordResetEmail', () => {
+      it('should queue the password reset template', async () => {
+        await sendPasswordResetEmail('test@example.com', 'reset_token')
+
+        expect(sendTemplate).toHaveBeenCalledWith(
+          prisma,
+          'password-reset',
+          { url: expect.stringContaining('reset-password?token=reset_token') },
+          { to: 'test@example.com', locale: undefined }
+        )
+      })
+    })
+  })
 
+  describe('Account Tokens', () => {
     beforeEach(() => {
-      vi.mocked(nodemailer.createTransporter).mockReturnValue(mockTransporter as any)
+      vi.mocked(jwt.sign).mockReturnValue('mock_jwt_token' as any)
+      vi.mocked(bcrypt.hash).mockResolvedValue('hashed_password' as any)
     })
 
-    describe('sendEmail', () => {
-      it('should send email successfully', async () => {
-        const emailData = {
-          to: 'test@example.com',
-          subject: 'Test Subject',
-          html: '<p>Test HTML</p>',
-          text: 'Test text',
-        }
-        
-        await sendEmail(emailData)
-        
-        expect(mockTransporter.sendMail).toHaveBeenCalledWith({
-          from: 'noreply@example.com',
-          to: emailData.to,
-          subject: emailData.subject,
-          html: emailData.html,
-          text: emailData.text,
-        })
+    it('should replace earlier verification links when issuing a new one', async () => {
+      const token = await createVerificationToken('test@example.com')
+
+      expect(token).toBe('mock_jwt_token')
+      expect(jwt.sign).toHaveBeenCalledWith(
+        { email: 'test@example.com', type: 'email-verification' },
+        'test_secret',
+        { expiresIn: '86400s' }
+      )
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: { identifier: 'email-verification:test@example.com' },
+      })
+      expect(prisma.verificationToken.create).toHaveBeenCalledWith({
+        data: {
+          identifier: 'email-verification:test@example.com',
+          token: 'mock_jwt_token',
+          expires: expect.any(Date),
+        },
       })
+    })
 
-      it('should handle missing SMTP configuration', async () => {
-        const originalSmtpHost = process.env.SMTP_HOST
-        delete process.env.SMTP_HOST
-        
-        const emailData = {
-          to: 'test@example.com',
-          subject: 'Test Subject',
-          html: '<p>Test HTML</p>',
-        }
-        
-        await sendEmail(emailData)
-        
-        expect(console.warn).toHaveBeenCalledWith('SMTP not configured, email not sent')
-        expect(mockTransporter.sendMail).not.toHaveBeenCalled()
-        
-        process.env.SMTP_HOST = originalSmtpHost
+    it('should verify the email once per link', async () => {
+      vi.mocked(jwt.verify).mockReturnValue({ email: 'test@example.com', type: 'email-verification' } as any)
+      vi.mocked(prisma.verificationToken.deleteMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      await expect(verifyEmailToken('verification_token')).resolves.toEqual({ email: 'test@example.com' })
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {
+          identifier: 'email-verification:test@example.com',
+          token: 'verification_token',
+          expires: { gt: expect.any(Date) },
+        },
+      })
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { email: 'test@example.com' },
+        data: { emailVerified: expect.any(Date) },
       })
 
-      it('should throw error when email sending fails', async () => {
-        mockTransporter.sendMail.mockRejectedValueOnce(new Error('SMTP Error'))
-        
-        const emailData = {
-          to: 'test@example.com',
-          subject: 'Test Subject',
-          html: '<p>Test HTML</p>',
-        }
-        
-        await expect(sendEmail(emailData)).rejects.toThrow('Failed to send email')
+      await expect(verifyEmailToken('verification_token')).rejects.toThrow('Invalid or expired verification token')
+      expect(prisma.user.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not accept a reset link as a verification link', async () => {
+      vi.mocked(jwt.verify).mockReturnValue({ email: 'test@example.com', type: 'password-reset' } as any)
+
+      await expect(verifyEmailToken('reset_token')).rejects.toThrow('Invalid or expired verification token')
+      expect(prisma.verificationToken.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should check a reset link without using it up', async () => {
+      vi.mocked(jwt.verify).mockReturnValue({ email: 'test@example.com', type: 'password-reset' } as any)
+      vi.mocked(prisma.verificationToken.findFirst).mockResolvedValueOnce(createMockToken() as any)
+
+      await expect(verifyPasswordResetToken('reset_token')).resolves.toEqual({
+        email: 'test@example.com',
+        token: 'reset_token',
       })
+      expect(prisma.verificationToken.deleteMany).not.toHaveBeenCalled()
+
+      vi.mocked(prisma.verificationToken.findFirst).mockResolvedValueOnce(null)
+      await expect(verifyPasswordResetToken('reset_token')).rejects.toThrow('Invalid or expired reset token')
     })
 
-    describe('sendVerificationEmail', () => {
-      it('should send verification email', async () => {
-        const email = 'test@example.com'
-        const token = 'verification_token'
-        
-        await sendVerificationEmail(email, token)
-        
-        expect(mockTransporter.sendMail).toHaveBeenCalledWith(
-          expect.objectContaining({
-            to: email,
-            subject: 'Verify Your Email Address',
-            html: expect.stringContaining('verify-email?token=verification_token'),
-          })
-        )
+    it('should set the new password and use up the reset link', async () => {
+      vi.mocked(jwt.verify).mockReturnValue({ email: 'test@example.com', type: 'password-reset' } as any)
+      vi.mocked(prisma.verificationToken.deleteMany)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+
+      await expect(resetPassword('reset_token', 'newpassword123')).resolves.toEqual({ email: 'test@example.com' })
+      expect(bcrypt.hash).toHaveBeenCalledWith('newpassword123', 12)
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { email: 'test@example.com' },
+        data: { password: 'hashed_password', emailVerified: expect.any(Date) },
       })
+
+      await expect(resetPassword('reset_token', 'another123')).rejects.toThrow('Invalid or expired reset token')
+      expect(prisma.user.update).toHaveBeenCalledTimes(1)
     })
 
-    describe('sendPasswordResetEmail', () => {
-      it('should send password reset email', async () => {
-        const email = 'test@example.com'
-        const token = 'reset_token'
-        
-        await sendPasswordResetEmail(email, token)
-        
-        expect(mockTransporter.sendMail).toHaveBeenCalledWith(
-          expect.objectContaining({
-            to: email,
-            subject: 'Reset Your Password',
-            html: expect.stringContaining('reset-password?token=reset_token'),
-          })
-        )
+    it('should only email verification links to unverified accounts', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce(null)
+      await requestEmailVerification('nobody@example.com')
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ emailVerified: new Date() } as any)
+      await requestEmailVerification('test@example.com')
+      expect(sendTemplate).not.toHaveBeenCalled()
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ emailVerified: null } as any)
+      await requestEmailVerification('test@example.com', 'ar')
+      expect(sendTemplate).toHaveBeenCalledWith(
+        prisma,
+        'verify-email',
+        { url: expect.stringContaining('verify-email?token=mock_jwt_token') },
+        { to: 'test@example.com', locale: 'ar' }
+      )
+    })
+
+    it('should only email reset links to accounts with a password', async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ password: null } as any)
+      await requestPasswordReset('google@example.com')
+      expect(sendTemplate).not.toHaveBeenCalled()
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({ password: 'hashed_password' } as any)
+      await requestPasswordReset('test@example.com')
+      expect(prisma.verificationToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ identifier: 'password-reset:test@example.com' }),
       })
+      expect(sendTemplate).toHaveBeenCalledWith(
+        prisma,
+        'password-reset',
+        { url: expect.stringContaining('reset-password?token=mock_jwt_token') },
+        { to: 'test@example.com', locale: undefined }
+      )
     })
   })
-})
\ No newline at end of file
+})
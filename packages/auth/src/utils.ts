@@ -2,7 +2,9 @@ import bcrypt from "bcryptjs"
 import jwt from "jsonwebtoken"
 import { db as prisma } from "@workspace/database"
 import { z } from "zod"
-import nodemailer from "nodemailer"
+import { sendTemplate, type NotificationLocale } from "@workspace/notifications"
+import type { UserRole } from "@workspace/config"
+import { randomBytes } from "crypto"
 
 // Validation schemas
 export const registerSchema = z.object({
@@ -20,6 +22,14 @@ export const resetPasswordSchema = z.object({
   email: z.string().email("Invalid email address"),
 })
 
+export const newPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string().min(1, "Please confirm your new password"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+})
+
 export const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
   newPassword: z.string().min(6, "New password must be at least 6 characters"),
@@ -62,9 +72,9 @@ export async function createUser(data: {
   name: string
   email: string
   password: string
-  role?: "USER" | "ADMIN"
+  role?: UserRole
 }) {
-  const { name, email, password, role = "USER" } = data
+  const { name, email, password, role = "VIEWER" } = data
   
   // Check if user already exists
   const existingUser = await prisma.user.findUnique({
@@ -144,216 +154,213 @@ export async function updateUserPassword(userId: string, newPassword: string) {
   })
 }
 
-// Email utilities
-export async function sendEmail({
-  to,
-  subject,
-  html,
-  text,
-}: {
-  to: string
-  subject: string
-  html?: string
-  text?: string
-}) {
-  if (!process.env.SMTP_HOST) {
-    console.warn("SMTP not configured, email not sent")
-    return
-  }
-  
-  const transporter = nodemailer.createTransport({
-    host: process.env.SMTP_HOST,
-    port: parseInt(process.env.SMTP_PORT || "587"),
-    secure: process.env.SMTP_SECURE === "true",
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASSWORD,
-    },
-  })
-  
-  const mailOptions = {
-    from: process.env.SMTP_FROM || process.env.SMTP_USER,
-    to,
-    subject,
-    html,
-    text,
-  }
-  
-  try {
-    await transporter.sendMail(mailOptions)
-    console.log(`Email sent to ${to}`)
-  } catch (error) {
-    console.error("Failed to send email:", error)
-    throw new Error("Failed to send email")
-  }
+// Email utilities: queued through the notifications outbox, which retries
+// failed sends and renders the templates in the user's language
+export async function sendVerificationEmail(email: string, token: string, locale?: NotificationLocale) {
+  const url = `${process.env.NEXTAUTH_URL}/auth/verify-email?token=${token}`
+  await sendTemplate(prisma, "verify-email", { url }, { to: email, locale })
 }
 
-export async function sendVerificationEmail(email: string, token: string) {
-  const verificationUrl = `${process.env.NEXTAUTH_URL}/auth/verify-email?token=${token}`
-  
-  const html = `
-    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
-      <h2 style="color: #333;">Verify Your Email Address</h2>
-      <p>Thank you for signing up! Please click the button below to verify your email address:</p>
-      <a href="${verificationUrl}" style="display: inline-block; background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 16px 0;">Verify Email</a>
-      <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
-      <p style="word-break: break-all; color: #666;">${verificationUrl}</p>
-      <p style="color: #666; font-size: 14px;">This link will expire in 24 hours.</p>
-    </div>
-  `
-  
-  const text = `
-    Verify Your Email Address
-    
-    Thank you for signing up! Please visit the following link to verify your email address:
-    ${verificationUrl}
-    
-    This link will expire in 24 hours.
-  `
-  
-  await sendEmail({
-    to: email,
-    subject: "Verify Your Email Address",
-    html,
-    text,
-  })
+export async function sendPasswordResetEmail(email: string, token: string, locale?: NotificationLocale) {
+  const url = `${process.env.NEXTAUTH_URL}/auth/reset-password?token=${token}`
+  await sendTemplate(prisma, "password-reset", { url }, { to: email, locale })
 }
 
-export async function sendPasswordResetEmail(email: string, token: string) {
-  const resetUrl = `${process.env.NEXTAUTH_URL}/auth/reset-password?token=${token}`
-  
-  const html = `
-    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
-      <h2 style="color: #333;">Reset Your Password</h2>
-      <p>You requested a password reset. Click the button below to reset your password:</p>
-      <a href="${resetUrl}" style="display: inline-block; background-color: #dc3545; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; margin: 16px 0;">Reset Password</a>
-      <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
-      <p style="word-break: break-all; color: #666;">${resetUrl}</p>
-      <p style="color: #666; font-size: 14px;">This link will expire in 1 hour. If you didn't request this, please ignore this email.</p>
-    </div>
-  `
-  
-  const text = `
-    Reset Your Password
-    
-    You requested a password reset. Please visit the following link to reset your password:
-    ${resetUrl}
-    
-    This link will expire in 1 hour. If you didn't request this, please ignore this email.
-  `
-  
-  await sendEmail({
-    to: email,
-    subject: "Reset Your Password",
-    html,
-    text,
-  })
+// Verification token utilities
+//
+// Tokens are stored under "<type>:<email>", so issuing a new link replaces
+// the earlier ones of the same kind. Each link works once: consuming it
+// deletes the row, and only the request whose delete removed it goes on.
+type AccountTokenType = "email-verification" | "password-reset"
+
+const TOKEN_LIFETIME_SECONDS: Record<AccountTokenType, number> = {
+  "email-verification": 24 * 60 * 60, // 24 hours
+  "password-reset": 60 * 60, // 1 hour
 }
 
-// Verification token utilities
-export async function createVerificationToken(email: string) {
-  const token = generateToken({ email, type: "email-verification" }, "24h")
-  
-  // Store token in database
-  await prisma.verificationToken.create({
-    data: {
-      identifier: email,
-      token,
-      expires: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-    },
-  })
-  
+function tokenIdentifier(type: AccountTokenType, email: string) {
+  return `${type}:${email}`
+}
+
+async function issueAccountToken(type: AccountTokenType, email: string) {
+  const seconds = TOKEN_LIFETIME_SECONDS[type]
+  const token = generateToken({ email, type }, `${seconds}s`)
+  const identifier = tokenIdentifier(type, email)
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token,
+        expires: new Date(Date.now() + seconds * 1000),
+      },
+    }),
+  ])
+
   return token
 }
 
-export async function createPasswordResetToken(email: string) {
-  const token = generateToken({ email, type: "password-reset" }, "1h")
-  
-  // Delete any existing reset tokens for this email
-  await prisma.verificationToken.deleteMany({
+// The email a valid token of `type` was issued for
+function readAccountToken(token: string, type: AccountTokenType): string {
+  const payload = verifyToken(token)
+
+  if (payload.type !== type || typeof payload.email !== "string") {
+    throw new Error("Invalid token type")
+  }
+
+  return payload.email
+}
+
+async function consumeAccountToken(token: string, type: AccountTokenType): Promise<string> {
+  const email = readAccountToken(token, type)
+
+  const { count } = await prisma.verificationToken.deleteMany({
     where: {
-      identifier: email,
-      token: {
-        contains: "password-reset",
-      },
-    },
-  })
-  
-  // Store new token in database
-  await prisma.verificationToken.create({
-    data: {
-      identifier: email,
+      identifier: tokenIdentifier(type, email),
       token,
-      expires: new Date(Date.now() + 60 * 60 * 1000), // 1 hour
+      expires: {
+        gt: new Date(),
+      },
     },
   })
-  
-  return token
+
+  if (count !== 1) {
+    throw new Error("Token not found or expired")
+  }
+
+  return email
+}
+
+export async function createVerificationToken(email: string) {
+  return issueAccountToken("email-verification", email)
+}
+
+export async function createPasswordResetToken(email: string) {
+  return issueAccountToken("password-reset", email)
 }
 
 export async function verifyEmailToken(token: string) {
   try {
-    const payload = verifyToken(token)
-    
-    if (payload.type !== "email-verification") {
-      throw new Error("Invalid token type")
-    }
-    
-    // Check if token exists in database
-    const dbToken = await prisma.verificationToken.findFirst({
-      where: {
-        token,
-        expires: {
-          gt: new Date(),
-        },
-      },
-    })
-    
-    if (!dbToken) {
-      throw new Error("Token not found or expired")
-    }
-    
+    const email = await consumeAccountToken(token, "email-verification")
+
     // Mark email as verified
     await prisma.user.update({
-      where: { email: payload.email },
+      where: { email },
       data: { emailVerified: new Date() },
     })
-    
-    // Delete the used token
-    await prisma.verificationToken.delete({
-      where: { token },
-    })
-    
-    return { email: payload.email }
+
+    return { email }
   } catch (error) {
     throw new Error("Invalid or expired verification token")
   }
 }
 
+// Checks a reset link without using it up, so the reset page can tell an
+// expired link apart before asking for a new password
 export async function verifyPasswordResetToken(token: string) {
   try {
-    const payload = verifyToken(token)
-    
-    if (payload.type !== "password-reset") {
-      throw new Error("Invalid token type")
-    }
-    
+    const email = readAccountToken(token, "password-reset")
+
     // Check if token exists in database
     const dbToken = await prisma.verificationToken.findFirst({
       where: {
+        identifier: tokenIdentifier("password-reset", email),
         token,
         expires: {
           gt: new Date(),
         },
       },
     })
-    
+
     if (!dbToken) {
       throw new Error("Token not found or expired")
     }
-    
-    return { email: payload.email, token }
+
+    return { email, token }
   } catch (error) {
     throw new Error("Invalid or expired reset token")
   }
-}
\ No newline at end of file
+}
+
+export async function resetPassword(token: string, newPassword: string) {
+  let email: string
+  try {
+    email = await consumeAccountToken(token, "password-reset")
+  } catch (error) {
+    throw new Error("Invalid or expired reset token")
+  }
+
+  const hashedPassword = await hashPassword(newPassword)
+
+  // A working reset link also proves the user owns the address
+  await prisma.user.update({
+    where: { email },
+    data: {
+      password: hashedPassword,
+      emailVerified: new Date(),
+    },
+  })
+
+  return { email }
+}
+
+// Account emails. Both resolve without saying whether the address has an
+// account, so the forms built on them can't be used to look users up.
+export async function requestEmailVerification(email: string, locale?: NotificationLocale) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { emailVerified: true },
+  })
+
+  if (!user || user.emailVerified) {
+    return
+  }
+
+  const token = await createVerificationToken(email)
+  await sendVerificationEmail(email, token, locale)
+}
+
+export async function requestPasswordReset(email: string, locale?: NotificationLocale) {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { password: true },
+  })
+
+  // Accounts that only sign in with Google have no password to reset
+  if (!user?.password) {
+    return
+  }
+
+  const token = await createPasswordResetToken(email)
+  await sendPasswordResetEmail(email, token, locale)
+}
+
+// Quote links stay readable for a while after the quote expires, so the
+// customer sees that it expired rather than a broken link
+const QUOTE_LINK_GRACE_SECONDS = 30 * 24 * 60 * 60
+
+export function createQuoteToken(quoteId: string, expiresAt: Date) {
+  const seconds = Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 1000), 0) + QUOTE_LINK_GRACE_SECONDS
+  return generateToken({ quoteId, type: "quote-response" }, `${seconds}s`)
+}
+
+export function verifyQuoteToken(token: string): string {
+  try {
+    const payload = verifyToken(token)
+    
+    if (payload.type !== "quote-response" || typeof payload.quoteId !== "string") {
+      throw new Error("Invalid token type")
+    }
+    
+    return payload.quoteId
+  } catch (error) {
+    throw new Error("Invalid or expired quote link")
+  }
+}
+
+// Opaque secret for calendar feed URLs. Feeds are fetched by calendar apps
+// without a session, so the token is the only credential.
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString("base64url")
+}
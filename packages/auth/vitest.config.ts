@@ -22,6 +22,7 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
       '@workspace/database': path.resolve(__dirname, '../database/src'),
+      '@workspace/notifications': path.resolve(__dirname, '../notifications/src'),
     },
   },
 })
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { z } from 'zod'
+import { BUSINESS_INFO } from './constants'
+import type { BusinessHours } from './types'
+import { businessHoursSchema } from './validation'
+
+// Business calendar: weekly opening hours, public holidays per year and
+// one-off closures, all read as wall-clock time in the calendar's time zone
+// rather than the server's. SLA clocks, emergency pricing and the web
+// header's "open now" all ask it.
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export const HOLIDAY_PRESETS = ['US', 'SA'] as const
+
+export type HolidayPreset = (typeof HOLIDAY_PRESETS)[number]
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD dates')
+
+export const holidaySchema = z.object({
+  date: dateKeySchema,
+  name: z.string().trim().min(1, 'Holiday name is required'),
+})
+
+export type Holiday = z.infer<typeof holidaySchema>
+
+// Whole days, both ends included
+export const businessClosureSchema = z
+  .object({
+    from: dateKeySchema,
+    to: dateKeySchema,
+    reason: z.string().trim().min(1, 'Closure reason is required'),
+  })
+  .refine((closure) => closure.from <= closure.to, {
+    message: 'A closure must end on or after its first day',
+    path: ['to'],
+  })
+
+export type BusinessClosure = z.infer<typeof businessClosureSchema>
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const businessCalendarSchema = z.object({
+  timezone: z.string().refine(isTimeZone, 'Unknown IANA time zone').default(BUSINESS_INFO.timezone),
+  hours: businessHoursSchema
+    .refine((hours) => Object.values(hours).some((day) => !day.closed), 'Open on at least one day of the week')
+    .default(BUSINESS_INFO.hours),
+  // Days that carry the weekend surcharge, whether or not the office is open
+  weekend: z.array(z.enum(WEEKDAYS)).default(['saturday', 'sunday']),
+  // Holidays for any year without its own list
+  holidayPreset: z.enum(HOLIDAY_PRESETS).nullable().default('US'),
+  // Holiday lists keyed by year, e.g. { "2025": [...] }
+  holidays: z.record(z.string().regex(/^\d{4}$/, 'Key holiday lists by year'), z.array(holidaySchema)).default({}),
+  closures: z.array(businessClosureSchema).default([]),
+})
+
+export type BusinessCalendarInput = z.input<typeof businessCalendarSchema>
+export type BusinessCalendar = z.output<typeof businessCalendarSchema>
+
+// BUSINESS_INFO hours and time zone with US holidays
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = businessCalendarSchema.parse({})
+
+const MINUTE = 60_000
+const DAY = 24 * 60 * MINUTE
+
+const zonedFormats = new Map<string, Intl.DateTimeFormat>()
+
+// Wall-clock fields of `date` in `timeZone`
+function getZonedFields(date: Date, timeZone: string) {
+  let format = zonedFormats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    zonedFormats.set(timeZone, format)
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(date).map((part) => [part.type, Number(part.value)]))
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>
+}
+
+// Minutes `timeZone` is ahead of UTC at `date`
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedFields(date, timeZone)
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second)
+  return Math.round((wallTime - Math.floor(date.getTime() / 1000) * 1000) / MINUTE)
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const toDateKey = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`
+
+// "2025-03-09" plus `days`, calendar arithmetic only
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY).toISOString().slice(0, 10)
+}
+
+export const weekdayOf = (dateKey: string): Weekday => WEEKDAYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()]
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// The date `date` falls on in `timeZone`, as YYYY-MM-DD
+export function toDateKeyIn(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedFields(date, timeZone)
+  return toDateKey(year, month, day)
+}
+
+/**
+ * The instant the clock in `timeZone` reads `minutes` past midnight on
+ * `dateKey`. Times skipped by a DST change resolve to the later offset.
+ */
+export function zonedDateTime(dateKey: string, minutes: number, timeZone: string): Date {
+  const wallTime = Date.parse(`${dateKey}T00:00:00Z`) + minutes * MINUTE
+  const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone) * MINUTE
+  return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone) * MINUTE)
+}
+
+// The `n`th `weekday` of a month, counting from the end when `n` is negative
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+    return toDateKey(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7)
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0))
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7
+  return toDateKey(year, month, lastDay.getUTCDate() - offset + (n + 1) * 7)
+}
+
+// US federal holidays on their actual dates
+function usHolidays(year: number): Holiday[] {
+  return [
+    { date: toDateKey(year, 1, 1), name: "New Year's Day" },
+    { date: nthWeekday(year, 1, 1, 3), name: 'Martin Luther King Jr. Day' },
+    { date: nthWeekday(year, 2, 1, 3), name: "Presidents' Day" },
+    { date: nthWeekday(year, 5, 1, -1), name: 'Memorial Day' },
+    { date: toDateKey(year, 6, 19), name: 'Juneteenth' },
+    { date: toDateKey(year, 7, 4), name: 'Independence Day' },
+    { date: nthWeekday(year, 9, 1, 1), name: 'Labor Day' },
+    { date: nthWeekday(year, 10, 1, 2), name: 'Columbus Day' },
+    { date: toDateKey(year, 11, 11), name: 'Veterans Day' },
+    { date: nthWeekday(year, 11, 4, 4), name: 'Thanksgiving Day' },
+    { date: toDateKey(year, 12, 25), name: 'Christmas Day' },
+  ]
+}
+
+const hijriFormat = new Intl.DateTimeFormat('en-US-u-ca-islamic-umalqura', {
+  timeZone: 'UTC',
+  month: 'numeric',
+  day: 'numeric',
+})
+
+// Hijri [month, day] -> name of the holidays that follow the lunar calendar
+const HIJRI_HOLIDAYS: Record<string, string> = {
+  '10-1': 'Eid al-Fitr',
+  '10-2': 'Eid al-Fitr',
+  '10-3': 'Eid al-Fitr',
+  '12-9': 'Day of Arafah',
+  '12-10': 'Eid al-Adha',
+  '12-11': 'Eid al-Adha',
+  '12-12': 'Eid al-Adha',
+}
+
+/**
+ * Saudi public holidays. Eid dates come from the Umm al-Qura calendar; the
+ * official moon sighting can move them a day, so save the year's own list
+ * once the dates are announced.
+ */
+function saudiHolidays(year: number): Holiday[] {
+  const holidays: Holiday[] = [
+    { date: toDateKey(year, 2, 22), name: 'Founding Day' },
+    { date: toDateKey(year, 9, 23), name: 'National Day' },
+  ]
+
+  for (let time = Date.UTC(year, 0, 1); time < Date.UTC(year + 1, 0, 1); time += DAY) {
+    const parts = Object.fromEntries(hijriFormat.formatToParts(new Date(time)).map((part) => [part.type, part.value]))
+    const name = HIJRI_HOLIDAYS[`${parts.month}-${parts.day}`]
+    if (name) holidays.push({ date: new Date(time).toISOString().slice(0, 10), name })
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+const presetCache = new Map<string, Holiday[]>()
+
+export function getHolidayPreset(preset: HolidayPreset, year: number): Holiday[] {
+  const key = `${preset}:${year}`
+  if (!presetCache.has(key)) {
+    presetCache.set(key, preset === 'US' ? usHolidays(year) : saudiHolidays(year))
+  }
+  return presetCache.get(key)!.map((holiday) => ({ ...holiday }))
+}
+
+// The year's own list if it has one, otherwise the preset's
+export function getHolidays(year: number, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): Holiday[] {
+  const list = calendar.holidays[String(year)]
+  if (list) return list
+  return calendar.holidayPreset ? getHolidayPreset(calendar.holidayPreset, year) : []
+}
+
+function holidayOn(dateKey: string, calendar: BusinessCalendar): Holiday | null {
+  return getHolidays(Number(dateKey.slice(0, 4)), calendar).find((holiday) => holiday.date === dateKey) ?? null
+}
+
+export interface BusinessDay {
+  date: string
+  weekday: Weekday
+  hours: BusinessHours
+  // Null when closed all day
+  opensAt: Date | null
+  closesAt: Date | null
+  // The holiday or closure shutting a day that is normally open
+  closedFor: string | null
+}
+
+function businessDayOn(dateKey: string, calendar: BusinessCalendar): BusinessDay {
+  const weekday = weekdayOf(dateKey)
+  const hours = calendar.hours[weekday]
+  const closedFor =
+    holidayOn(dateKey, calendar)?.name ??
+    calendar.closures.find((closure) => closure.from <= dateKey && dateKey <= closure.to)?.reason ??
+    null
+
+  // Like technician working hours, a close at or before the open means closed
+  const normallyClosed = hours.closed || toMinutes(hours.close) <= toMinutes(hours.open)
+
+  if (normallyClosed || closedFor) {
+    return {
+      date: dateKey,
+      weekday,
+      hours,
+      opensAt: null,
+      closesAt: null,
+      closedFor: normallyClosed ? null : closedFor,
+    }
+  }
+
+  return {
+    date: dateKey,
+    weekday,
+    hours,
+    opensAt: zonedDateTime(dateKey, toMinutes(hours.open), calendar.timezone),
+    closesAt: zonedDateTime(dateKey, toMinutes(hours.close), calendar.timezone),
+    closedFor: null,
+  }
+}
+
+// The business date `date` falls on, with its opening hours
+export function getBusinessDay(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): BusinessDay {
+  return businessDayOn(toDateKeyIn(date, calendar.timezone), calendar)
+}
+
+export function getHoliday(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): Holiday | null {
+  return holidayOn(toDateKeyIn(date, calendar.timezone), calendar)
+}
+
+export function isHoliday(date: Date = new Date(), calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): boolean {
+  return getHoliday(date, calendar) !== null
+}
+
+export function isWeekend(date: Date = new Date(), calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): boolean {
+  return calendar.weekend.includes(weekdayOf(toDateKeyIn(date, calendar.timezone)))
+}
+
+export function isBusinessOpen(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): boolean {
+  const { opensAt, closesAt } = getBusinessDay(date, calendar)
+  return opensAt !== null && closesAt !== null && date >= opensAt && date < closesAt
+}
+
+// Long closures aside, an opening turns up within a couple of weeks
+const SEARCH_DAYS = 366
+
+/**
+ * The first moment at or after `date` when the business is open: `date`
+ * itself during opening hours. Null when nothing opens within a year.
+ */
+export function getNextOpening(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): Date | null {
+  const today = toDateKeyIn(date, calendar.timezone)
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const { opensAt, closesAt } = businessDayOn(addDaysToDateKey(today, offset), calendar)
+    if (opensAt && closesAt && date < closesAt) {
+      return date > opensAt ? date : opensAt
+    }
+  }
+
+  return null
+}
+
+// Opening time of the first business day after the one `date` falls on
+export function getNextBusinessDay(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): Date | null {
+  const today = toDateKeyIn(date, calendar.timezone)
+
+  for (let offset = 1; offset <= SEARCH_DAYS; offset++) {
+    const { opensAt } = businessDayOn(addDaysToDateKey(today, offset), calendar)
+    if (opensAt) return opensAt
+  }
+
+  return null
+}
+
+export interface BusinessStatus {
+  open: boolean
+  // When the current opening ends, while open
+  closesAt: Date | null
+  // The next opening, while closed
+  opensAt: Date | null
+  // Holiday or closure name when that is why today is shut
+  closedFor: string | null
+  timezone: string
+}
+
+// "Open now until 6 PM" or "Closed, opens Monday 8 AM"
+export function getBusinessStatus(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): BusinessStatus {
+  const today = getBusinessDay(date, calendar)
+  const open = isBusinessOpen(date, calendar)
+
+  return {
+    open,
+    closesAt: open ? today.closesAt : null,
+    opensAt: open ? null : getNextOpening(date, calendar),
+    closedFor: today.closedFor,
+    timezone: calendar.timezone,
+  }
+}
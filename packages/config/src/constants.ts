@@ -1,3 +1,5 @@
+import { LEAD_SOURCE_META, LEAD_STATUS_META, PRIORITY_META, URGENCY_META } from './generated/enums'
+
 // Application constants
 export const APP_CONFIG = {
   name: 'Aurora HVAC Services',
@@ -20,6 +22,8 @@ export const BUSINESS_INFO = {
     zip: '62701',
     country: 'USA',
   },
+  // IANA zone the hours below are in; calendar exports use it
+  timezone: 'America/Chicago',
   hours: {
     monday: { open: '8:00', close: '18:00', closed: false },
     tuesday: { open: '8:00', close: '18:00', closed: false },
@@ -130,33 +134,51 @@ export const SERVICE_CATEGORIES = {
 
 // Lead sources and priorities
 export const LEAD_CONFIG = {
+  // Names and colors come from the schema enums; the rest is workflow config
   SOURCES: {
-    WEBSITE: { name: 'Website', color: '#3B82F6', priority: 1 },
-    PHONE: { name: 'Phone Call', color: '#10B981', priority: 2 },
-    EMAIL: { name: 'Email', color: '#8B5CF6', priority: 3 },
-    REFERRAL: { name: 'Referral', color: '#F59E0B', priority: 4 },
-    SOCIAL: { name: 'Social Media', color: '#EF4444', priority: 5 },
-    OTHER: { name: 'Other', color: '#6B7280', priority: 6 },
+    WEBSITE: { ...LEAD_SOURCE_META.WEBSITE, priority: 1 },
+    PHONE: { ...LEAD_SOURCE_META.PHONE, priority: 2 },
+    EMAIL: { ...LEAD_SOURCE_META.EMAIL, priority: 3 },
+    REFERRAL: { ...LEAD_SOURCE_META.REFERRAL, priority: 4 },
+    SOCIAL_MEDIA: { ...LEAD_SOURCE_META.SOCIAL_MEDIA, priority: 5 },
+    GOOGLE_ADS: { ...LEAD_SOURCE_META.GOOGLE_ADS, priority: 6 },
+    FACEBOOK_ADS: { ...LEAD_SOURCE_META.FACEBOOK_ADS, priority: 7 },
+    OTHER: { ...LEAD_SOURCE_META.OTHER, priority: 8 },
   },
   PRIORITIES: {
-    LOW: { name: 'Low', color: '#10B981', score: 1 },
-    MEDIUM: { name: 'Medium', color: '#F59E0B', score: 2 },
-    HIGH: { name: 'High', color: '#EF4444', score: 3 },
-    URGENT: { name: 'Urgent', color: '#DC2626', score: 4 },
+    LOW: { ...PRIORITY_META.LOW, score: 1 },
+    MEDIUM: { ...PRIORITY_META.MEDIUM, score: 2 },
+    HIGH: { ...PRIORITY_META.HIGH, score: 3 },
+    URGENT: { ...PRIORITY_META.URGENT, score: 4 },
   },
+  // `next` lists the moves the lead workflow allows out of each status
   STATUSES: {
-    NEW: { name: 'New', color: '#3B82F6', next: ['CONTACTED'] },
-    CONTACTED: { name: 'Contacted', color: '#8B5CF6', next: ['QUALIFIED', 'LOST'] },
-    QUALIFIED: { name: 'Qualified', color: '#F59E0B', next: ['QUOTED', 'LOST'] },
-    QUOTED: { name: 'Quoted', color: '#10B981', next: ['WON', 'LOST'] },
-    WON: { name: 'Won', color: '#059669', next: [] },
-    LOST: { name: 'Lost', color: '#DC2626', next: [] },
-  },
+    NEW: { ...LEAD_STATUS_META.NEW, next: ['CONTACTED', 'LOST'] },
+    CONTACTED: { ...LEAD_STATUS_META.CONTACTED, next: ['QUALIFIED', 'FOLLOW_UP', 'LOST'] },
+    QUALIFIED: { ...LEAD_STATUS_META.QUALIFIED, next: ['PROPOSAL_SENT', 'FOLLOW_UP', 'LOST'] },
+    PROPOSAL_SENT: { ...LEAD_STATUS_META.PROPOSAL_SENT, next: ['NEGOTIATING', 'FOLLOW_UP', 'WON', 'LOST'] },
+    NEGOTIATING: { ...LEAD_STATUS_META.NEGOTIATING, next: ['PROPOSAL_SENT', 'WON', 'LOST'] },
+    FOLLOW_UP: { ...LEAD_STATUS_META.FOLLOW_UP, next: ['CONTACTED', 'QUALIFIED', 'PROPOSAL_SENT', 'LOST'] },
+    WON: { ...LEAD_STATUS_META.WON, next: [] },
+    LOST: { ...LEAD_STATUS_META.LOST, next: [] },
+  },
+  // Repeat public submissions from the same email or phone inside this
+  // window are merged into the existing lead
+  DEDUP_WINDOW: 86400000, // 24 hours
   URGENCY_LEVELS: {
-    IMMEDIATE: { name: 'Immediate', hours: 2, surcharge: 200 },
-    WITHIN_24H: { name: 'Within 24 Hours', hours: 24, surcharge: 100 },
-    WITHIN_WEEK: { name: 'Within a Week', hours: 168, surcharge: 0 },
-    FLEXIBLE: { name: 'Flexible', hours: 720, surcharge: 0 },
+    IMMEDIATE: { ...URGENCY_META.IMMEDIATE, hours: 2, surcharge: 200 },
+    WITHIN_24H: { ...URGENCY_META.WITHIN_24H, hours: 24, surcharge: 100 },
+    WITHIN_WEEK: { ...URGENCY_META.WITHIN_WEEK, hours: 168, surcharge: 0 },
+    FLEXIBLE: { ...URGENCY_META.FLEXIBLE, hours: 720, surcharge: 0 },
+  },
+  // Lead score (0-100). Each factor is rated 0-1 and multiplied by its
+  // weight; the weights add up to 100.
+  SCORING: {
+    WEIGHTS: { source: 15, urgency: 20, value: 25, distance: 15, engagement: 25 },
+    // Calls, emails, meetings and proposals that earn full engagement
+    ENGAGEMENT_TARGET: 5,
+    // Travel surcharge at which an in-area lead stops earning distance points
+    MAX_TRAVEL_SURCHARGE: 100,
   },
 } as const
 
@@ -185,6 +207,60 @@ export const PRICING_CONFIG = {
     promotionalAPR: 0,
     standardAPR: 9.99,
   },
+  QUOTES: {
+    // Sales tax applied to the quote subtotal plus surcharges
+    TAX_RATE: 0.0625,
+    // Days a sent quote stays open for acceptance
+    VALID_DAYS: 30,
+  },
+} as const
+
+// Technician appointment booking
+export const APPOINTMENT_CONFIG = {
+  // Booking slots start on this grid from opening time
+  SLOT_MINUTES: 30,
+  // Travel time kept free between two visits of the same technician
+  BUFFER_MINUTES: 30,
+  // Online bookings must start at least this far ahead
+  MIN_NOTICE_HOURS: 4,
+  // How far ahead the public booking form offers slots
+  BOOKING_WINDOW_DAYS: 21,
+  DEFAULT_DURATION_MINUTES: 120,
+  // Visit length by the kind of job named in the service type, e.g.
+  // furnace_installation and ac_installation both match "installation"
+  DURATIONS: {
+    installation: 480,
+    repair: 120,
+    maintenance: 90,
+    duct_cleaning: 180,
+  },
+} as const
+
+export const NOTIFICATION_CONFIG = {
+  // Supported email languages; Arabic emails are laid out right-to-left
+  LOCALES: ['en', 'ar'],
+  DEFAULT_LOCALE: 'en',
+  // Attempts before an email is marked FAILED
+  MAX_ATTEMPTS: 6,
+  // Retries wait 1, 2, 4, 8... minutes, capped at 6 hours
+  RETRY_BASE_MS: 60 * 1000,
+  RETRY_MAX_MS: 6 * 60 * 60 * 1000,
+  // Emails claimed per worker run, and how long a claim holds if the worker dies
+  BATCH_SIZE: 25,
+  CLAIM_MS: 5 * 60 * 1000,
+} as const
+
+// WhatsApp click-to-chat links and Business API alerts
+export const WHATSAPP_CONFIG = {
+  // Numbers entered without a country code, e.g. 050 123 4567, are taken as Saudi
+  DEFAULT_COUNTRY_CODE: '966',
+  CLOUD_API_URL: 'https://graph.facebook.com',
+  CLOUD_API_VERSION: 'v21.0',
+  // Business API templates, approved in WhatsApp Manager under these names
+  TEMPLATES: {
+    // Body placeholders: {{1}} lead name, {{2}} service, {{3}} priority, {{4}} CMS link
+    NEW_LEAD: { name: 'new_lead_alert', language: 'en' },
+  },
 } as const
 
 // Content and SEO configuration
@@ -330,6 +406,28 @@ export const API_CONFIG = {
     auth: { requests: 5, window: 900000 }, // 5 requests per 15 minutes
     contact: { requests: 3, window: 3600000 }, // 3 requests per hour
     search: { requests: 50, window: 300000 }, // 50 requests per 5 minutes
+    quoteResponse: { requests: 10, window: 900000 }, // 10 requests per 15 minutes
+  },
+  PAGINATION: {
+    defaultTake: 20,
+    maxTake: 100,
+  },
+  // Columns the /api/content/* lists and the CMS leads table can sort by
+  SORT_FIELDS: {
+    services: ['createdAt', 'updatedAt', 'publishedAt', 'title'],
+    posts: ['createdAt', 'updatedAt', 'publishedAt', 'title'],
+    pages: ['createdAt', 'updatedAt', 'publishedAt', 'title'],
+    projects: ['createdAt', 'updatedAt', 'publishedAt', 'completedAt', 'title'],
+    testimonials: ['createdAt', 'updatedAt', 'rating', 'name'],
+    team: ['order', 'name', 'createdAt', 'updatedAt'],
+    serviceAreas: ['order', 'name', 'surcharge', 'createdAt', 'updatedAt'],
+    leads: ['createdAt', 'updatedAt', 'name', 'status', 'priority', 'score', 'followUpDate'],
+  },
+  REVALIDATION: {
+    maxAttempts: 3,
+    backoffMs: 500, // doubled after each failed attempt
+    timeoutMs: 5000, // per attempt
+    signatureToleranceMs: 300000, // 5 minutes
   },
   TIMEOUTS: {
     default: 30000, // 30 seconds
@@ -341,6 +439,7 @@ export const API_CONFIG = {
       short: 300, // 5 minutes
       medium: 3600, // 1 hour
       long: 86400, // 24 hours
+      settings: 30, // Per process; saves clear it at once
     },
     keys: {
       services: 'services:list',
@@ -437,6 +536,9 @@ export const CONSTANTS = {
   SERVICE_CATEGORIES,
   LEAD_CONFIG,
   PRICING_CONFIG,
+  APPOINTMENT_CONFIG,
+  NOTIFICATION_CONFIG,
+  WHATSAPP_CONFIG,
   CONTENT_CONFIG,
   UI_CONFIG,
   API_CONFIG,
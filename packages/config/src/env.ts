@@ -23,6 +23,8 @@ const envSchema = z.object({
   SMTP_USER: z.string().optional(),
   SMTP_PASSWORD: z.string().optional(),
   SMTP_FROM: z.string().email('Invalid SMTP from email').optional(),
+  // Without SMTP, emails are written here as .eml files, or logged when unset
+  EMAIL_SINK_DIR: z.string().optional(),
   
   // Typesense
   TYPESENSE_HOST: z.string().optional(),
@@ -51,6 +53,23 @@ const envSchema = z.object({
   ENCRYPTION_KEY: z.string().min(32, 'Encryption key must be at least 32 characters').optional(),
   JWT_SECRET: z.string().min(32, 'JWT secret must be at least 32 characters').optional(),
   
+  // Cache revalidation (CMS -> web)
+  WEB_REVALIDATE_URL: z.string().url('Invalid web revalidation URL').optional(),
+  REVALIDATE_SECRET: z.string().min(32, 'Revalidation secret must be at least 32 characters').optional(),
+  
+  // Public app URLs, used for links in emails sent from the other app
+  NEXT_PUBLIC_APP_URL: z.string().url('Invalid app URL').default('http://localhost:3000'),
+  NEXT_PUBLIC_CMS_URL: z.string().url('Invalid CMS URL').default('http://localhost:3001'),
+  
+  // Scheduled jobs (sent by Vercel Cron as a bearer token)
+  CRON_SECRET: z.string().min(32, 'Cron secret must be at least 32 characters').optional(),
+  
+  // WhatsApp Business (Cloud) API. Without a token, new-lead WhatsApp alerts are off.
+  // Point WHATSAPP_API_URL at the mock server (pnpm --filter @workspace/core whatsapp:mock) locally.
+  WHATSAPP_API_URL: z.string().url('Invalid WhatsApp API URL').optional(),
+  WHATSAPP_ACCESS_TOKEN: z.string().optional(),
+  WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
+  
   // External APIs
   GOOGLE_MAPS_API_KEY: z.string().optional(),
   RECAPTCHA_SITE_KEY: z.string().optional(),
@@ -221,6 +240,17 @@ export function getCacheConfig() {
   }
 }
 
+export function getRevalidationConfig() {
+  if (!env.WEB_REVALIDATE_URL || !env.REVALIDATE_SECRET) {
+    return null
+  }
+  
+  return {
+    url: env.WEB_REVALIDATE_URL,
+    secret: env.REVALIDATE_SECRET,
+  }
+}
+
 export function getMonitoringConfig() {
   return {
     sentryDsn: env.SENTRY_DSN,
@@ -0,0 +1,253 @@
+// Generated from packages/database/prisma/schema.prisma by `pnpm --filter @workspace/database enums:generate`.
+// Do not edit by hand; change the schema and regenerate instead.
+
+import { z } from 'zod'
+
+export interface EnumMeta {
+  name: string
+  color: string
+}
+
+// UserRole
+export const USER_ROLES = [
+  'ADMIN',
+  'EDITOR',
+  'AUTHOR',
+  'AGENT',
+  'VIEWER',
+] as const
+export type UserRole = (typeof USER_ROLES)[number]
+export const userRoleSchema = z.enum(USER_ROLES)
+export const USER_ROLE_META: Readonly<Record<UserRole, EnumMeta>> = {
+  ADMIN: { name: 'Admin', color: '#6B7280' },
+  EDITOR: { name: 'Editor', color: '#6B7280' },
+  AUTHOR: { name: 'Author', color: '#6B7280' },
+  AGENT: { name: 'Agent', color: '#6B7280' },
+  VIEWER: { name: 'Viewer', color: '#6B7280' },
+}
+
+// ContentStatus
+export const CONTENT_STATUSES = [
+  'DRAFT',
+  'PUBLISHED',
+  'ARCHIVED',
+] as const
+export type ContentStatus = (typeof CONTENT_STATUSES)[number]
+export const contentStatusSchema = z.enum(CONTENT_STATUSES)
+export const CONTENT_STATUS_META: Readonly<Record<ContentStatus, EnumMeta>> = {
+  DRAFT: { name: 'Draft', color: '#6B7280' },
+  PUBLISHED: { name: 'Published', color: '#10B981' },
+  ARCHIVED: { name: 'Archived', color: '#F59E0B' },
+}
+
+// PriceType
+export const PRICE_TYPES = [
+  'FIXED',
+  'STARTING_FROM',
+  'QUOTE_REQUIRED',
+  'HOURLY',
+] as const
+export type PriceType = (typeof PRICE_TYPES)[number]
+export const priceTypeSchema = z.enum(PRICE_TYPES)
+export const PRICE_TYPE_META: Readonly<Record<PriceType, EnumMeta>> = {
+  FIXED: { name: 'Fixed', color: '#6B7280' },
+  STARTING_FROM: { name: 'Starting From', color: '#6B7280' },
+  QUOTE_REQUIRED: { name: 'Quote Required', color: '#6B7280' },
+  HOURLY: { name: 'Hourly', color: '#6B7280' },
+}
+
+// LeadSource
+export const LEAD_SOURCES = [
+  'WEBSITE',
+  'PHONE',
+  'EMAIL',
+  'REFERRAL',
+  'SOCIAL_MEDIA',
+  'GOOGLE_ADS',
+  'FACEBOOK_ADS',
+  'OTHER',
+] as const
+export type LeadSource = (typeof LEAD_SOURCES)[number]
+export const leadSourceSchema = z.enum(LEAD_SOURCES)
+export const LEAD_SOURCE_META: Readonly<Record<LeadSource, EnumMeta>> = {
+  WEBSITE: { name: 'Website', color: '#3B82F6' },
+  PHONE: { name: 'Phone Call', color: '#10B981' },
+  EMAIL: { name: 'Email', color: '#8B5CF6' },
+  REFERRAL: { name: 'Referral', color: '#F59E0B' },
+  SOCIAL_MEDIA: { name: 'Social Media', color: '#EF4444' },
+  GOOGLE_ADS: { name: 'Google Ads', color: '#EA4335' },
+  FACEBOOK_ADS: { name: 'Facebook Ads', color: '#1877F2' },
+  OTHER: { name: 'Other', color: '#6B7280' },
+}
+
+// LeadStatus
+export const LEAD_STATUSES = [
+  'NEW',
+  'CONTACTED',
+  'QUALIFIED',
+  'PROPOSAL_SENT',
+  'NEGOTIATING',
+  'WON',
+  'LOST',
+  'FOLLOW_UP',
+] as const
+export type LeadStatus = (typeof LEAD_STATUSES)[number]
+export const leadStatusSchema = z.enum(LEAD_STATUSES)
+export const LEAD_STATUS_META: Readonly<Record<LeadStatus, EnumMeta>> = {
+  NEW: { name: 'New', color: '#3B82F6' },
+  CONTACTED: { name: 'Contacted', color: '#F59E0B' },
+  QUALIFIED: { name: 'Qualified', color: '#8B5CF6' },
+  PROPOSAL_SENT: { name: 'Proposal Sent', color: '#06B6D4' },
+  NEGOTIATING: { name: 'Negotiating', color: '#0EA5E9' },
+  WON: { name: 'Won', color: '#10B981' },
+  LOST: { name: 'Lost', color: '#EF4444' },
+  FOLLOW_UP: { name: 'Follow Up', color: '#F97316' },
+}
+
+// Priority
+export const PRIORITIES = [
+  'LOW',
+  'MEDIUM',
+  'HIGH',
+  'URGENT',
+] as const
+export type Priority = (typeof PRIORITIES)[number]
+export const prioritySchema = z.enum(PRIORITIES)
+export const PRIORITY_META: Readonly<Record<Priority, EnumMeta>> = {
+  LOW: { name: 'Low', color: '#10B981' },
+  MEDIUM: { name: 'Medium', color: '#F59E0B' },
+  HIGH: { name: 'High', color: '#EF4444' },
+  URGENT: { name: 'Urgent', color: '#DC2626' },
+}
+
+// LeadActivityType
+export const LEAD_ACTIVITY_TYPES = [
+  'CALL',
+  'EMAIL',
+  'MEETING',
+  'PROPOSAL',
+  'FOLLOW_UP',
+  'NOTE',
+  'STATUS_CHANGE',
+  'ASSIGNED',
+  'SLA_BREACHED',
+  'QUOTE_ACCEPTED',
+  'QUOTE_DECLINED',
+  'APPOINTMENT_BOOKED',
+  'APPOINTMENT_RESCHEDULED',
+  'APPOINTMENT_CANCELLED',
+  'WHATSAPP',
+] as const
+export type LeadActivityType = (typeof LEAD_ACTIVITY_TYPES)[number]
+export const leadActivityTypeSchema = z.enum(LEAD_ACTIVITY_TYPES)
+export const LEAD_ACTIVITY_TYPE_META: Readonly<Record<LeadActivityType, EnumMeta>> = {
+  CALL: { name: 'Call', color: '#6B7280' },
+  EMAIL: { name: 'Email', color: '#6B7280' },
+  MEETING: { name: 'Meeting', color: '#6B7280' },
+  PROPOSAL: { name: 'Proposal', color: '#6B7280' },
+  FOLLOW_UP: { name: 'Follow Up', color: '#6B7280' },
+  NOTE: { name: 'Note', color: '#6B7280' },
+  STATUS_CHANGE: { name: 'Status Change', color: '#6B7280' },
+  ASSIGNED: { name: 'Assigned', color: '#6B7280' },
+  SLA_BREACHED: { name: 'Sla Breached', color: '#6B7280' },
+  QUOTE_ACCEPTED: { name: 'Quote Accepted', color: '#6B7280' },
+  QUOTE_DECLINED: { name: 'Quote Declined', color: '#6B7280' },
+  APPOINTMENT_BOOKED: { name: 'Appointment Booked', color: '#6B7280' },
+  APPOINTMENT_RESCHEDULED: { name: 'Appointment Rescheduled', color: '#6B7280' },
+  APPOINTMENT_CANCELLED: { name: 'Appointment Cancelled', color: '#6B7280' },
+  WHATSAPP: { name: 'WhatsApp', color: '#25D366' },
+}
+
+// QuoteStatus
+export const QUOTE_STATUSES = [
+  'DRAFT',
+  'SENT',
+  'ACCEPTED',
+  'DECLINED',
+  'EXPIRED',
+  'SUPERSEDED',
+] as const
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number]
+export const quoteStatusSchema = z.enum(QUOTE_STATUSES)
+export const QUOTE_STATUS_META: Readonly<Record<QuoteStatus, EnumMeta>> = {
+  DRAFT: { name: 'Draft', color: '#6B7280' },
+  SENT: { name: 'Sent', color: '#3B82F6' },
+  ACCEPTED: { name: 'Accepted', color: '#10B981' },
+  DECLINED: { name: 'Declined', color: '#EF4444' },
+  EXPIRED: { name: 'Expired', color: '#F59E0B' },
+  SUPERSEDED: { name: 'Superseded', color: '#9CA3AF' },
+}
+
+// AppointmentStatus
+export const APPOINTMENT_STATUSES = [
+  'SCHEDULED',
+  'COMPLETED',
+  'CANCELLED',
+  'NO_SHOW',
+] as const
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number]
+export const appointmentStatusSchema = z.enum(APPOINTMENT_STATUSES)
+export const APPOINTMENT_STATUS_META: Readonly<Record<AppointmentStatus, EnumMeta>> = {
+  SCHEDULED: { name: 'Scheduled', color: '#3B82F6' },
+  COMPLETED: { name: 'Completed', color: '#10B981' },
+  CANCELLED: { name: 'Cancelled', color: '#9CA3AF' },
+  NO_SHOW: { name: 'No Show', color: '#EF4444' },
+}
+
+// QuoteItemType
+export const QUOTE_ITEM_TYPES = [
+  'LABOR',
+  'MATERIAL',
+  'DIAGNOSTIC',
+  'OTHER',
+] as const
+export type QuoteItemType = (typeof QUOTE_ITEM_TYPES)[number]
+export const quoteItemTypeSchema = z.enum(QUOTE_ITEM_TYPES)
+export const QUOTE_ITEM_TYPE_META: Readonly<Record<QuoteItemType, EnumMeta>> = {
+  LABOR: { name: 'Labor', color: '#3B82F6' },
+  MATERIAL: { name: 'Materials', color: '#8B5CF6' },
+  DIAGNOSTIC: { name: 'Diagnostic Fee', color: '#F59E0B' },
+  OTHER: { name: 'Other', color: '#6B7280' },
+}
+
+// Urgency
+export const URGENCIES = [
+  'IMMEDIATE',
+  'WITHIN_24H',
+  'WITHIN_WEEK',
+  'FLEXIBLE',
+] as const
+export type Urgency = (typeof URGENCIES)[number]
+export const urgencySchema = z.enum(URGENCIES)
+export const URGENCY_META: Readonly<Record<Urgency, EnumMeta>> = {
+  IMMEDIATE: { name: 'Immediate', color: '#DC2626' },
+  WITHIN_24H: { name: 'Within 24 Hours', color: '#F59E0B' },
+  WITHIN_WEEK: { name: 'Within a Week', color: '#3B82F6' },
+  FLEXIBLE: { name: 'Flexible', color: '#6B7280' },
+}
+
+// RevalidationStatus
+export const REVALIDATION_STATUSES = [
+  'DELIVERED',
+  'FAILED',
+] as const
+export type RevalidationStatus = (typeof REVALIDATION_STATUSES)[number]
+export const revalidationStatusSchema = z.enum(REVALIDATION_STATUSES)
+export const REVALIDATION_STATUS_META: Readonly<Record<RevalidationStatus, EnumMeta>> = {
+  DELIVERED: { name: 'Delivered', color: '#10B981' },
+  FAILED: { name: 'Failed', color: '#EF4444' },
+}
+
+// NotificationStatus
+export const NOTIFICATION_STATUSES = [
+  'PENDING',
+  'SENT',
+  'FAILED',
+] as const
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[number]
+export const notificationStatusSchema = z.enum(NOTIFICATION_STATUSES)
+export const NOTIFICATION_STATUS_META: Readonly<Record<NotificationStatus, EnumMeta>> = {
+  PENDING: { name: 'Pending', color: '#F59E0B' },
+  SENT: { name: 'Sent', color: '#10B981' },
+  FAILED: { name: 'Failed', color: '#EF4444' },
+}
@@ -16,6 +16,7 @@ export {
   getBusinessConfig,
   getFeatureFlags,
   getCacheConfig,
+  getRevalidationConfig,
   getMonitoringConfig,
   validateRequiredEnvVars,
   validateEmailConfig,
@@ -26,6 +27,9 @@ export {
 // Environment types
 export type { Env } from './env'
 
+// Enums generated from the Prisma schema
+export * from './generated/enums'
+
 // Constants exports
 export {
   APP_CONFIG,
@@ -33,6 +37,9 @@ export {
   SERVICE_CATEGORIES,
   LEAD_CONFIG,
   PRICING_CONFIG,
+  APPOINTMENT_CONFIG,
+  NOTIFICATION_CONFIG,
+  WHATSAPP_CONFIG,
   CONTENT_CONFIG,
   UI_CONFIG,
   API_CONFIG,
@@ -51,18 +58,79 @@ export {
   getServiceIcon,
   getLeadPriorityColor,
   getLeadStatusColor,
+  getNextLeadStatuses,
+  isLeadTransitionAllowed,
   formatBusinessHours,
-  isBusinessOpen,
   calculateServiceEstimate,
-  validateServiceArea,
+  calculateEmergencyRate,
 } from './utils'
 
+// Business calendar
+export {
+  WEEKDAYS,
+  HOLIDAY_PRESETS,
+  DEFAULT_BUSINESS_CALENDAR,
+  businessCalendarSchema,
+  businessClosureSchema,
+  holidaySchema,
+  getTimeZoneOffset,
+  zonedDateTime,
+  toDateKeyIn,
+  addDaysToDateKey,
+  weekdayOf,
+  getHolidayPreset,
+  getHolidays,
+  getHoliday,
+  isHoliday,
+  isWeekend,
+  isBusinessOpen,
+  getBusinessDay,
+  getNextOpening,
+  getNextBusinessDay,
+  getBusinessStatus,
+} from './business-calendar'
+
+export type {
+  Weekday,
+  HolidayPreset,
+  Holiday,
+  BusinessClosure,
+  BusinessCalendar,
+  BusinessCalendarInput,
+  BusinessDay,
+  BusinessStatus,
+} from './business-calendar'
+
+// Settings registry
+export {
+  SETTINGS,
+  SETTING_KEYS,
+  SETTING_CATEGORIES,
+  isSettingKey,
+  getSettingType,
+  serializeSetting,
+  parseSetting,
+  settingsUpdateSchema,
+} from './settings'
+
+export type {
+  SettingCategory,
+  SettingVisibility,
+  SettingInput,
+  SettingDefinition,
+  SettingKey,
+  SettingValue,
+  SettingValues,
+  SettingsUpdate,
+} from './settings'
+
 // Type definitions
 export type {
   ServiceCategory,
   LeadSource,
   LeadPriority,
   LeadStatus,
+  LeadStatusConfig,
   BusinessHours,
   ServiceEstimate,
   ContactInfo,
@@ -0,0 +1,239 @@
+import { z } from 'zod'
+import { businessCalendarSchema, DEFAULT_BUSINESS_CALENDAR } from './business-calendar'
+import { BUSINESS_INFO } from './constants'
+
+// Settings registry: every key staff can change without a deploy, with the
+// schema its stored value must pass, the value used until one is saved and
+// how the CMS settings page edits it. Keys missing here are not settings.
+
+export const SETTING_CATEGORIES = {
+  general: 'General',
+  business: 'Business profile',
+  contact: 'Contact',
+  cta: 'Calls to action',
+  integrations: 'Integrations',
+} as const
+
+export type SettingCategory = keyof typeof SETTING_CATEGORIES
+
+// Public settings may be sent to the website; admin settings stay server-side
+export type SettingVisibility = 'public' | 'admin'
+
+export type SettingInput = 'text' | 'textarea' | 'email' | 'tel' | 'url' | 'switch' | 'json'
+
+export interface SettingDefinition<T extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema: T
+  default: z.output<T>
+  category: SettingCategory
+  visibility: SettingVisibility
+  label: string
+  description?: string
+  input: SettingInput
+}
+
+const defineSetting = <T extends z.ZodTypeAny>(definition: SettingDefinition<T>) => definition
+
+const text = z.string().trim()
+const requiredText = (message: string) => text.min(1, message)
+const phone = text.min(7, 'Enter a phone number')
+// Empty when the button should link nowhere else
+const href = text.regex(/^(\/|https?:\/\/|tel:|mailto:|$)/, 'Use a site path, a full URL, tel: or mailto:')
+
+const { street, city, state, zip } = BUSINESS_INFO.address
+
+export const SETTINGS = {
+  site_title: defineSetting({
+    schema: requiredText('Site title is required'),
+    default: BUSINESS_INFO.name,
+    category: 'general',
+    visibility: 'public',
+    label: 'Site title',
+    input: 'text',
+  }),
+  site_description: defineSetting({
+    schema: text,
+    default: 'Professional HVAC installation, repair, and maintenance services',
+    category: 'general',
+    visibility: 'public',
+    label: 'Site description',
+    description: 'Used for search results and link previews',
+    input: 'textarea',
+  }),
+  allow_registration: defineSetting({
+    schema: z.boolean(),
+    default: false,
+    category: 'general',
+    visibility: 'admin',
+    label: 'Allow sign-ups',
+    description: 'Lets anyone create a CMS account from the sign-up page. New accounts get the Viewer role.',
+    input: 'switch',
+  }),
+  business_name: defineSetting({
+    schema: requiredText('Business name is required'),
+    default: BUSINESS_INFO.name,
+    category: 'business',
+    visibility: 'public',
+    label: 'Business name',
+    input: 'text',
+  }),
+  business_tagline: defineSetting({
+    schema: text,
+    default: BUSINESS_INFO.tagline,
+    category: 'business',
+    visibility: 'public',
+    label: 'Tagline',
+    input: 'text',
+  }),
+  business_address: defineSetting({
+    schema: text,
+    default: `${street}\n${city}, ${state} ${zip}`,
+    category: 'business',
+    visibility: 'public',
+    label: 'Address',
+    input: 'textarea',
+  }),
+  business_calendar: defineSetting({
+    schema: businessCalendarSchema,
+    default: DEFAULT_BUSINESS_CALENDAR,
+    category: 'business',
+    visibility: 'admin',
+    label: 'Business calendar',
+    description: 'Time zone, opening hours, weekend days, holidays and closures',
+    input: 'json',
+  }),
+  contact_email: defineSetting({
+    schema: text.email('Enter a valid email address'),
+    default: BUSINESS_INFO.email,
+    category: 'contact',
+    visibility: 'public',
+    label: 'Email',
+    input: 'email',
+  }),
+  contact_phone: defineSetting({
+    schema: phone,
+    default: BUSINESS_INFO.phone,
+    category: 'contact',
+    visibility: 'public',
+    label: 'Phone',
+    input: 'tel',
+  }),
+  emergency_phone: defineSetting({
+    schema: phone,
+    default: BUSINESS_INFO.emergency.phone,
+    category: 'contact',
+    visibility: 'public',
+    label: 'Emergency phone',
+    description: 'Shown for after-hours call-outs',
+    input: 'tel',
+  }),
+  whatsapp_number: defineSetting({
+    schema: text.regex(/^(\+[1-9]\d{7,14})?$/, 'Use international format, e.g. +15551234567'),
+    default: '',
+    category: 'contact',
+    visibility: 'public',
+    label: 'WhatsApp number',
+    description: 'Leave empty to hide the WhatsApp button',
+    input: 'tel',
+  }),
+  cta_primary_label: defineSetting({
+    schema: requiredText('Button label is required'),
+    default: 'Book a Site Visit',
+    category: 'cta',
+    visibility: 'public',
+    label: 'Primary button label',
+    input: 'text',
+  }),
+  cta_primary_href: defineSetting({
+    schema: href,
+    default: '/book',
+    category: 'cta',
+    visibility: 'public',
+    label: 'Primary button link',
+    input: 'url',
+  }),
+  cta_secondary_label: defineSetting({
+    schema: text,
+    default: 'Call Now',
+    category: 'cta',
+    visibility: 'public',
+    label: 'Secondary button label',
+    description: 'Leave empty to hide the second button',
+    input: 'text',
+  }),
+  cta_secondary_href: defineSetting({
+    schema: href,
+    default: `tel:${BUSINESS_INFO.phone.replace(/[^\d+]/g, '')}`,
+    category: 'cta',
+    visibility: 'public',
+    label: 'Secondary button link',
+    input: 'url',
+  }),
+  google_recaptcha_site_key: defineSetting({
+    schema: text,
+    default: '',
+    category: 'integrations',
+    visibility: 'public',
+    label: 'reCAPTCHA site key',
+    input: 'text',
+  }),
+  plausible_domain: defineSetting({
+    schema: text,
+    default: 'aurora-hvac.com',
+    category: 'integrations',
+    visibility: 'public',
+    label: 'Plausible domain',
+    input: 'text',
+  }),
+} as const satisfies Record<string, SettingDefinition>
+
+export type SettingKey = keyof typeof SETTINGS
+
+export type SettingValue<K extends SettingKey> = z.output<(typeof SETTINGS)[K]['schema']>
+
+export type SettingValues = { [K in SettingKey]: SettingValue<K> }
+
+export const SETTING_KEYS = Object.keys(SETTINGS) as SettingKey[]
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTINGS, key)
+}
+
+// Type column of the stored row
+export function getSettingType(key: SettingKey): 'string' | 'boolean' | 'json' {
+  const { input } = SETTINGS[key]
+  return input === 'switch' ? 'boolean' : input === 'json' ? 'json' : 'string'
+}
+
+// Settings table rows hold strings; text settings are stored as-is
+export function serializeSetting<K extends SettingKey>(key: K, value: SettingValue<K>): string {
+  return getSettingType(key) === 'string' ? String(value) : JSON.stringify(value)
+}
+
+/**
+ * The stored value parsed and validated against the registry. Missing rows
+ * and values that no longer validate give the default, so a bad row never
+ * breaks a page.
+ */
+export function parseSetting<K extends SettingKey>(key: K, stored: string | null | undefined): SettingValue<K> {
+  const definition: SettingDefinition = SETTINGS[key]
+  if (stored == null) return definition.default
+
+  try {
+    const result = definition.schema.safeParse(getSettingType(key) === 'string' ? stored : JSON.parse(stored))
+    return result.success ? result.data : definition.default
+  } catch {
+    return definition.default
+  }
+}
+
+// Validates a partial update; unknown keys are rejected
+export const settingsUpdateSchema = z
+  .object(
+    Object.fromEntries(SETTING_KEYS.map((key) => [key, SETTINGS[key].schema])) as {
+      [K in SettingKey]: (typeof SETTINGS)[K]['schema']
+    }
+  )
+  .partial()
+  .strict()
+
+export type SettingsUpdate = z.input<typeof settingsUpdateSchema>
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  businessCalendarSchema,
+  getBusinessStatus,
+  getHolidayPreset,
+  getHolidays,
+  getNextBusinessDay,
+  getNextOpening,
+  isBusinessOpen,
+  isHoliday,
+} from '../business-calendar'
+import { PRICING_CONFIG } from '../constants'
+import { calculateEmergencyRate } from '../utils'
+
+const { EMERGENCY_SURCHARGE, WEEKEND_SURCHARGE, HOLIDAY_SURCHARGE } = PRICING_CONFIG.SERVICE_RATES
+
+const SUN_TO_THU = { open: '08:00', close: '17:00', closed: false }
+const CLOSED = { open: '', close: '', closed: true }
+
+const riyadh = businessCalendarSchema.parse({
+  timezone: 'Asia/Riyadh',
+  hours: {
+    sunday: SUN_TO_THU,
+    monday: SUN_TO_THU,
+    tuesday: SUN_TO_THU,
+    wednesday: SUN_TO_THU,
+    thursday: SUN_TO_THU,
+    friday: CLOSED,
+    saturday: CLOSED,
+  },
+  weekend: ['friday', 'saturday'],
+  holidayPreset: 'SA',
+})
+
+describe('Business Calendar Tests', () => {
+  it('should default to BUSINESS_INFO hours in the business time zone', () => {
+    expect(DEFAULT_BUSINESS_CALENDAR).toMatchObject({ timezone: 'America/Chicago', holidayPreset: 'US' })
+
+    // Monday 7:30 and 8:00 in Chicago (CST, UTC-6)
+    expect(isBusinessOpen(new Date('2025-03-03T13:30:00Z'))).toBe(false)
+    expect(isBusinessOpen(new Date('2025-03-03T14:00:00Z'))).toBe(true)
+    // After the switch to CDT, 8:00 is an hour earlier in UTC
+    expect(isBusinessOpen(new Date('2025-03-10T13:00:00Z'))).toBe(true)
+  })
+
+  it('should build US and Saudi holiday presets for any year', () => {
+    const us = getHolidayPreset('US', 2025)
+    expect(us).toHaveLength(11)
+    expect(us).toContainEqual({ date: '2025-01-20', name: 'Martin Luther King Jr. Day' })
+    expect(us).toContainEqual({ date: '2025-05-26', name: 'Memorial Day' })
+    expect(us).toContainEqual({ date: '2025-11-27', name: 'Thanksgiving Day' })
+
+    const saudi = getHolidayPreset('SA', 2025)
+    expect(saudi.filter((holiday) => holiday.name === 'Eid al-Fitr').map((holiday) => holiday.date)).toEqual([
+      '2025-03-30',
+      '2025-03-31',
+      '2025-04-01',
+    ])
+    expect(saudi).toContainEqual({ date: '2025-06-06', name: 'Eid al-Adha' })
+    expect(saudi).toContainEqual({ date: '2025-09-23', name: 'National Day' })
+  })
+
+  it('should prefer a year list over the preset and close for holidays and closures', () => {
+    const calendar = businessCalendarSchema.parse({
+      holidays: { 2025: [{ date: '2025-12-26', name: 'Boxing Day' }] },
+      closures: [{ from: '2026-01-05', to: '2026-01-06', reason: 'Inventory' }],
+    })
+
+    expect(getHolidays(2025, calendar)).toEqual([{ date: '2025-12-26', name: 'Boxing Day' }])
+    expect(isHoliday(new Date('2025-12-25T18:00:00Z'), calendar)).toBe(false)
+    expect(isHoliday(new Date('2026-12-25T18:00:00Z'), calendar)).toBe(true)
+
+    // Friday 2025-12-26 at noon in Chicago
+    expect(getBusinessStatus(new Date('2025-12-26T18:00:00Z'), calendar)).toMatchObject({
+      open: false,
+      closedFor: 'Boxing Day',
+      // Saturday 9:00
+      opensAt: new Date('2025-12-27T15:00:00Z'),
+    })
+    // Monday and Tuesday closed, so the next business day is Wednesday 8:00
+    expect(getNextBusinessDay(new Date('2026-01-04T18:00:00Z'), calendar)).toEqual(new Date('2026-01-07T14:00:00Z'))
+  })
+
+  it('should report open now and opens at', () => {
+    // Thursday 10:00 in Riyadh (UTC+3)
+    expect(getBusinessStatus(new Date('2025-05-15T07:00:00Z'), riyadh)).toEqual({
+      open: true,
+      closesAt: new Date('2025-05-15T14:00:00Z'),
+      opensAt: null,
+      closedFor: null,
+      timezone: 'Asia/Riyadh',
+    })
+    // Thursday evening opens again on Sunday
+    expect(getNextOpening(new Date('2025-05-15T15:00:00Z'), riyadh)).toEqual(new Date('2025-05-18T05:00:00Z'))
+    // Eid al-Fitr runs Sunday to Tuesday, then Wednesday 8:00
+    expect(getNextOpening(new Date('2025-03-29T12:00:00Z'), riyadh)).toEqual(new Date('2025-04-02T05:00:00Z'))
+  })
+
+  it('should price emergency call-outs by the calendar weekend and holidays', () => {
+    // Friday is the weekend in Riyadh but not in Chicago
+    const friday = new Date('2025-05-16T10:00:00Z')
+    expect(calculateEmergencyRate(0, friday)).toBe(EMERGENCY_SURCHARGE)
+    expect(calculateEmergencyRate(0, friday, riyadh)).toBe(EMERGENCY_SURCHARGE + WEEKEND_SURCHARGE)
+
+    // Christmas morning is still Christmas Eve in Chicago
+    expect(calculateEmergencyRate(100, new Date('2025-12-25T03:00:00Z'))).toBe(100 + EMERGENCY_SURCHARGE)
+    expect(calculateEmergencyRate(100, new Date('2025-12-25T18:00:00Z'))).toBe(
+      100 + EMERGENCY_SURCHARGE + HOLIDAY_SURCHARGE
+    )
+  })
+
+  it('should reject unknown time zones and calendars that never open', () => {
+    expect(businessCalendarSchema.safeParse({ timezone: 'Mars/Olympus' }).success).toBe(false)
+
+    const allClosed = Object.fromEntries(Object.keys(DEFAULT_BUSINESS_CALENDAR.hours).map((day) => [day, CLOSED]))
+    expect(businessCalendarSchema.safeParse({ hours: allClosed }).success).toBe(false)
+    expect(
+      businessCalendarSchema.safeParse({ closures: [{ from: '2025-02-02', to: '2025-02-01', reason: 'Typo' }] }).success
+    ).toBe(false)
+  })
+})
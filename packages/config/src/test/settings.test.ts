@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_BUSINESS_CALENDAR } from '../business-calendar'
+import { SETTINGS, SETTING_CATEGORIES, parseSetting, serializeSetting, settingsUpdateSchema } from '../settings'
+
+describe('Settings Registry Tests', () => {
+  it('should give every setting a known category and a default that passes its schema', () => {
+    for (const definition of Object.values(SETTINGS)) {
+      expect(Object.keys(SETTING_CATEGORIES)).toContain(definition.category)
+      expect(definition.schema.safeParse(definition.default).success).toBe(true)
+    }
+  })
+
+  it('should store text as-is and JSON settings as JSON', () => {
+    expect(serializeSetting('site_title', 'Aurora')).toBe('Aurora')
+    expect(parseSetting('site_title', 'Aurora')).toBe('Aurora')
+
+    const stored = serializeSetting('business_calendar', DEFAULT_BUSINESS_CALENDAR)
+    expect(JSON.parse(stored)).toEqual(DEFAULT_BUSINESS_CALENDAR)
+    expect(parseSetting('business_calendar', stored)).toEqual(DEFAULT_BUSINESS_CALENDAR)
+  })
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(parseSetting('whatsapp_number', undefined)).toBe('')
+    expect(parseSetting('whatsapp_number', '555-1234')).toBe('')
+    expect(parseSetting('business_calendar', '{not json')).toEqual(DEFAULT_BUSINESS_CALENDAR)
+  })
+
+  it('should validate updates and reject unknown keys', () => {
+    expect(settingsUpdateSchema.parse({ whatsapp_number: ' +15551234567 ' })).toEqual({
+      whatsapp_number: '+15551234567',
+    })
+    expect(settingsUpdateSchema.safeParse({ contact_email: 'nope' }).success).toBe(false)
+    expect(settingsUpdateSchema.safeParse({ cta_primary_href: 'javascript:alert(1)' }).success).toBe(false)
+    expect(settingsUpdateSchema.safeParse({ service_areas: 'Metro' }).success).toBe(false)
+  })
+})
@@ -5,13 +5,16 @@ import {
   formatServiceName,
   getLeadStatusColor,
   getLeadPriorityColor,
+  getNextLeadStatuses,
+  isLeadTransitionAllowed,
   formatBusinessHours,
-  isBusinessOpen,
   calculateServiceEstimate,
-  validateServiceArea,
   formatPhoneNumber,
   BUSINESS_CONSTANTS,
 } from '../utils'
+import { businessCalendarSchema, isBusinessOpen } from '../business-calendar'
+import { BUSINESS_INFO, LEAD_CONFIG } from '../constants'
+import { LEAD_SOURCES, LEAD_STATUSES, PRIORITIES, leadSourceSchema } from '../generated/enums'
 
 describe('Configuration Utils Tests', () => {
   describe('URL Creation', () => {
@@ -63,7 +66,7 @@ describe('Configuration Utils Tests', () => {
       expect(getLeadStatusColor('NEW')).toBe('#3B82F6') // Blue
       expect(getLeadStatusColor('CONTACTED')).toBe('#F59E0B') // Amber
       expect(getLeadStatusColor('QUALIFIED')).toBe('#8B5CF6') // Violet
-      expect(getLeadStatusColor('QUOTED')).toBe('#06B6D4') // Cyan
+      expect(getLeadStatusColor('PROPOSAL_SENT')).toBe('#06B6D4') // Cyan
       expect(getLeadStatusColor('WON')).toBe('#10B981') // Emerald
       expect(getLeadStatusColor('LOST')).toBe('#EF4444') // Red
     })
@@ -73,6 +76,37 @@ describe('Configuration Utils Tests', () => {
     })
   })
   
+  describe('Lead Status Transitions', () => {
+    it('should list the statuses a lead can move to', () => {
+      expect(getNextLeadStatuses('NEW')).toEqual(['CONTACTED', 'LOST'])
+      expect(getNextLeadStatuses('WON')).toEqual([])
+    })
+    
+    it('should allow only configured transitions', () => {
+      expect(isLeadTransitionAllowed('QUALIFIED', 'PROPOSAL_SENT')).toBe(true)
+      expect(isLeadTransitionAllowed('NEW', 'WON')).toBe(false)
+      expect(isLeadTransitionAllowed('LOST', 'NEW')).toBe(false)
+    })
+  })
+  
+  describe('Schema Enums', () => {
+    it('should key LEAD_CONFIG by the schema enum members', () => {
+      expect(Object.keys(LEAD_CONFIG.SOURCES).sort()).toEqual([...LEAD_SOURCES].sort())
+      expect(Object.keys(LEAD_CONFIG.STATUSES).sort()).toEqual([...LEAD_STATUSES].sort())
+      expect(Object.keys(LEAD_CONFIG.PRIORITIES).sort()).toEqual([...PRIORITIES].sort())
+    })
+    
+    it('should validate values against the schema enum', () => {
+      expect(leadSourceSchema.parse('SOCIAL_MEDIA')).toBe('SOCIAL_MEDIA')
+      expect(leadSourceSchema.safeParse('SOCIAL').success).toBe(false)
+    })
+    
+    it('should take display metadata from the schema', () => {
+      expect(LEAD_CONFIG.SOURCES.SOCIAL_MEDIA.name).toBe('Social Media')
+      expect(LEAD_CONFIG.STATUSES.PROPOSAL_SENT.color).toBe('#06B6D4')
+    })
+  })
+  
   describe('Lead Priority Colors', () => {
     it('should return correct colors for lead priorities', () => {
       expect(getLeadPriorityColor('LOW')).toBe('#10B981') // Emerald
@@ -112,32 +146,38 @@ describe('Configuration Utils Tests', () => {
   })
   
   describe('Business Open Status', () => {
+    // Monday 9 to 5 in UTC, Tuesday closed
+    const openHours = businessCalendarSchema.parse({
+      timezone: 'UTC',
+      hours: {
+        ...BUSINESS_INFO.hours,
+        monday: { open: '09:00', close: '17:00', closed: false },
+        tuesday: { open: '', close: '', closed: true },
+      },
+      holidayPreset: null,
+    })
+
     it('should return false for closed days', () => {
-      const closedHours = { open: '', close: '', closed: true }
-      const now = new Date('2024-01-15T10:00:00') // Monday 10 AM
-      expect(isBusinessOpen(closedHours, now)).toBe(false)
+      const now = new Date('2024-01-16T10:00:00Z') // Tuesday 10 AM
+      expect(isBusinessOpen(now, openHours)).toBe(false)
     })
     
     it('should return true when business is open', () => {
-      const openHours = { open: '09:00', close: '17:00', closed: false }
-      const now = new Date('2024-01-15T10:00:00') // Monday 10 AM
-      expect(isBusinessOpen(openHours, now)).toBe(true)
+      const now = new Date('2024-01-15T10:00:00Z') // Monday 10 AM
+      expect(isBusinessOpen(now, openHours)).toBe(true)
     })
     
     it('should return false when business is closed', () => {
-      const openHours = { open: '09:00', close: '17:00', closed: false }
-      const now = new Date('2024-01-15T18:00:00') // Monday 6 PM
-      expect(isBusinessOpen(openHours, now)).toBe(false)
+      const now = new Date('2024-01-15T18:00:00Z') // Monday 6 PM
+      expect(isBusinessOpen(now, openHours)).toBe(false)
     })
     
     it('should handle edge cases at opening and closing times', () => {
-      const openHours = { open: '09:00', close: '17:00', closed: false }
+      const openingTime = new Date('2024-01-15T09:00:00Z') // Monday 9 AM
+      expect(isBusinessOpen(openingTime, openHours)).toBe(true)
       
-      const openingTime = new Date('2024-01-15T09:00:00') // Monday 9 AM
-      expect(isBusinessOpen(openHours, openingTime)).toBe(true)
-      
-      const closingTime = new Date('2024-01-15T17:00:00') // Monday 5 PM
-      expect(isBusinessOpen(openHours, closingTime)).toBe(false)
+      const closingTime = new Date('2024-01-15T17:00:00Z') // Monday 5 PM
+      expect(isBusinessOpen(closingTime, openHours)).toBe(false)
     })
   })
   
@@ -180,44 +220,6 @@ describe('Configuration Utils Tests', () => {
     })
   })
   
-  describe('Service Area Validation', () => {
-    it('should validate addresses within service area', () => {
-      const validAddresses = [
-        '123 Main St, Austin, TX 78701',
-        '456 Oak Ave, Round Rock, TX 78664',
-        '789 Pine Rd, Cedar Park, TX 78613',
-      ]
-      
-      validAddresses.forEach(address => {
-        expect(validateServiceArea(address)).toBe(true)
-      })
-    })
-    
-    it('should reject addresses outside service area', () => {
-      const invalidAddresses = [
-        '123 Main St, Houston, TX 77001',
-        '456 Oak Ave, Dallas, TX 75201',
-        '789 Pine Rd, San Antonio, TX 78201',
-      ]
-      
-      invalidAddresses.forEach(address => {
-        expect(validateServiceArea(address)).toBe(false)
-      })
-    })
-    
-    it('should handle zip code validation', () => {
-      expect(validateServiceArea('78701')).toBe(true) // Austin
-      expect(validateServiceArea('78664')).toBe(true) // Round Rock
-      expect(validateServiceArea('77001')).toBe(false) // Houston
-    })
-    
-    it('should handle case insensitive city names', () => {
-      expect(validateServiceArea('austin, tx')).toBe(true)
-      expect(validateServiceArea('AUSTIN, TX')).toBe(true)
-      expect(validateServiceArea('Austin, TX')).toBe(true)
-    })
-  })
-  
   describe('Phone Number Formatting', () => {
     it('should format 10-digit phone numbers', () => {
       expect(formatPhoneNumber('5551234567')).toBe('(555) 123-4567')
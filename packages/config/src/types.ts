@@ -1,3 +1,5 @@
+import type { LeadSource, LeadStatus, Priority, Urgency } from './generated/enums'
+
 // Service-related types
 export interface ServiceCategory {
   id: string
@@ -21,10 +23,10 @@ export interface ServiceRate {
 }
 
 // Lead-related types
-export type LeadSource = 'WEBSITE' | 'PHONE' | 'EMAIL' | 'REFERRAL' | 'SOCIAL' | 'OTHER'
-export type LeadPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
-export type LeadStatus = 'NEW' | 'CONTACTED' | 'QUALIFIED' | 'QUOTED' | 'WON' | 'LOST'
-export type UrgencyLevel = 'IMMEDIATE' | 'WITHIN_24H' | 'WITHIN_WEEK' | 'FLEXIBLE'
+// Prisma-backed enums are generated from schema.prisma (see ./generated/enums)
+export type { LeadSource, LeadStatus, ContentStatus, PriceType } from './generated/enums'
+export type LeadPriority = Priority
+export type UrgencyLevel = Urgency
 
 export interface LeadSourceConfig {
   name: string
@@ -41,7 +43,7 @@ export interface LeadPriorityConfig {
 export interface LeadStatusConfig {
   name: string
   color: string
-  next: LeadStatus[]
+  next: readonly LeadStatus[]
 }
 
 export interface UrgencyConfig {
@@ -82,9 +84,6 @@ export interface InsuranceInfo {
 }
 
 // Content-related types
-export type ContentStatus = 'DRAFT' | 'PUBLISHED' | 'ARCHIVED'
-export type PriceType = 'FIXED' | 'HOURLY' | 'QUOTE'
-
 export interface BlogConfig {
   postsPerPage: number
   excerptLength: number
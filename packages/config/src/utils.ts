@@ -1,4 +1,5 @@
 import { BUSINESS_INFO, SERVICE_CATEGORIES, LEAD_CONFIG, PRICING_CONFIG } from './constants'
+import { DEFAULT_BUSINESS_CALENDAR, isHoliday, isWeekend, type BusinessCalendar } from './business-calendar'
 
 // Business constants for testing and external use
 export const BUSINESS_CONSTANTS = {
@@ -22,6 +23,7 @@ export const BUSINESS_CONSTANTS = {
   }
 } as const
 import { env, getBaseUrl } from './env'
+import type { LeadStatus } from './types'
 
 // API URL utilities
 export function createApiUrl(endpoint: string, params?: Record<string, string | number>): string {
@@ -88,6 +90,14 @@ export function getLeadStatusColor(status: keyof typeof LEAD_CONFIG.STATUSES): s
   return LEAD_CONFIG.STATUSES[status]?.color || '#6B7280'
 }
 
+export function getNextLeadStatuses(status: keyof typeof LEAD_CONFIG.STATUSES): readonly LeadStatus[] {
+  return LEAD_CONFIG.STATUSES[status]?.next ?? []
+}
+
+export function isLeadTransitionAllowed(from: LeadStatus, to: LeadStatus): boolean {
+  return getNextLeadStatuses(from).includes(to)
+}
+
 export function getLeadSourceColor(source: keyof typeof LEAD_CONFIG.SOURCES): string {
   return LEAD_CONFIG.SOURCES[source]?.color || '#6B7280'
 }
@@ -110,35 +120,6 @@ export function formatTime(time: string): string {
   return `${displayHour}:${minutes} ${ampm}`
 }
 
-export function isBusinessOpen(hours: { open: string; close: string; closed: boolean }, date: Date = new Date()): boolean {
-  if (hours.closed) {
-    return false
-  }
-  
-  const currentTime = date.getHours() * 60 + date.getMinutes()
-  const [openHour, openMinute] = hours.open.split(':').map(Number)
-  const [closeHour, closeMinute] = hours.close.split(':').map(Number)
-  
-  const openTime = openHour * 60 + openMinute
-  const closeTime = closeHour * 60 + closeMinute
-  
-  return currentTime >= openTime && currentTime < closeTime
-}
-
-export function getNextBusinessDay(date: Date = new Date()): Date {
-  const nextDay = new Date(date)
-  nextDay.setDate(nextDay.getDate() + 1)
-  
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
-  
-  // Keep incrementing until we find a non-closed day
-  while (BUSINESS_INFO.hours[dayNames[nextDay.getDay()]].closed) {
-    nextDay.setDate(nextDay.getDate() + 1)
-  }
-  
-  return nextDay
-}
-
 // Pricing utilities
 export function calculateServiceEstimate(
   serviceType: string,
@@ -179,67 +160,30 @@ export function calculateServiceEstimate(
   }
 }
 
-export function calculateEmergencyRate(baseRate: number, date: Date = new Date()): number {
+// Weekend and holiday surcharges follow the business calendar's time zone
+export function calculateEmergencyRate(
+  baseRate: number,
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): number {
   let rate = baseRate
   
   // Add emergency surcharge
   rate += PRICING_CONFIG.SERVICE_RATES.EMERGENCY_SURCHARGE
   
   // Add weekend surcharge if applicable
-  const day = date.getDay()
-  if (day === 0 || day === 6) {
+  if (isWeekend(date, calendar)) {
     rate += PRICING_CONFIG.SERVICE_RATES.WEEKEND_SURCHARGE
   }
   
-  // Add holiday surcharge if applicable (simplified check)
-  if (isHoliday(date)) {
+  // Add holiday surcharge if applicable
+  if (isHoliday(date, calendar)) {
     rate += PRICING_CONFIG.SERVICE_RATES.HOLIDAY_SURCHARGE
   }
   
   return rate
 }
 
-// Service area validation
-export function validateServiceArea(input: string): boolean {
-  const normalizedInput = input.toLowerCase().trim()
-  
-  // Define service areas with cities and zip codes
-  const serviceAreas = {
-    cities: ['austin', 'round rock', 'cedar park', 'pflugerville', 'georgetown'],
-    zipCodes: ['78701', '78702', '78703', '78704', '78705', '78664', '78613', '78660', '78628']
-  }
-  
-  // Check if input is a zip code
-  if (/^\d{5}$/.test(normalizedInput)) {
-    return serviceAreas.zipCodes.includes(normalizedInput)
-  }
-  
-  // Check if input contains a city name (for full addresses)
-  for (const city of serviceAreas.cities) {
-    if (normalizedInput.includes(city)) {
-      return true
-    }
-  }
-  
-  // Check if input is just a city name
-  return serviceAreas.cities.includes(normalizedInput)
-}
-
-export function getServiceAreaDistance(city: string): number | null {
-  // This would typically integrate with a mapping service
-  // For now, return a simple distance based on service area list
-  const serviceAreas = BUSINESS_INFO.serviceAreas
-  const index = serviceAreas.findIndex(area => 
-    area.toLowerCase() === city.toLowerCase().trim()
-  )
-  
-  if (index === -1) return null
-  
-  // Return approximate distance in miles (simplified)
-  const distances = [0, 15, 25, 35, 45, 55] // Miles from main office
-  return distances[index] || 60
-}
-
 // Contact utilities
 export function formatPhoneNumber(phone: string): string {
   // Extract extension if present
@@ -316,22 +260,6 @@ export function isValidZipCode(zipCode: string): boolean {
 }
 
 // Date utilities
-export function isHoliday(date: Date): boolean {
-  const month = date.getMonth() + 1
-  const day = date.getDate()
-  
-  // Major US holidays (simplified)
-  const holidays = [
-    { month: 1, day: 1 },   // New Year's Day
-    { month: 7, day: 4 },   // Independence Day
-    { month: 12, day: 25 }, // Christmas Day
-  ]
-  
-  return holidays.some(holiday => 
-    holiday.month === month && holiday.day === day
-  )
-}
-
 export function formatDate(date: Date, format: 'short' | 'long' | 'time' = 'short'): string {
   const optionsMap: Record<string, Intl.DateTimeFormatOptions> = {
     short: { month: 'short', day: 'numeric', year: 'numeric' },
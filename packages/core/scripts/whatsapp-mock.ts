@@ -0,0 +1,15 @@
+// Runs the WhatsApp Cloud API mock for local development.
+//
+//   tsx scripts/whatsapp-mock.ts    listen on WHATSAPP_MOCK_PORT (default 4010)
+//
+// Point the apps at it with WHATSAPP_API_URL=http://127.0.0.1:4010 and any
+// WHATSAPP_ACCESS_TOKEN / WHATSAPP_PHONE_NUMBER_ID.
+
+import { createWhatsAppMockServer } from '../src/whatsapp-mock-server'
+
+const port = Number(process.env.WHATSAPP_MOCK_PORT ?? 4010)
+const mock = createWhatsAppMockServer({ accessToken: process.env.WHATSAPP_ACCESS_TOKEN, log: console.log })
+
+mock.listen(port).then((url) => {
+  console.log(`WhatsApp mock API listening on ${url}. Received messages: ${url}/messages`)
+})
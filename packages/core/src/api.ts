@@ -0,0 +1,86 @@
+import { ZodError } from 'zod'
+import { BusinessError, RateLimitError, ValidationError } from './errors'
+
+// Uniform error contract for REST and GraphQL responses (FLUX_RULES.md §2.6)
+export interface APIError {
+  code: string
+  message: string
+  details?: Record<string, unknown>
+}
+
+// API responses are never cached (FLUX_RULES.md §2.3)
+export const NO_STORE_HEADERS = { 'Cache-Control': 'no-store' } as const
+
+/**
+ * Maps any thrown value to an HTTP status and APIError body. Unexpected
+ * errors are masked so internals never reach the client.
+ */
+export function toAPIError(error: unknown): { status: number; error: APIError } {
+  if (error instanceof ZodError) {
+    return {
+      status: 400,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        details: { fieldErrors: error.flatten().fieldErrors },
+      },
+    }
+  }
+
+  if (error instanceof RateLimitError) {
+    return {
+      status: error.statusCode,
+      error: {
+        code: error.code,
+        message: error.message,
+        details: { retryAfter: Math.ceil(error.retryAfterMs / 1000) },
+      },
+    }
+  }
+
+  if (error instanceof ValidationError) {
+    return {
+      status: error.statusCode,
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.field && { details: { field: error.field } }),
+      },
+    }
+  }
+
+  if (error instanceof BusinessError) {
+    return { status: error.statusCode, error: { code: error.code, message: error.message } }
+  }
+
+  return { status: 500, error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' } }
+}
+
+export function apiJson<T>(data: T, status: number = 200, headers?: Record<string, string>): Response {
+  return Response.json(data, { status, headers: { ...NO_STORE_HEADERS, ...headers } })
+}
+
+export function apiError(error: unknown): Response {
+  const { status, error: body } = toAPIError(error)
+
+  if (status >= 500) {
+    console.error('API error:', error)
+  }
+
+  const headers: Record<string, string> = {}
+  if (error instanceof RateLimitError) {
+    headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000))
+  }
+
+  return apiJson(body, status, headers)
+}
+
+// First hop of x-forwarded-for as set by Vercel and most proxies
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for')
+  if (forwarded) {
+    return forwarded.split(',')[0].trim()
+  }
+
+  return headers.get('x-real-ip') ?? 'unknown'
+}
@@ -0,0 +1,560 @@
+import { addHours, addMinutes, differenceInMinutes } from 'date-fns'
+import { z } from 'zod'
+import {
+  APPOINTMENT_CONFIG,
+  BUSINESS_INFO,
+  DEFAULT_BUSINESS_CALENDAR,
+  addDaysToDateKey,
+  getBusinessDay,
+  toDateKeyIn,
+  zonedDateTime,
+  type AppointmentStatus,
+  type BusinessCalendar,
+} from '@workspace/config'
+import { BusinessCalendarManager } from './business-calendar'
+import { LeadManager, type LeadDatabaseClient } from './business'
+import type { DatabaseDelegate } from './database'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import { leadCaptureSchema } from './lead-capture'
+import type { SettingsDatabaseClient } from './settings'
+
+export type Weekday = keyof typeof BUSINESS_INFO.hours
+
+export interface DayHours {
+  open: string
+  close: string
+  closed: boolean
+}
+
+const timeOfDaySchema = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, 'Use 24-hour H:MM times')
+
+export const dayHoursSchema = z.object({
+  open: timeOfDaySchema,
+  close: timeOfDaySchema,
+  closed: z.boolean(),
+})
+
+const dayOverrideSchema = dayHoursSchema.partial().optional()
+
+// TeamMember.workingHours: only the days and fields that differ from the business calendar's hours
+export const workingHoursSchema = z
+  .object({
+    monday: dayOverrideSchema,
+    tuesday: dayOverrideSchema,
+    wednesday: dayOverrideSchema,
+    thursday: dayOverrideSchema,
+    friday: dayOverrideSchema,
+    saturday: dayOverrideSchema,
+    sunday: dayOverrideSchema,
+  })
+  .strict()
+
+export type WorkingHoursOverrides = z.infer<typeof workingHoursSchema>
+
+// What staff enter when booking from the CMS
+export const appointmentSchema = z.object({
+  startsAt: z.coerce.date(),
+  // The least busy free technician is picked when omitted
+  technicianId: z.string().min(1).optional(),
+  serviceType: z.string().trim().min(1).optional(),
+  serviceLocation: z.string().trim().min(5, 'Service address is required').max(300),
+  notes: z.string().trim().max(2000).optional(),
+  emergency: z.boolean().default(false),
+})
+
+export const appointmentRescheduleSchema = z.object({
+  startsAt: z.coerce.date(),
+  // Stays with the same technician when omitted
+  technicianId: z.string().min(1).optional(),
+})
+
+export const appointmentCancelSchema = z.object({
+  reason: z.string().trim().min(3, 'Please give a reason').max(2000),
+})
+
+// The public booking form: lead details plus the chosen slot
+export const appointmentRequestSchema = leadCaptureSchema.extend({
+  startsAt: z.coerce.date(),
+  serviceLocation: z.string().trim().min(5, 'Service address is required').max(300),
+  emergencyService: z.boolean().default(false),
+})
+
+export const availabilityQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  days: z.coerce.number().int().min(1).max(APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS).default(7),
+  serviceType: z.string().trim().min(1).optional(),
+})
+
+export type AppointmentInput = z.input<typeof appointmentSchema>
+export type AppointmentRescheduleInput = z.input<typeof appointmentRescheduleSchema>
+export type AppointmentCancelInput = z.input<typeof appointmentCancelSchema>
+export type AppointmentRequestInput = z.input<typeof appointmentRequestSchema>
+export type AvailabilityQuery = z.input<typeof availabilityQuerySchema>
+
+export interface TechnicianRecord {
+  id: string
+  name: string
+  email: string | null
+  technician: boolean
+  active: boolean
+  order: number
+  workingHours: unknown
+}
+
+export interface AppointmentRecord {
+  id: string
+  leadId: string
+  technicianId: string
+  status: AppointmentStatus
+  startsAt: Date
+  endsAt: Date
+  serviceType: string | null
+  serviceLocation: string
+  notes: string | null
+  emergency: boolean
+  cancelledAt: Date | null
+  cancelReason: string | null
+  createdById: string | null
+  sequence: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AppointmentDatabaseClient extends LeadDatabaseClient, SettingsDatabaseClient {
+  appointment: DatabaseDelegate<'appointment', 'create' | 'update' | 'findUnique' | 'findMany'>
+  teamMember: DatabaseDelegate<'teamMember', 'findUnique' | 'findMany'>
+}
+
+export interface AppointmentActionOptions {
+  // Staff bookings skip the online notice and booking window rules
+  actorId?: string
+}
+
+export interface TimeRange {
+  startsAt: Date
+  endsAt: Date
+}
+
+// A bookable start time and the technicians free for the whole visit
+export interface AvailabilitySlot extends TimeRange {
+  technicianIds: string[]
+}
+
+export interface SlotOptions {
+  durationMinutes: number
+  // No slot starts before this, e.g. now plus the minimum notice
+  earliest?: Date
+  slotMinutes?: number
+  bufferMinutes?: number
+  // Zone the hours are read in
+  timeZone?: string
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Opening hours are wall-clock times in the business time zone, never the server's
+const atTime = (dateKey: string, time: string, timeZone: string) => zonedDateTime(dateKey, toMinutes(time), timeZone)
+
+// Midnight starting the business day `dateKey`
+const startOfDateKey = (dateKey: string, timeZone: string) => zonedDateTime(dateKey, 0, timeZone)
+
+// Visit length for a service type, matched against APPOINTMENT_CONFIG.DURATIONS
+export function getAppointmentDuration(serviceType?: string | null): number {
+  const durations: Record<string, number> = APPOINTMENT_CONFIG.DURATIONS
+  const match = Object.keys(durations).find((kind) => serviceType?.toLowerCase().includes(kind))
+  return match ? durations[match] : APPOINTMENT_CONFIG.DEFAULT_DURATION_MINUTES
+}
+
+/**
+ * A technician's hours on the business day `date` falls on: the calendar's
+ * hours with the technician's overrides applied. Holidays and closures shut
+ * the day for everyone. Overrides that fail validation are ignored, and a
+ * day that closes before it opens counts as closed.
+ */
+export function getWorkingHours(
+  technician: Pick<TechnicianRecord, 'workingHours'>,
+  date: Date,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): DayHours {
+  const { weekday } = getBusinessDay(date, calendar)
+  const overrides = workingHoursSchema.safeParse(technician.workingHours ?? {})
+  const hours = { ...calendar.hours[weekday], ...(overrides.success ? overrides.data[weekday] : {}) }
+  const { opensAt } = getBusinessDay(date, { ...calendar, hours: { ...calendar.hours, [weekday]: hours } })
+
+  return { ...hours, closed: opensAt === null }
+}
+
+// True when both ranges, each padded by `bufferMinutes`, share any time
+export function overlaps(a: TimeRange, b: TimeRange, bufferMinutes: number = APPOINTMENT_CONFIG.BUFFER_MINUTES): boolean {
+  return a.startsAt < addMinutes(b.endsAt, bufferMinutes) && b.startsAt < addMinutes(a.endsAt, bufferMinutes)
+}
+
+/**
+ * Start times on the business day `day` falls on for a visit of
+ * `durationMinutes`. Slots fall on the SLOT_MINUTES grid from opening time,
+ * end by closing time and keep the travel buffer clear of every `busy` range.
+ */
+export function generateSlots(hours: DayHours, day: Date, busy: TimeRange[], options: SlotOptions): Date[] {
+  if (hours.closed) return []
+
+  const {
+    durationMinutes,
+    earliest,
+    slotMinutes = APPOINTMENT_CONFIG.SLOT_MINUTES,
+    bufferMinutes = APPOINTMENT_CONFIG.BUFFER_MINUTES,
+    timeZone = BUSINESS_INFO.timezone,
+  } = options
+  const dateKey = toDateKeyIn(day, timeZone)
+  const close = atTime(dateKey, hours.close, timeZone)
+  const slots: Date[] = []
+
+  for (let startsAt = atTime(dateKey, hours.open, timeZone); addMinutes(startsAt, durationMinutes) <= close; ) {
+    const visit = { startsAt, endsAt: addMinutes(startsAt, durationMinutes) }
+
+    if ((!earliest || startsAt >= earliest) && !busy.some((range) => overlaps(visit, range, bufferMinutes))) {
+      slots.push(startsAt)
+    }
+
+    startsAt = addMinutes(startsAt, slotMinutes)
+  }
+
+  return slots
+}
+
+const appointmentTimeFormats = new Map<string, Intl.DateTimeFormat>()
+
+// "Tue, Mar 5 at 9:30 AM", as the clock reads in `timeZone`
+export function formatAppointmentTime(startsAt: Date, timeZone: string = BUSINESS_INFO.timezone): string {
+  let format = appointmentTimeFormats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+    appointmentTimeFormats.set(timeZone, format)
+  }
+
+  const parts = Object.fromEntries(format.formatToParts(startsAt).map((part) => [part.type, part.value]))
+  return `${parts.weekday}, ${parts.month} ${parts.day} at ${parts.hour}:${parts.minute} ${parts.dayPeriod}`
+}
+
+/**
+ * Technician visits booked against a lead. Every technician works the hours
+ * of the business calendar unless their TeamMember row overrides a day;
+ * nobody works holidays or closures, and no two scheduled visits of one
+ * technician come within BUFFER_MINUTES of each other. Callers that can race
+ * (the public booking API) should run bookings in a serializable transaction.
+ */
+export class AppointmentManager {
+  private readonly leads: LeadManager
+  private readonly calendar: BusinessCalendarManager
+
+  constructor(
+    private readonly db: AppointmentDatabaseClient,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.leads = new LeadManager(db)
+    this.calendar = new BusinessCalendarManager(db)
+  }
+
+  async getTechnicians(): Promise<TechnicianRecord[]> {
+    return this.db.teamMember.findMany({ where: { technician: true, active: true }, orderBy: { order: 'asc' } })
+  }
+
+  async getAppointment(appointmentId: string): Promise<AppointmentRecord> {
+    const appointment = await this.db.appointment.findUnique({ where: { id: appointmentId } })
+
+    if (!appointment) {
+      throw new NotFoundError('Appointment', appointmentId)
+    }
+
+    return appointment
+  }
+
+  // Soonest first, cancelled visits included
+  async getLeadAppointments(leadId: string): Promise<AppointmentRecord[]> {
+    return this.db.appointment.findMany({ where: { leadId }, orderBy: { startsAt: 'asc' } })
+  }
+
+  /**
+   * Open slots across all technicians for the days from `from` (default
+   * today), limited to the online booking window and minimum notice.
+   */
+  async getAvailability(query: AvailabilityQuery = {}): Promise<AvailabilitySlot[]> {
+    const { from, days, serviceType } = availabilityQuerySchema.parse(query)
+    const calendar = await this.calendar.getCalendar()
+    const timeZone = calendar.timezone
+    const now = this.now()
+    // Days are business dates, so they turn over at midnight in the business time zone
+    const first = toDateKeyIn(from && from > now ? from : now, timeZone)
+    const windowEnd = addDaysToDateKey(toDateKeyIn(now, timeZone), APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS + 1)
+    const requestedEnd = addDaysToDateKey(first, days)
+    const last = requestedEnd < windowEnd ? requestedEnd : windowEnd
+    const durationMinutes = getAppointmentDuration(serviceType)
+    const earliest = addHours(now, APPOINTMENT_CONFIG.MIN_NOTICE_HOURS)
+
+    const technicians = await this.getTechnicians()
+    const booked = await this.getScheduled(
+      technicians.map((technician) => technician.id),
+      startOfDateKey(first, timeZone),
+      startOfDateKey(last, timeZone)
+    )
+
+    const slots = new Map<number, AvailabilitySlot>()
+
+    for (let dateKey = first; dateKey < last; dateKey = addDaysToDateKey(dateKey, 1)) {
+      const day = startOfDateKey(dateKey, timeZone)
+
+      for (const technician of technicians) {
+        const busy = booked.filter((appointment) => appointment.technicianId === technician.id)
+        const hours = getWorkingHours(technician, day, calendar)
+
+        for (const startsAt of generateSlots(hours, day, busy, { durationMinutes, earliest, timeZone })) {
+          const slot = slots.get(startsAt.getTime()) ?? {
+            startsAt,
+            endsAt: addMinutes(startsAt, durationMinutes),
+            technicianIds: [],
+          }
+          slot.technicianIds.push(technician.id)
+          slots.set(startsAt.getTime(), slot)
+        }
+      }
+    }
+
+    return [...slots.values()].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+  }
+
+  /**
+   * Books a visit for the lead. The length comes from the service type, and
+   * the technician must be working and clear of other visits, travel buffer
+   * included. Logs an APPOINTMENT_BOOKED activity on the lead.
+   */
+  async bookAppointment(leadId: string, input: AppointmentInput, options: AppointmentActionOptions = {}) {
+    const data = appointmentSchema.parse(input)
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+
+    const serviceType = data.serviceType ?? lead.serviceType
+    const visit = { startsAt: data.startsAt, endsAt: addMinutes(data.startsAt, getAppointmentDuration(serviceType)) }
+    const calendar = await this.calendar.getCalendar()
+
+    this.assertBookable(visit.startsAt, calendar, options)
+    const technician = await this.findFreeTechnician(visit, calendar, data.technicianId)
+
+    const appointment = await this.db.appointment.create({
+      data: {
+        leadId,
+        technicianId: technician.id,
+        status: 'SCHEDULED',
+        ...visit,
+        serviceType: serviceType ?? null,
+        serviceLocation: data.serviceLocation,
+        notes: data.notes ?? null,
+        emergency: data.emergency,
+        createdById: options.actorId ?? null,
+      },
+    })
+
+    await this.leads.addLeadActivity(
+      leadId,
+      'APPOINTMENT_BOOKED',
+      `Appointment booked for ${formatAppointmentTime(visit.startsAt, calendar.timezone)}`,
+      `${technician.name} at ${data.serviceLocation}`,
+      this.activityMetadata(appointment, options)
+    )
+
+    return appointment
+  }
+
+  // Moves a scheduled visit, keeping its length
+  async rescheduleAppointment(
+    appointmentId: string,
+    input: AppointmentRescheduleInput,
+    options: AppointmentActionOptions = {}
+  ) {
+    const { startsAt, technicianId } = appointmentRescheduleSchema.parse(input)
+    const appointment = await this.getScheduledAppointment(appointmentId)
+    const visit = {
+      startsAt,
+      endsAt: addMinutes(startsAt, differenceInMinutes(appointment.endsAt, appointment.startsAt)),
+    }
+
+    const calendar = await this.calendar.getCalendar()
+
+    this.assertBookable(startsAt, calendar, options)
+    const technician = await this.findFreeTechnician(
+      visit,
+      calendar,
+      technicianId ?? appointment.technicianId,
+      appointmentId
+    )
+
+    const rescheduled = await this.db.appointment.update({
+      where: { id: appointmentId },
+      data: { ...visit, technicianId: technician.id, sequence: appointment.sequence + 1 },
+    })
+
+    await this.leads.addLeadActivity(
+      appointment.leadId,
+      'APPOINTMENT_RESCHEDULED',
+      `Appointment moved to ${formatAppointmentTime(startsAt, calendar.timezone)}`,
+      `Was ${formatAppointmentTime(appointment.startsAt, calendar.timezone)}; now with ${technician.name}`,
+      { ...this.activityMetadata(rescheduled, options), previousStartsAt: appointment.startsAt.toISOString() }
+    )
+
+    return rescheduled
+  }
+
+  async cancelAppointment(appointmentId: string, input: AppointmentCancelInput, options: AppointmentActionOptions = {}) {
+    const { reason } = appointmentCancelSchema.parse(input)
+    const appointment = await this.getScheduledAppointment(appointmentId)
+    const { timezone } = await this.calendar.getCalendar()
+
+    const cancelled = await this.db.appointment.update({
+      where: { id: appointmentId },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: this.now(),
+        cancelReason: reason,
+        sequence: appointment.sequence + 1,
+      },
+    })
+
+    await this.leads.addLeadActivity(
+      appointment.leadId,
+      'APPOINTMENT_CANCELLED',
+      `Appointment on ${formatAppointmentTime(appointment.startsAt, timezone)} cancelled`,
+      reason,
+      this.activityMetadata(cancelled, options)
+    )
+
+    return cancelled
+  }
+
+  // Records how a past visit went
+  async closeAppointment(appointmentId: string, status: 'COMPLETED' | 'NO_SHOW') {
+    await this.getScheduledAppointment(appointmentId)
+    return this.db.appointment.update({ where: { id: appointmentId }, data: { status } })
+  }
+
+  private async getScheduledAppointment(appointmentId: string) {
+    const appointment = await this.getAppointment(appointmentId)
+
+    if (appointment.status !== 'SCHEDULED') {
+      throw new ConflictError(`Appointment is ${appointment.status.toLowerCase().replace('_', ' ')} and can no longer be changed`)
+    }
+
+    return appointment
+  }
+
+  private assertBookable(startsAt: Date, calendar: BusinessCalendar, options: AppointmentActionOptions) {
+    const now = this.now()
+
+    if (startsAt < now) {
+      throw new ValidationError('Appointments cannot start in the past', 'startsAt')
+    }
+
+    if (options.actorId) return
+
+    if (startsAt < addHours(now, APPOINTMENT_CONFIG.MIN_NOTICE_HOURS)) {
+      throw new ValidationError(
+        `Online bookings need at least ${APPOINTMENT_CONFIG.MIN_NOTICE_HOURS} hours notice`,
+        'startsAt'
+      )
+    }
+
+    const windowEnd = addDaysToDateKey(toDateKeyIn(now, calendar.timezone), APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS + 1)
+    if (startsAt >= startOfDateKey(windowEnd, calendar.timezone)) {
+      throw new ValidationError(
+        `Online bookings are open for the next ${APPOINTMENT_CONFIG.BOOKING_WINDOW_DAYS} days`,
+        'startsAt'
+      )
+    }
+  }
+
+  /**
+   * The requested technician, or the free technician with the fewest visits
+   * that day. Throws a ConflictError when nobody can take the visit.
+   */
+  private async findFreeTechnician(
+    visit: TimeRange,
+    calendar: BusinessCalendar,
+    technicianId?: string,
+    excludeId?: string
+  ) {
+    const candidates = technicianId ? [await this.getTechnician(technicianId)] : await this.getTechnicians()
+    const timeZone = calendar.timezone
+    const dateKey = toDateKeyIn(visit.startsAt, timeZone)
+    const booked = await this.getScheduled(
+      candidates.map((technician) => technician.id),
+      startOfDateKey(dateKey, timeZone),
+      startOfDateKey(addDaysToDateKey(dateKey, 1), timeZone),
+      excludeId
+    )
+    const visitsOf = (technician: TechnicianRecord) =>
+      booked.filter((appointment) => appointment.technicianId === technician.id)
+
+    const free = candidates
+      .filter((technician) => {
+        const hours = getWorkingHours(technician, visit.startsAt, calendar)
+        return (
+          !hours.closed &&
+          visit.startsAt >= atTime(dateKey, hours.open, timeZone) &&
+          visit.endsAt <= atTime(dateKey, hours.close, timeZone) &&
+          !visitsOf(technician).some((appointment) => overlaps(visit, appointment))
+        )
+      })
+      .sort((a, b) => visitsOf(a).length - visitsOf(b).length)
+
+    if (free.length === 0) {
+      throw new ConflictError(
+        technicianId ? `${candidates[0].name} is not available at that time` : 'No technician is available at that time'
+      )
+    }
+
+    return free[0]
+  }
+
+  private async getTechnician(technicianId: string) {
+    const technician = await this.db.teamMember.findUnique({ where: { id: technicianId } })
+
+    if (!technician || !technician.technician || !technician.active) {
+      throw new NotFoundError('Technician', technicianId)
+    }
+
+    return technician
+  }
+
+  // Scheduled visits of the technicians that start from `from` up to, not including, `to`
+  private async getScheduled(technicianIds: string[], from: Date, to: Date, excludeId?: string) {
+    return this.db.appointment.findMany({
+      where: {
+        technicianId: { in: technicianIds },
+        status: 'SCHEDULED',
+        startsAt: { gte: from, lt: to },
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+      orderBy: { startsAt: 'asc' },
+    })
+  }
+
+  private activityMetadata(appointment: AppointmentRecord, options: AppointmentActionOptions) {
+    return {
+      appointmentId: appointment.id,
+      technicianId: appointment.technicianId,
+      startsAt: appointment.startsAt.toISOString(),
+      endsAt: appointment.endsAt.toISOString(),
+      ...(options.actorId && { actorId: options.actorId }),
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  businessCalendarSchema,
+  getHolidayPreset,
+  type BusinessCalendar,
+  type BusinessCalendarInput,
+  type HolidayPreset,
+} from '@workspace/config'
+import { SettingsManager, type SettingsDatabaseClient } from './settings'
+
+// The business calendar is the business_calendar setting, one JSON value,
+// so staff can change hours and holidays without a deploy.
+
+export class BusinessCalendarManager {
+  private readonly settings: SettingsManager
+
+  constructor(db: SettingsDatabaseClient) {
+    this.settings = new SettingsManager(db)
+  }
+
+  /**
+   * The saved calendar, or the default built from BUSINESS_INFO. A saved
+   * value that no longer validates falls back too, so pricing and SLA
+   * deadlines never fail on a bad setting.
+   */
+  async getCalendar(): Promise<BusinessCalendar> {
+    return this.settings.getSetting('business_calendar')
+  }
+
+  // Fields left out keep their saved value
+  async updateCalendar(input: Partial<BusinessCalendarInput>): Promise<BusinessCalendar> {
+    const calendar = businessCalendarSchema.parse({ ...(await this.getCalendar()), ...input })
+    return this.settings.setSetting('business_calendar', calendar)
+  }
+
+  // Saves a preset's holidays as the year's own list, ready to adjust
+  async applyHolidayPreset(preset: HolidayPreset, year: number): Promise<BusinessCalendar> {
+    const { holidays } = await this.getCalendar()
+    return this.updateCalendar({ holidays: { ...holidays, [year]: getHolidayPreset(preset, year) } })
+  }
+}
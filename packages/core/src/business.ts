@@ -1,8 +1,31 @@
 import { z } from 'zod'
-// import { prisma } from '@workspace/database' // TODO: Re-enable when database package is ready
-import { format, addDays, startOfDay, endOfDay, subDays, isWithinInterval } from 'date-fns'
+import { format, startOfDay, endOfDay, subDays, isWithinInterval } from 'date-fns'
 import validator from 'validator'
 import slugify from 'slugify'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  contentStatusSchema,
+  getNextBusinessDay,
+  isBusinessOpen,
+  leadSourceSchema,
+  priceTypeSchema,
+  prioritySchema,
+  toDateKeyIn,
+  urgencySchema,
+  zonedDateTime,
+  type BusinessCalendar,
+  type LeadActivityType,
+  type LeadSource,
+  type LeadStatus,
+  type Priority,
+  type Urgency,
+} from '@workspace/config'
+import type { Prisma } from '@workspace/database'
+import type { DatabaseDelegate } from './database'
+import { NotFoundError, ValidationError } from './errors'
+import { assertLeadTransition } from './lead-workflow'
+import { ENGAGEMENT_ACTIVITY_TYPES, scoreLead } from './lead-scoring'
+import type { ServiceAreaMatch } from './service-areas'
 
 // Business validation schemas
 export const leadSchema = z.object({
@@ -10,13 +33,20 @@ export const leadSchema = z.object({
   email: z.string().email('Invalid email address'),
   phone: z.string().min(10, 'Phone number must be at least 10 digits'),
   serviceType: z.string().min(1, 'Service type is required'),
+  serviceId: z.string().optional(),
   message: z.string().optional(),
-  source: z.enum(['WEBSITE', 'PHONE', 'EMAIL', 'REFERRAL', 'SOCIAL', 'OTHER']).default('WEBSITE'),
-  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).default('MEDIUM'),
+  source: leadSourceSchema.default('WEBSITE'),
+  priority: prioritySchema.default('MEDIUM'),
   estimatedValue: z.number().min(0).optional(),
   preferredContactTime: z.string().optional(),
   address: z.string().optional(),
-  urgency: z.enum(['IMMEDIATE', 'WITHIN_24H', 'WITHIN_WEEK', 'FLEXIBLE']).default('FLEXIBLE'),
+  city: z.string().trim().optional(),
+  zipCode: z
+    .string()
+    .trim()
+    .regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code')
+    .optional(),
+  urgency: urgencySchema.default('FLEXIBLE'),
 })
 
 export const serviceSchema = z.object({
@@ -24,11 +54,11 @@ export const serviceSchema = z.object({
   description: z.string().min(10, 'Description must be at least 10 characters'),
   content: z.string().optional(),
   category: z.string().min(1, 'Category is required'),
-  priceType: z.enum(['FIXED', 'HOURLY', 'QUOTE']),
+  priceType: priceTypeSchema,
   price: z.number().min(0).optional(),
   tags: z.array(z.string()).default([]),
   featured: z.boolean().default(false),
-  status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('DRAFT'),
+  status: contentStatusSchema.default('DRAFT'),
 })
 
 export const testimonialSchema = z.object({
@@ -49,7 +79,7 @@ export const projectSchema = z.object({
   location: z.string().optional(),
   completedAt: z.date().optional(),
   featured: z.boolean().default(false),
-  status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('DRAFT'),
+  status: contentStatusSchema.default('DRAFT'),
   images: z.array(z.string()).default([]),
   tags: z.array(z.string()).default([]),
 })
@@ -59,105 +89,332 @@ export type ServiceInput = z.infer<typeof serviceSchema>
 export type TestimonialInput = z.infer<typeof testimonialSchema>
 export type ProjectInput = z.infer<typeof projectSchema>
 
+// Lead persistence types
+export type { LeadStatus, LeadActivityType }
+
+// Prisma returns Decimal columns as Decimal.js instances
+export type DecimalLike = number | string | { toNumber(): number }
+
+export function decimalToNumber(value: DecimalLike | null | undefined): number | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') return Number(value)
+  return value.toNumber()
+}
+
+export interface LeadRecord {
+  id: string
+  name: string
+  email: string
+  phone: string | null
+  company: string | null
+  message: string | null
+  source: LeadSource
+  status: LeadStatus
+  priority: Priority
+  urgency: Urgency
+  serviceId: string | null
+  serviceType: string | null
+  city: string | null
+  zipCode: string | null
+  inServiceArea: boolean | null
+  serviceAreaId: string | null
+  travelSurcharge: DecimalLike | null
+  score: number
+  assignedToId: string | null
+  estimatedValue: DecimalLike | null
+  notes: string | null
+  followUpDate: Date | null
+  slaBreachedAt: Date | null
+  reminderSentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface LeadActivityRecord {
+  id: string
+  leadId: string
+  type: LeadActivityType
+  title: string
+  description: string | null
+  metadata: unknown
+  createdAt: Date
+}
+
+export interface LeadAssignee {
+  id: string
+  name: string | null
+}
+
+// How an assignee was chosen: by hand, by a LeadAssignmentRule, or by
+// round-robin among all active agents
+export type LeadAssignmentStrategy = 'manual' | 'rule' | 'round_robin'
+
+export interface LeadAssignmentOptions {
+  actorId?: string
+  strategy?: LeadAssignmentStrategy
+  ruleId?: string
+}
+
+export interface LeadStatusChangeOptions {
+  notes?: string
+  // Null clears the value
+  estimatedValue?: number | null
+}
+
+// Statuses a lead can no longer move out of
+export const CLOSED_LEAD_STATUSES: readonly LeadStatus[] = ['WON', 'LOST']
+
+export interface DateRange {
+  from: Date
+  to: Date
+}
+
+/**
+ * The slice of the Prisma client used by the lead repository. The real `db`
+ * from `@workspace/database` satisfies it, as does the in-memory stand-in
+ * used in tests.
+ */
+export interface LeadDatabaseClient {
+  lead: DatabaseDelegate<'lead', 'create' | 'update' | 'findUnique' | 'findMany' | 'count'>
+  leadActivity: DatabaseDelegate<'leadActivity', 'create' | 'findMany' | 'count'>
+}
+
+// Phone numbers are stored as entered when valid, digits only otherwise
+export function sanitizeLeadPhone(phone: string): string {
+  return validator.isMobilePhone(phone) ? phone : phone.replace(/\D/g, '')
+}
+
+function describeLeadRequest(lead: LeadInput): string {
+  return [
+    `Service: ${lead.serviceType}`,
+    `Urgency: ${lead.urgency}`,
+    lead.preferredContactTime && `Preferred contact time: ${lead.preferredContactTime}`,
+    lead.address && `Address: ${lead.address}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+// Percentage rounded to one decimal place
+function percentage(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0
+}
+
+function createdAtFilter(dateRange?: DateRange) {
+  return dateRange ? { createdAt: { gte: dateRange.from, lte: dateRange.to } } : {}
+}
+
 // Lead management functions
 export class LeadManager {
-  static async createLead(data: LeadInput) {
+  constructor(private readonly db: LeadDatabaseClient) {}
+
+  // `serviceArea` tags the lead; see ServiceAreaManager.matchLead
+  async createLead(data: z.input<typeof leadSchema>, serviceArea?: ServiceAreaMatch) {
     const validated = leadSchema.parse(data)
+    const cleanPhone = sanitizeLeadPhone(validated.phone)
+    const area = {
+      inServiceArea: serviceArea?.inArea ?? null,
+      serviceAreaId: serviceArea?.area?.id ?? null,
+      travelSurcharge: serviceArea?.surcharge ?? null,
+    }
+    const score = scoreLead({
+      source: validated.source,
+      urgency: validated.urgency,
+      serviceType: validated.serviceType,
+      estimatedValue: validated.estimatedValue ?? null,
+      inServiceArea: area.inServiceArea,
+      travelSurcharge: area.travelSurcharge,
+      interactions: 0,
+    })
     
-    // Sanitize phone number
-    const cleanPhone = validator.isMobilePhone(validated.phone) 
-      ? validated.phone 
-      : validated.phone.replace(/\D/g, '')
-    
-    // Generate slug for tracking
-    const slug = slugify(`${validated.name}-${Date.now()}`, { lower: true })
+    return this.db.lead.create({
+      data: {
+        name: validated.name,
+        email: validated.email,
+        phone: cleanPhone,
+        message: validated.message,
+        source: validated.source,
+        status: 'NEW',
+        priority: validated.priority,
+        urgency: validated.urgency,
+        serviceId: validated.serviceId,
+        serviceType: validated.serviceType,
+        city: validated.city,
+        zipCode: validated.zipCode,
+        ...area,
+        score: score.total,
+        estimatedValue: validated.estimatedValue,
+        activities: {
+          create: {
+            type: 'NOTE',
+            title: 'Lead created',
+            description: describeLeadRequest(validated),
+          },
+        },
+      },
+    })
+  }
+  
+  async updateLeadStatus(leadId: string, status: LeadStatus, options: LeadStatusChangeOptions = {}) {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
     
-    // TODO: Replace with actual database call when database package is ready
-    const lead = {
-      id: `lead_${Date.now()}`,
-      ...validated,
-      phone: cleanPhone,
-      slug,
-      status: 'NEW' as const,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
     }
     
-    // TODO: Create initial activity when database is ready
+    // Guards see the lead as it will be after the change, so a value can be
+    // supplied in the same request that marks the lead as won
+    const changes = options.estimatedValue !== undefined ? { estimatedValue: options.estimatedValue } : {}
+    assertLeadTransition({ ...lead, ...changes }, status)
+    
+    // The activity is written as a nested create so both rows commit together
+    await this.db.lead.update({
+      where: { id: leadId },
+      data: {
+        ...changes,
+        status,
+        activities: {
+          create: {
+            type: 'STATUS_CHANGE',
+            title: `Status changed from ${lead.status} to ${status}`,
+            description: options.notes,
+            metadata: { from: lead.status, to: status },
+          },
+        },
+      },
+    })
     
-    return lead
+    return this.rescoreLead(leadId)
   }
   
-  static async updateLeadStatus(
-    leadId: string, 
-    status: 'NEW' | 'CONTACTED' | 'QUALIFIED' | 'QUOTED' | 'WON' | 'LOST',
-    notes?: string
+  async addLeadActivity(
+    leadId: string,
+    type: LeadActivityType,
+    title: string,
+    description?: string,
+    metadata?: Prisma.InputJsonObject
   ) {
-    // TODO: Replace with actual database call when database package is ready
-    const lead = {
-      id: leadId,
-      status,
-      updatedAt: new Date(),
+    const activity = await this.db.leadActivity.create({
+      data: {
+        leadId,
+        type,
+        title,
+        description,
+        metadata,
+      },
+    })
+    
+    await this.rescoreLead(leadId)
+    return activity
+  }
+  
+  async addLeadNote(leadId: string, note: string, authorId?: string) {
+    const text = note.trim()
+    if (!text) {
+      throw new ValidationError('Note cannot be empty', 'note')
     }
     
-    // TODO: Create activity record when database is ready
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
     
-    return lead
+    return this.addLeadActivity(leadId, 'NOTE', 'Note added', text, authorId ? { authorId } : undefined)
   }
   
-  static async addLeadActivity(
-    leadId: string,
-    type: 'CALL' | 'EMAIL' | 'MEETING' | 'NOTE' | 'QUOTE_SENT',
-    description: string,
-    notes?: string,
-    metadata?: Record<string, any>
-  ) {
-    // TODO: Replace with actual database call when database package is ready
-    return {
-      id: `activity_${Date.now()}`,
-      leadId,
-      type,
-      description,
-      notes,
-      metadata,
-      createdAt: new Date(),
+  // Pass null to unassign. The change is recorded on the lead's timeline.
+  async assignLead(leadId: string, assignee: LeadAssignee | null, options: LeadAssignmentOptions = {}) {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+    
+    const assignedToId = assignee?.id ?? null
+    if (lead.assignedToId === assignedToId) {
+      return lead
     }
+    
+    await this.db.lead.update({
+      where: { id: leadId },
+      data: {
+        assignedToId,
+        activities: {
+          create: {
+            type: 'ASSIGNED',
+            title: assignee ? `Assigned to ${assignee.name ?? 'a team member'}` : 'Unassigned',
+            metadata: {
+              from: lead.assignedToId,
+              to: assignedToId,
+              strategy: options.strategy ?? 'manual',
+              ...(options.ruleId && { ruleId: options.ruleId }),
+              ...(options.actorId && { actorId: options.actorId }),
+            },
+          },
+        },
+      },
+    })
+    
+    return this.rescoreLead(leadId)
   }
   
-  static async getLeadStats(dateRange?: { from: Date; to: Date }) {
-    // TODO: Replace with actual database call when database package is ready
+  // Recomputes the stored score. Every method that adds an activity calls this.
+  async rescoreLead(leadId: string): Promise<LeadRecord> {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+    
+    const interactions = await this.db.leadActivity.count({
+      where: { leadId, type: { in: [...ENGAGEMENT_ACTIVITY_TYPES] } },
+    })
+    const { total } = scoreLead({
+      ...lead,
+      estimatedValue: decimalToNumber(lead.estimatedValue),
+      travelSurcharge: decimalToNumber(lead.travelSurcharge),
+      interactions,
+    })
+    
+    return total === lead.score ? lead : this.db.lead.update({ where: { id: leadId }, data: { score: total } })
+  }
+  
+  async getLeadStats(dateRange?: DateRange) {
+    const leads = await this.db.lead.findMany({
+      where: createdAtFilter(dateRange),
+      select: { status: true, source: true, priority: true },
+    })
+    
+    const byStatus: Record<string, number> = {}
+    const bySource: Record<string, number> = {}
+    const byPriority: Record<string, number> = {}
+    
+    for (const lead of leads) {
+      byStatus[lead.status] = (byStatus[lead.status] || 0) + 1
+      bySource[lead.source] = (bySource[lead.source] || 0) + 1
+      byPriority[lead.priority] = (byPriority[lead.priority] || 0) + 1
+    }
+    
     return {
-      total: 25,
-      byStatus: {
-        NEW: 8,
-        CONTACTED: 6,
-        QUALIFIED: 4,
-        QUOTED: 3,
-        WON: 2,
-        LOST: 2,
-      },
-      bySource: {
-        WEBSITE: 12,
-        PHONE: 5,
-        EMAIL: 3,
-        REFERRAL: 3,
-        SOCIAL: 2,
-      },
-      byPriority: {
-        LOW: 8,
-        MEDIUM: 10,
-        HIGH: 5,
-        URGENT: 2,
-      },
+      total: leads.length,
+      byStatus,
+      bySource,
+      byPriority,
     }
   }
   
-  static async getConversionRate(dateRange?: { from: Date; to: Date }) {
-    // TODO: Replace with actual database call when database package is ready
+  async getConversionRate(dateRange?: DateRange) {
+    const where = createdAtFilter(dateRange)
+    const [total, converted] = await Promise.all([
+      this.db.lead.count({ where }),
+      this.db.lead.count({ where: { ...where, status: 'WON' } }),
+    ])
+    
     return {
-      total: 25,
-      converted: 2,
-      rate: 8.0,
+      total,
+      converted,
+      rate: percentage(converted, total),
     }
   }
 }
@@ -341,80 +598,162 @@ export class TestimonialManager {
 }
 
 // Business analytics functions
+//
+// Aggregates run over Lead rows in memory. Values are summed from the
+// estimatedValue of WON leads, so revenue means quoted, not invoiced, value.
+export interface LeadSourcePerformance {
+  source: LeadSource
+  leads: number
+  conversions: number
+  conversionRate: number
+  totalValue: number
+}
+
+export interface MonthlyTrend {
+  month: string
+  start: Date
+  leads: number
+  conversions: number
+  revenue: number
+}
+
+// Months since year 0 to the month `date` falls in, in `timeZone`
+function monthIndexIn(date: Date, timeZone: string): number {
+  const [year, month] = toDateKeyIn(date, timeZone).split('-').map(Number)
+  return year * 12 + month - 1
+}
+
+function valueOf(lead: Pick<LeadRecord, 'estimatedValue'>): number {
+  return decimalToNumber(lead.estimatedValue) ?? 0
+}
+
 export class BusinessAnalytics {
-  static async getDashboardStats(dateRange?: { from: Date; to: Date }) {
-    // TODO: Replace with actual database call when database package is ready
-    const [leadStats, conversionRate, avgRating] = await Promise.all([
-      LeadManager.getLeadStats(dateRange),
-      LeadManager.getConversionRate(dateRange),
-      TestimonialManager.getAverageRating(),
+  static async getDashboardStats(db: LeadDatabaseClient, dateRange?: DateRange) {
+    const leads = new LeadManager(db)
+    const [leadStats, conversionRate, value, recentActivity] = await Promise.all([
+      leads.getLeadStats(dateRange),
+      leads.getConversionRate(dateRange),
+      BusinessAnalytics.getLeadValue(db, dateRange),
+      BusinessAnalytics.getRecentActivity(db, dateRange),
     ])
     
-    const recentActivity = [
-      {
-        id: 'activity_1',
-        type: 'CREATED' as const,
-        description: 'New lead created',
-        createdAt: new Date(),
-        lead: {
-          name: 'John Doe',
-          email: 'john@example.com',
-          serviceType: 'HVAC Installation',
-        },
-      },
-    ]
-    
     return {
       leads: leadStats,
       conversion: conversionRate,
-      rating: avgRating,
+      value,
       recentActivity,
     }
   }
   
-  static async getMonthlyTrends(months: number = 12) {
-    // TODO: Replace with actual database call when database package is ready
-    const trends = []
-    const now = new Date()
-    
-    for (let i = months - 1; i >= 0; i--) {
-      const date = new Date(now.getFullYear(), now.getMonth() - i, 1)
-      trends.push({
-        month: format(date, 'MMM yyyy'),
-        leads: Math.floor(Math.random() * 20) + 10,
-        conversions: Math.floor(Math.random() * 5) + 1,
-        revenue: Math.floor(Math.random() * 50000) + 10000,
-      })
+  // Won value, and the value of leads still open, created in the range
+  static async getLeadValue(db: LeadDatabaseClient, dateRange?: DateRange) {
+    const leads = await db.lead.findMany({
+      where: createdAtFilter(dateRange),
+      select: { status: true, estimatedValue: true },
+    })
+    
+    let won = 0
+    let pipeline = 0
+    for (const lead of leads) {
+      if (lead.status === 'WON') won += valueOf(lead)
+      else if (!CLOSED_LEAD_STATUSES.includes(lead.status)) pipeline += valueOf(lead)
+    }
+    
+    return { won, pipeline }
+  }
+  
+  static async getRecentActivity(db: LeadDatabaseClient, dateRange?: DateRange, limit: number = 10) {
+    const activities = await db.leadActivity.findMany({
+      where: createdAtFilter(dateRange),
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+    
+    const leadIds = [...new Set(activities.map((activity) => activity.leadId))]
+    const leads = leadIds.length
+      ? await db.lead.findMany({
+          where: { id: { in: leadIds } },
+          select: { id: true, name: true, email: true },
+        })
+      : []
+    const leadsById = new Map(leads.map((lead) => [lead.id, lead]))
+    
+    return activities.map((activity) => ({
+      id: activity.id,
+      type: activity.type,
+      title: activity.title,
+      description: activity.description,
+      createdAt: activity.createdAt,
+      lead: leadsById.get(activity.leadId) ?? null,
+    }))
+  }
+  
+  // One bucket per calendar month in `timeZone`, oldest first, ending with the month of `now`
+  static async getMonthlyTrends(
+    db: LeadDatabaseClient,
+    months: number = 12,
+    now: Date = new Date(),
+    timeZone: string = DEFAULT_BUSINESS_CALENDAR.timezone
+  ): Promise<MonthlyTrend[]> {
+    const first = monthIndexIn(now, timeZone) - (months - 1)
+    const trends = Array.from({ length: months }, (_, index) => {
+      const [year, month] = [Math.floor((first + index) / 12), (first + index) % 12]
+      return {
+        month: format(new Date(year, month, 1), 'MMM yyyy'),
+        start: zonedDateTime(`${year}-${String(month + 1).padStart(2, '0')}-01`, 0, timeZone),
+        leads: 0,
+        conversions: 0,
+        revenue: 0,
+      }
+    })
+    
+    const leads = await db.lead.findMany({
+      where: { createdAt: { gte: trends[0].start, lte: now } },
+      select: { status: true, estimatedValue: true, createdAt: true },
+    })
+    
+    for (const lead of leads) {
+      const bucket = trends[monthIndexIn(lead.createdAt, timeZone) - first]
+      if (!bucket) continue
+      
+      bucket.leads++
+      if (lead.status === 'WON') {
+        bucket.conversions++
+        bucket.revenue += valueOf(lead)
+      }
     }
     
     return trends
   }
   
-  static async getLeadSourcePerformance(dateRange?: { from: Date; to: Date }) {
-    // TODO: Replace with actual database call when database package is ready
-    return [
-      {
-        source: 'WEBSITE',
-        leads: 12,
-        conversions: 3,
-        conversionRate: 25.0,
-        totalValue: 15000,
-      },
-      {
-        source: 'PHONE',
-        leads: 5,
-        conversions: 2,
-        conversionRate: 40.0,
-        totalValue: 8000,
-      },
-      {
-        source: 'REFERRAL',
-        leads: 3,
-        conversions: 2,
-        conversionRate: 66.7,
-        totalValue: 12000,
-      },
-    ]
+  // Sources with at least one lead in the range, busiest first
+  static async getLeadSourcePerformance(db: LeadDatabaseClient, dateRange?: DateRange): Promise<LeadSourcePerformance[]> {
+    const leads = await db.lead.findMany({
+      where: createdAtFilter(dateRange),
+      select: { source: true, status: true, estimatedValue: true },
+    })
+    
+    const bySource = new Map<LeadSource, LeadSourcePerformance>()
+    for (const lead of leads) {
+      const performance = bySource.get(lead.source) ?? {
+        source: lead.source,
+        leads: 0,
+        conversions: 0,
+        conversionRate: 0,
+        totalValue: 0,
+      }
+      
+      performance.leads++
+      if (lead.status === 'WON') {
+        performance.conversions++
+        performance.totalValue += valueOf(lead)
+      }
+      bySource.set(lead.source, performance)
+    }
+    
+    return [...bySource.values()]
+      .map((performance) => ({ ...performance, conversionRate: percentage(performance.conversions, performance.leads) }))
+      .sort((a, b) => b.leads - a.leads)
   }
 }
 
@@ -465,25 +804,13 @@ export function formatPhoneNumber(phone: string): string {
   return phone
 }
 
-export function isBusinessHours(date: Date = new Date()): boolean {
-  const hour = date.getHours()
-  const day = date.getDay()
-  
-  // Monday to Friday, 8 AM to 6 PM
-  return day >= 1 && day <= 5 && hour >= 8 && hour < 18
+// Opening hours, holidays and closures in the business time zone. Pass the
+// calendar saved in settings (BusinessCalendarManager) to honour CMS edits.
+export function isBusinessHours(
+  date: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): boolean {
+  return isBusinessOpen(date, calendar)
 }
 
-export function getNextBusinessDay(date: Date = new Date()): Date {
-  const nextDay = addDays(date, 1)
-  const dayOfWeek = nextDay.getDay()
-  
-  // If it's Saturday (6), add 2 days to get to Monday
-  // If it's Sunday (0), add 1 day to get to Monday
-  if (dayOfWeek === 6) {
-    return addDays(nextDay, 2)
-  } else if (dayOfWeek === 0) {
-    return addDays(nextDay, 1)
-  }
-  
-  return nextDay
-}
\ No newline at end of file
+export { getNextBusinessDay }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { z } from 'zod'
+import slugify from 'slugify'
+import { API_CONFIG, contentStatusSchema } from '@workspace/config'
+import { workingHoursSchema } from './appointments'
+import { projectSchema, serviceSchema, testimonialSchema } from './business'
+import { pageSchema, postSchema } from './content'
+
+// Write schemas for the /api/content/* handlers. They reuse the editor
+// schemas' rules but follow the Prisma columns, so parsed data can be
+// stored as-is. PATCH bodies are validated with `.partial()`.
+
+const slugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes')
+
+export const serviceDataSchema = serviceSchema.omit({ featured: true }).extend({
+  slug: slugSchema.optional(),
+  excerpt: z.string().optional(),
+  image: z.string().optional(),
+  gallery: z.array(z.string()).default([]),
+  features: z.array(z.string()).default([]),
+  seoTitle: z.string().optional(),
+  seoDescription: z.string().optional(),
+})
+
+export const postDataSchema = postSchema
+  .omit({ metaTitle: true, metaDescription: true, featuredImage: true, featured: true })
+  .extend({
+    slug: slugSchema.optional(),
+    image: z.string().optional(),
+    seoTitle: z.string().optional(),
+    seoDescription: z.string().optional(),
+    publishedAt: z.coerce.date().optional(),
+  })
+
+export const pageDataSchema = pageSchema
+  .omit({
+    excerpt: true,
+    metaTitle: true,
+    metaDescription: true,
+    featuredImage: true,
+    parentId: true,
+    order: true,
+  })
+  .extend({
+    slug: slugSchema.optional(),
+    seoTitle: z.string().optional(),
+    seoDescription: z.string().optional(),
+  })
+
+export const projectDataSchema = projectSchema.omit({ category: true, tags: true }).extend({
+  slug: slugSchema.optional(),
+  beforeImage: z.string().optional(),
+  afterImage: z.string().optional(),
+  serviceId: z.string().optional(),
+  clientName: z.string().optional(),
+  duration: z.string().optional(),
+  value: z.number().min(0).optional(),
+  completedAt: z.coerce.date().optional(),
+})
+
+export const testimonialDataSchema = testimonialSchema.pick({ content: true, featured: true }).extend({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  company: z.string().optional(),
+  position: z.string().optional(),
+  rating: z.number().int().min(1).max(5).default(5),
+  image: z.string().optional(),
+  approved: z.boolean().default(false),
+  serviceId: z.string().optional(),
+  status: contentStatusSchema.default('PUBLISHED'),
+})
+
+export const teamMemberDataSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  position: z.string().min(2, 'Position must be at least 2 characters'),
+  bio: z.string().optional(),
+  image: z.string().optional(),
+  email: z.string().email('Invalid email address').optional(),
+  phone: z.string().optional(),
+  linkedin: z.string().url('Invalid URL').optional(),
+  twitter: z.string().optional(),
+  specialties: z.array(z.string()).default([]),
+  featured: z.boolean().default(false),
+  active: z.boolean().default(true),
+  order: z.number().int().min(0).default(0),
+  status: contentStatusSchema.default('PUBLISHED'),
+  technician: z.boolean().default(false),
+  workingHours: workingHoursSchema.default({}),
+  // CMS login whose calendar feed lists this technician's visits
+  userId: z.string().nullable().optional(),
+})
+
+export type ServiceData = z.infer<typeof serviceDataSchema>
+export type PostData = z.infer<typeof postDataSchema>
+export type PageData = z.infer<typeof pageDataSchema>
+export type ProjectData = z.infer<typeof projectDataSchema>
+export type TestimonialData = z.infer<typeof testimonialDataSchema>
+export type TeamMemberData = z.infer<typeof teamMemberDataSchema>
+
+// Slug used when a create request does not provide one
+export function toContentSlug(title: string): string {
+  return slugify(title, { lower: true, strict: true })
+}
+
+// List query strings: ?status=&search=&sort=&order=&cursor=&take= plus
+// per-model filters. Booleans arrive as "true"/"false".
+const booleanParam = z.enum(['true', 'false']).transform((value) => value === 'true')
+
+function listQuerySchema<T extends readonly [string, ...string[]]>(sortFields: T) {
+  return z.object({
+    cursor: z.string().min(1).optional(),
+    take: z.coerce.number().int().min(1).optional(),
+    sort: z.enum(sortFields).optional(),
+    order: z.enum(['asc', 'desc']).optional(),
+    status: contentStatusSchema.optional(),
+    search: z.string().trim().min(1).optional(),
+  })
+}
+
+const { SORT_FIELDS } = API_CONFIG
+
+export const serviceListQuerySchema = listQuerySchema(SORT_FIELDS.services).extend({
+  category: z.string().optional(),
+  published: booleanParam.optional(),
+})
+
+export const postListQuerySchema = listQuerySchema(SORT_FIELDS.posts).extend({
+  category: z.string().optional(),
+  tag: z.string().optional(),
+  authorId: z.string().optional(),
+  published: booleanParam.optional(),
+})
+
+export const pageListQuerySchema = listQuerySchema(SORT_FIELDS.pages).extend({
+  published: booleanParam.optional(),
+})
+
+export const projectListQuerySchema = listQuerySchema(SORT_FIELDS.projects).extend({
+  serviceId: z.string().optional(),
+  featured: booleanParam.optional(),
+  published: booleanParam.optional(),
+})
+
+export const testimonialListQuerySchema = listQuerySchema(SORT_FIELDS.testimonials).extend({
+  serviceId: z.string().optional(),
+  featured: booleanParam.optional(),
+  approved: booleanParam.optional(),
+})
+
+export const teamMemberListQuerySchema = listQuerySchema(SORT_FIELDS.team).extend({
+  featured: booleanParam.optional(),
+  active: booleanParam.optional(),
+})
+
+// Service areas have no status, only `active`
+export const serviceAreaListQuerySchema = listQuerySchema(SORT_FIELDS.serviceAreas).omit({ status: true }).extend({
+  active: booleanParam.optional(),
+})
+
+export interface ContentListQuery<TSortField extends string = string> {
+  cursor?: string
+  take?: number
+  sort?: TSortField
+  order?: 'asc' | 'desc'
+}
+
+// Splits a parsed list query into the { filter, sort, cursor, take }
+// options taken by the database list helpers
+export function toListOptions<TSortField extends string, TQuery extends ContentListQuery<TSortField>>(
+  query: TQuery
+) {
+  const { cursor, take, sort, order, ...filter } = query
+
+  return {
+    filter: filter as Omit<TQuery, keyof ContentListQuery>,
+    cursor,
+    take,
+    ...(sort && { sort: { field: sort, direction: order ?? 'asc' } }),
+  }
+}
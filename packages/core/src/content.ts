@@ -2,6 +2,7 @@ import { z } from 'zod'
 // import { prisma } from '@workspace/database' // TODO: Re-enable when database package is ready
 import { format } from 'date-fns'
 import slugify from 'slugify'
+import { contentStatusSchema } from '@workspace/config'
 
 // Content validation schemas
 export const pageSchema = z.object({
@@ -11,7 +12,7 @@ export const pageSchema = z.object({
   metaTitle: z.string().optional(),
   metaDescription: z.string().optional(),
   featuredImage: z.string().optional(),
-  status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('DRAFT'),
+  status: contentStatusSchema.default('DRAFT'),
   template: z.string().optional(),
   parentId: z.string().optional(),
   order: z.number().default(0),
@@ -27,7 +28,7 @@ export const postSchema = z.object({
   category: z.string().min(1, 'Category is required'),
   tags: z.array(z.string()).default([]),
   featured: z.boolean().default(false),
-  status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).default('DRAFT'),
+  status: contentStatusSchema.default('DRAFT'),
   publishedAt: z.date().optional(),
 })
 
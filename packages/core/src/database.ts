@@ -0,0 +1,15 @@
+import type { Prisma } from '@workspace/database'
+
+// Model delegates as they appear on a Prisma client or inside $transaction
+type ModelDelegates = Prisma.TransactionClient
+
+/**
+ * The methods of one Prisma model delegate that a manager calls. Managers
+ * declare their database client as a set of these, so the real `db` from
+ * `@workspace/database` and transaction clients satisfy it, and a test
+ * stand-in only has to implement what is used.
+ */
+export type DatabaseDelegate<
+  M extends keyof ModelDelegates,
+  K extends keyof ModelDelegates[M],
+> = Pick<ModelDelegates[M], K>
@@ -0,0 +1,57 @@
+// Business error classes shared by the core managers and API handlers
+export class BusinessError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode: number = 400
+  ) {
+    super(message)
+    this.name = 'BusinessError'
+  }
+}
+
+export class ValidationError extends BusinessError {
+  constructor(message: string, public field?: string) {
+    super(message, 'VALIDATION_ERROR', 400)
+    this.name = 'ValidationError'
+  }
+}
+
+export class NotFoundError extends BusinessError {
+  constructor(resource: string, id?: string) {
+    const message = id ? `${resource} with id ${id} not found` : `${resource} not found`
+    super(message, 'NOT_FOUND', 404)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class UnauthorizedError extends BusinessError {
+  constructor(message: string = 'Unauthorized access') {
+    super(message, 'UNAUTHORIZED', 401)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class ForbiddenError extends BusinessError {
+  constructor(message: string = 'You do not have permission to perform this action') {
+    super(message, 'FORBIDDEN', 403)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export class ConflictError extends BusinessError {
+  constructor(message: string) {
+    super(message, 'CONFLICT', 409)
+    this.name = 'ConflictError'
+  }
+}
+
+export class RateLimitError extends BusinessError {
+  constructor(
+    public retryAfterMs: number,
+    message: string = 'Too many requests, please try again later'
+  ) {
+    super(message, 'RATE_LIMITED', 429)
+    this.name = 'RateLimitError'
+  }
+}
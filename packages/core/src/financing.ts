@@ -0,0 +1,153 @@
+import { z } from 'zod'
+import { PRICING_CONFIG } from '@workspace/config'
+import { ValidationError } from './errors'
+
+// Shape of PRICING_CONFIG.FINANCING_OPTIONS
+export interface FinancingOptions {
+  available: boolean
+  minAmount: number
+  maxAmount: number
+  terms: readonly number[]
+  promotionalAPR: number
+  standardAPR: number
+}
+
+// A term as offered on a quote. A type alias so it fits a Json column.
+export type FinancingOffer = {
+  months: number
+  apr: number
+  monthlyPayment: number
+}
+
+export interface AmortizationRow {
+  period: number
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export interface FinancingPlan extends FinancingOffer {
+  amount: number
+  // True when the term gets the promotional APR
+  promotional: boolean
+  totalInterest: number
+  totalPaid: number
+  schedule: AmortizationRow[]
+}
+
+export const financingRequestSchema = z.object({
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  months: z.coerce.number().int().positive().optional(),
+})
+
+export type FinancingRequest = z.input<typeof financingRequestSchema>
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+// Fixed monthly payment for a fully amortizing loan
+export function calculateMonthlyPayment(principal: number, apr: number, months: number): number {
+  const rate = apr / 100 / 12
+  if (rate === 0) return roundCents(principal / months)
+  return roundCents((principal * rate) / (1 - Math.pow(1 + rate, -months)))
+}
+
+/**
+ * Month-by-month breakdown at a fixed payment. Interest is rounded to cents
+ * each month, and the last payment absorbs what rounding leaves over so the
+ * balance ends at exactly zero.
+ */
+export function buildAmortizationSchedule(principal: number, apr: number, months: number): AmortizationRow[] {
+  const rate = apr / 100 / 12
+  const payment = calculateMonthlyPayment(principal, apr, months)
+  const schedule: AmortizationRow[] = []
+  let balance = principal
+
+  for (let period = 1; period <= months; period++) {
+    const interest = roundCents(balance * rate)
+    const principalPaid = period === months ? balance : Math.min(roundCents(payment - interest), balance)
+    balance = roundCents(balance - principalPaid)
+    schedule.push({
+      period,
+      payment: roundCents(principalPaid + interest),
+      principal: principalPaid,
+      interest,
+      balance,
+    })
+  }
+
+  return schedule
+}
+
+// Payment, totals and schedule for one term, without checking it is offered
+export function amortize(amount: number, apr: number, months: number, promotional = false): FinancingPlan {
+  const schedule = buildAmortizationSchedule(amount, apr, months)
+  const totalInterest = roundCents(schedule.reduce((sum, row) => sum + row.interest, 0))
+
+  return {
+    amount,
+    months,
+    apr,
+    promotional,
+    monthlyPayment: calculateMonthlyPayment(amount, apr, months),
+    totalInterest,
+    totalPaid: roundCents(amount + totalInterest),
+    schedule,
+  }
+}
+
+// The promotional rate only covers the shortest term
+export function getTermAPR(months: number, options: FinancingOptions = PRICING_CONFIG.FINANCING_OPTIONS): number {
+  return months === Math.min(...options.terms) ? options.promotionalAPR : options.standardAPR
+}
+
+export function isFinanceable(amount: number, options: FinancingOptions = PRICING_CONFIG.FINANCING_OPTIONS): boolean {
+  return options.available && amount >= options.minAmount && amount <= options.maxAmount
+}
+
+/**
+ * Every configured term for the amount, or just `months` when given. Throws
+ * a ValidationError when financing is off, the amount is out of bounds or
+ * the term is not one of the configured ones.
+ */
+export function getFinancingPlans(
+  request: FinancingRequest,
+  options: FinancingOptions = PRICING_CONFIG.FINANCING_OPTIONS
+): FinancingPlan[] {
+  const { amount, months } = financingRequestSchema.parse(request)
+
+  if (!options.available) {
+    throw new ValidationError('Financing is not available')
+  }
+
+  if (amount < options.minAmount || amount > options.maxAmount) {
+    throw new ValidationError(
+      `Financing is available for amounts from ${options.minAmount} to ${options.maxAmount}`,
+      'amount'
+    )
+  }
+
+  if (months !== undefined && !options.terms.includes(months)) {
+    throw new ValidationError(`Financing over ${months} months is not offered`, 'months')
+  }
+
+  const terms = months === undefined ? options.terms : [months]
+  const shortest = Math.min(...options.terms)
+
+  return terms.map((term) =>
+    amortize(amount, getTermAPR(term, options), term, term === shortest && options.promotionalAPR < options.standardAPR)
+  )
+}
+
+// Terms to list on a quote; empty when the amount cannot be financed
+export function getFinancingOffers(
+  amount: number,
+  options: FinancingOptions = PRICING_CONFIG.FINANCING_OPTIONS
+): FinancingOffer[] {
+  if (!isFinanceable(amount, options)) return []
+
+  return options.terms.map((months) => {
+    const apr = getTermAPR(months, options)
+    return { months, apr, monthlyPayment: calculateMonthlyPayment(amount, apr, months) }
+  })
+}
@@ -0,0 +1,192 @@
+import { BUSINESS_INFO, getTimeZoneOffset } from '@workspace/config'
+import type { AppointmentRecord } from './appointments'
+
+// iCalendar (RFC 5545) output for appointment emails and technician feeds.
+// Times are written as local times in the business time zone, with a
+// VTIMEZONE built from the zone's actual offsets over the events' range.
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8'
+
+export interface CalendarEvent {
+  uid: string
+  // Raised on every change so calendar apps replace their copy
+  sequence: number
+  status: 'CONFIRMED' | 'CANCELLED'
+  startsAt: Date
+  endsAt: Date
+  summary: string
+  description?: string
+  location?: string
+  url?: string
+  updatedAt: Date
+}
+
+export interface CalendarOptions {
+  name?: string
+  timeZone?: string
+  events: CalendarEvent[]
+}
+
+const PRODUCT_ID = `-//${BUSINESS_INFO.name}//Appointments//EN`
+const UID_DOMAIN = BUSINESS_INFO.email.split('@')[1]
+const MINUTE = 60_000
+const DAY = 24 * 60 * MINUTE
+
+const pad = (value: number, length = 2) => String(Math.abs(value)).padStart(length, '0')
+
+// The UTC fields of `date` as an iCalendar date-time
+const formatFields = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`
+
+// "-0600"
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`
+
+// "20240305T093000", the wall-clock time in `timeZone`
+export function formatICSDateTime(date: Date, timeZone: string): string {
+  return formatFields(new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * MINUTE))
+}
+
+// "20240305T153000Z"
+export function formatICSUtc(date: Date): string {
+  return `${formatFields(date)}Z`
+}
+
+export function escapeICSText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// Splits a content line into 75-octet chunks, never inside a UTF-8 character
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let chunk = ''
+  let size = 0
+
+  for (const char of line) {
+    const length = encoder.encode(char).length
+    // Continuation lines start with a space, which counts toward the limit
+    if (size + length > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk)
+      chunk = ''
+      size = 0
+    }
+    chunk += char
+    size += length
+  }
+
+  return [...chunks, chunk].join('\r\n ')
+}
+
+/**
+ * VTIMEZONE for `timeZone` covering `from` to `to`. Offset changes are found
+ * by scanning day by day and narrowing to the minute, so the output matches
+ * the runtime's time zone data without hard-coded DST rules.
+ */
+export function buildVTimezone(timeZone: string, from: Date, to: Date): string[] {
+  const observances: { at: Date; offsetFrom: number; offsetTo: number }[] = []
+  const initial = getTimeZoneOffset(from, timeZone)
+  observances.push({ at: from, offsetFrom: initial, offsetTo: initial })
+
+  let previous = initial
+  for (let time = from.getTime() + DAY; time <= to.getTime() + DAY; time += DAY) {
+    const offset = getTimeZoneOffset(new Date(time), timeZone)
+    if (offset === previous) continue
+
+    let low = time - DAY
+    let high = time
+    while (high - low > MINUTE) {
+      const middle = low + Math.floor((high - low) / MINUTE / 2) * MINUTE
+      if (getTimeZoneOffset(new Date(middle), timeZone) === previous) low = middle
+      else high = middle
+    }
+
+    observances.push({ at: new Date(high), offsetFrom: previous, offsetTo: offset })
+    previous = offset
+  }
+
+  const standardOffset = Math.min(...observances.map((observance) => observance.offsetTo))
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observances.flatMap(({ at, offsetFrom, offsetTo }) => {
+      const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD'
+      return [
+        `BEGIN:${kind}`,
+        // Local time of the change, as read on clocks before it
+        `DTSTART:${formatFields(new Date(at.getTime() + offsetFrom * MINUTE))}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `END:${kind}`,
+      ]
+    }),
+    'END:VTIMEZONE',
+  ]
+}
+
+function buildVEvent(event: CalendarEvent, timeZone: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICSUtc(event.updatedAt)}`,
+    `LAST-MODIFIED:${formatICSUtc(event.updatedAt)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `DTSTART;TZID=${timeZone}:${formatICSDateTime(event.startsAt, timeZone)}`,
+    `DTEND;TZID=${timeZone}:${formatICSDateTime(event.endsAt, timeZone)}`,
+    `SUMMARY:${escapeICSText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeICSText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeICSText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    'END:VEVENT',
+  ]
+}
+
+/**
+ * A VCALENDAR with one VEVENT per event, CRLF line endings and folded
+ * lines. Uses METHOD:PUBLISH, which suits both feeds and email attachments.
+ */
+export function buildCalendar({ name, timeZone = BUSINESS_INFO.timezone, events }: CalendarOptions): string {
+  const times = events.flatMap((event) => [event.startsAt.getTime(), event.endsAt.getTime()])
+  // The zone must cover every event; an empty feed still names its zone
+  const from = new Date(times.length ? Math.min(...times) - DAY : Date.now())
+  const to = new Date(times.length ? Math.max(...times) + DAY : Date.now())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeICSText(name)}`] : []),
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...buildVTimezone(timeZone, from, to),
+    ...events.flatMap((event) => buildVEvent(event, timeZone)),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n'
+}
+
+// Stable across reschedules, so calendar apps update the event in place
+export function getAppointmentUid(appointment: Pick<AppointmentRecord, 'id'>): string {
+  return `appointment-${appointment.id}@${UID_DOMAIN}`
+}
+
+export function appointmentToEvent(
+  appointment: AppointmentRecord,
+  details: Pick<CalendarEvent, 'summary' | 'description' | 'url'>
+): CalendarEvent {
+  return {
+    uid: getAppointmentUid(appointment),
+    sequence: appointment.sequence,
+    status: appointment.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+    startsAt: appointment.startsAt,
+    endsAt: appointment.endsAt,
+    location: appointment.serviceLocation,
+    updatedAt: appointment.updatedAt,
+    ...details,
+  }
+}
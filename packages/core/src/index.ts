@@ -1,3 +1,13 @@
+import {
+  CONTENT_STATUSES,
+  LEAD_SOURCES,
+  LEAD_STATUSES,
+  PRICE_TYPES,
+  PRIORITIES,
+  URGENCIES,
+} from '@workspace/config'
+import { BusinessError } from './errors'
+
 // Business logic exports
 export {
   LeadManager,
@@ -21,6 +31,19 @@ export type {
   ServiceInput,
   TestimonialInput,
   ProjectInput,
+  LeadStatus,
+  LeadActivityType,
+  LeadRecord,
+  LeadActivityRecord,
+  LeadDatabaseClient,
+  LeadStatusChangeOptions,
+  LeadAssignee,
+  LeadAssignmentOptions,
+  LeadAssignmentStrategy,
+  DecimalLike,
+  DateRange,
+  MonthlyTrend,
+  LeadSourcePerformance,
 } from './business'
 
 // Utility functions
@@ -29,10 +52,290 @@ export {
   generateQuoteNumber,
   formatCurrency,
   formatPhoneNumber,
+  sanitizeLeadPhone,
+  decimalToNumber,
   isBusinessHours,
   getNextBusinessDay,
+  CLOSED_LEAD_STATUSES,
 } from './business'
 
+// Settings
+export { SettingsManager } from './settings'
+
+export type { SettingRecord, SettingsDatabaseClient, SettingsFilter } from './settings'
+
+export { BusinessCalendarManager } from './business-calendar'
+
+// Lead status workflow
+export {
+  LEAD_TRANSITION_GUARDS,
+  getAllowedLeadTransitions,
+  canTransitionLead,
+  assertLeadTransition,
+} from './lead-workflow'
+
+export type { LeadTransitionGuard } from './lead-workflow'
+
+// Lead routing
+export {
+  LeadAssignmentManager,
+  LEAD_OWNER_ROLES,
+  matchesAssignmentRule,
+  pickNextAssignee,
+} from './lead-assignment'
+
+export type {
+  AssignmentUser,
+  AutoAssignResult,
+  LeadAssignmentDatabaseClient,
+  LeadAssignmentRuleRecord,
+  LeadRoutingFacts,
+} from './lead-assignment'
+
+// Lead scoring
+export { ENGAGEMENT_ACTIVITY_TYPES, getServiceEstimateRange, scoreLead } from './lead-scoring'
+
+export type { LeadScoreBreakdown, LeadScoreFacts, LeadScoreFactor } from './lead-scoring'
+
+// Follow-ups and SLA
+export {
+  FollowUpScheduler,
+  computeSlaDeadline,
+  escalatePriority,
+  followUpWhere,
+  nextBusinessMoment,
+} from './lead-follow-up'
+
+export type {
+  FollowUpDatabaseClient,
+  FollowUpNotifier,
+  FollowUpRecipient,
+  FollowUpReminder,
+  FollowUpRunResult,
+  FollowUpWindow,
+} from './lead-follow-up'
+
+// Financing
+export {
+  financingRequestSchema,
+  calculateMonthlyPayment,
+  buildAmortizationSchedule,
+  amortize,
+  getTermAPR,
+  isFinanceable,
+  getFinancingPlans,
+  getFinancingOffers,
+} from './financing'
+
+export type {
+  FinancingOptions,
+  FinancingOffer,
+  FinancingPlan,
+  FinancingRequest,
+  AmortizationRow,
+} from './financing'
+
+// Quotes
+export {
+  QuoteManager,
+  QUOTE_DEFAULT_UNIT_PRICES,
+  quoteSchema,
+  quoteLineItemSchema,
+  quoteAcceptanceSchema,
+  quoteDeclineSchema,
+  calculateQuoteTotals,
+  formatQuoteNumber,
+} from './quotes'
+
+export { renderQuotePdf } from './quote-pdf'
+
+export type {
+  QuoteInput,
+  QuoteLineItemInput,
+  QuoteRecord,
+  QuoteRow,
+  QuoteLineItemRecord,
+  QuoteDatabaseClient,
+  QuoteActionOptions,
+  QuoteAcceptanceInput,
+  QuoteDeclineInput,
+  QuoteResponse,
+  QuoteResponseNotifier,
+  QuoteResponseOptions,
+  QuoteTotals,
+  PricedLineItem,
+} from './quotes'
+
+export type { QuoteCustomer } from './quote-pdf'
+
+// Appointments
+export {
+  AppointmentManager,
+  appointmentSchema,
+  appointmentRescheduleSchema,
+  appointmentCancelSchema,
+  appointmentRequestSchema,
+  availabilityQuerySchema,
+  dayHoursSchema,
+  workingHoursSchema,
+  getAppointmentDuration,
+  getWorkingHours,
+  generateSlots,
+  overlaps,
+  formatAppointmentTime,
+} from './appointments'
+
+export type {
+  AppointmentInput,
+  AppointmentRescheduleInput,
+  AppointmentCancelInput,
+  AppointmentRequestInput,
+  AppointmentRecord,
+  AppointmentDatabaseClient,
+  AppointmentActionOptions,
+  AvailabilityQuery,
+  AvailabilitySlot,
+  DayHours,
+  SlotOptions,
+  TechnicianRecord,
+  TimeRange,
+  Weekday,
+  WorkingHoursOverrides,
+} from './appointments'
+
+// Calendar export
+export {
+  ICS_CONTENT_TYPE,
+  buildCalendar,
+  buildVTimezone,
+  appointmentToEvent,
+  getAppointmentUid,
+  formatICSDateTime,
+  formatICSUtc,
+  escapeICSText,
+  foldICSLine,
+} from './ics'
+
+export type { CalendarEvent, CalendarOptions } from './ics'
+
+// Public lead capture
+export {
+  LeadCaptureManager,
+  leadCaptureSchema,
+  createRecaptchaVerifier,
+  createRateLimiter,
+} from './lead-capture'
+
+export type {
+  LeadCaptureInput,
+  LeadCaptureResult,
+  LeadCaptureDependencies,
+  CaptchaVerifier,
+  RecaptchaVerifierOptions,
+  RateLimiter,
+  RateLimitResult,
+} from './lead-capture'
+
+// Service areas
+export {
+  ServiceAreaManager,
+  serviceAreaSchema,
+  serviceAreaPolygonSchema,
+  serviceAreaLookupSchema,
+  zipCodeSchema,
+  matchServiceArea,
+  pointInPolygon,
+  extractZipCode,
+} from './service-areas'
+
+export type {
+  GeoPoint,
+  ServiceAreaInput,
+  ServiceAreaPolygon,
+  ServiceAreaLookupQuery,
+  ServiceAreaRecord,
+  ServiceAreaDatabaseClient,
+  ServiceAreaLocation,
+  ServiceAreaMatch,
+  ServiceAreaMatchType,
+} from './service-areas'
+
+// WhatsApp click-to-chat links and Business API alerts
+export {
+  WhatsAppAlertManager,
+  buildWhatsAppLink,
+  createWhatsAppCloudProvider,
+  getLocalizedServiceName,
+  getWhatsAppInquiry,
+  getWhatsAppReply,
+  toWhatsAppNumber,
+} from './whatsapp'
+
+export type {
+  WhatsAppAlertDatabaseClient,
+  WhatsAppAlertResult,
+  WhatsAppCloudProviderOptions,
+  WhatsAppProvider,
+  WhatsAppTemplateMessage,
+} from './whatsapp'
+
+// API response helpers
+export { toAPIError, apiJson, apiError, getClientIp, NO_STORE_HEADERS } from './api'
+export type { APIError } from './api'
+
+// Content REST API schemas
+export {
+  serviceDataSchema,
+  postDataSchema,
+  pageDataSchema,
+  projectDataSchema,
+  testimonialDataSchema,
+  teamMemberDataSchema,
+  serviceListQuerySchema,
+  postListQuerySchema,
+  pageListQuerySchema,
+  projectListQuerySchema,
+  testimonialListQuerySchema,
+  teamMemberListQuerySchema,
+  serviceAreaListQuerySchema,
+  toContentSlug,
+  toListOptions,
+} from './content-api'
+
+export type {
+  ServiceData,
+  PostData,
+  PageData,
+  ProjectData,
+  TestimonialData,
+  TeamMemberData,
+  ContentListQuery,
+} from './content-api'
+
+// Cache revalidation between the CMS and the web app
+export {
+  REVALIDATION_TAGS,
+  REVALIDATION_SIGNATURE_HEADER,
+  revalidationPayloadSchema,
+  getRevalidationTags,
+  getContentTag,
+  cacheContentRead,
+  signRevalidationPayload,
+  verifyRevalidationSignature,
+  parseRevalidationRequest,
+  createRevalidationSender,
+} from './revalidation'
+
+export type {
+  ContentCache,
+  RevalidationModel,
+  RevalidationPayload,
+  RevalidationLog,
+  RevalidationLogEntry,
+  RevalidationSender,
+  RevalidationSenderOptions,
+} from './revalidation'
+
 // Content management exports
 export {
   ContentManager,
@@ -65,11 +368,12 @@ export {
   generateBreadcrumbs,
 } from './content'
 
-// Constants
+// Constants. Prisma-backed enums are generated from schema.prisma into
+// @workspace/config and only re-exposed here.
 export const BUSINESS_CONSTANTS = {
-  LEAD_SOURCES: ['WEBSITE', 'PHONE', 'EMAIL', 'REFERRAL', 'SOCIAL', 'OTHER'] as const,
-  LEAD_PRIORITIES: ['LOW', 'MEDIUM', 'HIGH', 'URGENT'] as const,
-  LEAD_STATUSES: ['NEW', 'CONTACTED', 'QUALIFIED', 'QUOTED', 'WON', 'LOST'] as const,
+  LEAD_SOURCES: LEAD_SOURCES,
+  LEAD_PRIORITIES: PRIORITIES,
+  LEAD_STATUSES: LEAD_STATUSES,
   SERVICE_CATEGORIES: [
     'hvac_installation',
     'hvac_repair', 
@@ -88,51 +392,21 @@ export const BUSINESS_CONSTANTS = {
     'emergency',
     'maintenance',
   ] as const,
-  CONTENT_STATUSES: ['DRAFT', 'PUBLISHED', 'ARCHIVED'] as const,
-  PRICE_TYPES: ['FIXED', 'HOURLY', 'QUOTE'] as const,
-  URGENCY_LEVELS: ['IMMEDIATE', 'WITHIN_24H', 'WITHIN_WEEK', 'FLEXIBLE'] as const,
+  CONTENT_STATUSES: CONTENT_STATUSES,
+  PRICE_TYPES: PRICE_TYPES,
+  URGENCY_LEVELS: URGENCIES,
 } as const
 
 // Error classes
-export class BusinessError extends Error {
-  constructor(
-    message: string,
-    public code: string,
-    public statusCode: number = 400
-  ) {
-    super(message)
-    this.name = 'BusinessError'
-  }
-}
-
-export class ValidationError extends BusinessError {
-  constructor(message: string, public field?: string) {
-    super(message, 'VALIDATION_ERROR', 400)
-    this.name = 'ValidationError'
-  }
-}
-
-export class NotFoundError extends BusinessError {
-  constructor(resource: string, id?: string) {
-    const message = id ? `${resource} with id ${id} not found` : `${resource} not found`
-    super(message, 'NOT_FOUND', 404)
-    this.name = 'NotFoundError'
-  }
-}
-
-export class UnauthorizedError extends BusinessError {
-  constructor(message: string = 'Unauthorized access') {
-    super(message, 'UNAUTHORIZED', 401)
-    this.name = 'UnauthorizedError'
-  }
-}
-
-export class ConflictError extends BusinessError {
-  constructor(message: string) {
-    super(message, 'CONFLICT', 409)
-    this.name = 'ConflictError'
-  }
-}
+export {
+  BusinessError,
+  ValidationError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ConflictError,
+  RateLimitError,
+} from './errors'
 
 // Helper functions
 export function handleBusinessError(error: unknown): BusinessError {
@@ -156,13 +430,14 @@ export function createSuccessResponse<T>(data: T, message?: string) {
   }
 }
 
-export function createErrorResponse(error: BusinessError) {
+export function createErrorResponse(error: BusinessError, details?: Record<string, unknown>) {
   return {
     success: false,
     error: {
       code: error.code,
       message: error.message,
       statusCode: error.statusCode,
+      ...(details && { details }),
     },
     timestamp: new Date().toISOString(),
   }
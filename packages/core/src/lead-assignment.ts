@@ -0,0 +1,197 @@
+import { LEAD_CONFIG, type Priority, type Urgency, type UserRole } from '@workspace/config'
+import {
+  CLOSED_LEAD_STATUSES,
+  LeadManager,
+  type LeadDatabaseClient,
+  type LeadRecord,
+} from './business'
+import type { DatabaseDelegate } from './database'
+import { NotFoundError, ValidationError } from './errors'
+
+// Roles that can own a lead. Round-robin only routes to agents; editors and
+// admins can still be given leads by hand or through a rule.
+export const LEAD_OWNER_ROLES: readonly UserRole[] = ['AGENT', 'EDITOR', 'ADMIN']
+
+export interface AssignmentUser {
+  id: string
+  name: string | null
+  role: UserRole
+  active: boolean
+  lastAssignedAt: Date | null
+}
+
+export interface LeadAssignmentRuleRecord {
+  id: string
+  name: string
+  serviceCategory: string | null
+  priority: Priority | null
+  urgency: Urgency | null
+  agentIds: string[]
+  order: number
+  active: boolean
+}
+
+// What a rule can match on
+export interface LeadRoutingFacts {
+  serviceCategory: string | null
+  priority: Priority
+  urgency: Urgency
+}
+
+export interface LeadAssignmentDatabaseClient extends LeadDatabaseClient {
+  user: DatabaseDelegate<'user', 'findUnique' | 'findMany' | 'update'>
+  service: DatabaseDelegate<'service', 'findUnique'>
+  leadAssignmentRule: DatabaseDelegate<'leadAssignmentRule', 'findMany'>
+}
+
+export interface AutoAssignResult {
+  lead: LeadRecord
+  assignee: AssignmentUser
+  rule: LeadAssignmentRuleRecord | null
+}
+
+// A rule matches when every criterion it sets equals the lead's; a rule
+// without criteria matches every lead
+export function matchesAssignmentRule(rule: LeadAssignmentRuleRecord, facts: LeadRoutingFacts): boolean {
+  return (
+    (!rule.serviceCategory || rule.serviceCategory === facts.serviceCategory) &&
+    (!rule.priority || rule.priority === facts.priority) &&
+    (!rule.urgency || rule.urgency === facts.urgency)
+  )
+}
+
+/**
+ * Round-robin pick: the user who was given a lead longest ago, with users
+ * who never had one first. Ties go to the lowest id so the order is stable.
+ */
+export function pickNextAssignee<T extends Pick<AssignmentUser, 'id' | 'lastAssignedAt'>>(users: T[]): T | null {
+  const time = (user: T) => user.lastAssignedAt?.getTime() ?? -Infinity
+
+  return (
+    [...users].sort((a, b) => time(a) - time(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))[0] ?? null
+  )
+}
+
+// Most urgent first, then the earliest follow-up, then the oldest lead
+function compareQueue(a: LeadRecord, b: LeadRecord): number {
+  const priority = LEAD_CONFIG.PRIORITIES[b.priority].score - LEAD_CONFIG.PRIORITIES[a.priority].score
+  if (priority !== 0) return priority
+
+  const followUp = (a.followUpDate?.getTime() ?? Infinity) - (b.followUpDate?.getTime() ?? Infinity)
+  if (followUp !== 0 && !Number.isNaN(followUp)) return followUp
+
+  return a.createdAt.getTime() - b.createdAt.getTime()
+}
+
+/**
+ * Decides who works each lead. Every assignment goes through
+ * LeadManager.assignLead, so it lands on the lead's timeline with the
+ * strategy that picked the assignee.
+ */
+export class LeadAssignmentManager {
+  private readonly leads: LeadManager
+
+  constructor(
+    private readonly db: LeadAssignmentDatabaseClient,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.leads = new LeadManager(db)
+  }
+
+  // Manual assignment by a manager. Pass null to unassign.
+  async assign(leadId: string, userId: string | null, options: { actorId?: string } = {}) {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+
+    if (lead.assignedToId === userId) return lead
+
+    if (userId === null) {
+      return this.leads.assignLead(leadId, null, { ...options, strategy: 'manual' })
+    }
+
+    const user = await this.db.user.findUnique({ where: { id: userId } })
+    if (!user || !LEAD_OWNER_ROLES.includes(user.role)) {
+      throw new NotFoundError('Assignee', userId)
+    }
+    if (!user.active) {
+      throw new ValidationError('Inactive users cannot be given leads', 'assignedToId')
+    }
+
+    const assigned = await this.leads.assignLead(leadId, user, { ...options, strategy: 'manual' })
+    await this.markAssigned(user.id)
+    return assigned
+  }
+
+  /**
+   * Routes an unassigned lead. The first active rule that matches picks from
+   * its agent pool; without one, every active agent takes turns. Returns
+   * null when the lead already has an owner or nobody can take it.
+   */
+  async autoAssign(leadId: string, options: { actorId?: string } = {}): Promise<AutoAssignResult | null> {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+
+    if (lead.assignedToId) return null
+
+    const [rules, owners, service] = await Promise.all([
+      this.db.leadAssignmentRule.findMany({ where: { active: true }, orderBy: { order: 'asc' } }),
+      this.db.user.findMany({ where: { role: { in: [...LEAD_OWNER_ROLES] }, active: true } }),
+      lead.serviceId
+        ? this.db.service.findUnique({ where: { id: lead.serviceId }, select: { category: true } })
+        : null,
+    ])
+
+    const facts: LeadRoutingFacts = {
+      serviceCategory: service?.category ?? null,
+      priority: lead.priority,
+      urgency: lead.urgency,
+    }
+
+    let rule: LeadAssignmentRuleRecord | null = null
+    let assignee: AssignmentUser | null = null
+
+    for (const candidate of rules) {
+      if (!matchesAssignmentRule(candidate, facts)) continue
+
+      // Rules whose pool is empty or inactive fall through to the next one
+      assignee = pickNextAssignee(owners.filter((owner) => candidate.agentIds.includes(owner.id)))
+      if (assignee) {
+        rule = candidate
+        break
+      }
+    }
+
+    assignee ??= pickNextAssignee(owners.filter((owner) => owner.role === 'AGENT'))
+    if (!assignee) return null
+
+    const assigned = await this.leads.assignLead(lead.id, assignee, {
+      ...options,
+      strategy: rule ? 'rule' : 'round_robin',
+      ...(rule && { ruleId: rule.id }),
+    })
+    await this.markAssigned(assignee.id)
+
+    return { lead: assigned, assignee, rule }
+  }
+
+  // An agent's "my leads" queue: open leads they own, most urgent first
+  async getQueue(userId: string, options: { includeClosed?: boolean } = {}): Promise<LeadRecord[]> {
+    const leads = await this.db.lead.findMany({
+      where: {
+        assignedToId: userId,
+        ...(!options.includeClosed && { status: { notIn: [...CLOSED_LEAD_STATUSES] } }),
+      },
+    })
+
+    return leads.sort(compareQueue)
+  }
+
+  // Moves the user to the back of the round-robin line
+  private async markAssigned(userId: string) {
+    await this.db.user.update({ where: { id: userId }, data: { lastAssignedAt: this.now() } })
+  }
+}
@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { LEAD_CONFIG } from '@workspace/config'
+import { BusinessError, RateLimitError } from './errors'
+import {
+  LeadManager,
+  leadSchema,
+  sanitizeLeadPhone,
+  type LeadDatabaseClient,
+  type LeadRecord,
+} from './business'
+import { ServiceAreaManager, type ServiceAreaDatabaseClient } from './service-areas'
+
+// Public lead capture: rate limiting, CAPTCHA verification, deduplication and
+// service area tagging in front of LeadManager.createLead.
+
+// Visitors cannot set internal triage fields
+export const leadCaptureSchema = leadSchema
+  .omit({ priority: true, estimatedValue: true })
+  .extend({
+    captchaToken: z.string().min(1, 'CAPTCHA token is required'),
+  })
+
+export type LeadCaptureInput = z.input<typeof leadCaptureSchema>
+
+export interface CaptchaVerifier {
+  verify(token: string, remoteIp?: string): Promise<boolean>
+}
+
+export interface RecaptchaVerifierOptions {
+  secretKey?: string
+  // Lets local development run without reCAPTCHA keys
+  allowWithoutSecret?: boolean
+  // reCAPTCHA v3 only; v2 responses carry no score
+  minScore?: number
+  fetch?: typeof fetch
+}
+
+const RECAPTCHA_VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify'
+
+export function createRecaptchaVerifier(options: RecaptchaVerifierOptions): CaptchaVerifier {
+  const { secretKey, allowWithoutSecret = false, minScore = 0.5, fetch: fetcher = fetch } = options
+
+  return {
+    async verify(token, remoteIp) {
+      if (!secretKey) {
+        return allowWithoutSecret
+      }
+
+      const body = new URLSearchParams({ secret: secretKey, response: token })
+      if (remoteIp && remoteIp !== 'unknown') {
+        body.set('remoteip', remoteIp)
+      }
+
+      try {
+        const response = await fetcher(RECAPTCHA_VERIFY_URL, { method: 'POST', body })
+        const result = (await response.json()) as { success: boolean; score?: number }
+        return result.success && (result.score === undefined || result.score >= minScore)
+      } catch (error) {
+        console.error('reCAPTCHA verification failed:', error)
+        return false
+      }
+    },
+  }
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number
+}
+
+export interface RateLimiter {
+  hit(key: string): RateLimitResult
+}
+
+/**
+ * Fixed-window limiter kept in memory, so limits apply per server instance.
+ * `limit` matches the entries in API_CONFIG.RATE_LIMITS.
+ */
+export function createRateLimiter(
+  limit: { requests: number; window: number },
+  now: () => number = Date.now
+): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    hit(key) {
+      const timestamp = now()
+
+      for (const [entryKey, entry] of windows) {
+        if (entry.resetAt <= timestamp) windows.delete(entryKey)
+      }
+
+      const entry = windows.get(key) ?? { count: 0, resetAt: timestamp + limit.window }
+      entry.count += 1
+      windows.set(key, entry)
+
+      const allowed = entry.count <= limit.requests
+      return {
+        allowed,
+        remaining: Math.max(0, limit.requests - entry.count),
+        retryAfterMs: allowed ? 0 : entry.resetAt - timestamp,
+      }
+    },
+  }
+}
+
+export interface LeadCaptureDependencies {
+  db: LeadDatabaseClient & ServiceAreaDatabaseClient
+  captcha: CaptchaVerifier
+  rateLimiter: RateLimiter
+  dedupWindowMs?: number
+  now?: () => Date
+}
+
+export interface LeadCaptureResult {
+  lead: LeadRecord
+  duplicate: boolean
+}
+
+export class LeadCaptureManager {
+  private readonly leads: LeadManager
+  private readonly serviceAreas: ServiceAreaManager
+
+  constructor(private readonly deps: LeadCaptureDependencies) {
+    this.leads = new LeadManager(deps.db)
+    this.serviceAreas = new ServiceAreaManager(deps.db)
+  }
+
+  /**
+   * Captures a public submission. A repeat from the same email or phone
+   * inside the dedup window is logged on the existing lead instead of
+   * creating a new one. Pass `dedup: false` when the submission acts on the
+   * lead, such as a booking, so nobody can act on another customer's lead by
+   * knowing their email or phone.
+   */
+  async captureLead(input: unknown, context: { ip: string; dedup?: boolean }): Promise<LeadCaptureResult> {
+    const limit = this.deps.rateLimiter.hit(context.ip)
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterMs)
+    }
+
+    const { captchaToken, ...data } = leadCaptureSchema.parse(input)
+
+    if (!(await this.deps.captcha.verify(captchaToken, context.ip))) {
+      throw new BusinessError('CAPTCHA verification failed', 'CAPTCHA_FAILED', 400)
+    }
+
+    const existing = context.dedup === false ? null : await this.findRecentLead(data.email, data.phone)
+    if (existing) {
+      await this.leads.addLeadActivity(existing.id, 'NOTE', 'Repeat submission', data.message)
+      return { lead: existing, duplicate: true }
+    }
+
+    const lead = await this.leads.createLead(data, await this.serviceAreas.matchLead(data))
+    return { lead, duplicate: false }
+  }
+
+  private async findRecentLead(email: string, phone: string): Promise<LeadRecord | null> {
+    const now = this.deps.now?.() ?? new Date()
+    const windowMs = this.deps.dedupWindowMs ?? LEAD_CONFIG.DEDUP_WINDOW
+
+    const [lead] = await this.deps.db.lead.findMany({
+      where: {
+        OR: [{ email }, { phone: sanitizeLeadPhone(phone) }],
+        createdAt: { gte: new Date(now.getTime() - windowMs) },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 1,
+    })
+
+    return lead ?? null
+  }
+}
@@ -0,0 +1,240 @@
+import { addHours } from 'date-fns'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  LEAD_CONFIG,
+  PRIORITIES,
+  addDaysToDateKey,
+  getNextOpening,
+  toDateKeyIn,
+  zonedDateTime,
+  type BusinessCalendar,
+  type Priority,
+  type Urgency,
+} from '@workspace/config'
+import { CLOSED_LEAD_STATUSES, LeadManager, type LeadDatabaseClient, type LeadRecord } from './business'
+import { BusinessCalendarManager } from './business-calendar'
+import type { DatabaseDelegate } from './database'
+import type { SettingsDatabaseClient } from './settings'
+
+export interface FollowUpRecipient {
+  id: string
+  name: string | null
+  email: string
+}
+
+// One digest per owner. Unassigned leads are sent with a null assignee.
+export interface FollowUpReminder {
+  assignee: FollowUpRecipient | null
+  overdue: LeadRecord[]
+  dueToday: LeadRecord[]
+}
+
+export interface FollowUpNotifier {
+  sendReminder(reminder: FollowUpReminder): Promise<void>
+}
+
+export interface FollowUpDatabaseClient extends LeadDatabaseClient, SettingsDatabaseClient {
+  user: DatabaseDelegate<'user', 'findMany'>
+}
+
+export interface FollowUpRunResult {
+  scheduled: number
+  breached: number
+  reminders: number
+  failedReminders: number
+}
+
+const OPEN_LEADS = { status: { notIn: [...CLOSED_LEAD_STATUSES] } }
+
+export type FollowUpWindow = 'overdue' | 'today'
+
+// Midnight starting the business day `date` falls on, and the next midnight.
+// Days turn over in the calendar's time zone, not the server's.
+function getBusinessDayBounds(date: Date, calendar: BusinessCalendar) {
+  const today = toDateKeyIn(date, calendar.timezone)
+  return {
+    start: zonedDateTime(today, 0, calendar.timezone),
+    end: zonedDateTime(addDaysToDateKey(today, 1), 0, calendar.timezone),
+  }
+}
+
+// Where filter for open leads whose follow-up is overdue or due later today
+export function followUpWhere(
+  window: FollowUpWindow,
+  now: Date,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+) {
+  return {
+    ...OPEN_LEADS,
+    followUpDate: window === 'overdue' ? { lt: now } : { gte: now, lt: getBusinessDayBounds(now, calendar).end },
+  }
+}
+
+// The moment the SLA clock is running at or after `date`. A calendar that
+// never opens again leaves the clock running.
+export function nextBusinessMoment(date: Date, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): Date {
+  return getNextOpening(date, calendar) ?? date
+}
+
+/**
+ * Response deadline for a lead received at `receivedAt`. The window from
+ * LEAD_CONFIG.URGENCY_LEVELS starts at the next business moment, and a
+ * deadline that lands while the office is closed moves to the next opening.
+ */
+export function computeSlaDeadline(
+  receivedAt: Date,
+  urgency: Urgency,
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): Date {
+  const start = nextBusinessMoment(receivedAt, calendar)
+  return nextBusinessMoment(addHours(start, LEAD_CONFIG.URGENCY_LEVELS[urgency].hours), calendar)
+}
+
+// One step up the priority ladder; URGENT stays URGENT
+export function escalatePriority(priority: Priority): Priority {
+  return PRIORITIES[Math.min(PRIORITIES.indexOf(priority) + 1, PRIORITIES.length - 1)]
+}
+
+const byFollowUp = (a: LeadRecord, b: LeadRecord) => a.followUpDate!.getTime() - b.followUpDate!.getTime()
+
+/**
+ * Keeps every open lead on a follow-up deadline. `run` is meant to be called
+ * by a scheduled job: it gives new leads an SLA deadline, escalates leads
+ * that missed theirs and sends owners a daily digest of what is due.
+ */
+export class FollowUpScheduler {
+  private readonly leads: LeadManager
+  private readonly calendars: BusinessCalendarManager
+
+  constructor(
+    private readonly db: FollowUpDatabaseClient,
+    private readonly notifier: FollowUpNotifier | null = null,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.leads = new LeadManager(db)
+    this.calendars = new BusinessCalendarManager(db)
+  }
+
+  async run(): Promise<FollowUpRunResult> {
+    const scheduled = await this.scheduleDeadlines()
+    const breached = await this.escalateBreaches()
+    const { sent, failed } = await this.sendReminders()
+
+    return { scheduled, breached, reminders: sent, failedReminders: failed }
+  }
+
+  // Open leads whose follow-up date has passed, oldest deadline first
+  async getOverdue(options: { assignedToId?: string } = {}): Promise<LeadRecord[]> {
+    const leads = await this.db.lead.findMany({ where: { ...options, ...followUpWhere('overdue', this.now()) } })
+    return leads.sort(byFollowUp)
+  }
+
+  // Open leads due between now and the end of today
+  async getDueToday(options: { assignedToId?: string } = {}): Promise<LeadRecord[]> {
+    const calendar = await this.calendars.getCalendar()
+    const leads = await this.db.lead.findMany({
+      where: { ...options, ...followUpWhere('today', this.now(), calendar) },
+    })
+    return leads.sort(byFollowUp)
+  }
+
+  // Open leads without a follow-up date get their SLA deadline
+  private async scheduleDeadlines() {
+    const leads = await this.db.lead.findMany({ where: { ...OPEN_LEADS, followUpDate: null } })
+    if (leads.length === 0) return 0
+
+    const calendar = await this.calendars.getCalendar()
+    for (const lead of leads) {
+      await this.db.lead.update({
+        where: { id: lead.id },
+        data: { followUpDate: computeSlaDeadline(lead.createdAt, lead.urgency, calendar) },
+      })
+    }
+
+    return leads.length
+  }
+
+  /**
+   * Each missed deadline is escalated once. Moving the follow-up date past
+   * the last breach arms the lead again.
+   */
+  private async escalateBreaches() {
+    const now = this.now()
+    const overdue = await this.getOverdue()
+    const breaches = overdue.filter((lead) => !lead.slaBreachedAt || lead.slaBreachedAt < lead.followUpDate!)
+
+    for (const lead of breaches) {
+      const priority = escalatePriority(lead.priority)
+
+      await this.db.lead.update({
+        where: { id: lead.id },
+        data: {
+          priority,
+          slaBreachedAt: now,
+          activities: {
+            create: {
+              type: 'SLA_BREACHED',
+              title:
+                priority === lead.priority
+                  ? 'Follow-up deadline missed'
+                  : `Follow-up deadline missed, priority raised to ${LEAD_CONFIG.PRIORITIES[priority].name}`,
+              metadata: { dueAt: lead.followUpDate!.toISOString(), from: lead.priority, to: priority },
+            },
+          },
+        },
+      })
+      await this.leads.rescoreLead(lead.id)
+    }
+
+    return breaches.length
+  }
+
+  // At most one reminder per lead per day. Failed sends are retried next run.
+  private async sendReminders() {
+    if (!this.notifier) return { sent: 0, failed: 0 }
+
+    const now = this.now()
+    const today = getBusinessDayBounds(now, await this.calendars.getCalendar())
+    const leads = await this.db.lead.findMany({
+      where: { ...OPEN_LEADS, followUpDate: { lt: today.end } },
+    })
+    const due = leads.filter((lead) => !lead.reminderSentAt || lead.reminderSentAt < today.start).sort(byFollowUp)
+    if (due.length === 0) return { sent: 0, failed: 0 }
+
+    const groups = new Map<string | null, LeadRecord[]>()
+    for (const lead of due) {
+      groups.set(lead.assignedToId, [...(groups.get(lead.assignedToId) ?? []), lead])
+    }
+
+    const ownerIds = [...groups.keys()].filter((id): id is string => id !== null)
+    const owners = await this.db.user.findMany({
+      where: { id: { in: ownerIds } },
+      select: { id: true, name: true, email: true },
+    })
+
+    let sent = 0
+    let failed = 0
+
+    for (const [ownerId, group] of groups) {
+      const assignee = owners.find((owner) => owner.id === ownerId) ?? null
+
+      try {
+        await this.notifier.sendReminder({
+          assignee,
+          overdue: group.filter((lead) => lead.followUpDate! < now),
+          dueToday: group.filter((lead) => lead.followUpDate! >= now),
+        })
+      } catch {
+        failed++
+        continue
+      }
+
+      for (const lead of group) {
+        await this.db.lead.update({ where: { id: lead.id }, data: { reminderSentAt: now } })
+      }
+      sent++
+    }
+
+    return { sent, failed }
+  }
+}
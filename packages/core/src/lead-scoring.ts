@@ -0,0 +1,82 @@
+import {
+  LEAD_CONFIG,
+  LEAD_SOURCES,
+  PRICING_CONFIG,
+  URGENCIES,
+  type LeadSource,
+  type Urgency,
+} from '@workspace/config'
+import type { LeadActivityType } from './business'
+
+// Activities that count as talking to the customer
+export const ENGAGEMENT_ACTIVITY_TYPES: readonly LeadActivityType[] = ['CALL', 'EMAIL', 'MEETING', 'PROPOSAL']
+
+export interface LeadScoreFacts {
+  source: LeadSource
+  urgency: Urgency
+  serviceType: string | null
+  estimatedValue: number | null
+  // From the lead's service area tag
+  inServiceArea: boolean | null
+  travelSurcharge: number | null
+  // Number of ENGAGEMENT_ACTIVITY_TYPES activities on the lead
+  interactions: number
+}
+
+export type LeadScoreFactor = keyof typeof LEAD_CONFIG.SCORING.WEIGHTS
+
+// Points earned per factor, plus the rounded total
+export type LeadScoreBreakdown = Record<LeadScoreFactor, number> & { total: number }
+
+const { WEIGHTS, ENGAGEMENT_TARGET, MAX_TRAVEL_SURCHARGE } = LEAD_CONFIG.SCORING
+
+type EstimateRange = { min: number; max: number }
+const ESTIMATE_RANGES: Record<string, EstimateRange> = PRICING_CONFIG.ESTIMATE_RANGES
+
+const TOP_SOURCE_PRIORITY = Math.max(...LEAD_SOURCES.map((source) => LEAD_CONFIG.SOURCES[source].priority))
+const TOP_SURCHARGE = Math.max(...URGENCIES.map((urgency) => LEAD_CONFIG.URGENCY_LEVELS[urgency].surcharge))
+const TOP_ESTIMATE = Math.max(...Object.values(ESTIMATE_RANGES).map((range) => range.max))
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// "AC Repair" and "ac-repair" both find `ac_repair`
+export function getServiceEstimateRange(serviceType: string | null): EstimateRange | null {
+  if (!serviceType) return null
+  return ESTIMATE_RANGES[serviceType.trim().toLowerCase().replace(/[\s-]+/g, '_')] ?? null
+}
+
+// Each factor rated 0-1
+function rateFactors(facts: LeadScoreFacts): Record<LeadScoreFactor, number> {
+  // Lower source priority numbers rank first
+  const source = (TOP_SOURCE_PRIORITY - LEAD_CONFIG.SOURCES[facts.source].priority) / (TOP_SOURCE_PRIORITY - 1)
+
+  const range = getServiceEstimateRange(facts.serviceType)
+  const value = facts.estimatedValue ?? (range ? (range.min + range.max) / 2 : 0)
+
+  return {
+    source: clamp(source),
+    urgency: TOP_SURCHARGE > 0 ? LEAD_CONFIG.URGENCY_LEVELS[facts.urgency].surcharge / TOP_SURCHARGE : 0,
+    value: clamp(value / TOP_ESTIMATE),
+    // Closer areas carry smaller travel surcharges; unknown or out-of-area
+    // locations earn nothing
+    distance: facts.inServiceArea ? clamp(1 - (facts.travelSurcharge ?? 0) / MAX_TRAVEL_SURCHARGE) : 0,
+    engagement: clamp(facts.interactions / ENGAGEMENT_TARGET),
+  }
+}
+
+/**
+ * Weighted lead score out of 100, using LEAD_CONFIG.SCORING. Factor points
+ * keep one decimal place so the breakdown can be shown to agents.
+ */
+export function scoreLead(facts: LeadScoreFacts): LeadScoreBreakdown {
+  const ratings = rateFactors(facts)
+  const points = Object.fromEntries(
+    (Object.keys(WEIGHTS) as LeadScoreFactor[]).map((factor) => [
+      factor,
+      Math.round(ratings[factor] * WEIGHTS[factor] * 10) / 10,
+    ])
+  ) as Record<LeadScoreFactor, number>
+
+  const total = Object.values(points).reduce((sum, value) => sum + value, 0)
+  return { ...points, total: Math.round(total) }
+}
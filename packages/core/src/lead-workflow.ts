@@ -0,0 +1,50 @@
+import { getNextLeadStatuses, isLeadTransitionAllowed, type LeadStatus } from '@workspace/config'
+import { ConflictError, ValidationError } from './errors'
+import type { LeadRecord } from './business'
+
+// Lead status workflow. The allowed moves come from LEAD_CONFIG.STATUSES;
+// guards add per-status requirements on top of that table.
+
+export interface LeadTransitionGuard {
+  field: keyof LeadRecord
+  message: string
+  isSatisfied(lead: LeadRecord): boolean
+}
+
+export const LEAD_TRANSITION_GUARDS: Partial<Record<LeadStatus, LeadTransitionGuard[]>> = {
+  WON: [
+    {
+      field: 'estimatedValue',
+      message: 'An estimated value is required before a lead can be marked as won',
+      isSatisfied: (lead) => lead.estimatedValue !== null && lead.estimatedValue !== undefined,
+    },
+  ],
+}
+
+export function getAllowedLeadTransitions(status: LeadStatus): readonly LeadStatus[] {
+  return getNextLeadStatuses(status)
+}
+
+export function canTransitionLead(lead: LeadRecord, to: LeadStatus): boolean {
+  return (
+    isLeadTransitionAllowed(lead.status, to) &&
+    (LEAD_TRANSITION_GUARDS[to] ?? []).every((guard) => guard.isSatisfied(lead))
+  )
+}
+
+/**
+ * Throws a ConflictError when the workflow does not allow moving the lead to
+ * `to`, or a ValidationError naming the missing field when a guard fails.
+ * `lead` should already include any changes submitted with the transition.
+ */
+export function assertLeadTransition(lead: LeadRecord, to: LeadStatus): void {
+  if (!isLeadTransitionAllowed(lead.status, to)) {
+    throw new ConflictError(`Cannot move lead from ${lead.status} to ${to}`)
+  }
+
+  for (const guard of LEAD_TRANSITION_GUARDS[to] ?? []) {
+    if (!guard.isSatisfied(lead)) {
+      throw new ValidationError(guard.message, guard.field)
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { addDays, format } from 'date-fns'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { BUSINESS_INFO, QUOTE_ITEM_TYPE_META } from '@workspace/config'
+import { decimalToNumber, formatCurrency, formatPhoneNumber, type LeadRecord } from './business'
+import type { FinancingOffer } from './financing'
+import { formatQuoteNumber, type QuoteRecord } from './quotes'
+
+export type QuoteCustomer = Pick<LeadRecord, 'name' | 'email' | 'phone' | 'company'>
+
+// US Letter in points
+const PAGE = { width: 612, height: 792, margin: 50 }
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2
+
+const INK = rgb(0.13, 0.13, 0.13)
+const MUTED = rgb(0.42, 0.42, 0.45)
+const RULE = rgb(0.85, 0.85, 0.87)
+
+// Item columns. Description starts at its x; the others end at theirs.
+const COLUMNS = { description: 0, type: 300, quantity: 370, unitPrice: 440, amount: CONTENT_WIDTH }
+
+const money = (value: Parameters<typeof decimalToNumber>[0]) => formatCurrency(decimalToNumber(value) ?? 0)
+const day = (date: Date) => format(date, 'MMM d, yyyy')
+
+interface TextOptions {
+  size?: number
+  font?: PDFFont
+  color?: typeof INK
+  align?: 'left' | 'right'
+}
+
+/**
+ * Lays text out top to bottom, starting a new page when the next block would
+ * run into the bottom margin.
+ */
+class QuoteLayout {
+  page: PDFPage
+  y: number
+
+  constructor(
+    private readonly doc: PDFDocument,
+    readonly regular: PDFFont,
+    readonly bold: PDFFont
+  ) {
+    this.page = doc.addPage([PAGE.width, PAGE.height])
+    this.y = PAGE.height - PAGE.margin
+  }
+
+  fits(height: number) {
+    return this.y - height >= PAGE.margin
+  }
+
+  ensureSpace(height: number) {
+    if (this.fits(height)) return
+    this.page = this.doc.addPage([PAGE.width, PAGE.height])
+    this.y = PAGE.height - PAGE.margin
+  }
+
+  // The standard fonts only cover WinAnsi, so other characters print as "?"
+  clean(text: string, font: PDFFont = this.regular) {
+    const supported = new Set(font.getCharacterSet())
+    const chars = Array.from(text.replace(/\r?\n/g, ' '))
+    return chars.map((char) => (supported.has(char.codePointAt(0)!) ? char : '?')).join('')
+  }
+
+  text(text: string, x: number, options: TextOptions = {}) {
+    const { size = 10, font = this.regular, color = INK, align = 'left' } = options
+    const value = this.clean(text, font)
+    const left = align === 'right' ? x - font.widthOfTextAtSize(value, size) : x
+    this.page.drawText(value, { x: PAGE.margin + left, y: this.y, size, font, color })
+  }
+
+  // Splits text into lines no wider than `width`
+  wrap(text: string, width: number, size = 10, font: PDFFont = this.regular): string[] {
+    const lines: string[] = []
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const next = line ? `${line} ${word}` : word
+        if (line && font.widthOfTextAtSize(this.clean(next, font), size) > width) {
+          lines.push(line)
+          line = word
+        } else {
+          line = next
+        }
+      }
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  paragraph(text: string, options: { size?: number; color?: typeof INK } = {}) {
+    const size = options.size ?? 10
+    for (const line of this.wrap(text, CONTENT_WIDTH, size)) {
+      this.ensureSpace(size + 4)
+      this.text(line, 0, { size, color: options.color })
+      this.y -= size + 4
+    }
+  }
+
+  rule() {
+    this.page.drawLine({
+      start: { x: PAGE.margin, y: this.y },
+      end: { x: PAGE.width - PAGE.margin, y: this.y },
+      thickness: 0.75,
+      color: RULE,
+    })
+  }
+}
+
+function drawHeader(layout: QuoteLayout, quote: QuoteRecord) {
+  const { address } = BUSINESS_INFO
+
+  layout.text(BUSINESS_INFO.name, 0, { size: 18, font: layout.bold })
+  layout.text('QUOTE', CONTENT_WIDTH, { size: 18, font: layout.bold, align: 'right' })
+  layout.y -= 18
+
+  const issued = quote.sentAt ?? quote.createdAt
+  const validUntil = quote.expiresAt ?? addDays(issued, quote.validDays)
+  const left = [
+    `${address.street}, ${address.city}, ${address.state} ${address.zip}`,
+    `${BUSINESS_INFO.phone}  |  ${BUSINESS_INFO.email}`,
+  ]
+  const right = [`No. ${formatQuoteNumber(quote)}`, `Issued ${day(issued)}`, `Valid until ${day(validUntil)}`]
+
+  for (let row = 0; row < Math.max(left.length, right.length); row++) {
+    if (left[row]) layout.text(left[row], 0, { size: 9, color: MUTED })
+    if (right[row]) layout.text(right[row], CONTENT_WIDTH, { size: 9, color: MUTED, align: 'right' })
+    layout.y -= 13
+  }
+
+  layout.y -= 8
+  layout.rule()
+  layout.y -= 22
+}
+
+function drawCustomer(layout: QuoteLayout, customer: QuoteCustomer) {
+  layout.text('PREPARED FOR', 0, { size: 8, font: layout.bold, color: MUTED })
+  layout.y -= 14
+
+  const lines = [customer.company, customer.email, customer.phone && formatPhoneNumber(customer.phone)]
+  layout.text(customer.name, 0, { size: 11, font: layout.bold })
+  layout.y -= 14
+
+  for (const line of lines.filter((value): value is string => Boolean(value))) {
+    layout.text(line, 0, { size: 10 })
+    layout.y -= 13
+  }
+
+  layout.y -= 12
+}
+
+function drawItemHeader(layout: QuoteLayout) {
+  const style = { size: 8, font: layout.bold, color: MUTED }
+  layout.text('DESCRIPTION', COLUMNS.description, style)
+  layout.text('TYPE', COLUMNS.type, { ...style, align: 'right' })
+  layout.text('QTY', COLUMNS.quantity, { ...style, align: 'right' })
+  layout.text('UNIT PRICE', COLUMNS.unitPrice, { ...style, align: 'right' })
+  layout.text('AMOUNT', COLUMNS.amount, { ...style, align: 'right' })
+  layout.y -= 6
+  layout.rule()
+  layout.y -= 14
+}
+
+function drawItems(layout: QuoteLayout, quote: QuoteRecord) {
+  layout.text(quote.title, 0, { size: 13, font: layout.bold })
+  layout.y -= 24
+  drawItemHeader(layout)
+
+  for (const item of quote.items) {
+    const lines = layout.wrap(item.description, 220)
+    const height = lines.length * 13 + 6
+
+    // Repeat the column headings at the top of each new page
+    if (!layout.fits(height)) {
+      layout.ensureSpace(height + 40)
+      drawItemHeader(layout)
+    }
+
+    layout.text(QUOTE_ITEM_TYPE_META[item.type].name, COLUMNS.type, { size: 9, color: MUTED, align: 'right' })
+    layout.text(String(decimalToNumber(item.quantity)), COLUMNS.quantity, { align: 'right' })
+    layout.text(money(item.unitPrice), COLUMNS.unitPrice, { align: 'right' })
+    layout.text(money(item.total), COLUMNS.amount, { align: 'right' })
+
+    for (const line of lines) {
+      layout.text(line, COLUMNS.description)
+      layout.y -= 13
+    }
+    layout.y -= 6
+  }
+
+  layout.rule()
+  layout.y -= 16
+}
+
+function drawTotals(layout: QuoteLayout, quote: QuoteRecord) {
+  const taxRate = (decimalToNumber(quote.taxRate) ?? 0) * 100
+  const rows: [string, string][] = [['Subtotal', money(quote.subtotal)]]
+
+  if ((decimalToNumber(quote.surcharge) ?? 0) > 0) {
+    rows.push(['Emergency service surcharge', money(quote.surcharge)])
+  }
+  rows.push([`Tax (${Number(taxRate.toFixed(3))}%)`, money(quote.tax)])
+
+  layout.ensureSpace(rows.length * 15 + 30)
+
+  for (const [label, value] of rows) {
+    layout.text(label, COLUMNS.unitPrice, { align: 'right', color: MUTED })
+    layout.text(value, COLUMNS.amount, { align: 'right' })
+    layout.y -= 15
+  }
+
+  layout.y -= 4
+  layout.text('Total', COLUMNS.unitPrice, { size: 12, font: layout.bold, align: 'right' })
+  layout.text(money(quote.total), COLUMNS.amount, { size: 12, font: layout.bold, align: 'right' })
+  layout.y -= 30
+}
+
+function drawFinancing(layout: QuoteLayout, offers: FinancingOffer[]) {
+  if (offers.length === 0) return
+
+  layout.ensureSpace(offers.length * 13 + 30)
+  layout.text('FINANCING AVAILABLE', 0, { size: 8, font: layout.bold, color: MUTED })
+  layout.y -= 15
+
+  for (const offer of offers) {
+    layout.text(`${offer.months} months at ${offer.apr}% APR`, 0)
+    layout.text(`${formatCurrency(offer.monthlyPayment)}/month`, 220, { align: 'right' })
+    layout.y -= 13
+  }
+
+  layout.y -= 4
+  layout.paragraph('Financing is subject to credit approval.', { size: 8, color: MUTED })
+  layout.y -= 12
+}
+
+function drawNotes(layout: QuoteLayout, notes: string | null) {
+  if (!notes) return
+
+  layout.ensureSpace(40)
+  layout.text('NOTES', 0, { size: 8, font: layout.bold, color: MUTED })
+  layout.y -= 15
+  layout.paragraph(notes)
+}
+
+function drawPageNumbers(doc: PDFDocument, font: PDFFont, quote: QuoteRecord) {
+  const pages = doc.getPages()
+
+  pages.forEach((page, index) => {
+    const label = `${formatQuoteNumber(quote)}  |  Page ${index + 1} of ${pages.length}`
+    page.drawText(label, {
+      x: PAGE.width - PAGE.margin - font.widthOfTextAtSize(label, 8),
+      y: PAGE.margin / 2,
+      size: 8,
+      font,
+      color: MUTED,
+    })
+  })
+}
+
+/**
+ * Customer-facing PDF for a quote: business letterhead, line items, totals,
+ * any financing offers and notes. Long quotes continue onto extra pages.
+ */
+export async function renderQuotePdf(quote: QuoteRecord, customer: QuoteCustomer): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(`Quote ${formatQuoteNumber(quote)}`)
+  doc.setAuthor(BUSINESS_INFO.name)
+  doc.setCreationDate(quote.sentAt ?? quote.createdAt)
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const layout = new QuoteLayout(doc, regular, bold)
+
+  drawHeader(layout, quote)
+  drawCustomer(layout, customer)
+  drawItems(layout, quote)
+  drawTotals(layout, quote)
+  drawFinancing(layout, Array.isArray(quote.financing) ? (quote.financing as FinancingOffer[]) : [])
+  drawNotes(layout, quote.notes)
+  drawPageNumbers(doc, regular, quote)
+
+  return doc.save()
+}
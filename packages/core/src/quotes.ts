@@ -0,0 +1,487 @@
+import { addDays } from 'date-fns'
+import { z } from 'zod'
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  PRICING_CONFIG,
+  calculateEmergencyRate,
+  quoteItemTypeSchema,
+  type BusinessCalendar,
+  type QuoteItemType,
+  type QuoteStatus,
+} from '@workspace/config'
+import type { Prisma } from '@workspace/database'
+import {
+  LeadManager,
+  decimalToNumber,
+  generateQuoteNumber,
+  type DecimalLike,
+  type LeadDatabaseClient,
+  type LeadRecord,
+} from './business'
+import { BusinessCalendarManager } from './business-calendar'
+import type { DatabaseDelegate } from './database'
+import type { SettingsDatabaseClient } from './settings'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import { getFinancingOffers, type FinancingOffer } from './financing'
+import { canTransitionLead } from './lead-workflow'
+
+// Labor and the diagnostic fee are priced from SERVICE_RATES unless overridden
+export const QUOTE_DEFAULT_UNIT_PRICES: Partial<Record<QuoteItemType, number>> = {
+  LABOR: PRICING_CONFIG.SERVICE_RATES.HOURLY_RATE,
+  DIAGNOSTIC: PRICING_CONFIG.SERVICE_RATES.DIAGNOSTIC,
+}
+
+export const quoteLineItemSchema = z
+  .object({
+    type: quoteItemTypeSchema,
+    description: z.string().trim().min(1, 'Description is required').max(200),
+    quantity: z.number().positive('Quantity must be greater than 0'),
+    unitPrice: z.number().min(0, 'Unit price cannot be negative').optional(),
+  })
+  .refine((item) => item.unitPrice !== undefined || QUOTE_DEFAULT_UNIT_PRICES[item.type] !== undefined, {
+    message: 'Unit price is required',
+    path: ['unitPrice'],
+  })
+
+export const quoteSchema = z.object({
+  title: z.string().trim().min(3, 'Title must be at least 3 characters').max(120),
+  notes: z.string().trim().max(5000).optional(),
+  items: z.array(quoteLineItemSchema).min(1, 'Add at least one line item').max(50),
+  emergency: z.boolean().default(false),
+  // Decides weekend and holiday surcharges on emergency work
+  serviceDate: z.coerce.date().optional(),
+  taxRate: z.number().min(0).max(0.25).default(PRICING_CONFIG.QUOTES.TAX_RATE),
+  validDays: z.number().int().min(1).max(365).default(PRICING_CONFIG.QUOTES.VALID_DAYS),
+  offerFinancing: z.boolean().default(true),
+})
+
+export type QuoteLineItemInput = z.input<typeof quoteLineItemSchema>
+export type QuoteInput = z.input<typeof quoteSchema>
+
+// What the customer submits from the quote page
+export const quoteAcceptanceSchema = z.object({
+  signatureName: z.string().trim().min(2, 'Type your full name to sign').max(100),
+  // One of the quote's financing terms, or null to pay in full
+  financingMonths: z.number().int().positive().nullable().default(null),
+  agreed: z.literal(true, { errorMap: () => ({ message: 'Please agree to the quote terms' }) }),
+})
+
+export const quoteDeclineSchema = z.object({
+  reason: z.string().trim().min(3, 'Please tell us why').max(2000),
+})
+
+export type QuoteAcceptanceInput = z.input<typeof quoteAcceptanceSchema>
+export type QuoteDeclineInput = z.input<typeof quoteDeclineSchema>
+
+export interface PricedLineItem {
+  type: QuoteItemType
+  description: string
+  quantity: number
+  unitPrice: number
+  total: number
+}
+
+export interface QuoteTotals {
+  items: PricedLineItem[]
+  subtotal: number
+  surcharge: number
+  tax: number
+  total: number
+}
+
+export interface QuoteLineItemRecord {
+  id: string
+  quoteId: string
+  type: QuoteItemType
+  description: string
+  quantity: DecimalLike
+  unitPrice: DecimalLike
+  total: DecimalLike
+  order: number
+}
+
+export interface QuoteRecord {
+  id: string
+  number: string
+  version: number
+  leadId: string
+  status: QuoteStatus
+  title: string
+  notes: string | null
+  emergency: boolean
+  serviceDate: Date | null
+  subtotal: DecimalLike
+  surcharge: DecimalLike
+  taxRate: DecimalLike
+  tax: DecimalLike
+  total: DecimalLike
+  financing: unknown
+  validDays: number
+  sentAt: Date | null
+  expiresAt: Date | null
+  acceptedAt: Date | null
+  signatureName: string | null
+  signatureIp: string | null
+  financingMonths: number | null
+  declinedAt: Date | null
+  declineReason: string | null
+  createdById: string | null
+  createdAt: Date
+  updatedAt: Date
+  items: QuoteLineItemRecord[]
+}
+
+// A quote row as stored, without its line items
+export type QuoteRow = Omit<QuoteRecord, 'items'>
+
+export interface QuoteDatabaseClient extends LeadDatabaseClient, SettingsDatabaseClient {
+  quote: DatabaseDelegate<'quote', 'create' | 'update' | 'findUnique' | 'findMany' | 'updateMany'>
+  quoteLineItem: DatabaseDelegate<'quoteLineItem', 'deleteMany'>
+}
+
+export interface QuoteActionOptions {
+  actorId?: string
+}
+
+export interface QuoteResponseOptions {
+  // Recorded with the signature
+  ip?: string
+}
+
+// A customer's answer to a sent quote, as handed to notifiers
+export interface QuoteResponse {
+  outcome: 'ACCEPTED' | 'DECLINED'
+  quote: QuoteRecord
+  lead: LeadRecord
+}
+
+export interface QuoteResponseNotifier {
+  quoteResponded(response: QuoteResponse): Promise<void>
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Line totals, the emergency surcharge and tax, all rounded to cents. The
+ * surcharge comes from calculateEmergencyRate for the service date, so
+ * weekend and holiday call-outs on the business calendar cost more.
+ */
+export function calculateQuoteTotals(
+  quote: Pick<z.output<typeof quoteSchema>, 'items' | 'emergency' | 'serviceDate' | 'taxRate'>,
+  now: Date = new Date(),
+  calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR
+): QuoteTotals {
+  const items = quote.items.map((item) => {
+    const unitPrice = item.unitPrice ?? QUOTE_DEFAULT_UNIT_PRICES[item.type] ?? 0
+    return { ...item, unitPrice, total: roundCents(item.quantity * unitPrice) }
+  })
+
+  const subtotal = roundCents(items.reduce((sum, item) => sum + item.total, 0))
+  const surcharge = quote.emergency ? calculateEmergencyRate(0, quote.serviceDate ?? now, calendar) : 0
+  const tax = roundCents((subtotal + surcharge) * quote.taxRate)
+
+  return { items, subtotal, surcharge, tax, total: roundCents(subtotal + surcharge + tax) }
+}
+
+// "Q20240115-0042 v2"
+export function formatQuoteNumber(quote: Pick<QuoteRecord, 'number' | 'version'>): string {
+  return quote.version > 1 ? `${quote.number} v${quote.version}` : quote.number
+}
+
+const WITH_ITEMS = { items: { orderBy: { order: 'asc' } } } as const
+
+// Prisma types the delegates without relations; queries passing WITH_ITEMS get them
+type WithItems<T> = T extends QuoteRow[] ? QuoteRecord[] : T extends QuoteRow ? QuoteRecord : T
+const withItems = <T extends QuoteRow | QuoteRow[] | null>(query: Promise<T>) => query as Promise<WithItems<T>>
+
+/**
+ * Quotes for a lead. A quote keeps its number across revisions: drafts are
+ * edited in place, and revising a quote that was already sent starts a new
+ * draft version. Sending a version supersedes the one the customer had.
+ */
+export class QuoteManager {
+  private readonly leads: LeadManager
+  private readonly calendars: BusinessCalendarManager
+
+  constructor(
+    private readonly db: QuoteDatabaseClient,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.leads = new LeadManager(db)
+    this.calendars = new BusinessCalendarManager(db)
+  }
+
+  async getQuote(quoteId: string): Promise<QuoteRecord> {
+    const quote = await withItems(this.db.quote.findUnique({ where: { id: quoteId }, include: WITH_ITEMS }))
+
+    if (!quote) {
+      throw new NotFoundError('Quote', quoteId)
+    }
+
+    return quote
+  }
+
+  // Newest first, every version included
+  async getLeadQuotes(leadId: string): Promise<QuoteRecord[]> {
+    return withItems(
+      this.db.quote.findMany({
+        where: { leadId },
+        orderBy: { createdAt: 'desc' },
+        include: WITH_ITEMS,
+      })
+    )
+  }
+
+  async createQuote(leadId: string, input: QuoteInput, options: QuoteActionOptions = {}) {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+
+    return withItems(
+      this.db.quote.create({
+        data: {
+          number: generateQuoteNumber(),
+          version: 1,
+          leadId,
+          createdById: options.actorId,
+          ...(await this.price(input)),
+        },
+        include: WITH_ITEMS,
+      })
+    )
+  }
+
+  async reviseQuote(quoteId: string, input: QuoteInput, options: QuoteActionOptions = {}) {
+    const quote = await this.getQuote(quoteId)
+    const data = await this.price(input)
+
+    if (quote.status === 'DRAFT') {
+      await this.db.quoteLineItem.deleteMany({ where: { quoteId } })
+      return withItems(this.db.quote.update({ where: { id: quoteId }, data, include: WITH_ITEMS }))
+    }
+
+    if (quote.status === 'ACCEPTED') {
+      throw new ConflictError(`Quote ${formatQuoteNumber(quote)} was accepted and can no longer be revised`)
+    }
+
+    const [latest] = await this.db.quote.findMany({
+      where: { number: quote.number },
+      orderBy: { version: 'desc' },
+      take: 1,
+    })
+
+    if (latest.status === 'DRAFT') {
+      throw new ConflictError(`Quote ${formatQuoteNumber(latest)} is already being drafted`)
+    }
+
+    return withItems(
+      this.db.quote.create({
+        data: {
+          number: quote.number,
+          version: latest.version + 1,
+          leadId: quote.leadId,
+          createdById: options.actorId,
+          ...data,
+        },
+        include: WITH_ITEMS,
+      })
+    )
+  }
+
+  /**
+   * Marks a draft as sent and starts its expiry clock. The lead moves to
+   * PROPOSAL_SENT with the quote total as its value, and the quote is logged
+   * on the lead's timeline as a PROPOSAL activity.
+   */
+  async sendQuote(quoteId: string, options: QuoteActionOptions = {}) {
+    const quote = await this.getQuote(quoteId)
+
+    if (quote.status !== 'DRAFT') {
+      throw new ConflictError(
+        `Quote ${formatQuoteNumber(quote)} is ${quote.status.toLowerCase()}, only drafts can be sent`
+      )
+    }
+
+    const lead = await this.db.lead.findUnique({ where: { id: quote.leadId } })
+
+    if (!lead) {
+      throw new NotFoundError('Lead', quote.leadId)
+    }
+
+    const label = formatQuoteNumber(quote)
+    const total = decimalToNumber(quote.total) ?? 0
+
+    // The lead moves first so a blocked transition leaves the quote a draft
+    if (lead.status === 'PROPOSAL_SENT') {
+      await this.db.lead.update({ where: { id: lead.id }, data: { estimatedValue: total } })
+    } else {
+      await this.leads.updateLeadStatus(lead.id, 'PROPOSAL_SENT', {
+        estimatedValue: total,
+        notes: `Quote ${label} sent`,
+      })
+    }
+
+    await this.db.quote.updateMany({
+      where: { number: quote.number, status: 'SENT' },
+      data: { status: 'SUPERSEDED' },
+    })
+
+    const now = this.now()
+    const sent = await withItems(
+      this.db.quote.update({
+        where: { id: quoteId },
+        data: { status: 'SENT', sentAt: now, expiresAt: addDays(now, quote.validDays) },
+        include: WITH_ITEMS,
+      })
+    )
+
+    await this.leads.addLeadActivity(lead.id, 'PROPOSAL', `Quote ${label} sent`, quote.title, {
+      quoteId,
+      number: quote.number,
+      version: quote.version,
+      total,
+      ...(options.actorId && { actorId: options.actorId }),
+    })
+
+    return sent
+  }
+
+  /**
+   * Records the customer's signature on a sent quote. The lead is marked WON
+   * with the quote total as its value when the workflow allows it; otherwise
+   * the QUOTE_ACCEPTED activity is left for the agent to act on.
+   */
+  async acceptQuote(quoteId: string, input: QuoteAcceptanceInput, options: QuoteResponseOptions = {}) {
+    const { signatureName, financingMonths } = quoteAcceptanceSchema.parse(input)
+    const quote = await this.getOpenQuote(quoteId)
+
+    const offers = Array.isArray(quote.financing) ? (quote.financing as FinancingOffer[]) : []
+    const offer = offers.find((candidate) => candidate.months === financingMonths)
+
+    if (financingMonths !== null && !offer) {
+      throw new ValidationError(
+        `Financing over ${financingMonths} months is not offered on this quote`,
+        'financingMonths'
+      )
+    }
+
+    const accepted = await this.recordResponse(quote, {
+      status: 'ACCEPTED',
+      acceptedAt: this.now(),
+      signatureName,
+      signatureIp: options.ip ?? null,
+      financingMonths,
+    })
+
+    const label = formatQuoteNumber(quote)
+    const total = decimalToNumber(quote.total) ?? 0
+    let lead: LeadRecord = await this.getQuoteLead(quote)
+
+    if (lead.status === 'WON') {
+      lead = await this.db.lead.update({ where: { id: lead.id }, data: { estimatedValue: total } })
+    } else if (canTransitionLead({ ...lead, estimatedValue: total }, 'WON')) {
+      lead = await this.leads.updateLeadStatus(lead.id, 'WON', {
+        estimatedValue: total,
+        notes: `Quote ${label} accepted by ${signatureName}`,
+      })
+    }
+
+    await this.leads.addLeadActivity(
+      lead.id,
+      'QUOTE_ACCEPTED',
+      `Quote ${label} accepted`,
+      offer ? `Signed by ${signatureName}, financed over ${offer.months} months` : `Signed by ${signatureName}`,
+      { quoteId, number: quote.number, version: quote.version, total, financingMonths }
+    )
+
+    return { outcome: 'ACCEPTED' as const, quote: accepted, lead }
+  }
+
+  // Records why the customer turned a sent quote down. The lead is left as is.
+  async declineQuote(quoteId: string, input: QuoteDeclineInput) {
+    const { reason } = quoteDeclineSchema.parse(input)
+    const quote = await this.getOpenQuote(quoteId)
+
+    const declined = await this.recordResponse(quote, {
+      status: 'DECLINED',
+      declinedAt: this.now(),
+      declineReason: reason,
+    })
+
+    const lead = await this.getQuoteLead(quote)
+    await this.leads.addLeadActivity(lead.id, 'QUOTE_DECLINED', `Quote ${formatQuoteNumber(quote)} declined`, reason, {
+      quoteId,
+      number: quote.number,
+      version: quote.version,
+    })
+
+    return { outcome: 'DECLINED' as const, quote: declined, lead }
+  }
+
+  // Sent quotes past their expiry date. Returns how many were expired.
+  async expireQuotes(): Promise<number> {
+    const { count } = await this.db.quote.updateMany({
+      where: { status: 'SENT', expiresAt: { lt: this.now() } },
+      data: { status: 'EXPIRED' },
+    })
+
+    return count
+  }
+
+  // A quote the customer can still answer: sent, and not past its expiry date
+  private async getOpenQuote(quoteId: string) {
+    const quote = await this.getQuote(quoteId)
+    const expired = quote.status === 'EXPIRED' || (quote.expiresAt !== null && quote.expiresAt < this.now())
+
+    if (quote.status !== 'SENT' || expired) {
+      throw new ConflictError(
+        `Quote ${formatQuoteNumber(quote)} is ${expired ? 'expired' : quote.status.toLowerCase()} and can no longer be answered`
+      )
+    }
+
+    return quote
+  }
+
+  // Writes the answer only while the quote is still sent, so of two answers
+  // submitted at once exactly one is recorded
+  private async recordResponse(quote: QuoteRow, data: Prisma.QuoteUpdateManyMutationInput) {
+    const { count } = await this.db.quote.updateMany({ where: { id: quote.id, status: 'SENT' }, data })
+
+    if (count === 0) {
+      throw new ConflictError(`Quote ${formatQuoteNumber(quote)} has already been answered`)
+    }
+
+    return this.getQuote(quote.id)
+  }
+
+  private async getQuoteLead(quote: QuoteRow) {
+    const lead = await this.db.lead.findUnique({ where: { id: quote.leadId } })
+
+    if (!lead) {
+      throw new NotFoundError('Lead', quote.leadId)
+    }
+
+    return lead
+  }
+
+  // Validated input as quote columns, with line items as a nested create
+  private async price(input: QuoteInput) {
+    const { offerFinancing, ...quote } = quoteSchema.parse(input)
+    const { items, ...totals } = calculateQuoteTotals(quote, this.now(), await this.calendars.getCalendar())
+
+    return {
+      status: 'DRAFT' as const,
+      title: quote.title,
+      notes: quote.notes ?? null,
+      emergency: quote.emergency,
+      serviceDate: quote.serviceDate ?? null,
+      taxRate: quote.taxRate,
+      validDays: quote.validDays,
+      ...totals,
+      financing: offerFinancing ? getFinancingOffers(totals.total) : [],
+      items: { create: items.map((item, order) => ({ ...item, order })) },
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import { API_CONFIG, type RevalidationStatus } from '@workspace/config'
+import { BusinessError, UnauthorizedError, ValidationError } from './errors'
+
+// Cache tags the web app fetches each model's data with. A Service also
+// clears projects because project pages show their service.
+export const REVALIDATION_TAGS = {
+  Service: ['content:services', 'content:projects'],
+  Post: ['content:posts'],
+  Page: ['content:pages'],
+  Project: ['content:projects'],
+  Testimonial: ['content:testimonials'],
+  TeamMember: ['content:team'],
+  ServiceArea: ['content:service-areas'],
+  Setting: ['content:settings'],
+} as const satisfies Record<string, readonly string[]>
+
+export type RevalidationModel = keyof typeof REVALIDATION_TAGS
+
+export function getRevalidationTags(model: RevalidationModel): string[] {
+  return [...REVALIDATION_TAGS[model]]
+}
+
+// The tag a read of the model's own data is cached under
+export function getContentTag(model: RevalidationModel): string {
+  return REVALIDATION_TAGS[model][0]
+}
+
+// Next's unstable_cache, passed in so core does not depend on Next. Reads
+// take any arguments, as in Next's own signature.
+type ContentRead = (...args: any[]) => Promise<unknown>
+
+export type ContentCache = <T extends ContentRead>(
+  read: T,
+  keyParts: string[],
+  options: { tags: string[] }
+) => T
+
+/**
+ * Caches a web app read of CMS content under the tags of the models it
+ * returns, so the CMS's signed revalidation of those models clears it.
+ * Results are stored as JSON: return plain values, not Dates or Decimals.
+ */
+export function cacheContentRead<T extends ContentRead>(
+  cache: ContentCache,
+  models: readonly RevalidationModel[],
+  key: string,
+  read: T
+): T {
+  return cache(read, ['content', key], { tags: models.map(getContentTag) })
+}
+
+export const REVALIDATION_SIGNATURE_HEADER = 'x-aurora-signature'
+
+export const revalidationPayloadSchema = z.object({
+  source: z.string().min(1),
+  tags: z.array(z.string().regex(/^content:[a-z-]+$/, 'Only content:<model> tags can be revalidated')).min(1),
+})
+
+export type RevalidationPayload = z.infer<typeof revalidationPayloadSchema>
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Signature header value for a webhook body: `t=<unix ms>,v1=<hex>`. The
+ * timestamp is signed with the body so old requests cannot be replayed.
+ */
+export function signRevalidationPayload(body: string, secret: string, timestamp: number = Date.now()): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`
+}
+
+export function verifyRevalidationSignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries((header ?? '').split(',').map((part) => part.trim().split('=', 2)))
+  const timestamp = Number(parts.t)
+
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false
+  if (Math.abs(now - timestamp) > API_CONFIG.REVALIDATION.signatureToleranceMs) return false
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex')
+  const received = Buffer.from(parts.v1, 'hex')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+// Checks the signature, then parses the webhook body
+export function parseRevalidationRequest(
+  body: string,
+  header: string | null,
+  secret: string,
+  now: number = Date.now()
+): RevalidationPayload {
+  if (!verifyRevalidationSignature(body, header, secret, now)) {
+    throw new UnauthorizedError('Invalid revalidation signature')
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    throw new ValidationError('Request body must be valid JSON')
+  }
+
+  return revalidationPayloadSchema.parse(json)
+}
+
+export interface RevalidationLogEntry {
+  source: string
+  tags: string[]
+  status: RevalidationStatus
+  attempts: number
+  error?: string
+}
+
+export interface RevalidationLog {
+  record(entry: RevalidationLogEntry): Promise<unknown>
+}
+
+export interface RevalidationSenderOptions {
+  url: string
+  secret: string
+  log?: RevalidationLog
+  maxAttempts?: number
+  backoffMs?: number
+  timeoutMs?: number
+  fetch?: (url: string, init: RequestInit) => Promise<Pick<Response, 'ok' | 'status'>>
+  sleep?: (ms: number) => Promise<void>
+}
+
+export interface RevalidationSender {
+  send(payload: RevalidationPayload): Promise<RevalidationLogEntry>
+}
+
+// Network errors, 429 and 5xx are retried; any other 4xx will not succeed on retry
+function isRetryable(status: number) {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Posts signed invalidations to the web app's /api/revalidate/tag, retrying
+ * with exponential backoff. Never throws: every outcome is returned and
+ * recorded in the log.
+ */
+export function createRevalidationSender({
+  url,
+  secret,
+  log,
+  maxAttempts = API_CONFIG.REVALIDATION.maxAttempts,
+  backoffMs = API_CONFIG.REVALIDATION.backoffMs,
+  timeoutMs = API_CONFIG.REVALIDATION.timeoutMs,
+  fetch: fetchImpl = fetch,
+  sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+}: RevalidationSenderOptions): RevalidationSender {
+  async function attempt(body: string) {
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [REVALIDATION_SIGNATURE_HEADER]: signRevalidationPayload(body, secret),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+
+    if (!response.ok) {
+      throw new BusinessError(`Web app responded with ${response.status}`, 'REVALIDATION_FAILED', response.status)
+    }
+  }
+
+  return {
+    async send(payload) {
+      const body = JSON.stringify(payload)
+      let attempts = 0
+      let error: string | undefined
+
+      while (attempts < maxAttempts) {
+        attempts++
+        try {
+          await attempt(body)
+          error = undefined
+          break
+        } catch (caught) {
+          error = caught instanceof Error ? caught.message : String(caught)
+          const retryable = !(caught instanceof BusinessError) || isRetryable(caught.statusCode)
+          if (!retryable || attempts === maxAttempts) break
+          await sleep(backoffMs * 2 ** (attempts - 1))
+        }
+      }
+
+      const entry: RevalidationLogEntry = {
+        ...payload,
+        status: error ? 'FAILED' : 'DELIVERED',
+        attempts,
+        ...(error && { error }),
+      }
+
+      try {
+        await log?.record(entry)
+      } catch (logError) {
+        console.error('Failed to record revalidation:', logError)
+      }
+
+      return entry
+    },
+  }
+}
@@ -0,0 +1,193 @@
+import { z } from 'zod'
+import { decimalToNumber, type DecimalLike, type LeadInput } from './business'
+import type { DatabaseDelegate } from './database'
+
+// Service area lookup: which area, if any, a lead's location falls in and
+// the travel surcharge that comes with it. Areas are matched by GeoJSON
+// polygon when a point is known, then by zip code, then by city.
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+// GeoJSON order is [longitude, latitude]
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+
+const ringSchema = z
+  .array(positionSchema)
+  .min(4, 'A polygon ring needs at least four positions')
+  .refine((ring) => {
+    const [first, last] = [ring[0], ring[ring.length - 1]]
+    return first[0] === last[0] && first[1] === last[1]
+  }, 'A polygon ring must end where it starts')
+
+// The first ring of a polygon is its outline; any others are holes
+export const serviceAreaPolygonSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(ringSchema).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(ringSchema).min(1)).min(1) }),
+])
+
+export type ServiceAreaPolygon = z.infer<typeof serviceAreaPolygonSchema>
+
+export const zipCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{5}$/, 'ZIP code must be 5 digits')
+
+export const serviceAreaSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  cities: z.array(z.string().trim().min(1)).default([]),
+  zipCodes: z.array(zipCodeSchema).default([]),
+  polygon: serviceAreaPolygonSchema.nullable().optional(),
+  surcharge: z.number().min(0, 'Surcharge cannot be negative').default(0),
+  active: z.boolean().default(true),
+  order: z.number().int().min(0).default(0),
+})
+
+export type ServiceAreaInput = z.input<typeof serviceAreaSchema>
+
+const coordinate = (min: number, max: number) => z.coerce.number().min(min).max(max).optional()
+
+// Query string of the public lookup endpoint; any one location is enough
+export const serviceAreaLookupSchema = z
+  .object({
+    zip: zipCodeSchema.optional(),
+    city: z.string().trim().min(1).optional(),
+    address: z.string().trim().min(1).optional(),
+    lat: coordinate(-90, 90),
+    lng: coordinate(-180, 180),
+  })
+  .refine((query) => (query.lat === undefined) === (query.lng === undefined), {
+    message: 'lat and lng must be given together',
+    path: ['lat'],
+  })
+  .refine((query) => query.zip || query.city || query.address || query.lat !== undefined, {
+    message: 'Provide a zip, city, address or lat/lng',
+  })
+
+export type ServiceAreaLookupQuery = z.infer<typeof serviceAreaLookupSchema>
+
+export interface ServiceAreaRecord {
+  id: string
+  name: string
+  cities: string[]
+  zipCodes: string[]
+  polygon: unknown
+  surcharge: DecimalLike
+  active: boolean
+  order: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ServiceAreaDatabaseClient {
+  serviceArea: DatabaseDelegate<'serviceArea', 'findMany'>
+}
+
+export interface ServiceAreaLocation {
+  point?: GeoPoint | null
+  zipCode?: string | null
+  city?: string | null
+  address?: string | null
+}
+
+export type ServiceAreaMatchType = 'polygon' | 'zip' | 'city'
+
+export interface ServiceAreaMatch {
+  // null when there was no location to check
+  inArea: boolean | null
+  area: { id: string; name: string } | null
+  surcharge: number | null
+  matchedBy: ServiceAreaMatchType | null
+}
+
+const UNKNOWN: ServiceAreaMatch = { inArea: null, area: null, surcharge: null, matchedBy: null }
+const OUT_OF_AREA: ServiceAreaMatch = { inArea: false, area: null, surcharge: null, matchedBy: null }
+
+// Ray casting; points exactly on an edge may land either side
+function inRing({ lat, lng }: GeoPoint, ring: [number, number][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export function pointInPolygon(point: GeoPoint, polygon: ServiceAreaPolygon): boolean {
+  const polygons = polygon.type === 'Polygon' ? [polygon.coordinates] : polygon.coordinates
+  return polygons.some(([outline, ...holes]) => inRing(point, outline) && !holes.some((hole) => inRing(point, hole)))
+}
+
+// The last 5-digit zip in free text, so a house number is not mistaken for one
+export function extractZipCode(text: string): string | null {
+  const matches = [...text.matchAll(/\b(\d{5})(?:-\d{4})?\b/g)]
+  return matches.length ? matches[matches.length - 1][1] : null
+}
+
+const normalizeCity = (city: string) => city.trim().toLowerCase().replace(/\s+/g, ' ')
+
+// "Springfield" matches a city field or an address part such as
+// "Springfield" or "Springfield IL 62701"
+function matchesCity(cities: string[], location: ServiceAreaLocation): boolean {
+  const names = cities.map(normalizeCity)
+  const parts = [location.city ?? '', ...(location.address?.split(',') ?? [])].map(normalizeCity).filter(Boolean)
+
+  return names.some((name) => parts.some((part) => part === name || part.startsWith(`${name} `)))
+}
+
+function matchArea(area: ServiceAreaRecord, location: ServiceAreaLocation, zipCode: string | null) {
+  const polygon = serviceAreaPolygonSchema.safeParse(area.polygon)
+
+  if (location.point && polygon.success && pointInPolygon(location.point, polygon.data)) return 'polygon'
+  if (zipCode && area.zipCodes.includes(zipCode)) return 'zip'
+  if (matchesCity(area.cities, location)) return 'city'
+  return null
+}
+
+/**
+ * The area a location falls in. When areas overlap the lowest surcharge
+ * wins, then the earlier area in `order`. Inactive areas are ignored.
+ */
+export function matchServiceArea(areas: ServiceAreaRecord[], location: ServiceAreaLocation): ServiceAreaMatch {
+  const zipCode = location.zipCode?.slice(0, 5) || (location.address ? extractZipCode(location.address) : null)
+
+  if (!location.point && !zipCode && !location.city?.trim() && !location.address?.trim()) {
+    return UNKNOWN
+  }
+
+  let best: ServiceAreaMatch | null = null
+  for (const area of [...areas].sort((a, b) => a.order - b.order)) {
+    if (!area.active) continue
+
+    const matchedBy = matchArea(area, location, zipCode)
+    const surcharge = decimalToNumber(area.surcharge) ?? 0
+
+    if (matchedBy && (!best || surcharge < (best.surcharge ?? 0))) {
+      best = { inArea: true, area: { id: area.id, name: area.name }, surcharge, matchedBy }
+    }
+  }
+
+  return best ?? OUT_OF_AREA
+}
+
+export class ServiceAreaManager {
+  constructor(private readonly db: ServiceAreaDatabaseClient) {}
+
+  async getActiveAreas(): Promise<ServiceAreaRecord[]> {
+    return this.db.serviceArea.findMany({ where: { active: true }, orderBy: { order: 'asc' } })
+  }
+
+  async lookup(location: ServiceAreaLocation): Promise<ServiceAreaMatch> {
+    return matchServiceArea(await this.getActiveAreas(), location)
+  }
+
+  // Matches a lead by the zip code, city and address it was submitted with
+  async matchLead(lead: Pick<LeadInput, 'zipCode' | 'city' | 'address'>): Promise<ServiceAreaMatch> {
+    return this.lookup({ zipCode: lead.zipCode, city: lead.city, address: lead.address })
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  API_CONFIG,
+  SETTINGS,
+  SETTING_KEYS,
+  getSettingType,
+  isSettingKey,
+  parseSetting,
+  serializeSetting,
+  settingsUpdateSchema,
+  type SettingCategory,
+  type SettingKey,
+  type SettingValue,
+  type SettingValues,
+  type SettingVisibility,
+  type SettingsUpdate,
+} from '@workspace/config'
+import type { DatabaseDelegate } from './database'
+
+// Settings are read on nearly every request (business calendar, contact
+// details, CTAs), so the whole table is cached per database client for a
+// short TTL. Saves through a manager clear the cache in this process; other
+// processes pick the change up when their copy expires.
+
+export interface SettingRecord {
+  key: string
+  value: string
+  type: string
+  category: string
+}
+
+export interface SettingsDatabaseClient {
+  setting: DatabaseDelegate<'setting', 'findMany' | 'upsert'>
+}
+
+export interface SettingsFilter {
+  category?: SettingCategory
+  visibility?: SettingVisibility
+}
+
+interface CachedSettings {
+  values: Map<SettingKey, string>
+  expiresAt: number
+}
+
+const SETTINGS_TTL_MS = API_CONFIG.CACHE.ttl.settings * 1000
+
+const cache = new WeakMap<SettingsDatabaseClient, CachedSettings>()
+
+export class SettingsManager {
+  constructor(
+    private readonly db: SettingsDatabaseClient,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  // Stored values by key; rows for keys no longer in the registry are ignored
+  private async load(): Promise<Map<SettingKey, string>> {
+    const now = this.now().getTime()
+    const cached = cache.get(this.db)
+    if (cached && cached.expiresAt > now) return cached.values
+
+    const values = new Map<SettingKey, string>()
+    for (const record of await this.db.setting.findMany()) {
+      if (isSettingKey(record.key)) values.set(record.key, record.value)
+    }
+
+    cache.set(this.db, { values, expiresAt: now + SETTINGS_TTL_MS })
+    return values
+  }
+
+  // The saved value, or the registry default when none is saved or it no longer validates
+  async getSetting<K extends SettingKey>(key: K): Promise<SettingValue<K>> {
+    return parseSetting(key, (await this.load()).get(key))
+  }
+
+  async getSettings(filter: SettingsFilter = {}): Promise<Partial<SettingValues>> {
+    const values = await this.load()
+    const keys = SETTING_KEYS.filter(
+      (key) =>
+        (!filter.category || SETTINGS[key].category === filter.category) &&
+        (!filter.visibility || SETTINGS[key].visibility === filter.visibility)
+    )
+
+    return Object.fromEntries(keys.map((key) => [key, parseSetting(key, values.get(key))]))
+  }
+
+  // Everything the website may read
+  async getPublicSettings(): Promise<Partial<SettingValues>> {
+    return this.getSettings({ visibility: 'public' })
+  }
+
+  async setSetting<K extends SettingKey>(key: K, value: NonNullable<SettingsUpdate[K]>): Promise<SettingValue<K>> {
+    const saved = await this.setSettings({ [key]: value })
+    return saved[key] as SettingValue<K>
+  }
+
+  /**
+   * Validates every value against the registry before saving any of them,
+   * so one bad field leaves the others untouched. Throws the ZodError with
+   * the key as the issue path.
+   */
+  async setSettings(update: SettingsUpdate): Promise<Partial<SettingValues>> {
+    const values: Partial<SettingValues> = settingsUpdateSchema.parse(update)
+
+    try {
+      for (const key of Object.keys(values) as SettingKey[]) {
+        const value = serializeSetting(key, values[key] as SettingValue<typeof key>)
+        const type = getSettingType(key)
+        const { category } = SETTINGS[key]
+
+        await this.db.setting.upsert({
+          where: { key },
+          update: { value, type, category },
+          create: { key, value, type, category },
+        })
+      }
+    } finally {
+      this.invalidate()
+    }
+
+    return values
+  }
+
+  // Drops this process's cached copy so the next read goes to the database
+  invalidate(): void {
+    cache.delete(this.db)
+  }
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest'
+import { BUSINESS_INFO, zonedDateTime } from '@workspace/config'
+import { BusinessCalendarManager } from '../business-calendar'
+import { AppointmentManager, formatAppointmentTime, generateSlots, getWorkingHours } from '../appointments'
+import { ConflictError, NotFoundError, ValidationError } from '../errors'
+import { appointmentToEvent, buildCalendar } from '../ics'
+import { createInMemoryDb } from './in-memory-db'
+
+// Wall-clock time at the business. Tests run with TZ=UTC (vitest.config.ts),
+// so the server's own midnight is never the business's.
+const local = (dateKey: string, hours: number, minutes = 0) =>
+  zonedDateTime(dateKey, hours * 60 + minutes, BUSINESS_INFO.timezone)
+
+// Monday, January 3 2022, 10:00 at the business
+const NOW = local('2022-01-03', 10)
+// Tuesday
+const at = (hours: number, minutes = 0) => local('2022-01-04', hours, minutes)
+
+const technician = (id: string, order: number, workingHours = {}) => ({
+  id,
+  name: `Technician ${order + 1}`,
+  email: null,
+  technician: true,
+  active: true,
+  order,
+  workingHours,
+})
+
+async function setup() {
+  const db = createInMemoryDb()
+  db.tables.teamMembers.push(
+    technician('tech_1', 0),
+    technician('tech_2', 1, { monday: { open: '12:00' }, saturday: { closed: true } }),
+    { ...technician('office_1', 2), technician: false }
+  )
+  const manager = new AppointmentManager(db, () => NOW)
+  const lead = await db.lead.create({
+    data: { name: 'Jane Smith', email: 'jane@example.com', phone: '5551234567', serviceType: 'furnace_repair' },
+  })
+  return { db, manager, lead }
+}
+
+const visit = (startsAt: Date, extra = {}) => ({ startsAt, serviceLocation: '12 Elm Street, Springfield', ...extra })
+
+describe('Appointment Tests', () => {
+  it('should apply technician overrides on top of the business hours', () => {
+    const override = { monday: { open: '12:00' }, saturday: { closed: true } }
+
+    expect(getWorkingHours({ workingHours: override }, NOW)).toEqual({ open: '12:00', close: '18:00', closed: false })
+    expect(getWorkingHours({ workingHours: override }, local('2022-01-08', 0)).closed).toBe(true)
+    expect(getWorkingHours({ workingHours: {} }, local('2022-01-08', 0))).toEqual({
+      open: '9:00',
+      close: '16:00',
+      closed: false,
+    })
+    // Invalid overrides fall back to the business hours
+    expect(getWorkingHours({ workingHours: { monday: { open: 'noon' } } }, NOW).open).toBe('8:00')
+  })
+
+  it('should keep the travel buffer clear around booked visits', () => {
+    const hours = { open: '8:00', close: '18:00', closed: false }
+    const busy = [{ startsAt: at(10), endsAt: at(12) }]
+
+    const slots = generateSlots(hours, at(0), busy, { durationMinutes: 120 })
+    expect(slots[0]).toEqual(at(12, 30))
+    expect(slots.at(-1)).toEqual(at(16))
+    expect(slots).toHaveLength(8)
+
+    expect(generateSlots(hours, at(0), busy, { durationMinutes: 120, earliest: at(13, 15) })[0]).toEqual(at(13, 30))
+    expect(generateSlots({ ...hours, closed: true }, at(0), [], { durationMinutes: 60 })).toEqual([])
+  })
+
+  it('should list slots after the minimum notice with the free technicians', async () => {
+    const { manager } = await setup()
+
+    const slots = await manager.getAvailability({ days: 1, serviceType: 'furnace_repair' })
+
+    expect(slots.map((slot) => slot.startsAt)).toEqual([
+      local('2022-01-03', 14),
+      local('2022-01-03', 14, 30),
+      local('2022-01-03', 15),
+      local('2022-01-03', 15, 30),
+      local('2022-01-03', 16),
+    ])
+    expect(slots[0].technicianIds).toEqual(['tech_1', 'tech_2'])
+    expect(slots[0].endsAt).toEqual(local('2022-01-03', 16))
+  })
+
+  it('should spread bookings across technicians and refuse double bookings', async () => {
+    const { db, manager, lead } = await setup()
+
+    const first = await manager.bookAppointment(lead.id, visit(at(9)))
+    expect(first).toMatchObject({ technicianId: 'tech_1', status: 'SCHEDULED', endsAt: at(11), createdById: null })
+
+    const second = await manager.bookAppointment(lead.id, visit(at(9, 30)))
+    expect(second.technicianId).toBe('tech_2')
+
+    await expect(manager.bookAppointment(lead.id, visit(at(10)))).rejects.toThrow(ConflictError)
+    // 11:00 is inside tech_1's travel buffer, 11:30 is not
+    await expect(manager.bookAppointment(lead.id, visit(at(11), { technicianId: 'tech_1' }))).rejects.toThrow(
+      ConflictError
+    )
+    expect((await manager.bookAppointment(lead.id, visit(at(11, 30), { technicianId: 'tech_1' }))).endsAt).toEqual(
+      at(13, 30)
+    )
+
+    await expect(manager.bookAppointment(lead.id, visit(at(14), { technicianId: 'office_1' }))).rejects.toThrow(
+      NotFoundError
+    )
+
+    const booked = db.tables.leadActivities.filter((activity) => activity.type === 'APPOINTMENT_BOOKED')
+    expect(booked).toHaveLength(3)
+    expect(booked[0].metadata).toMatchObject({ appointmentId: first.id, technicianId: 'tech_1' })
+  })
+
+  it('should hold online bookings to the notice, window and working hours', async () => {
+    const { manager, lead } = await setup()
+    const today = (hours: number) => local('2022-01-03', hours)
+
+    await expect(manager.bookAppointment(lead.id, visit(today(12)))).rejects.toThrow(ValidationError)
+    await expect(manager.bookAppointment(lead.id, visit(local('2022-02-01', 9)))).rejects.toThrow(ValidationError)
+
+    // Staff may book at short notice, but not in the past or past closing time
+    const staff = { actorId: 'user_1' }
+    await expect(manager.bookAppointment(lead.id, visit(today(9)), staff)).rejects.toThrow(ValidationError)
+    expect((await manager.bookAppointment(lead.id, visit(today(12)), staff)).createdById).toBe('user_1')
+    await expect(manager.bookAppointment(lead.id, visit(today(17)), staff)).rejects.toThrow(ConflictError)
+  })
+
+  it('should build slots in the business time zone on a UTC server', async () => {
+    const { manager, lead } = await setup()
+    expect(new Date(2022, 0, 4).getTimezoneOffset()).toBe(0)
+
+    // 8:00 in Chicago is 14:00 UTC in January
+    const [first] = generateSlots({ open: '8:00', close: '18:00', closed: false }, at(12), [], {
+      durationMinutes: 60,
+    })
+    expect(first.toISOString()).toBe('2022-01-04T14:00:00.000Z')
+    expect(formatAppointmentTime(first)).toBe('Tue, Jan 4 at 8:00 AM')
+
+    // 21:00 on Monday at the business is already Tuesday in UTC
+    const mondayEvening = local('2022-01-03', 21)
+    expect(mondayEvening.getUTCDay()).toBe(2)
+    expect(getWorkingHours({ workingHours: { monday: { open: '12:00' } } }, mondayEvening).open).toBe('12:00')
+
+    const slots = await manager.getAvailability({ from: at(0), days: 1, serviceType: 'furnace_repair' })
+    expect(slots[0].startsAt).toEqual(at(8))
+    expect(slots.at(-1)?.startsAt).toEqual(at(16))
+
+    const appointment = await manager.bookAppointment(lead.id, visit(slots[0].startsAt))
+    const ics = buildCalendar({ events: [appointmentToEvent(appointment, { summary: 'Service visit' })] })
+    expect(ics).toContain('DTSTART;TZID=America/Chicago:20220104T080000')
+  })
+
+  it('should follow the business calendar for hours, holidays and closures', async () => {
+    const { db, manager, lead } = await setup()
+    const calendar = new BusinessCalendarManager(db)
+    const tuesday = { from: at(0), days: 1, serviceType: 'furnace_repair' }
+
+    await calendar.updateCalendar({
+      hours: { ...BUSINESS_INFO.hours, tuesday: { open: '10:00', close: '15:00', closed: false } },
+    })
+    const slots = await manager.getAvailability(tuesday)
+    expect(slots[0].startsAt).toEqual(at(10))
+    expect(slots.at(-1)?.startsAt).toEqual(at(13))
+    await expect(manager.bookAppointment(lead.id, visit(at(9)))).rejects.toThrow(ConflictError)
+
+    await calendar.updateCalendar({ closures: [{ from: '2022-01-04', to: '2022-01-04', reason: 'Stocktake' }] })
+    expect(await manager.getAvailability(tuesday)).toEqual([])
+    await expect(manager.bookAppointment(lead.id, visit(at(11)))).rejects.toThrow(ConflictError)
+
+    // A technician's own hours cannot open a holiday
+    await calendar.updateCalendar({ closures: [], holidays: { 2022: [{ date: '2022-01-04', name: 'Founders Day' }] } })
+    expect(
+      getWorkingHours({ workingHours: { tuesday: { open: '7:00' } } }, at(12), await calendar.getCalendar()).closed
+    ).toBe(true)
+    expect(await manager.getAvailability(tuesday)).toEqual([])
+  })
+
+  it('should reschedule and cancel scheduled visits', async () => {
+    const { db, manager, lead } = await setup()
+    const appointment = await manager.bookAppointment(lead.id, visit(at(9), { serviceType: 'maintenance' }))
+    expect(appointment.endsAt).toEqual(at(10, 30))
+
+    const moved = await manager.rescheduleAppointment(appointment.id, { startsAt: at(14) })
+    expect(moved).toMatchObject({ technicianId: 'tech_1', startsAt: at(14), endsAt: at(15, 30) })
+
+    // The old time is free again for the same technician
+    const other = await manager.bookAppointment(lead.id, visit(at(9), { technicianId: 'tech_1' }))
+
+    const cancelled = await manager.cancelAppointment(other.id, { reason: 'Customer is away' })
+    expect(cancelled).toMatchObject({ status: 'CANCELLED', cancelReason: 'Customer is away', cancelledAt: NOW })
+    await expect(manager.cancelAppointment(other.id, { reason: 'Again' })).rejects.toThrow(ConflictError)
+    await expect(manager.rescheduleAppointment(other.id, { startsAt: at(16) })).rejects.toThrow(ConflictError)
+
+    expect(db.tables.leadActivities.map((activity) => activity.type)).toEqual([
+      'APPOINTMENT_BOOKED',
+      'APPOINTMENT_RESCHEDULED',
+      'APPOINTMENT_BOOKED',
+      'APPOINTMENT_CANCELLED',
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_BUSINESS_CALENDAR, PRICING_CONFIG } from '@workspace/config'
+import { BusinessCalendarManager } from '../business-calendar'
+import { QuoteManager } from '../quotes'
+import { createInMemoryDb } from './in-memory-db'
+
+const { EMERGENCY_SURCHARGE, WEEKEND_SURCHARGE } = PRICING_CONFIG.SERVICE_RATES
+
+describe('Business Calendar Settings Tests', () => {
+  it('should fall back to the default calendar when none or a broken one is saved', async () => {
+    expect(await new BusinessCalendarManager(createInMemoryDb()).getCalendar()).toEqual(DEFAULT_BUSINESS_CALENDAR)
+
+    const db = createInMemoryDb()
+    db.tables.settings.push({ key: 'business_calendar', value: '{"timezone":"Nowhere/City"}' })
+    expect(await new BusinessCalendarManager(db).getCalendar()).toEqual(DEFAULT_BUSINESS_CALENDAR)
+  })
+
+  it('should save partial updates as JSON and copy holiday presets into a year', async () => {
+    const db = createInMemoryDb()
+    const manager = new BusinessCalendarManager(db)
+
+    await manager.updateCalendar({ timezone: 'Asia/Riyadh', weekend: ['friday', 'saturday'], holidayPreset: 'SA' })
+    const calendar = await manager.applyHolidayPreset('SA', 2025)
+
+    expect(db.tables.settings).toEqual([
+      expect.objectContaining({ key: 'business_calendar', type: 'json', category: 'business' }),
+    ])
+    expect(calendar).toMatchObject({ timezone: 'Asia/Riyadh', hours: DEFAULT_BUSINESS_CALENDAR.hours })
+    expect(calendar.holidays['2025']).toContainEqual({ date: '2025-09-23', name: 'National Day' })
+    expect(await manager.getCalendar()).toEqual(calendar)
+
+    await expect(
+      manager.updateCalendar({ closures: [{ from: '2025-01-02', to: '2025-01-01', reason: 'x' }] })
+    ).rejects.toThrow()
+  })
+
+  it('should price emergency quotes with the saved calendar', async () => {
+    const db = createInMemoryDb()
+    await new BusinessCalendarManager(db).updateCalendar({ timezone: 'Asia/Riyadh', weekend: ['friday', 'saturday'] })
+    const lead = await db.lead.create({ data: { name: 'Omar Ali', email: 'omar@example.com', phone: '5551234567' } })
+
+    const quote = await new QuoteManager(db).createQuote(lead.id, {
+      title: 'No cooling',
+      items: [{ type: 'DIAGNOSTIC', description: 'Diagnostic visit', quantity: 1 }],
+      emergency: true,
+      // Friday morning in Riyadh
+      serviceDate: new Date('2025-05-16T07:00:00Z'),
+      taxRate: 0,
+    })
+
+    expect(quote.surcharge).toBe(EMERGENCY_SURCHARGE + WEEKEND_SURCHARGE)
+  })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
+  BusinessAnalytics,
   LeadManager,
   ServiceManager,
   leadSchema,
@@ -8,10 +9,13 @@ import {
   generateQuoteNumber,
   formatCurrency,
   formatPhoneNumber,
+  decimalToNumber,
   isBusinessHours,
   getNextBusinessDay,
 } from '../business'
+import { ConflictError, NotFoundError } from '../errors'
 import { mockDate } from './setup'
+import { createInMemoryDb, type InMemoryDb } from './in-memory-db'
 
 describe('Business Logic Tests', () => {
   describe('Lead Schema Validation', () => {
@@ -56,7 +60,7 @@ describe('Business Logic Tests', () => {
         title: 'HVAC Installation',
         description: 'Professional HVAC installation service',
         category: 'hvac_installation',
-        priceType: 'QUOTE' as const,
+        priceType: 'QUOTE_REQUIRED' as const,
       }
       
       expect(() => serviceSchema.parse(validService)).not.toThrow()
@@ -67,7 +71,7 @@ describe('Business Logic Tests', () => {
         title: 'AC',
         description: 'Professional HVAC installation service',
         category: 'hvac_installation',
-        priceType: 'QUOTE' as const,
+        priceType: 'QUOTE_REQUIRED' as const,
       }
       
       expect(() => serviceSchema.parse(invalidService)).toThrow()
@@ -75,35 +79,270 @@ describe('Business Logic Tests', () => {
   })
   
   describe('LeadManager', () => {
-    it('should create a lead with proper formatting', async () => {
-      const leadData = {
-        name: 'John Doe',
-        email: 'john@example.com',
-        phone: '(123) 456-7890',
-        serviceType: 'HVAC Installation',
-        message: 'Need new HVAC system',
-      }
-      
-      const lead = await LeadManager.createLead(leadData)
+    let db: InMemoryDb
+    let leads: LeadManager
+    
+    const leadData = {
+      name: 'John Doe',
+      email: 'john@example.com',
+      phone: '(123) 456-7890',
+      serviceType: 'HVAC Installation',
+      message: 'Need new HVAC system',
+    }
+    
+    beforeEach(() => {
+      db = createInMemoryDb()
+      leads = new LeadManager(db)
+    })
+    
+    it('should persist a new lead with a creation activity', async () => {
+      const lead = await leads.createLead({ ...leadData, urgency: 'WITHIN_24H' })
       
       expect(lead).toMatchObject({
         name: 'John Doe',
         email: 'john@example.com',
-        serviceType: 'HVAC Installation',
+        phone: '1234567890',
         status: 'NEW',
+        source: 'WEBSITE',
       })
-      expect(lead.id).toMatch(/^lead_/)
-      expect(lead.slug).toMatch(/john-doe-/)
+      expect(db.tables.leads).toHaveLength(1)
+      expect(db.tables.leadActivities).toEqual([
+        expect.objectContaining({
+          leadId: lead.id,
+          type: 'NOTE',
+          title: 'Lead created',
+          description: expect.stringContaining('Urgency: WITHIN_24H'),
+        }),
+      ])
+    })
+    
+    it('should store the submitted lead source', async () => {
+      const lead = await leads.createLead({ ...leadData, source: 'SOCIAL_MEDIA' })
+      
+      expect(lead.source).toBe('SOCIAL_MEDIA')
     })
     
-    it('should update lead status', async () => {
-      const updated = await LeadManager.updateLeadStatus('lead_123', 'CONTACTED')
+    it('should update lead status and record the change', async () => {
+      const lead = await leads.createLead(leadData)
+      const updated = await leads.updateLeadStatus(lead.id, 'CONTACTED', { notes: 'Called back' })
       
       expect(updated).toMatchObject({
-        id: 'lead_123',
+        id: lead.id,
         status: 'CONTACTED',
       })
       expect(updated.updatedAt).toBeInstanceOf(Date)
+      expect(db.tables.leadActivities).toContainEqual(
+        expect.objectContaining({
+          leadId: lead.id,
+          type: 'STATUS_CHANGE',
+          title: 'Status changed from NEW to CONTACTED',
+          description: 'Called back',
+          metadata: { from: 'NEW', to: 'CONTACTED' },
+        })
+      )
+    })
+    
+    it('should reject transitions the workflow does not allow', async () => {
+      const lead = await leads.createLead(leadData)
+      
+      await expect(leads.updateLeadStatus(lead.id, 'WON')).rejects.toBeInstanceOf(ConflictError)
+      expect(db.tables.leads[0].status).toBe('NEW')
+      expect(db.tables.leadActivities).toHaveLength(1)
+    })
+    
+    it('should require an estimated value before marking a lead as won', async () => {
+      const lead = await leads.createLead(leadData)
+      db.tables.leads[0].status = 'PROPOSAL_SENT'
+      
+      await expect(leads.updateLeadStatus(lead.id, 'WON')).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+        field: 'estimatedValue',
+      })
+
+      // Clearing the value in the same request counts as missing
+      db.tables.leads[0].estimatedValue = 1000
+      await expect(leads.updateLeadStatus(lead.id, 'WON', { estimatedValue: null })).rejects.toMatchObject({
+        field: 'estimatedValue',
+      })
+
+      const won = await leads.updateLeadStatus(lead.id, 'WON', { estimatedValue: 4200 })
+      expect(won).toMatchObject({ status: 'WON', estimatedValue: 4200 })
+    })
+    
+    it('should reject status updates for unknown leads', async () => {
+      await expect(leads.updateLeadStatus('missing', 'CONTACTED')).rejects.toBeInstanceOf(NotFoundError)
+    })
+    
+    it('should add activities to a lead', async () => {
+      const lead = await leads.createLead(leadData)
+      const activity = await leads.addLeadActivity(lead.id, 'CALL', 'Left voicemail')
+      
+      expect(activity).toMatchObject({ leadId: lead.id, type: 'CALL', title: 'Left voicemail' })
+    })
+    
+    it('should add trimmed notes with their author', async () => {
+      const lead = await leads.createLead(leadData)
+      const note = await leads.addLeadNote(lead.id, '  Prefers morning visits ', 'user_1')
+      
+      expect(note).toMatchObject({
+        leadId: lead.id,
+        type: 'NOTE',
+        title: 'Note added',
+        description: 'Prefers morning visits',
+        metadata: { authorId: 'user_1' },
+      })
+      await expect(leads.addLeadNote(lead.id, '   ')).rejects.toMatchObject({ field: 'note' })
+      await expect(leads.addLeadNote('missing', 'Hello')).rejects.toBeInstanceOf(NotFoundError)
+    })
+    
+    it('should assign and unassign leads on the timeline', async () => {
+      const lead = await leads.createLead(leadData)
+      
+      const assigned = await leads.assignLead(lead.id, { id: 'user_2', name: 'Maya' }, { actorId: 'user_1' })
+      expect(assigned.assignedToId).toBe('user_2')
+      
+      const unassigned = await leads.assignLead(lead.id, null)
+      expect(unassigned.assignedToId).toBeNull()
+      
+      expect(db.tables.leadActivities.slice(1)).toEqual([
+        expect.objectContaining({
+          type: 'ASSIGNED',
+          title: 'Assigned to Maya',
+          metadata: { from: null, to: 'user_2', strategy: 'manual', actorId: 'user_1' },
+        }),
+        expect.objectContaining({ title: 'Unassigned', metadata: { from: 'user_2', to: null, strategy: 'manual' } }),
+      ])
+    })
+    
+    it('should not record an assignment that changes nothing', async () => {
+      const lead = await leads.createLead(leadData)
+      await leads.assignLead(lead.id, null)
+      
+      expect(db.tables.leadActivities).toHaveLength(1)
+    })
+    
+    it('should aggregate stats within a date range', async () => {
+      await leads.createLead(leadData)
+      await leads.createLead({ ...leadData, source: 'PHONE', priority: 'HIGH' })
+      const old = await leads.createLead(leadData)
+      db.tables.leads.find((row) => row.id === old.id)!.createdAt = new Date('2020-01-01')
+      
+      const stats = await leads.getLeadStats({ from: new Date('2021-01-01'), to: new Date('2100-01-01') })
+      
+      expect(stats).toEqual({
+        total: 2,
+        byStatus: { NEW: 2 },
+        bySource: { WEBSITE: 1, PHONE: 1 },
+        byPriority: { MEDIUM: 1, HIGH: 1 },
+      })
+      expect((await leads.getLeadStats()).total).toBe(3)
+    })
+    
+    it('should calculate the conversion rate from won leads', async () => {
+      const won = await leads.createLead(leadData)
+      await leads.createLead(leadData)
+      await leads.createLead(leadData)
+      db.tables.leads[0].status = 'NEGOTIATING'
+      await leads.updateLeadStatus(won.id, 'WON', { estimatedValue: 5000 })
+      
+      expect(await leads.getConversionRate()).toEqual({ total: 3, converted: 1, rate: 33.3 })
+    })
+    
+    it('should report a zero conversion rate without leads', async () => {
+      expect(await leads.getConversionRate()).toEqual({ total: 0, converted: 0, rate: 0 })
+    })
+  })
+  
+  describe('BusinessAnalytics', () => {
+    let db: InMemoryDb
+    
+    const addLead = (fields: Record<string, unknown>) =>
+      db.lead.create({
+        data: { name: 'Lead', email: 'lead@example.com', ...fields },
+      })
+    
+    beforeEach(() => {
+      db = createInMemoryDb()
+    })
+    
+    it('should sum won and open pipeline value', async () => {
+      await addLead({ status: 'WON', estimatedValue: 5000 })
+      await addLead({ status: 'WON', estimatedValue: { toNumber: () => 2500 } })
+      await addLead({ status: 'PROPOSAL_SENT', estimatedValue: 1200 })
+      await addLead({ status: 'LOST', estimatedValue: 9000 })
+      await addLead({ status: 'NEW' })
+      
+      const stats = await BusinessAnalytics.getDashboardStats(db)
+      
+      expect(stats.value).toEqual({ won: 7500, pipeline: 1200 })
+      expect(stats.leads.total).toBe(5)
+      expect(stats.conversion).toEqual({ total: 5, converted: 2, rate: 40 })
+    })
+    
+    it('should list recent activity newest first with its lead', async () => {
+      const leads = new LeadManager(db)
+      const lead = await leads.createLead({
+        name: 'Jane Roe',
+        email: 'jane@example.com',
+        phone: '(123) 456-7890',
+        serviceType: 'HVAC Repair',
+      })
+      db.tables.leadActivities[0].createdAt = new Date('2021-12-01')
+      await leads.addLeadNote(lead.id, 'Called back')
+      
+      const activity = await BusinessAnalytics.getRecentActivity(db)
+      
+      expect(activity.map((entry) => entry.title)).toEqual(['Note added', 'Lead created'])
+      expect(activity[0].lead).toEqual({ id: lead.id, name: 'Jane Roe', email: 'jane@example.com' })
+    })
+    
+    it('should bucket leads by calendar month', async () => {
+      const now = new Date(2022, 2, 20)
+      await addLead({ createdAt: new Date(2022, 2, 1) })
+      await addLead({ createdAt: new Date(2022, 2, 15), status: 'WON', estimatedValue: 3000 })
+      await addLead({ createdAt: new Date(2022, 0, 31), status: 'WON', estimatedValue: 1000 })
+      await addLead({ createdAt: new Date(2021, 11, 31) })
+      
+      const trends = await BusinessAnalytics.getMonthlyTrends(db, 3, now, 'UTC')
+      
+      expect(trends.map(({ month, leads, conversions, revenue }) => ({ month, leads, conversions, revenue }))).toEqual([
+        { month: 'Jan 2022', leads: 1, conversions: 1, revenue: 1000 },
+        { month: 'Feb 2022', leads: 0, conversions: 0, revenue: 0 },
+        { month: 'Mar 2022', leads: 2, conversions: 1, revenue: 3000 },
+      ])
+    })
+    
+    it("should bucket leads by month in the business's time zone", async () => {
+      // Chicago is UTC-6 in winter; the tests run on a UTC server
+      const now = new Date('2022-03-01T03:00:00Z')
+      await addLead({ createdAt: new Date('2022-03-01T02:00:00Z') })
+      await addLead({ createdAt: new Date('2022-02-01T05:00:00Z') })
+      await addLead({ createdAt: new Date('2022-02-01T07:00:00Z') })
+      
+      const trends = await BusinessAnalytics.getMonthlyTrends(db, 2, now, 'America/Chicago')
+      
+      expect(trends.map(({ month, start, leads }) => ({ month, start, leads }))).toEqual([
+        { month: 'Jan 2022', start: new Date('2022-01-01T06:00:00Z'), leads: 1 },
+        { month: 'Feb 2022', start: new Date('2022-02-01T06:00:00Z'), leads: 2 },
+      ])
+    })
+    
+    it('should report performance per lead source', async () => {
+      await addLead({ source: 'PHONE', status: 'WON', estimatedValue: 4000 })
+      await addLead({ source: 'PHONE' })
+      await addLead({ source: 'PHONE' })
+      await addLead({ source: 'REFERRAL', status: 'WON', estimatedValue: 800 })
+      await addLead({ source: 'WEBSITE', createdAt: new Date('2020-01-01') })
+      
+      const performance = await BusinessAnalytics.getLeadSourcePerformance(db, {
+        from: new Date('2021-01-01'),
+        to: new Date('2100-01-01'),
+      })
+      
+      expect(performance).toEqual([
+        { source: 'PHONE', leads: 3, conversions: 1, conversionRate: 33.3, totalValue: 4000 },
+        { source: 'REFERRAL', leads: 1, conversions: 1, conversionRate: 100, totalValue: 800 },
+      ])
     })
   })
   
@@ -129,6 +368,12 @@ describe('Business Logic Tests', () => {
       expect(formatCurrency(1000000)).toBe('$1,000,000.00')
     })
     
+    it('should convert Prisma decimals to numbers', () => {
+      expect(decimalToNumber({ toNumber: () => 1250.5 })).toBe(1250.5)
+      expect(decimalToNumber('99.90')).toBe(99.9)
+      expect(decimalToNumber(null)).toBeNull()
+    })
+    
     it('should format phone numbers correctly', () => {
       expect(formatPhoneNumber('1234567890')).toBe('(123) 456-7890')
       expect(formatPhoneNumber('(123) 456-7890')).toBe('(123) 456-7890')
@@ -136,27 +381,27 @@ describe('Business Logic Tests', () => {
     })
     
     it('should check business hours correctly', () => {
+      // Hours are kept in the business time zone, America/Chicago (UTC-6 in January)
       // Monday 9 AM
-      const businessHour = new Date('2022-01-03T09:00:00')
+      const businessHour = new Date('2022-01-03T15:00:00Z')
       expect(isBusinessHours(businessHour)).toBe(true)
       
-      // Sunday 9 AM
-      const weekend = new Date('2022-01-02T09:00:00')
+      // Sunday 9 AM, an hour before Sunday opening
+      const weekend = new Date('2022-01-02T15:00:00Z')
       expect(isBusinessHours(weekend)).toBe(false)
       
       // Monday 6 PM
-      const afterHours = new Date('2022-01-03T18:00:00')
+      const afterHours = new Date('2022-01-04T00:00:00Z')
       expect(isBusinessHours(afterHours)).toBe(false)
     })
     
     it('should get next business day correctly', () => {
-      // Friday
-      const friday = new Date('2022-01-07T15:00:00')
+      // Friday, December 31st
+      const friday = new Date('2021-12-31T21:00:00Z')
       const nextBusinessDay = getNextBusinessDay(friday)
       
-      // Should be Monday
-      expect(nextBusinessDay.getDay()).toBe(1) // Monday
-      expect(nextBusinessDay.getDate()).toBe(10) // January 10th, 2022
+      // Saturday is New Year's Day, so Sunday at 10 AM
+      expect(nextBusinessDay).toEqual(new Date('2022-01-02T16:00:00Z'))
     })
   })
 })
\ No newline at end of file
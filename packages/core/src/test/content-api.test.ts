@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  postDataSchema,
+  serviceDataSchema,
+  serviceListQuerySchema,
+  teamMemberDataSchema,
+  testimonialDataSchema,
+  toContentSlug,
+  toListOptions,
+} from '../content-api'
+import { createErrorResponse } from '../index'
+import { ValidationError } from '../errors'
+
+describe('Content API Tests', () => {
+  describe('Write schemas', () => {
+    it('should validate services against the editor rules', () => {
+      const service = serviceDataSchema.parse({
+        title: 'Duct Cleaning',
+        description: 'Whole-home duct cleaning and sanitizing',
+        category: 'maintenance',
+        priceType: 'FIXED',
+        price: 199,
+        featured: true,
+      })
+
+      expect(service).toMatchObject({ status: 'DRAFT', gallery: [], features: [], tags: [] })
+      expect(service).not.toHaveProperty('featured')
+      expect(() => serviceDataSchema.parse({ ...service, title: 'AC' })).toThrow()
+    })
+
+    it('should reject malformed slugs', () => {
+      expect(() =>
+        postDataSchema.parse({
+          title: 'Spring Tune-Up Checklist',
+          content: 'Ten things to check before the cooling season.',
+          category: 'Maintenance',
+          slug: 'Spring Tune Up',
+        })
+      ).toThrow()
+    })
+
+    it('should coerce dates from JSON strings', () => {
+      const post = postDataSchema.parse({
+        title: 'Spring Tune-Up Checklist',
+        content: 'Ten things to check before the cooling season.',
+        category: 'Maintenance',
+        publishedAt: '2024-03-01T00:00:00.000Z',
+      })
+
+      expect(post.publishedAt).toEqual(new Date('2024-03-01T00:00:00.000Z'))
+    })
+
+    it('should use the Prisma column names for testimonials and team members', () => {
+      expect(
+        testimonialDataSchema.parse({ name: 'Dana Lee', company: 'Lee Bakery', content: 'Fast and friendly service!' })
+      ).toMatchObject({ rating: 5, approved: false, status: 'PUBLISHED' })
+      expect(teamMemberDataSchema.parse({ name: 'Omar Said', position: 'Lead Technician' })).toMatchObject({
+        active: true,
+        order: 0,
+        specialties: [],
+      })
+    })
+
+    it('should not apply defaults to partial updates', () => {
+      expect(serviceDataSchema.partial().parse({ price: 249 })).toEqual({ price: 249 })
+    })
+  })
+
+  describe('toContentSlug', () => {
+    it('should produce URL-safe slugs', () => {
+      expect(toContentSlug('Heating & Cooling: 2024 Guide!')).toBe('heating-and-cooling-2024-guide')
+    })
+  })
+
+  describe('List queries', () => {
+    it('should parse query strings into list options', () => {
+      const query = serviceListQuerySchema.parse({
+        status: 'ARCHIVED',
+        published: 'false',
+        sort: 'title',
+        order: 'desc',
+        take: '10',
+        cursor: 'service_1',
+      })
+
+      expect(toListOptions(query)).toEqual({
+        filter: { status: 'ARCHIVED', published: false },
+        sort: { field: 'title', direction: 'desc' },
+        take: 10,
+        cursor: 'service_1',
+      })
+    })
+
+    it('should reject unknown sort fields', () => {
+      expect(() => serviceListQuerySchema.parse({ sort: 'price' })).toThrow()
+    })
+  })
+
+  describe('createErrorResponse', () => {
+    it('should include details when given', () => {
+      const response = createErrorResponse(new ValidationError('Invalid request data'), {
+        fieldErrors: { title: ['Required'] },
+      })
+
+      expect(response.error).toEqual({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request data',
+        statusCode: 400,
+        details: { fieldErrors: { title: ['Required'] } },
+      })
+    })
+  })
+})
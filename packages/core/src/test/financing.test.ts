@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  amortize,
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  financingRequestSchema,
+  getFinancingOffers,
+  getFinancingPlans,
+  type FinancingOptions,
+} from '../financing'
+import { ValidationError } from '../errors'
+
+const options: FinancingOptions = {
+  available: true,
+  minAmount: 1000,
+  maxAmount: 25000,
+  terms: [12, 24, 36],
+  promotionalAPR: 0,
+  standardAPR: 9.99,
+}
+
+describe('Financing Tests', () => {
+  it('should calculate the fixed monthly payment', () => {
+    expect(calculateMonthlyPayment(5000, 9.99, 24)).toBe(230.7)
+    expect(calculateMonthlyPayment(5000, 0, 12)).toBe(416.67)
+  })
+
+  it('should pay the balance down to exactly zero', () => {
+    const schedule = buildAmortizationSchedule(5000, 9.99, 24)
+
+    expect(schedule).toHaveLength(24)
+    expect(schedule[0]).toEqual({ period: 1, payment: 230.7, principal: 189.07, interest: 41.63, balance: 4810.93 })
+    expect(schedule[23].balance).toBe(0)
+
+    const principal = schedule.reduce((sum, row) => sum + row.principal, 0)
+    expect(Math.round(principal * 100) / 100).toBe(5000)
+  })
+
+  it('should charge no interest at the promotional rate', () => {
+    const plan = amortize(1000, 0, 12, true)
+
+    expect(plan).toMatchObject({ monthlyPayment: 83.33, totalInterest: 0, totalPaid: 1000, promotional: true })
+    // The last payment picks up the rounded-off cents
+    expect(plan.schedule[11]).toMatchObject({ payment: 83.37, balance: 0 })
+  })
+
+  it('should give the promotional APR to the shortest term only', () => {
+    const plans = getFinancingPlans({ amount: 5000 }, options)
+
+    expect(plans.map((plan) => [plan.months, plan.apr, plan.promotional])).toEqual([
+      [12, 0, true],
+      [24, 9.99, false],
+      [36, 9.99, false],
+    ])
+    expect(plans[1]).toMatchObject({ totalInterest: 536.87, totalPaid: 5536.87 })
+  })
+
+  it('should validate the amount and the term', () => {
+    expect(() => getFinancingPlans({ amount: 800 }, options)).toThrow(ValidationError)
+    expect(() => getFinancingPlans({ amount: 30000 }, options)).toThrow(ValidationError)
+    expect(() => getFinancingPlans({ amount: 5000, months: 18 }, options)).toThrow(ValidationError)
+    expect(() => getFinancingPlans({ amount: 5000 }, { ...options, available: false })).toThrow(ValidationError)
+
+    expect(getFinancingPlans(financingRequestSchema.parse({ amount: '5000', months: '24' }), options)).toHaveLength(1)
+  })
+
+  it('should only offer financing on quotes within the configured amounts', () => {
+    expect(getFinancingOffers(800)).toEqual([])
+    expect(getFinancingOffers(30000)).toEqual([])
+
+    const offers = getFinancingOffers(5000)
+    expect(offers[0]).toEqual({ months: 12, apr: 0, monthlyPayment: 416.67 })
+    expect(offers[1]).toEqual({ months: 24, apr: 9.99, monthlyPayment: 230.7 })
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { getTimeZoneOffset, zonedDateTime } from '@workspace/config'
+import { AppointmentManager } from '../appointments'
+import {
+  appointmentToEvent,
+  buildCalendar,
+  buildVTimezone,
+  escapeICSText,
+  foldICSLine,
+  formatICSDateTime,
+} from '../ics'
+import { createInMemoryDb } from './in-memory-db'
+
+const CHICAGO = 'America/Chicago'
+
+describe('ICS Tests', () => {
+  it('should write wall-clock times in the business time zone', () => {
+    expect(getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), CHICAGO)).toBe(-360)
+    expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), CHICAGO)).toBe(-300)
+    expect(getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Riyadh')).toBe(180)
+
+    expect(formatICSDateTime(new Date('2024-03-05T15:30:00Z'), CHICAGO)).toBe('20240305T093000')
+    expect(formatICSDateTime(new Date('2024-07-01T04:00:00Z'), CHICAGO)).toBe('20240630T230000')
+  })
+
+  it('should describe the DST changes inside the range', () => {
+    const lines = buildVTimezone(CHICAGO, new Date('2024-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'))
+
+    expect(lines.filter((line) => line.startsWith('BEGIN:'))).toEqual([
+      'BEGIN:VTIMEZONE',
+      'BEGIN:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'BEGIN:STANDARD',
+    ])
+    // 2:00 CST on March 10 and 2:00 CDT on November 3
+    expect(lines).toContain('DTSTART:20240310T020000')
+    expect(lines).toContain('DTSTART:20241103T020000')
+    expect(lines).toContain('TZOFFSETTO:-0500')
+
+    const riyadh = buildVTimezone('Asia/Riyadh', new Date('2024-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'))
+    expect(riyadh.filter((line) => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD'])
+    expect(riyadh).toContain('TZOFFSETTO:+0300')
+  })
+
+  it('should escape text and fold long lines', () => {
+    expect(escapeICSText('Back door; code 12,34\nDog\\cat')).toBe('Back door\\; code 12\\,34\\nDog\\\\cat')
+
+    const folded = foldICSLine(`DESCRIPTION:${'é'.repeat(60)}`)
+    const chunks = folded.split('\r\n')
+    expect(chunks).toHaveLength(2)
+    expect(new TextEncoder().encode(chunks[0]).length).toBeLessThanOrEqual(75)
+    expect(chunks[1].startsWith(' ')).toBe(true)
+    expect(chunks.map((chunk, index) => (index ? chunk.slice(1) : chunk)).join('')).toBe(
+      `DESCRIPTION:${'é'.repeat(60)}`
+    )
+  })
+
+  it('should keep the UID and raise the sequence when a visit changes', async () => {
+    const db = createInMemoryDb()
+    db.tables.teamMembers.push({
+      id: 'tech_1',
+      name: 'Technician 1',
+      email: null,
+      technician: true,
+      active: true,
+      order: 0,
+      workingHours: {},
+    })
+    const manager = new AppointmentManager(db, () => zonedDateTime('2022-01-03', 10 * 60, CHICAGO))
+    const lead = await db.lead.create({
+      data: { name: 'Jane Smith', email: 'jane@example.com', phone: '5551234567', serviceType: 'maintenance' },
+    })
+
+    const booked = await manager.bookAppointment(lead.id, {
+      startsAt: zonedDateTime('2022-01-04', 9 * 60, CHICAGO),
+      serviceLocation: '12 Elm Street, Springfield',
+    })
+    const moved = await manager.rescheduleAppointment(booked.id, {
+      startsAt: zonedDateTime('2022-01-04', 13 * 60, CHICAGO),
+    })
+    const cancelled = await manager.cancelAppointment(booked.id, { reason: 'Customer is away' })
+
+    const events = [booked, moved, cancelled].map((appointment) =>
+      appointmentToEvent(appointment, { summary: 'Maintenance visit' })
+    )
+    expect(new Set(events.map((event) => event.uid)).size).toBe(1)
+    expect(events.map((event) => [event.sequence, event.status])).toEqual([
+      [0, 'CONFIRMED'],
+      [1, 'CONFIRMED'],
+      [2, 'CANCELLED'],
+    ])
+
+    const calendar = buildCalendar({ name: 'Jobs', timeZone: CHICAGO, events: [events[2]] })
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(calendar).toContain('\r\nSEQUENCE:2\r\nSTATUS:CANCELLED\r\n')
+    expect(calendar).toContain(`DTSTART;TZID=${CHICAGO}:${formatICSDateTime(moved.startsAt, CHICAGO)}`)
+    expect(calendar).toContain('LOCATION:12 Elm Street\\, Springfield')
+  })
+})
@@ -0,0 +1,413 @@
+// In-memory stand-in for the Prisma delegates used by the core managers.
+// Supports the subset of the query API the managers rely on: equality,
+// gte/lte/in/notIn filters and OR, nested `activities.create` on lead writes,
+// nested `items.create` and `include: { items }` on quotes, select, orderBy on
+// a single field and take. Team members and service areas are fixtures;
+// appointments and settings are stored.
+
+import type { AppointmentDatabaseClient } from '../appointments'
+import type { LeadAssignmentDatabaseClient } from '../lead-assignment'
+import type { FollowUpDatabaseClient } from '../lead-follow-up'
+import type { QuoteDatabaseClient } from '../quotes'
+import type { ServiceAreaDatabaseClient } from '../service-areas'
+import type { WhatsAppAlertDatabaseClient } from '../whatsapp'
+
+type Row = Record<string, any>
+
+// Every database slice the managers declare
+type CoreDatabaseClient = AppointmentDatabaseClient &
+  LeadAssignmentDatabaseClient &
+  FollowUpDatabaseClient &
+  QuoteDatabaseClient &
+  ServiceAreaDatabaseClient &
+  WhatsAppAlertDatabaseClient
+
+function matchesField(value: any, condition: any): boolean {
+  if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+    if ('in' in condition && !condition.in.includes(value)) return false
+    if ('notIn' in condition && condition.notIn.includes(value)) return false
+    if ('not' in condition && value === condition.not) return false
+    // Like SQL, range filters never match null
+    if (value === null && ['gte', 'lte', 'gt', 'lt'].some((key) => key in condition)) return false
+    if ('gte' in condition && !(value >= condition.gte)) return false
+    if ('lte' in condition && !(value <= condition.lte)) return false
+    if ('gt' in condition && !(value > condition.gt)) return false
+    if ('lt' in condition && !(value < condition.lt)) return false
+    return true
+  }
+
+  return value === condition
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition === undefined) return true
+    if (field === 'OR') return (condition as Row[]).some((branch) => matches(row, branch))
+    return matchesField(row[field], condition)
+  })
+}
+
+function project(row: Row, select?: Row): Row {
+  if (!select) return { ...row }
+  return Object.fromEntries(Object.keys(select).filter((key) => select[key]).map((key) => [key, row[key]]))
+}
+
+function sortRows(rows: Row[], orderBy?: Row): Row[] {
+  if (!orderBy) return rows
+  const [[field, direction]] = Object.entries(orderBy)
+  return [...rows].sort((a, b) => {
+    const order = a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0
+    return direction === 'desc' ? -order : order
+  })
+}
+
+export function createInMemoryDb() {
+  let sequence = 0
+  const nextId = (prefix: string) => `${prefix}_${++sequence}`
+
+  const leads: Row[] = []
+  const leadActivities: Row[] = []
+
+  const insertActivity = (data: Row) => {
+    const row = {
+      id: nextId('activity'),
+      description: null,
+      metadata: null,
+      createdAt: new Date(),
+      ...data,
+    }
+    leadActivities.push(row)
+    return row
+  }
+
+  const createActivities = (leadId: string, nested?: { create?: Row | Row[] }) => {
+    if (!nested?.create) return
+    const items = Array.isArray(nested.create) ? nested.create : [nested.create]
+    for (const item of items) {
+      insertActivity({ ...item, leadId })
+    }
+  }
+
+  const leadActivity = {
+    async create({ data }: { data: Row }) {
+      return { ...insertActivity(data) }
+    },
+    async findMany({ where, orderBy, take }: { where?: Row; orderBy?: Row; take?: number } = {}) {
+      return sortRows(leadActivities.filter((row) => matches(row, where)), orderBy)
+        .slice(0, take ?? undefined)
+        .map((row) => ({ ...row }))
+    },
+    async count({ where }: { where?: Row } = {}) {
+      return leadActivities.filter((row) => matches(row, where)).length
+    },
+  }
+
+  const lead = {
+    async create({ data }: { data: Row }) {
+      const { activities, ...fields } = data
+      const now = new Date()
+      const row: Row = {
+        id: nextId('lead'),
+        phone: null,
+        company: null,
+        message: null,
+        source: 'WEBSITE',
+        status: 'NEW',
+        priority: 'MEDIUM',
+        urgency: 'FLEXIBLE',
+        serviceId: null,
+        serviceType: null,
+        city: null,
+        zipCode: null,
+        inServiceArea: null,
+        serviceAreaId: null,
+        travelSurcharge: null,
+        score: 0,
+        assignedToId: null,
+        estimatedValue: null,
+        notes: null,
+        followUpDate: null,
+        slaBreachedAt: null,
+        reminderSentAt: null,
+        createdAt: now,
+        updatedAt: now,
+        ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      }
+      leads.push(row)
+      createActivities(row.id, activities)
+      return { ...row }
+    },
+    async update({ where, data }: { where: Row; data: Row }) {
+      const row = leads.find((candidate) => candidate.id === where.id)
+      if (!row) {
+        throw new Error(`Record to update not found: ${where.id}`)
+      }
+      const { activities, ...fields } = data
+      Object.assign(
+        row,
+        Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+        { updatedAt: new Date() }
+      )
+      createActivities(row.id, activities)
+      return { ...row }
+    },
+    async findUnique({ where }: { where: Row }) {
+      const row = leads.find((candidate) => matches(candidate, where))
+      return row ? { ...row } : null
+    },
+    async findMany({ where, select, orderBy, take }: { where?: Row; select?: Row; orderBy?: Row; take?: number } = {}) {
+      return sortRows(leads.filter((row) => matches(row, where)), orderBy)
+        .slice(0, take ?? undefined)
+        .map((row) => project(row, select))
+    },
+    async count({ where }: { where?: Row } = {}) {
+      return leads.filter((row) => matches(row, where)).length
+    },
+  }
+
+  // Users, services and routing rules are fixtures: tests push rows directly
+  const users: Row[] = []
+  const services: Row[] = []
+  const leadAssignmentRules: Row[] = []
+
+  const user = {
+    async findUnique({ where }: { where: Row }) {
+      const row = users.find((candidate) => matches(candidate, where))
+      return row ? { ...row } : null
+    },
+    async findMany({ where, select, orderBy }: { where?: Row; select?: Row; orderBy?: Row } = {}) {
+      return sortRows(users.filter((row) => matches(row, where)), orderBy).map((row) => project(row, select))
+    },
+    async update({ where, data }: { where: Row; data: Row }) {
+      const row = users.find((candidate) => candidate.id === where.id)
+      if (!row) {
+        throw new Error(`Record to update not found: ${where.id}`)
+      }
+      Object.assign(row, data)
+      return { ...row }
+    },
+  }
+
+  const service = {
+    async findUnique({ where, select }: { where: Row; select?: Row }) {
+      const row = services.find((candidate) => matches(candidate, where))
+      return row ? project(row, select) : null
+    },
+  }
+
+  const leadAssignmentRule = {
+    async findMany({ where, orderBy }: { where?: Row; orderBy?: Row } = {}) {
+      return sortRows(leadAssignmentRules.filter((row) => matches(row, where)), orderBy).map((row) => ({ ...row }))
+    },
+  }
+
+  const quotes: Row[] = []
+  const quoteLineItems: Row[] = []
+
+  const createItems = (quoteId: string, nested?: { create?: Row[] }) => {
+    for (const item of nested?.create ?? []) {
+      quoteLineItems.push({ id: nextId('item'), order: 0, ...item, quoteId })
+    }
+  }
+
+  const withItems = (row: Row, include?: Row) =>
+    include?.items
+      ? {
+          ...row,
+          items: sortRows(
+            quoteLineItems.filter((item) => item.quoteId === row.id),
+            include.items.orderBy
+          ).map((item) => ({ ...item })),
+        }
+      : { ...row }
+
+  const quote = {
+    async create({ data, include }: { data: Row; include?: Row }) {
+      const { items, ...fields } = data
+      const now = new Date()
+      const row: Row = {
+        id: nextId('quote'),
+        version: 1,
+        status: 'DRAFT',
+        notes: null,
+        emergency: false,
+        serviceDate: null,
+        financing: [],
+        sentAt: null,
+        expiresAt: null,
+        acceptedAt: null,
+        signatureName: null,
+        signatureIp: null,
+        financingMonths: null,
+        declinedAt: null,
+        declineReason: null,
+        createdById: null,
+        createdAt: now,
+        updatedAt: now,
+        ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+      }
+      quotes.push(row)
+      createItems(row.id, items)
+      return withItems(row, include)
+    },
+    async update({ where, data, include }: { where: Row; data: Row; include?: Row }) {
+      const row = quotes.find((candidate) => candidate.id === where.id)
+      if (!row) {
+        throw new Error(`Record to update not found: ${where.id}`)
+      }
+      const { items, ...fields } = data
+      Object.assign(
+        row,
+        Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)),
+        { updatedAt: new Date() }
+      )
+      createItems(row.id, items)
+      return withItems(row, include)
+    },
+    async updateMany({ where, data }: { where?: Row; data: Row }) {
+      const rows = quotes.filter((row) => matches(row, where))
+      for (const row of rows) {
+        Object.assign(row, data, { updatedAt: new Date() })
+      }
+      return { count: rows.length }
+    },
+    async findUnique({ where, include }: { where: Row; include?: Row }) {
+      const row = quotes.find((candidate) => matches(candidate, where))
+      return row ? withItems(row, include) : null
+    },
+    async findMany({ where, orderBy, take, include }: { where?: Row; orderBy?: Row; take?: number; include?: Row } = {}) {
+      return sortRows(quotes.filter((row) => matches(row, where)), orderBy)
+        .slice(0, take ?? undefined)
+        .map((row) => withItems(row, include))
+    },
+  }
+
+  const quoteLineItem = {
+    async deleteMany({ where }: { where?: Row } = {}) {
+      const remaining = quoteLineItems.filter((row) => !matches(row, where))
+      const count = quoteLineItems.length - remaining.length
+      quoteLineItems.splice(0, quoteLineItems.length, ...remaining)
+      return { count }
+    },
+  }
+
+  const teamMembers: Row[] = []
+  const appointments: Row[] = []
+
+  const teamMember = {
+    async findUnique({ where }: { where: Row }) {
+      const row = teamMembers.find((candidate) => matches(candidate, where))
+      return row ? { ...row } : null
+    },
+    async findMany({ where, orderBy }: { where?: Row; orderBy?: Row } = {}) {
+      return sortRows(teamMembers.filter((row) => matches(row, where)), orderBy).map((row) => ({ ...row }))
+    },
+  }
+
+  const appointment = {
+    async create({ data }: { data: Row }) {
+      const now = new Date()
+      const row: Row = {
+        id: nextId('appointment'),
+        status: 'SCHEDULED',
+        serviceType: null,
+        notes: null,
+        emergency: false,
+        cancelledAt: null,
+        cancelReason: null,
+        createdById: null,
+        sequence: 0,
+        createdAt: now,
+        updatedAt: now,
+        ...Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)),
+      }
+      appointments.push(row)
+      return { ...row }
+    },
+    async update({ where, data }: { where: Row; data: Row }) {
+      const row = appointments.find((candidate) => candidate.id === where.id)
+      if (!row) {
+        throw new Error(`Record to update not found: ${where.id}`)
+      }
+      Object.assign(
+        row,
+        Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)),
+        { updatedAt: new Date() }
+      )
+      return { ...row }
+    },
+    async findUnique({ where }: { where: Row }) {
+      const row = appointments.find((candidate) => matches(candidate, where))
+      return row ? { ...row } : null
+    },
+    async findMany({ where, orderBy, take }: { where?: Row; orderBy?: Row; take?: number } = {}) {
+      return sortRows(appointments.filter((row) => matches(row, where)), orderBy)
+        .slice(0, take ?? undefined)
+        .map((row) => ({ ...row }))
+    },
+  }
+
+  // Fixtures, like team members
+  const serviceAreas: Row[] = []
+
+  const serviceArea = {
+    async findMany({ where, orderBy }: { where?: Row; orderBy?: Row } = {}) {
+      return sortRows(serviceAreas.filter((row) => matches(row, where)), orderBy).map((row) => ({ ...row }))
+    },
+  }
+
+  const settings: Row[] = []
+
+  const setting = {
+    async findMany() {
+      return settings.map((row) => ({ ...row }))
+    },
+    async upsert({ where, update, create }: { where: Row; update: Row; create: Row }) {
+      let row = settings.find((candidate) => candidate.key === where.key)
+      if (row) {
+        Object.assign(row, update)
+      } else {
+        row = { id: `setting_${settings.length + 1}`, type: 'string', category: 'general', ...create }
+        settings.push(row)
+      }
+      return { ...row }
+    },
+  }
+
+  const client = {
+    lead,
+    leadActivity,
+    user,
+    service,
+    leadAssignmentRule,
+    quote,
+    quoteLineItem,
+    teamMember,
+    appointment,
+    serviceArea,
+    setting,
+  }
+
+  return {
+    // Prisma's delegates are generic over their arguments and return
+    // PrismaPromises; the fake is checked against the managers at runtime by
+    // the tests and typed as the real client here, in one place
+    ...(client as unknown as CoreDatabaseClient),
+    // Direct access to the stored rows for assertions and fixtures
+    tables: {
+      leads,
+      leadActivities,
+      users,
+      services,
+      leadAssignmentRules,
+      quotes,
+      quoteLineItems,
+      teamMembers,
+      appointments,
+      serviceAreas,
+      settings,
+    },
+  }
+}
+
+export type InMemoryDb = ReturnType<typeof createInMemoryDb>
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  LeadAssignmentManager,
+  matchesAssignmentRule,
+  pickNextAssignee,
+  type LeadAssignmentRuleRecord,
+} from '../lead-assignment'
+import { NotFoundError, ValidationError } from '../errors'
+import { createInMemoryDb, type InMemoryDb } from './in-memory-db'
+
+const createRule = (overrides: Partial<LeadAssignmentRuleRecord> = {}): LeadAssignmentRuleRecord => ({
+  id: 'rule_1',
+  name: 'Rule',
+  serviceCategory: null,
+  priority: null,
+  urgency: null,
+  agentIds: [],
+  order: 0,
+  active: true,
+  ...overrides,
+})
+
+describe('Lead Assignment Tests', () => {
+  describe('matchesAssignmentRule', () => {
+    const facts = { serviceCategory: 'commercial', priority: 'HIGH', urgency: 'IMMEDIATE' } as const
+
+    it('should match rules whose criteria all equal the lead', () => {
+      expect(matchesAssignmentRule(createRule(), facts)).toBe(true)
+      expect(matchesAssignmentRule(createRule({ serviceCategory: 'commercial', urgency: 'IMMEDIATE' }), facts)).toBe(true)
+    })
+
+    it('should reject rules with any differing criterion', () => {
+      expect(matchesAssignmentRule(createRule({ serviceCategory: 'commercial', priority: 'LOW' }), facts)).toBe(false)
+      expect(matchesAssignmentRule(createRule({ urgency: 'FLEXIBLE' }), facts)).toBe(false)
+    })
+  })
+
+  describe('pickNextAssignee', () => {
+    it('should pick whoever was assigned longest ago, never-assigned first', () => {
+      const users = [
+        { id: 'b', lastAssignedAt: new Date('2022-01-02') },
+        { id: 'c', lastAssignedAt: new Date('2022-01-01') },
+        { id: 'a', lastAssignedAt: null },
+      ]
+
+      expect(pickNextAssignee(users)?.id).toBe('a')
+      expect(pickNextAssignee(users.slice(0, 2))?.id).toBe('c')
+      expect(pickNextAssignee([])).toBeNull()
+    })
+  })
+
+  describe('LeadAssignmentManager', () => {
+    let db: InMemoryDb
+    let clock: Date
+    let manager: LeadAssignmentManager
+
+    const addUser = (id: string, role = 'AGENT', active = true) =>
+      db.tables.users.push({ id, name: id.toUpperCase(), role, active, lastAssignedAt: null })
+
+    const addLead = async (fields: Record<string, unknown> = {}) =>
+      db.lead.create({ data: { name: 'Lead', email: 'lead@example.com', ...fields } })
+
+    beforeEach(() => {
+      db = createInMemoryDb()
+      clock = new Date('2022-01-01T09:00:00Z')
+      manager = new LeadAssignmentManager(db, () => clock)
+      addUser('ana')
+      addUser('ben')
+      addUser('eve', 'EDITOR')
+    })
+
+    it('should rotate new leads through active agents', async () => {
+      addUser('zed', 'AGENT', false)
+      const assignees: string[] = []
+
+      for (let i = 0; i < 4; i++) {
+        const lead = await addLead()
+        const result = await manager.autoAssign(lead.id)
+        assignees.push(result!.assignee.id)
+        clock = new Date(clock.getTime() + 60_000)
+      }
+
+      expect(assignees).toEqual(['ana', 'ben', 'ana', 'ben'])
+      expect(db.tables.leadActivities.at(-1)).toMatchObject({
+        type: 'ASSIGNED',
+        metadata: { strategy: 'round_robin', to: 'ben' },
+      })
+    })
+
+    it('should route leads matching a rule to its pool', async () => {
+      db.tables.services.push({ id: 'svc_1', category: 'commercial' })
+      db.tables.leadAssignmentRules.push(
+        createRule({ id: 'rule_urgent', urgency: 'IMMEDIATE', agentIds: ['zed'], order: 0 }),
+        createRule({ id: 'rule_commercial', serviceCategory: 'commercial', agentIds: ['eve'], order: 1 })
+      )
+      const lead = await addLead({ serviceId: 'svc_1', urgency: 'IMMEDIATE' })
+
+      const result = await manager.autoAssign(lead.id, { actorId: 'system' })
+
+      // zed does not exist, so the urgent rule falls through
+      expect(result?.assignee.id).toBe('eve')
+      expect(result?.rule?.id).toBe('rule_commercial')
+      expect(db.tables.leadActivities.at(-1)?.metadata).toEqual({
+        from: null,
+        to: 'eve',
+        strategy: 'rule',
+        ruleId: 'rule_commercial',
+        actorId: 'system',
+      })
+      expect(db.tables.users.find((user) => user.id === 'eve')?.lastAssignedAt).toEqual(clock)
+    })
+
+    it('should leave owned leads alone and report when nobody can take a lead', async () => {
+      const owned = await addLead({ assignedToId: 'ben' })
+      expect(await manager.autoAssign(owned.id)).toBeNull()
+
+      db.tables.users.forEach((user) => (user.active = false))
+      const lead = await addLead()
+      expect(await manager.autoAssign(lead.id)).toBeNull()
+      expect(db.tables.leads.find((row) => row.id === lead.id)?.assignedToId).toBeNull()
+    })
+
+    it('should validate manual assignees', async () => {
+      addUser('uma', 'VIEWER')
+      addUser('old', 'AGENT', false)
+      const lead = await addLead()
+
+      await expect(manager.assign(lead.id, 'uma')).rejects.toThrow(NotFoundError)
+      await expect(manager.assign(lead.id, 'old')).rejects.toThrow(ValidationError)
+      await expect(manager.assign('missing', 'ana')).rejects.toThrow(NotFoundError)
+
+      const assigned = await manager.assign(lead.id, 'eve', { actorId: 'ana' })
+      expect(assigned.assignedToId).toBe('eve')
+      expect(db.tables.leadActivities.at(-1)?.metadata).toMatchObject({ strategy: 'manual', actorId: 'ana' })
+
+      const unassigned = await manager.assign(lead.id, null)
+      expect(unassigned.assignedToId).toBeNull()
+    })
+
+    it('should order an agent queue by priority, follow-up and age', async () => {
+      const low = await addLead({ assignedToId: 'ana', priority: 'LOW' })
+      const later = await addLead({ assignedToId: 'ana', priority: 'HIGH', followUpDate: new Date('2022-02-01') })
+      const sooner = await addLead({ assignedToId: 'ana', priority: 'HIGH', followUpDate: new Date('2022-01-05') })
+      await addLead({ assignedToId: 'ana', priority: 'URGENT', status: 'WON' })
+      await addLead({ assignedToId: 'ben', priority: 'URGENT' })
+
+      const queue = await manager.getQueue('ana')
+
+      expect(queue.map((lead) => lead.id)).toEqual([sooner.id, later.id, low.id])
+      expect(await manager.getQueue('ana', { includeClosed: true })).toHaveLength(4)
+    })
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  LeadCaptureManager,
+  createRateLimiter,
+  createRecaptchaVerifier,
+  type CaptchaVerifier,
+} from '../lead-capture'
+import { apiError, getClientIp, toAPIError } from '../api'
+import { BusinessError, RateLimitError, ValidationError } from '../errors'
+import { createInMemoryDb, type InMemoryDb } from './in-memory-db'
+
+const submission = {
+  name: 'Sara Ahmed',
+  email: 'sara@example.com',
+  phone: '5551234567',
+  serviceType: 'AC Repair',
+  message: 'Unit is leaking',
+  captchaToken: 'token-123',
+}
+
+describe('Lead Capture Tests', () => {
+  let db: InMemoryDb
+  let captcha: CaptchaVerifier
+  let now: Date
+  let capture: LeadCaptureManager
+
+  beforeEach(() => {
+    db = createInMemoryDb()
+    captcha = { verify: vi.fn().mockResolvedValue(true) }
+    now = new Date()
+    capture = new LeadCaptureManager({
+      db,
+      captcha,
+      rateLimiter: createRateLimiter({ requests: 3, window: 3600000 }),
+      dedupWindowMs: 86400000,
+      now: () => now,
+    })
+  })
+
+  describe('captureLead', () => {
+    it('should create a lead after verifying the CAPTCHA token', async () => {
+      const result = await capture.captureLead(submission, { ip: '203.0.113.7' })
+
+      expect(captcha.verify).toHaveBeenCalledWith('token-123', '203.0.113.7')
+      expect(result.duplicate).toBe(false)
+      expect(result.lead).toMatchObject({ email: 'sara@example.com', source: 'WEBSITE', status: 'NEW' })
+      expect(db.tables.leads).toHaveLength(1)
+    })
+
+    it('should not let visitors set triage fields', async () => {
+      const result = await capture.captureLead(
+        { ...submission, priority: 'URGENT', estimatedValue: 99999 },
+        { ip: '203.0.113.7' }
+      )
+
+      expect(result.lead.priority).toBe('MEDIUM')
+      expect(result.lead.estimatedValue).toBeNull()
+    })
+
+    it('should reject submissions without a valid CAPTCHA', async () => {
+      vi.mocked(captcha.verify).mockResolvedValue(false)
+
+      await expect(capture.captureLead(submission, { ip: '203.0.113.7' })).rejects.toMatchObject({
+        code: 'CAPTCHA_FAILED',
+        statusCode: 400,
+      })
+      expect(db.tables.leads).toHaveLength(0)
+    })
+
+    it('should reject invalid input before calling the verifier', async () => {
+      await expect(
+        capture.captureLead({ ...submission, email: 'not-an-email' }, { ip: '203.0.113.7' })
+      ).rejects.toThrow()
+      expect(captcha.verify).not.toHaveBeenCalled()
+    })
+
+    it('should merge repeat submissions by email or phone inside the window', async () => {
+      const first = await capture.captureLead(submission, { ip: '203.0.113.7' })
+      const byPhone = await capture.captureLead(
+        { ...submission, email: 'other@example.com', message: 'Still leaking' },
+        { ip: '203.0.113.8' }
+      )
+
+      expect(byPhone).toEqual({ lead: first.lead, duplicate: true })
+      expect(db.tables.leads).toHaveLength(1)
+      expect(db.tables.leadActivities).toContainEqual(
+        expect.objectContaining({
+          leadId: first.lead.id,
+          type: 'NOTE',
+          title: 'Repeat submission',
+          description: 'Still leaking',
+        })
+      )
+    })
+
+    it('should always create a new lead when dedup is off', async () => {
+      const first = await capture.captureLead(submission, { ip: '203.0.113.7' })
+      const result = await capture.captureLead(submission, { ip: '203.0.113.7', dedup: false })
+
+      expect(result.duplicate).toBe(false)
+      expect(result.lead.id).not.toBe(first.lead.id)
+      expect(db.tables.leads).toHaveLength(2)
+      expect(db.tables.leadActivities.filter((activity) => activity.title === 'Repeat submission')).toHaveLength(0)
+    })
+
+    it('should create a new lead once the dedup window has passed', async () => {
+      await capture.captureLead(submission, { ip: '203.0.113.7' })
+      now = new Date(now.getTime() + 86400000 + 1000)
+
+      const result = await capture.captureLead(submission, { ip: '203.0.113.7' })
+
+      expect(result.duplicate).toBe(false)
+      expect(db.tables.leads).toHaveLength(2)
+    })
+
+    it('should rate limit by client IP', async () => {
+      for (let i = 0; i < 3; i++) {
+        await capture.captureLead({ ...submission, email: `lead${i}@example.com` }, { ip: '203.0.113.7' })
+      }
+
+      await expect(capture.captureLead(submission, { ip: '203.0.113.7' })).rejects.toBeInstanceOf(RateLimitError)
+      await expect(capture.captureLead(submission, { ip: '203.0.113.9' })).resolves.toBeDefined()
+    })
+  })
+
+  describe('createRateLimiter', () => {
+    it('should reset the count after the window', () => {
+      let time = 0
+      const limiter = createRateLimiter({ requests: 1, window: 1000 }, () => time)
+
+      expect(limiter.hit('ip').allowed).toBe(true)
+      expect(limiter.hit('ip')).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 })
+
+      time = 1000
+      expect(limiter.hit('ip').allowed).toBe(true)
+    })
+  })
+
+  describe('createRecaptchaVerifier', () => {
+    const respond = (body: object) => vi.fn().mockResolvedValue({ json: async () => body })
+
+    it('should post the token and secret to Google', async () => {
+      const fetch = respond({ success: true })
+      const verifier = createRecaptchaVerifier({ secretKey: 'secret', fetch })
+
+      await expect(verifier.verify('token', '203.0.113.7')).resolves.toBe(true)
+
+      const [url, init] = fetch.mock.calls[0]
+      expect(url).toBe('https://www.google.com/recaptcha/api/siteverify')
+      expect(init.body.toString()).toBe('secret=secret&response=token&remoteip=203.0.113.7')
+    })
+
+    it('should reject low v3 scores and failed checks', async () => {
+      const lowScore = createRecaptchaVerifier({ secretKey: 'secret', fetch: respond({ success: true, score: 0.2 }) })
+      const failed = createRecaptchaVerifier({ secretKey: 'secret', fetch: respond({ success: false }) })
+
+      await expect(lowScore.verify('token')).resolves.toBe(false)
+      await expect(failed.verify('token')).resolves.toBe(false)
+    })
+
+    it('should fail closed without a secret unless allowed', async () => {
+      await expect(createRecaptchaVerifier({}).verify('token')).resolves.toBe(false)
+      await expect(createRecaptchaVerifier({ allowWithoutSecret: true }).verify('token')).resolves.toBe(true)
+    })
+  })
+
+  describe('API responses', () => {
+    it('should map errors to the APIError shape', () => {
+      expect(toAPIError(new ValidationError('Email is required', 'email'))).toEqual({
+        status: 400,
+        error: { code: 'VALIDATION_ERROR', message: 'Email is required', details: { field: 'email' } },
+      })
+      expect(toAPIError(new BusinessError('Nope', 'CAPTCHA_FAILED', 400)).error).toEqual({
+        code: 'CAPTCHA_FAILED',
+        message: 'Nope',
+      })
+      expect(toAPIError(new Error('connection string leaked'))).toEqual({
+        status: 500,
+        error: { code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' },
+      })
+    })
+
+    it('should send rate limit responses with Retry-After and no-store', async () => {
+      const response = apiError(new RateLimitError(90500))
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Cache-Control')).toBe('no-store')
+      expect(response.headers.get('Retry-After')).toBe('91')
+      expect(await response.json()).toMatchObject({ code: 'RATE_LIMITED', details: { retryAfter: 91 } })
+    })
+
+    it('should read the client IP from proxy headers', () => {
+      expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7')
+      expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8')
+      expect(getClientIp(new Headers())).toBe('unknown')
+    })
+  })
+})
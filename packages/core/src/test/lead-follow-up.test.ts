@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { businessCalendarSchema } from '@workspace/config'
+import {
+  FollowUpScheduler,
+  computeSlaDeadline,
+  escalatePriority,
+  nextBusinessMoment,
+  type FollowUpReminder,
+} from '../lead-follow-up'
+import { createInMemoryDb, type InMemoryDb } from './in-memory-db'
+
+// Local times: 2022-01-03 is a Monday
+const at = (day: number, hour: number, minute = 0) => new Date(2022, 0, day, hour, minute)
+
+// Monday to Friday, 8 AM to 6 PM in the local time zone
+const WEEKDAY = { open: '8:00', close: '18:00', closed: false }
+const CLOSED = { open: '', close: '', closed: true }
+const OFFICE = businessCalendarSchema.parse({
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  hours: {
+    monday: WEEKDAY,
+    tuesday: WEEKDAY,
+    wednesday: WEEKDAY,
+    thursday: WEEKDAY,
+    friday: WEEKDAY,
+    saturday: CLOSED,
+    sunday: CLOSED,
+  },
+  holidayPreset: null,
+})
+
+describe('Lead Follow-up Tests', () => {
+  describe('SLA deadlines', () => {
+    it('should start the clock at the next business moment', () => {
+      expect(nextBusinessMoment(at(3, 10), OFFICE)).toEqual(at(3, 10))
+      expect(nextBusinessMoment(at(3, 6), OFFICE)).toEqual(at(3, 8))
+      expect(nextBusinessMoment(at(3, 19), OFFICE)).toEqual(at(4, 8))
+      expect(nextBusinessMoment(at(7, 18), OFFICE)).toEqual(at(10, 8))
+      expect(nextBusinessMoment(at(8, 12), OFFICE)).toEqual(at(10, 8))
+    })
+
+    it('should add the urgency window and skip closed hours', () => {
+      expect(computeSlaDeadline(at(3, 10), 'IMMEDIATE', OFFICE)).toEqual(at(3, 12))
+      // Saturday leads start Monday morning
+      expect(computeSlaDeadline(at(8, 12), 'IMMEDIATE', OFFICE)).toEqual(at(10, 10))
+      // Friday 5 PM + 2h lands after close
+      expect(computeSlaDeadline(at(7, 17), 'IMMEDIATE', OFFICE)).toEqual(at(10, 8))
+      expect(computeSlaDeadline(at(3, 10), 'WITHIN_24H', OFFICE)).toEqual(at(4, 10))
+    })
+
+    it('should escalate priority one step at a time', () => {
+      expect(escalatePriority('LOW')).toBe('MEDIUM')
+      expect(escalatePriority('HIGH')).toBe('URGENT')
+      expect(escalatePriority('URGENT')).toBe('URGENT')
+    })
+  })
+
+  describe('FollowUpScheduler', () => {
+    let db: InMemoryDb
+    let clock: Date
+    let reminders: FollowUpReminder[]
+    let scheduler: FollowUpScheduler
+
+    const addLead = async (fields: Record<string, unknown> = {}) =>
+      db.lead.create({ data: { name: 'Lead', email: 'lead@example.com', createdAt: at(3, 9), ...fields } })
+
+    const find = (id: string) => db.tables.leads.find((row) => row.id === id)!
+
+    beforeEach(() => {
+      db = createInMemoryDb()
+      db.tables.settings.push({ key: 'business_calendar', value: JSON.stringify(OFFICE) })
+      clock = at(3, 9)
+      reminders = []
+      const notifier = { sendReminder: async (reminder: FollowUpReminder) => void reminders.push(reminder) }
+      scheduler = new FollowUpScheduler(db, notifier, () => clock)
+      db.tables.users.push({ id: 'ana', name: 'Ana', email: 'ana@example.com', role: 'AGENT', active: true })
+    })
+
+    it('should give open leads without a follow-up date their SLA deadline', async () => {
+      const urgent = await addLead({ urgency: 'IMMEDIATE' })
+      const planned = await addLead({ followUpDate: at(20, 9) })
+      const won = await addLead({ status: 'WON' })
+
+      const result = await scheduler.run()
+
+      expect(result.scheduled).toBe(1)
+      expect(find(urgent.id).followUpDate).toEqual(at(3, 11))
+      expect(find(planned.id).followUpDate).toEqual(at(20, 9))
+      expect(find(won.id).followUpDate).toBeNull()
+    })
+
+    it('should list overdue and due-today leads', async () => {
+      const overdue = await addLead({ followUpDate: at(2, 9), assignedToId: 'ana' })
+      const today = await addLead({ followUpDate: at(3, 15) })
+      await addLead({ followUpDate: at(4, 9) })
+      await addLead({ followUpDate: at(1, 9), status: 'LOST' })
+
+      expect((await scheduler.getOverdue()).map((lead) => lead.id)).toEqual([overdue.id])
+      expect(await scheduler.getOverdue({ assignedToId: 'ben' })).toHaveLength(0)
+      expect((await scheduler.getDueToday()).map((lead) => lead.id)).toEqual([today.id])
+    })
+
+    it('should escalate each missed deadline once', async () => {
+      const lead = await addLead({ priority: 'MEDIUM', followUpDate: at(3, 8) })
+
+      expect((await scheduler.run()).breached).toBe(1)
+      expect(find(lead.id)).toMatchObject({ priority: 'HIGH', slaBreachedAt: clock })
+      expect(db.tables.leadActivities.at(-1)).toMatchObject({
+        type: 'SLA_BREACHED',
+        metadata: { from: 'MEDIUM', to: 'HIGH' },
+      })
+
+      clock = at(3, 10)
+      expect((await scheduler.run()).breached).toBe(0)
+
+      // A new deadline that is missed again escalates again
+      find(lead.id).followUpDate = at(3, 11)
+      clock = at(3, 12)
+      expect((await scheduler.run()).breached).toBe(1)
+      expect(find(lead.id).priority).toBe('URGENT')
+    })
+
+    it('should send one digest per owner per day', async () => {
+      const overdue = await addLead({ followUpDate: at(2, 9), assignedToId: 'ana' })
+      const today = await addLead({ followUpDate: at(3, 16), assignedToId: 'ana' })
+      const unassigned = await addLead({ followUpDate: at(3, 17) })
+      await addLead({ followUpDate: at(5, 9), assignedToId: 'ana' })
+
+      expect((await scheduler.run()).reminders).toBe(2)
+
+      const [mine, orphan] = reminders
+      expect(mine.assignee).toEqual({ id: 'ana', name: 'Ana', email: 'ana@example.com' })
+      expect(mine.overdue.map((lead) => lead.id)).toEqual([overdue.id])
+      expect(mine.dueToday.map((lead) => lead.id)).toEqual([today.id])
+      expect(orphan).toMatchObject({ assignee: null, dueToday: [{ id: unassigned.id }] })
+
+      clock = at(3, 13)
+      expect((await scheduler.run()).reminders).toBe(0)
+
+      clock = at(4, 9)
+      expect((await scheduler.run()).reminders).toBe(2)
+    })
+
+    it("should end the day at midnight in the calendar's time zone", async () => {
+      // Chicago is UTC-6 in January; the tests run on a UTC server
+      db.tables.settings[0].value = JSON.stringify({ ...OFFICE, timezone: 'America/Chicago' })
+      clock = new Date('2022-01-03T20:00:00Z')
+      const evening = await addLead({ followUpDate: new Date('2022-01-04T03:00:00Z'), assignedToId: 'ana' })
+      await addLead({ followUpDate: new Date('2022-01-04T07:00:00Z'), assignedToId: 'ana' })
+
+      expect((await scheduler.getDueToday()).map((lead) => lead.id)).toEqual([evening.id])
+      expect((await scheduler.run()).reminders).toBe(1)
+      expect(reminders[0].dueToday.map((lead) => lead.id)).toEqual([evening.id])
+
+      // Past UTC midnight but still Monday in Chicago
+      clock = new Date('2022-01-04T05:00:00Z')
+      expect((await scheduler.run()).reminders).toBe(0)
+
+      clock = new Date('2022-01-04T07:00:00Z')
+      expect((await scheduler.run()).reminders).toBe(1)
+    })
+
+    it('should retry reminders that failed to send', async () => {
+      const lead = await addLead({ followUpDate: at(3, 16), assignedToId: 'ana' })
+      const failing = new FollowUpScheduler(
+        db,
+        { sendReminder: async () => Promise.reject(new Error('SMTP down')) },
+        () => clock
+      )
+
+      expect(await failing.run()).toMatchObject({ reminders: 0, failedReminders: 1 })
+      expect(find(lead.id).reminderSentAt).toBeNull()
+      expect((await scheduler.run()).reminders).toBe(1)
+    })
+  })
+})
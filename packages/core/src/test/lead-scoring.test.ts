@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { getServiceEstimateRange, scoreLead, type LeadScoreFacts } from '../lead-scoring'
+import { LeadManager } from '../business'
+import { createInMemoryDb } from './in-memory-db'
+
+const facts = (overrides: Partial<LeadScoreFacts> = {}): LeadScoreFacts => ({
+  source: 'OTHER',
+  urgency: 'FLEXIBLE',
+  serviceType: null,
+  estimatedValue: null,
+  inServiceArea: null,
+  travelSurcharge: null,
+  interactions: 0,
+  ...overrides,
+})
+
+describe('Lead Scoring Tests', () => {
+  it('should match service types to estimate ranges however they are written', () => {
+    expect(getServiceEstimateRange('AC Repair')).toEqual({ min: 150, max: 1200 })
+    expect(getServiceEstimateRange('ac-repair')).toEqual({ min: 150, max: 1200 })
+    expect(getServiceEstimateRange('Plumbing')).toBeNull()
+    expect(getServiceEstimateRange(null)).toBeNull()
+  })
+
+  it('should score the weakest lead 0 and the strongest 100', () => {
+    expect(scoreLead(facts({ serviceType: 'Plumbing', inServiceArea: false })).total).toBe(0)
+    expect(
+      scoreLead(
+        facts({
+          source: 'WEBSITE',
+          urgency: 'IMMEDIATE',
+          estimatedValue: 12000,
+          inServiceArea: true,
+          travelSurcharge: 0,
+          interactions: 5,
+        })
+      )
+    ).toEqual({ source: 15, urgency: 20, value: 25, distance: 15, engagement: 25, total: 100 })
+  })
+
+  it('should weigh each factor by LEAD_CONFIG.SCORING', () => {
+    const breakdown = scoreLead(
+      facts({
+        source: 'REFERRAL',
+        urgency: 'WITHIN_24H',
+        serviceType: 'AC Installation',
+        inServiceArea: true,
+        travelSurcharge: 25,
+        interactions: 2,
+      })
+    )
+
+    expect(breakdown).toEqual({ source: 8.6, urgency: 10, value: 17.4, distance: 11.3, engagement: 10, total: 57 })
+  })
+
+  it('should store the score on create and refresh it after each activity', async () => {
+    const db = createInMemoryDb()
+    const manager = new LeadManager(db)
+
+    const lead = await manager.createLead(
+      {
+        name: 'Jane Smith',
+        email: 'jane@example.com',
+        phone: '5551234567',
+        serviceType: 'AC Repair',
+        city: 'Springfield',
+        urgency: 'IMMEDIATE',
+      },
+      { inArea: true, area: { id: 'area_1', name: 'Springfield Metro' }, surcharge: 0, matchedBy: 'city' }
+    )
+    expect(lead).toMatchObject({ serviceType: 'AC Repair', city: 'Springfield', serviceAreaId: 'area_1', score: 52 })
+
+    await manager.addLeadActivity(lead.id, 'CALL', 'Called customer')
+    await manager.addLeadActivity(lead.id, 'EMAIL', 'Sent brochure')
+    await manager.addLeadNote(lead.id, 'Prefers mornings')
+
+    const updated = await manager.updateLeadStatus(lead.id, 'CONTACTED')
+    expect(updated.score).toBe(62)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import {
+  assertLeadTransition,
+  canTransitionLead,
+  getAllowedLeadTransitions,
+} from '../lead-workflow'
+import { ConflictError, ValidationError } from '../errors'
+import type { LeadRecord } from '../business'
+
+const createLead = (overrides: Partial<LeadRecord> = {}): LeadRecord => ({
+  id: 'lead_1',
+  name: 'John Doe',
+  email: 'john@example.com',
+  phone: '1234567890',
+  company: null,
+  message: null,
+  source: 'WEBSITE',
+  status: 'NEW',
+  priority: 'MEDIUM',
+  urgency: 'FLEXIBLE',
+  serviceId: null,
+  serviceType: null,
+  city: null,
+  score: 0,
+  assignedToId: null,
+  estimatedValue: null,
+  notes: null,
+  followUpDate: null,
+  slaBreachedAt: null,
+  reminderSentAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+describe('Lead Workflow Tests', () => {
+  it('should expose the configured next statuses', () => {
+    expect(getAllowedLeadTransitions('QUALIFIED')).toEqual(['PROPOSAL_SENT', 'FOLLOW_UP', 'LOST'])
+    expect(getAllowedLeadTransitions('LOST')).toEqual([])
+  })
+  
+  it('should accept allowed transitions', () => {
+    expect(() => assertLeadTransition(createLead(), 'CONTACTED')).not.toThrow()
+    expect(() => assertLeadTransition(createLead({ status: 'FOLLOW_UP' }), 'PROPOSAL_SENT')).not.toThrow()
+  })
+  
+  it('should reject illegal transitions with a ConflictError', () => {
+    expect(() => assertLeadTransition(createLead(), 'QUALIFIED')).toThrow(ConflictError)
+    expect(() => assertLeadTransition(createLead({ status: 'WON' }), 'LOST')).toThrow(
+      'Cannot move lead from WON to LOST'
+    )
+  })
+  
+  it('should reject moving a lead to the status it already has', () => {
+    expect(() => assertLeadTransition(createLead(), 'NEW')).toThrow(ConflictError)
+  })
+  
+  it('should enforce guards on won leads', () => {
+    const lead = createLead({ status: 'NEGOTIATING' })
+    
+    expect(() => assertLeadTransition(lead, 'WON')).toThrow(ValidationError)
+    expect(canTransitionLead(lead, 'WON')).toBe(false)
+    expect(canTransitionLead({ ...lead, estimatedValue: 0 }, 'WON')).toBe(true)
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import { QuoteManager, calculateQuoteTotals, quoteSchema, type QuoteInput } from '../quotes'
+import { renderQuotePdf } from '../quote-pdf'
+import { ConflictError, ValidationError } from '../errors'
+import { createInMemoryDb } from './in-memory-db'
+
+// Monday, January 3 2022, 10:00 local time
+const NOW = new Date(2022, 0, 3, 10)
+
+const input = (overrides: Partial<QuoteInput> = {}): QuoteInput => ({
+  title: 'Furnace replacement',
+  items: [
+    { type: 'LABOR', description: 'Remove and install furnace', quantity: 8 },
+    { type: 'MATERIAL', description: '96% AFUE gas furnace', quantity: 1, unitPrice: 3200 },
+  ],
+  ...overrides,
+})
+
+async function setup(status = 'QUALIFIED') {
+  const db = createInMemoryDb()
+  const manager = new QuoteManager(db, () => NOW)
+  const lead = await db.lead.create({
+    data: { name: 'Jane Smith', email: 'jane@example.com', phone: '5551234567', status },
+  })
+  return { db, manager, lead }
+}
+
+describe('Quote Tests', () => {
+  it('should price labor and diagnostics from SERVICE_RATES and add surcharges and tax', () => {
+    const totals = calculateQuoteTotals(
+      quoteSchema.parse({
+        title: 'Emergency repair',
+        items: [
+          { type: 'LABOR', description: 'Repair', quantity: 2 },
+          { type: 'DIAGNOSTIC', description: 'Diagnostic visit', quantity: 1 },
+          { type: 'MATERIAL', description: 'Igniter', quantity: 1, unitPrice: 89.99 },
+        ],
+        emergency: true,
+        // Saturday, so the weekend surcharge applies
+        serviceDate: new Date(2022, 0, 8, 21),
+      })
+    )
+
+    expect(totals.items.map((item) => item.total)).toEqual([250, 150, 89.99])
+    expect(totals).toMatchObject({ subtotal: 489.99, surcharge: 225, tax: 44.69, total: 759.68 })
+  })
+
+  it('should require a unit price on materials', () => {
+    const result = quoteSchema.safeParse(input({ items: [{ type: 'MATERIAL', description: 'Filter', quantity: 1 }] }))
+    expect(result.success).toBe(false)
+  })
+
+  it('should send a draft, move the lead to PROPOSAL_SENT and log a PROPOSAL activity', async () => {
+    const { db, manager, lead } = await setup()
+
+    const draft = await manager.createQuote(lead.id, input(), { actorId: 'user_1' })
+    expect(draft).toMatchObject({ status: 'DRAFT', version: 1, subtotal: 4200, total: 4462.5 })
+    expect(draft.financing).toHaveLength(5)
+
+    const sent = await manager.sendQuote(draft.id)
+    expect(sent.status).toBe('SENT')
+    expect(sent.expiresAt).toEqual(new Date(2022, 1, 2, 10))
+
+    const updated = await db.lead.findUnique({ where: { id: lead.id } })
+    expect(updated).toMatchObject({ status: 'PROPOSAL_SENT', estimatedValue: 4462.5 })
+
+    const proposals = db.tables.leadActivities.filter((activity) => activity.type === 'PROPOSAL')
+    expect(proposals).toHaveLength(1)
+    expect(proposals[0].metadata).toMatchObject({ quoteId: draft.id, version: 1, total: 4462.5 })
+
+    await expect(manager.sendQuote(draft.id)).rejects.toThrow(ConflictError)
+  })
+
+  it('should keep the lead a draft when the workflow does not allow a proposal', async () => {
+    const { manager, lead } = await setup('NEW')
+    const draft = await manager.createQuote(lead.id, input())
+
+    await expect(manager.sendQuote(draft.id)).rejects.toThrow(ConflictError)
+    expect((await manager.getQuote(draft.id)).status).toBe('DRAFT')
+  })
+
+  it('should edit drafts in place and version quotes that were sent', async () => {
+    const { manager, lead } = await setup()
+    const draft = await manager.createQuote(lead.id, input())
+
+    const edited = await manager.reviseQuote(draft.id, input({ title: 'Furnace and thermostat' }))
+    expect(edited).toMatchObject({ id: draft.id, version: 1, title: 'Furnace and thermostat' })
+    expect(edited.items).toHaveLength(2)
+
+    await manager.sendQuote(draft.id)
+    const revision = await manager.reviseQuote(draft.id, input({ offerFinancing: false }))
+    expect(revision).toMatchObject({ number: draft.number, version: 2, status: 'DRAFT', financing: [] })
+    await expect(manager.reviseQuote(draft.id, input())).rejects.toThrow(ConflictError)
+
+    await manager.sendQuote(revision.id)
+    expect((await manager.getQuote(draft.id)).status).toBe('SUPERSEDED')
+  })
+
+  it('should expire sent quotes once they are past their expiry date', async () => {
+    const { db, lead } = await setup()
+    const sender = new QuoteManager(db, () => NOW)
+    const quote = await sender.createQuote(lead.id, input({ validDays: 7 }))
+    await sender.sendQuote(quote.id)
+
+    expect(await new QuoteManager(db, () => new Date(2022, 0, 10, 9)).expireQuotes()).toBe(0)
+    expect(await new QuoteManager(db, () => new Date(2022, 0, 10, 11)).expireQuotes()).toBe(1)
+    expect((await sender.getQuote(quote.id)).status).toBe('EXPIRED')
+  })
+
+  it('should record the signature on acceptance and mark the lead WON', async () => {
+    const { db, manager, lead } = await setup()
+    const quote = await manager.createQuote(lead.id, input())
+    await manager.sendQuote(quote.id)
+
+    await expect(
+      manager.acceptQuote(quote.id, { signatureName: 'Jane Smith', financingMonths: 18, agreed: true })
+    ).rejects.toThrow(ValidationError)
+
+    const response = await manager.acceptQuote(
+      quote.id,
+      { signatureName: ' Jane Smith ', financingMonths: 24, agreed: true },
+      { ip: '203.0.113.7' }
+    )
+    expect(response.quote).toMatchObject({
+      status: 'ACCEPTED',
+      acceptedAt: NOW,
+      signatureName: 'Jane Smith',
+      signatureIp: '203.0.113.7',
+      financingMonths: 24,
+    })
+    expect(response.lead).toMatchObject({ status: 'WON', estimatedValue: 4462.5 })
+
+    const accepted = db.tables.leadActivities.filter((activity) => activity.type === 'QUOTE_ACCEPTED')
+    expect(accepted).toHaveLength(1)
+    expect(accepted[0].metadata).toMatchObject({ quoteId: quote.id, financingMonths: 24 })
+
+    await expect(manager.declineQuote(quote.id, { reason: 'Changed my mind' })).rejects.toThrow(ConflictError)
+  })
+
+  it('should capture the reason on decline and leave the lead as it was', async () => {
+    const { db, manager, lead } = await setup()
+    const quote = await manager.createQuote(lead.id, input())
+    await manager.sendQuote(quote.id)
+
+    const response = await manager.declineQuote(quote.id, { reason: 'Found a cheaper installer' })
+    expect(response.quote).toMatchObject({
+      status: 'DECLINED',
+      declinedAt: NOW,
+      declineReason: 'Found a cheaper installer',
+    })
+    expect(response.lead.status).toBe('PROPOSAL_SENT')
+
+    const declined = db.tables.leadActivities.filter((activity) => activity.type === 'QUOTE_DECLINED')
+    expect(declined[0].description).toBe('Found a cheaper installer')
+  })
+
+  it('should record only one of two answers submitted at once', async () => {
+    const { db, manager, lead } = await setup()
+    const quote = await manager.createQuote(lead.id, input())
+    await manager.sendQuote(quote.id)
+
+    const results = await Promise.allSettled([
+      manager.acceptQuote(quote.id, { signatureName: 'Jane Smith', agreed: true }),
+      manager.declineQuote(quote.id, { reason: 'Changed my mind' }),
+    ])
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected'])
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError)
+    expect((await manager.getQuote(quote.id)).status).toBe('ACCEPTED')
+    expect(db.tables.leadActivities.filter((activity) => activity.type === 'QUOTE_DECLINED')).toHaveLength(0)
+  })
+
+  it('should only take responses to sent quotes that have not expired', async () => {
+    const { db, manager, lead } = await setup()
+    const quote = await manager.createQuote(lead.id, input({ validDays: 7 }))
+    const acceptance = { signatureName: 'Jane Smith', agreed: true as const }
+
+    await expect(manager.acceptQuote(quote.id, acceptance)).rejects.toThrow(ConflictError)
+    await manager.sendQuote(quote.id)
+
+    const late = new QuoteManager(db, () => new Date(2022, 0, 11))
+    await expect(late.acceptQuote(quote.id, acceptance)).rejects.toThrow(ConflictError)
+  })
+
+  it('should render the quote as a PDF', async () => {
+    const { manager, lead } = await setup()
+    const items = Array.from({ length: 40 }, (_, index) => ({
+      type: 'MATERIAL' as const,
+      description: `Part ${index + 1} for the replacement, including fittings and disposal of the old unit`,
+      quantity: 1,
+      unitPrice: 25,
+    }))
+    const quote = await manager.createQuote(lead.id, input({ items, notes: 'Includes a 10 year parts warranty.' }))
+
+    const bytes = await renderQuotePdf(quote, { ...lead, name: 'Zoë Łukasz' })
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe('%PDF-')
+
+    const pdf = await PDFDocument.load(bytes)
+    expect(pdf.getTitle()).toBe(`Quote ${quote.number}`)
+    expect(pdf.getPageCount()).toBeGreaterThan(1)
+  })
+})
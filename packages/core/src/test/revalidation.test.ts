@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  cacheContentRead,
+  createRevalidationSender,
+  getRevalidationTags,
+  parseRevalidationRequest,
+  signRevalidationPayload,
+  verifyRevalidationSignature,
+  REVALIDATION_SIGNATURE_HEADER,
+  type ContentCache,
+} from '../revalidation'
+
+const secret = 'test-revalidation-secret-32-chars-long'
+const body = JSON.stringify({ source: 'Post', tags: ['content:posts'] })
+
+// Works like Next's data cache: entries keyed by key parts and arguments,
+// dropped when one of their tags is revalidated
+function createTaggedCache() {
+  const entries = new Map<string, { value: unknown; tags: string[] }>()
+
+  const cache: ContentCache = (read, keyParts, { tags }) =>
+    (async (...args: unknown[]) => {
+      const key = JSON.stringify([...keyParts, ...args])
+      if (!entries.has(key)) {
+        entries.set(key, { value: await read(...args), tags })
+      }
+      return entries.get(key)!.value
+    }) as typeof read
+
+  const revalidateTag = (tag: string) => {
+    for (const [key, entry] of entries) {
+      if (entry.tags.includes(tag)) entries.delete(key)
+    }
+  }
+
+  return { cache, revalidateTag }
+}
+
+describe('Revalidation Tests', () => {
+  describe('getRevalidationTags', () => {
+    it('should map models to their content tags', () => {
+      expect(getRevalidationTags('Post')).toEqual(['content:posts'])
+      expect(getRevalidationTags('Service')).toEqual(['content:services', 'content:projects'])
+      expect(getRevalidationTags('Setting')).toEqual(['content:settings'])
+    })
+  })
+
+  describe('Signatures', () => {
+    it('should verify a signed body', () => {
+      const header = signRevalidationPayload(body, secret, 1700000000000)
+
+      expect(header).toMatch(/^t=1700000000000,v1=[0-9a-f]{64}$/)
+      expect(verifyRevalidationSignature(body, header, secret, 1700000000000)).toBe(true)
+    })
+
+    it('should reject tampered bodies, wrong secrets and missing headers', () => {
+      const header = signRevalidationPayload(body, secret, 1700000000000)
+
+      expect(verifyRevalidationSignature(body.replace('posts', 'pages'), header, secret, 1700000000000)).toBe(false)
+      expect(verifyRevalidationSignature(body, header, 'another-secret-that-is-32-chars-long', 1700000000000)).toBe(
+        false
+      )
+      expect(verifyRevalidationSignature(body, null, secret)).toBe(false)
+    })
+
+    it('should reject signatures outside the tolerance window', () => {
+      const header = signRevalidationPayload(body, secret, 1700000000000)
+
+      expect(verifyRevalidationSignature(body, header, secret, 1700000000000 + 300001)).toBe(false)
+    })
+  })
+
+  describe('parseRevalidationRequest', () => {
+    it('should return the payload of a signed request', () => {
+      const header = signRevalidationPayload(body, secret)
+
+      expect(parseRevalidationRequest(body, header, secret)).toEqual({ source: 'Post', tags: ['content:posts'] })
+    })
+
+    it('should throw for bad signatures and non-content tags', () => {
+      expect(() => parseRevalidationRequest(body, 't=1,v1=00', secret)).toThrow('Invalid revalidation signature')
+
+      const other = JSON.stringify({ source: 'Post', tags: ['users'] })
+      expect(() => parseRevalidationRequest(other, signRevalidationPayload(other, secret), secret)).toThrow()
+    })
+  })
+
+  describe('createRevalidationSender', () => {
+    const payload = { source: 'Post', tags: ['content:posts'] }
+
+    it('should post a signed body and log the delivery', async () => {
+      const fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+      const log = { record: vi.fn().mockResolvedValue(undefined) }
+      const sender = createRevalidationSender({ url: 'https://web.test/api/revalidate/tag', secret, fetch, log })
+
+      const entry = await sender.send(payload)
+
+      const [url, init] = fetch.mock.calls[0]
+      expect(url).toBe('https://web.test/api/revalidate/tag')
+      expect(verifyRevalidationSignature(init.body, init.headers[REVALIDATION_SIGNATURE_HEADER], secret)).toBe(true)
+      expect(entry).toEqual({ ...payload, status: 'DELIVERED', attempts: 1 })
+      expect(log.record).toHaveBeenCalledWith(entry)
+    })
+
+    it('should retry server errors with exponential backoff', async () => {
+      const fetch = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+      const sleep = vi.fn().mockResolvedValue(undefined)
+      const sender = createRevalidationSender({ url: 'https://web.test', secret, fetch, sleep, backoffMs: 100 })
+
+      const entry = await sender.send(payload)
+
+      expect(entry).toMatchObject({ status: 'DELIVERED', attempts: 3 })
+      expect(sleep.mock.calls).toEqual([[100], [200]])
+    })
+
+    it('should give up on client errors and record the failure', async () => {
+      const fetch = vi.fn().mockResolvedValue({ ok: false, status: 401 })
+      const log = { record: vi.fn().mockResolvedValue(undefined) }
+      const sender = createRevalidationSender({ url: 'https://web.test', secret, fetch, log })
+
+      const entry = await sender.send(payload)
+
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(entry).toEqual({ ...payload, status: 'FAILED', attempts: 1, error: 'Web app responded with 401' })
+      expect(log.record).toHaveBeenCalledWith(entry)
+    })
+
+    it('should stop after the last attempt', async () => {
+      const fetch = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'))
+      const sender = createRevalidationSender({
+        url: 'https://web.test',
+        secret,
+        fetch,
+        maxAttempts: 2,
+        sleep: async () => {},
+      })
+
+      await expect(sender.send(payload)).resolves.toMatchObject({ status: 'FAILED', attempts: 2, error: 'ECONNREFUSED' })
+    })
+  })
+
+  describe('cacheContentRead', () => {
+    it('should serve fresh content once a publish is revalidated', async () => {
+      const { cache, revalidateTag } = createTaggedCache()
+      const content = { title: 'Draft', phone: '555-0100' }
+      const readPost = vi.fn(async (slug: string) => ({ slug, title: content.title }))
+      const readSettings = vi.fn(async () => ({ phone: content.phone }))
+      const getPost = cacheContentRead(cache, ['Post'], 'post', readPost)
+      const getSettings = cacheContentRead(cache, ['Setting'], 'settings', readSettings)
+
+      await getPost('hello')
+      await getSettings()
+      content.title = 'Published'
+      content.phone = '555-0199'
+      expect(await getPost('hello')).toEqual({ slug: 'hello', title: 'Draft' })
+
+      // The CMS posts the publish to the web app's /api/revalidate/tag
+      const webApp = vi.fn(async (_url: string, init: RequestInit) => {
+        const headers = init.headers as Record<string, string>
+        const { tags } = parseRevalidationRequest(String(init.body), headers[REVALIDATION_SIGNATURE_HEADER], secret)
+        tags.forEach(revalidateTag)
+        return { ok: true, status: 200 }
+      })
+      const sender = createRevalidationSender({ url: 'https://web.test/api/revalidate/tag', secret, fetch: webApp })
+      await sender.send({ source: 'Post', tags: getRevalidationTags('Post') })
+
+      expect(await getPost('hello')).toEqual({ slug: 'hello', title: 'Published' })
+      expect(readPost).toHaveBeenCalledTimes(2)
+      // Reads of other models stay cached
+      expect(await getSettings()).toEqual({ phone: '555-0100' })
+      expect(readSettings).toHaveBeenCalledTimes(1)
+    })
+
+    it('should clear project reads when a service changes', async () => {
+      const { cache, revalidateTag } = createTaggedCache()
+      const readProjects = vi.fn(async () => [])
+      const getProjects = cacheContentRead(cache, ['Project'], 'projects', readProjects)
+
+      await getProjects()
+      getRevalidationTags('Service').forEach(revalidateTag)
+      await getProjects()
+
+      expect(readProjects).toHaveBeenCalledTimes(2)
+    })
+  })
+})
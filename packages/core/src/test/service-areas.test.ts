@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LeadCaptureManager, createRateLimiter } from '../lead-capture'
+import {
+  extractZipCode,
+  matchServiceArea,
+  pointInPolygon,
+  serviceAreaLookupSchema,
+  serviceAreaSchema,
+  type ServiceAreaPolygon,
+  type ServiceAreaRecord,
+} from '../service-areas'
+import { createInMemoryDb } from './in-memory-db'
+
+// A square with a square hole in the middle
+const ring = (west: number, south: number, east: number, north: number): [number, number][] => [
+  [west, south],
+  [east, south],
+  [east, north],
+  [west, north],
+  [west, south],
+]
+const DONUT: ServiceAreaPolygon = {
+  type: 'Polygon',
+  coordinates: [ring(-90, 39, -89, 40), ring(-89.6, 39.4, -89.4, 39.6)],
+}
+
+const area = (id: string, overrides: Partial<ServiceAreaRecord> = {}): ServiceAreaRecord => ({
+  id,
+  name: `Area ${id}`,
+  cities: [],
+  zipCodes: [],
+  polygon: null,
+  surcharge: 0,
+  active: true,
+  order: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const AREAS = [
+  area('metro', { cities: ['Springfield'], zipCodes: ['62704'], polygon: DONUT, order: 1 }),
+  area('central', { cities: ['Decatur', 'Springfield'], zipCodes: ['62521'], surcharge: '50.00', order: 2 }),
+  area('closed', { cities: ['Quincy'], active: false, order: 3 }),
+]
+
+describe('Service Area Tests', () => {
+  it('should find points inside polygons but not in their holes', () => {
+    expect(pointInPolygon({ lat: 39.2, lng: -89.8 }, DONUT)).toBe(true)
+    expect(pointInPolygon({ lat: 39.5, lng: -89.5 }, DONUT)).toBe(false)
+    expect(pointInPolygon({ lat: 41, lng: -89.5 }, DONUT)).toBe(false)
+
+    const islands: ServiceAreaPolygon = {
+      type: 'MultiPolygon',
+      coordinates: [[ring(0, 0, 1, 1)], [ring(5, 5, 6, 6)]],
+    }
+    expect(pointInPolygon({ lat: 5.5, lng: 5.5 }, islands)).toBe(true)
+    expect(pointInPolygon({ lat: 3, lng: 3 }, islands)).toBe(false)
+  })
+
+  it('should take the last zip code in an address', () => {
+    expect(extractZipCode('12345 Main St, Springfield, IL 62704-1234')).toBe('62704')
+    expect(extractZipCode('12 Elm Street')).toBeNull()
+  })
+
+  it('should match by polygon, zip or city and prefer the lowest surcharge', () => {
+    expect(matchServiceArea(AREAS, { point: { lat: 39.2, lng: -89.8 } })).toEqual({
+      inArea: true,
+      area: { id: 'metro', name: 'Area metro' },
+      surcharge: 0,
+      matchedBy: 'polygon',
+    })
+    expect(matchServiceArea(AREAS, { address: '9 Oak Ave, Decatur, IL 62521' })).toMatchObject({
+      area: { id: 'central' },
+      surcharge: 50,
+      matchedBy: 'zip',
+    })
+    // Both areas list Springfield; the metro area is cheaper
+    expect(matchServiceArea(AREAS, { city: ' springfield ' })).toMatchObject({ area: { id: 'metro' }, surcharge: 0 })
+    expect(matchServiceArea(AREAS, { address: '1 Park Rd, Springfield IL' }).matchedBy).toBe('city')
+  })
+
+  it('should tell out-of-area locations from missing ones', () => {
+    expect(matchServiceArea(AREAS, { city: 'Quincy' })).toEqual({
+      inArea: false,
+      area: null,
+      surcharge: null,
+      matchedBy: null,
+    })
+    expect(matchServiceArea(AREAS, { zipCode: '90210' }).inArea).toBe(false)
+    expect(matchServiceArea(AREAS, { city: '  ', address: null }).inArea).toBeNull()
+  })
+
+  it('should validate area shapes and lookup queries', () => {
+    const open = { type: 'Polygon', coordinates: [ring(0, 0, 1, 1).slice(0, 4)] }
+    expect(serviceAreaSchema.safeParse({ name: 'Open ring', polygon: open }).success).toBe(false)
+    expect(serviceAreaSchema.parse({ name: 'Metro', polygon: DONUT, zipCodes: ['62704'] })).toMatchObject({
+      surcharge: 0,
+      active: true,
+      cities: [],
+    })
+
+    expect(serviceAreaLookupSchema.parse({ lat: '39.5', lng: '-89.6' })).toEqual({ lat: 39.5, lng: -89.6 })
+    expect(serviceAreaLookupSchema.safeParse({ lat: '39.5' }).success).toBe(false)
+    expect(serviceAreaLookupSchema.safeParse({}).success).toBe(false)
+  })
+
+  it('should tag captured leads with their area and travel surcharge', async () => {
+    const db = createInMemoryDb()
+    db.tables.serviceAreas.push(...AREAS)
+    const capture = new LeadCaptureManager({
+      db,
+      captcha: { verify: vi.fn().mockResolvedValue(true) },
+      rateLimiter: createRateLimiter({ requests: 10, window: 3600000 }),
+    })
+    // Distinct contacts so the submissions are not merged
+    const submit = (n: number, fields: Record<string, string>) =>
+      capture.captureLead(
+        {
+          name: 'Sara Ahmed',
+          email: `sara${n}@example.com`,
+          phone: `555123456${n}`,
+          serviceType: 'AC Repair',
+          captchaToken: 'token-123',
+          ...fields,
+        },
+        { ip: '203.0.113.1' }
+      )
+
+    const { lead } = await submit(1, { address: '9 Oak Ave, Decatur, IL', zipCode: '62521' })
+    expect(lead).toMatchObject({ zipCode: '62521', inServiceArea: true, serviceAreaId: 'central', travelSurcharge: 50 })
+
+    const { lead: outside } = await submit(2, { city: 'Chicago' })
+    expect(outside).toMatchObject({ inServiceArea: false, serviceAreaId: null, travelSurcharge: null })
+
+    const { lead: unknown } = await submit(3, {})
+    expect(unknown.inServiceArea).toBeNull()
+  })
+})
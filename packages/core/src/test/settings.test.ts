@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { API_CONFIG, SETTINGS } from '@workspace/config'
+import { SettingsManager } from '../settings'
+import { createInMemoryDb } from './in-memory-db'
+
+describe('Settings Manager Tests', () => {
+  it('should return parsed values and fall back to registry defaults', async () => {
+    const db = createInMemoryDb()
+    db.tables.settings.push(
+      { key: 'site_title', value: 'Aurora Heating & Air', type: 'string', category: 'general' },
+      { key: 'contact_email', value: 'not-an-email', type: 'string', category: 'contact' },
+      { key: 'service_areas', value: 'Metro Area', type: 'string', category: 'business' }
+    )
+    const settings = new SettingsManager(db)
+
+    expect(await settings.getSetting('site_title')).toBe('Aurora Heating & Air')
+    expect(await settings.getSetting('contact_email')).toBe(SETTINGS.contact_email.default)
+    expect(await settings.getSetting('whatsapp_number')).toBe('')
+
+    const contact = await settings.getSettings({ category: 'contact' })
+    expect(Object.keys(contact)).toEqual(['contact_email', 'contact_phone', 'emergency_phone', 'whatsapp_number'])
+    expect(await settings.getPublicSettings()).not.toHaveProperty('business_calendar')
+    expect(await settings.getPublicSettings()).not.toHaveProperty('service_areas')
+  })
+
+  it('should validate every value before saving any', async () => {
+    const db = createInMemoryDb()
+    const settings = new SettingsManager(db)
+
+    await expect(
+      settings.setSettings({ cta_primary_label: 'Get a Quote', whatsapp_number: '555 1234' })
+    ).rejects.toMatchObject({ issues: [expect.objectContaining({ path: ['whatsapp_number'] })] })
+    await expect(settings.setSettings({ service_areas: 'Metro' } as never)).rejects.toThrow()
+    expect(db.tables.settings).toEqual([])
+
+    await settings.setSettings({ cta_primary_label: 'Get a Quote', whatsapp_number: '+15551234567' })
+    expect(db.tables.settings).toEqual([
+      expect.objectContaining({ key: 'whatsapp_number', value: '+15551234567', type: 'string', category: 'contact' }),
+      expect.objectContaining({ key: 'cta_primary_label', value: 'Get a Quote', type: 'string', category: 'cta' }),
+    ])
+  })
+
+  it('should cache reads for the TTL and clear the cache on save', async () => {
+    let now = new Date('2025-05-01T12:00:00Z')
+    const db = createInMemoryDb()
+    const settings = new SettingsManager(db, () => now)
+
+    expect(await settings.getSetting('site_title')).toBe(SETTINGS.site_title.default)
+
+    // Written behind the manager's back, e.g. by another process
+    db.tables.settings.push({ key: 'site_title', value: 'Changed elsewhere', type: 'string', category: 'general' })
+    expect(await settings.getSetting('site_title')).toBe(SETTINGS.site_title.default)
+
+    now = new Date(now.getTime() + API_CONFIG.CACHE.ttl.settings * 1000)
+    expect(await settings.getSetting('site_title')).toBe('Changed elsewhere')
+
+    // Other managers on the same client share the cache and see saves at once
+    await new SettingsManager(db, () => now).setSetting('site_title', 'Saved here')
+    expect(await settings.getSetting('site_title')).toBe('Saved here')
+  })
+})
@@ -4,6 +4,7 @@ import {
   ValidationError,
   NotFoundError,
   UnauthorizedError,
+  ForbiddenError,
   ConflictError,
   handleBusinessError,
   createSuccessResponse,
@@ -14,6 +15,7 @@ import {
   sanitizeInput,
   BUSINESS_CONSTANTS,
 } from '../index'
+import { LEAD_CONFIG } from '@workspace/config'
 
 describe('Utility Functions Tests', () => {
   describe('Error Classes', () => {
@@ -59,6 +61,13 @@ describe('Utility Functions Tests', () => {
       expect(error.statusCode).toBe(401)
     })
     
+    it('should create ForbiddenError', () => {
+      const error = new ForbiddenError()
+      
+      expect(error.code).toBe('FORBIDDEN')
+      expect(error.statusCode).toBe(403)
+    })
+    
     it('should create ConflictError', () => {
       const error = new ConflictError('Resource already exists')
       
@@ -200,6 +209,10 @@ describe('Utility Functions Tests', () => {
       expect(BUSINESS_CONSTANTS.LEAD_STATUSES).toContain('LOST')
     })
     
+    it('should list the same lead statuses as the lead workflow config', () => {
+      expect([...BUSINESS_CONSTANTS.LEAD_STATUSES].sort()).toEqual(Object.keys(LEAD_CONFIG.STATUSES).sort())
+    })
+    
     it('should have service categories', () => {
       expect(BUSINESS_CONSTANTS.SERVICE_CATEGORIES).toContain('hvac_installation')
       expect(BUSINESS_CONSTANTS.SERVICE_CATEGORIES).toContain('hvac_repair')
@@ -0,0 +1,171 @@
+import { afterEach, describe, it, expect } from 'vitest'
+import { SettingsManager } from '../settings'
+import {
+  WhatsAppAlertManager,
+  buildWhatsAppLink,
+  createWhatsAppCloudProvider,
+  getWhatsAppInquiry,
+  getWhatsAppReply,
+  toWhatsAppNumber,
+  type WhatsAppProvider,
+} from '../whatsapp'
+import { createWhatsAppMockServer, type WhatsAppMockServer } from '../whatsapp-mock-server'
+import { createInMemoryDb } from './in-memory-db'
+
+const URL_OPTIONS = { url: 'http://localhost:3001/leads?lead=lead_1' }
+
+function createRecordingProvider(): WhatsAppProvider & { sent: any[] } {
+  return {
+    name: 'recording',
+    sent: [],
+    async sendTemplate(message) {
+      this.sent.push(message)
+      return { messageId: `wamid.${this.sent.length}` }
+    },
+  }
+}
+
+async function setup(provider: WhatsAppProvider = createRecordingProvider()) {
+  const db = createInMemoryDb()
+  const lead = await db.lead.create({
+    data: { name: 'Omar Ali', email: 'omar@example.com', serviceType: 'ac_repair', priority: 'HIGH' },
+  })
+  return { db, lead, alerts: new WhatsAppAlertManager(db, provider) }
+}
+
+describe('WhatsApp Tests', () => {
+  let mock: WhatsAppMockServer | null = null
+
+  afterEach(async () => {
+    await mock?.close()
+    mock = null
+  })
+
+  it('should turn local and international numbers into wa.me links', () => {
+    expect(toWhatsAppNumber('050 123 4567')).toBe('966501234567')
+    expect(toWhatsAppNumber('00966 50 123 4567')).toBe('966501234567')
+    expect(toWhatsAppNumber('+1 (555) 123-4567')).toBe('15551234567')
+    expect(toWhatsAppNumber('12345')).toBeNull()
+
+    expect(buildWhatsAppLink('+966501234567')).toBe('https://wa.me/966501234567')
+    expect(buildWhatsAppLink('0501234567', 'Hi & welcome?')).toBe(
+      'https://wa.me/966501234567?text=Hi%20%26%20welcome%3F'
+    )
+    expect(buildWhatsAppLink('')).toBeNull()
+  })
+
+  it('should prefill messages in the visitor language with the service name', () => {
+    expect(getWhatsAppInquiry('en', 'ac_repair')).toBe("Hi Aurora HVAC Services, I'd like to ask about Ac Repair.")
+    expect(getWhatsAppInquiry('ar', 'ac_repair')).toBe(
+      'مرحباً Aurora HVAC Services، أود الاستفسار عن خدمة إصلاح المكيفات.'
+    )
+    expect(getWhatsAppInquiry('ar')).toBe('مرحباً Aurora HVAC Services، لدي استفسار عن خدماتكم.')
+    // Unknown locales read English, unknown services keep their formatted name
+    expect(getWhatsAppInquiry('fr', 'solar_panels')).toContain('ask about Solar Panels')
+
+    expect(getWhatsAppReply('ar', { name: 'عمر', serviceType: 'duct_cleaning' })).toBe(
+      'مرحباً عمر، معك فريق Aurora HVAC Services بخصوص طلبك لخدمة تنظيف مجاري الهواء.'
+    )
+    expect(getWhatsAppReply('en', { name: 'Omar', serviceType: null })).toBe(
+      'Hi Omar, this is Aurora HVAC Services following up on your request.'
+    )
+  })
+
+  it('should send templates through the Cloud API and surface its errors', async () => {
+    mock = createWhatsAppMockServer({ accessToken: 'test-token' })
+    const apiUrl = await mock.listen()
+    const provider = createWhatsAppCloudProvider({ accessToken: 'test-token', phoneNumberId: '1234', apiUrl })
+
+    const { messageId } = await provider.sendTemplate({
+      to: '966501234567',
+      template: 'new_lead_alert',
+      language: 'en',
+      parameters: ['Omar Ali', 'Ac Repair'],
+    })
+
+    expect(messageId).toBe('wamid.mock.1')
+    expect(mock.messages[0]).toMatchObject({
+      phoneNumberId: '1234',
+      body: {
+        messaging_product: 'whatsapp',
+        to: '966501234567',
+        type: 'template',
+        template: {
+          name: 'new_lead_alert',
+          language: { code: 'en' },
+          components: [
+            {
+              type: 'body',
+              parameters: [
+                { type: 'text', text: 'Omar Ali' },
+                { type: 'text', text: 'Ac Repair' },
+              ],
+            },
+          ],
+        },
+      },
+    })
+
+    const unauthorized = createWhatsAppCloudProvider({ accessToken: 'wrong', phoneNumberId: '1234', apiUrl })
+    await expect(
+      unauthorized.sendTemplate({ to: '966501234567', template: 'new_lead_alert', language: 'en', parameters: [] })
+    ).rejects.toMatchObject({ code: 'WHATSAPP_FAILED', message: expect.stringContaining('Invalid OAuth access token') })
+  })
+
+  it("should alert the lead's owner and log the message on the lead", async () => {
+    const provider = createRecordingProvider()
+    const { db, lead, alerts } = await setup(provider)
+    db.tables.teamMembers.push({ id: 'member_1', userId: 'user_1', name: 'Khalid', phone: '055 000 1111' })
+    await db.lead.update({ where: { id: lead.id }, data: { assignedToId: 'user_1' } })
+
+    expect(await alerts.alertNewLead(lead.id, URL_OPTIONS)).toEqual({
+      to: '966550001111',
+      messageId: 'wamid.1',
+      error: null,
+    })
+    expect(provider.sent).toEqual([
+      {
+        to: '966550001111',
+        template: 'new_lead_alert',
+        language: 'en',
+        parameters: ['Omar Ali', 'Ac Repair', 'High', URL_OPTIONS.url],
+      },
+    ])
+    expect(db.tables.leadActivities).toEqual([
+      expect.objectContaining({
+        leadId: lead.id,
+        type: 'WHATSAPP',
+        title: 'WhatsApp alert sent to +966550001111',
+        metadata: { provider: 'recording', template: 'new_lead_alert', to: '966550001111', messageId: 'wamid.1' },
+      }),
+    ])
+  })
+
+  it('should fall back to the business number and log failed sends', async () => {
+    const failing: WhatsAppProvider = {
+      name: 'failing',
+      async sendTemplate() {
+        throw new Error('Template not approved')
+      },
+    }
+    const { db, lead, alerts } = await setup(failing)
+
+    // Nobody to message yet
+    expect(await alerts.alertNewLead(lead.id, URL_OPTIONS)).toBeNull()
+    expect(db.tables.leadActivities).toEqual([])
+
+    await new SettingsManager(db).setSetting('whatsapp_number', '+966501234567')
+    expect(await new WhatsAppAlertManager(db, failing).alertNewLead(lead.id, URL_OPTIONS)).toEqual({
+      to: '966501234567',
+      messageId: null,
+      error: 'Template not approved',
+    })
+    expect(db.tables.leadActivities).toEqual([
+      expect.objectContaining({
+        type: 'WHATSAPP',
+        title: 'WhatsApp alert to +966501234567 failed',
+        description: 'Template not approved',
+      }),
+    ])
+  })
+})
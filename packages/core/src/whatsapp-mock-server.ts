@@ -0,0 +1,101 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+
+// Stand-in for the WhatsApp Cloud API messages endpoint, for local
+// development and tests. It answers POST /<version>/<phone-number-id>/messages
+// the way the real API does and keeps what it received; GET /messages lists it.
+// Run it with `pnpm --filter @workspace/core whatsapp:mock`.
+
+export interface MockWhatsAppMessage {
+  id: string
+  phoneNumberId: string
+  receivedAt: Date
+  body: any
+}
+
+export interface WhatsAppMockServerOptions {
+  // When set, requests must carry it as their bearer token
+  accessToken?: string
+  log?: (line: string) => void
+}
+
+export interface WhatsAppMockServer {
+  messages: MockWhatsAppMessage[]
+  // Resolves with the base URL to use as WHATSAPP_API_URL
+  listen(port?: number): Promise<string>
+  close(): Promise<void>
+}
+
+const MESSAGES_PATH = /^\/v[\d.]+\/([^/]+)\/messages$/
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+// Errors use the Graph API shape, e.g. code 190 for a bad token
+function sendError(response: ServerResponse, status: number, code: number, message: string) {
+  send(response, status, { error: { message, type: 'OAuthException', code } })
+}
+
+async function readJson(request: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) chunks.push(chunk as Buffer)
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    return null
+  }
+}
+
+export function createWhatsAppMockServer({ accessToken, log }: WhatsAppMockServerOptions = {}): WhatsAppMockServer {
+  const messages: MockWhatsAppMessage[] = []
+
+  const server = createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+
+    if (request.method === 'GET' && pathname === '/messages') {
+      return send(response, 200, { messages })
+    }
+
+    const match = request.method === 'POST' ? MESSAGES_PATH.exec(pathname) : null
+    if (!match) {
+      return sendError(response, 404, 803, `Unknown path ${request.method} ${pathname}`)
+    }
+    if (accessToken && request.headers.authorization !== `Bearer ${accessToken}`) {
+      return sendError(response, 401, 190, 'Invalid OAuth access token')
+    }
+
+    const body = await readJson(request)
+    if (body?.messaging_product !== 'whatsapp' || !/^\d{8,15}$/.test(body.to ?? '')) {
+      return sendError(response, 400, 100, 'Invalid parameter: to')
+    }
+    if (body.type === 'template' && !body.template?.name) {
+      return sendError(response, 400, 132000, 'Template name is required')
+    }
+
+    const message = { id: `wamid.mock.${messages.length + 1}`, phoneNumberId: match[1]!, receivedAt: new Date(), body }
+    messages.push(message)
+    log?.(`${message.id} to +${body.to}: ${body.template?.name ?? body.type}`)
+
+    send(response, 200, {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: body.to }],
+      messages: [{ id: message.id }],
+    })
+  })
+
+  return {
+    messages,
+    listen(port = 0) {
+      return new Promise((resolve) => {
+        server.listen(port, '127.0.0.1', () => {
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+        })
+      })
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+    },
+  }
+}
@@ -0,0 +1,247 @@
+import { BUSINESS_INFO, PRIORITY_META, WHATSAPP_CONFIG, formatServiceName } from '@workspace/config'
+import { LeadManager, type LeadDatabaseClient, type LeadRecord } from './business'
+import type { DatabaseDelegate } from './database'
+import { BusinessError, NotFoundError } from './errors'
+import { SettingsManager, type SettingsDatabaseClient } from './settings'
+
+// Service names as Arabic-speaking customers write them
+const ARABIC_SERVICE_NAMES: Record<string, string> = {
+  furnace_installation: 'تركيب أفران التدفئة',
+  furnace_repair: 'إصلاح أفران التدفئة',
+  furnace_maintenance: 'صيانة أفران التدفئة',
+  heat_pump_installation: 'تركيب المضخات الحرارية',
+  heat_pump_repair: 'إصلاح المضخات الحرارية',
+  boiler_service: 'صيانة الغلايات',
+  ductwork_heating: 'مجاري هواء التدفئة',
+  ac_installation: 'تركيب المكيفات',
+  ac_repair: 'إصلاح المكيفات',
+  ac_maintenance: 'صيانة المكيفات',
+  central_air: 'التكييف المركزي',
+  ductless_mini_split: 'المكيفات السبليت',
+  evaporative_cooling: 'المكيفات الصحراوية',
+  commercial_installation: 'التركيبات التجارية',
+  commercial_maintenance: 'الصيانة التجارية',
+  rooftop_units: 'وحدات الأسطح',
+  chiller_service: 'صيانة المبردات (التشيلر)',
+  building_automation: 'أنظمة التحكم في المباني',
+  energy_audits: 'تدقيق استهلاك الطاقة',
+  air_purification: 'تنقية الهواء',
+  humidity_control: 'التحكم في الرطوبة',
+  duct_cleaning: 'تنظيف مجاري الهواء',
+  uv_light_installation: 'تركيب أجهزة التعقيم بالأشعة فوق البنفسجية',
+  allergen_reduction: 'الحد من مسببات الحساسية',
+  ventilation_improvement: 'تحسين التهوية',
+  emergency_repair: 'الإصلاح الطارئ',
+  no_heat_service: 'أعطال التدفئة',
+  no_cooling_service: 'أعطال التبريد',
+  system_breakdown: 'أعطال النظام',
+  gas_leak_detection: 'كشف تسرب الغاز',
+  carbon_monoxide_testing: 'فحص أول أكسيد الكربون',
+}
+
+const isArabic = (locale: string) => locale === 'ar'
+
+// The service's name in the locale; unknown services fall back to their English name
+export function getLocalizedServiceName(serviceType: string, locale: string): string {
+  return (isArabic(locale) && ARABIC_SERVICE_NAMES[serviceType]) || formatServiceName(serviceType)
+}
+
+/**
+ * Digits-only international number for wa.me links and the Business API, or
+ * null when the phone cannot be one. A leading 00 is dropped and a leading 0
+ * gets WHATSAPP_CONFIG.DEFAULT_COUNTRY_CODE.
+ */
+export function toWhatsAppNumber(
+  phone: string,
+  countryCode: string = WHATSAPP_CONFIG.DEFAULT_COUNTRY_CODE
+): string | null {
+  let digits = phone.replace(/\D/g, '')
+  if (!phone.trim().startsWith('+')) {
+    if (digits.startsWith('00')) digits = digits.slice(2)
+    else if (digits.startsWith('0')) digits = countryCode + digits.slice(1)
+  }
+
+  // E.164 numbers have at most 15 digits including the country code
+  return /^[1-9]\d{7,14}$/.test(digits) ? digits : null
+}
+
+// Click-to-chat link that opens WhatsApp with `text` typed in, or null for an unusable number
+export function buildWhatsAppLink(phone: string, text?: string): string | null {
+  const number = toWhatsAppNumber(phone)
+  if (!number) return null
+
+  return text ? `https://wa.me/${number}?text=${encodeURIComponent(text)}` : `https://wa.me/${number}`
+}
+
+// What a visitor sends the business from the website, about one service or in general
+export function getWhatsAppInquiry(locale: string, serviceType?: string | null): string {
+  const business = BUSINESS_INFO.name
+  const service = serviceType && getLocalizedServiceName(serviceType, locale)
+
+  if (isArabic(locale)) {
+    return service
+      ? `مرحباً ${business}، أود الاستفسار عن خدمة ${service}.`
+      : `مرحباً ${business}، لدي استفسار عن خدماتكم.`
+  }
+  return service
+    ? `Hi ${business}, I'd like to ask about ${service}.`
+    : `Hi ${business}, I have a question about your services.`
+}
+
+// What staff send a lead when they open the chat from the CMS
+export function getWhatsAppReply(locale: string, lead: Pick<LeadRecord, 'name' | 'serviceType'>): string {
+  const business = BUSINESS_INFO.name
+  const service = lead.serviceType && getLocalizedServiceName(lead.serviceType, locale)
+
+  if (isArabic(locale)) {
+    return service
+      ? `مرحباً ${lead.name}، معك فريق ${business} بخصوص طلبك لخدمة ${service}.`
+      : `مرحباً ${lead.name}، معك فريق ${business} بخصوص طلبك.`
+  }
+  return service
+    ? `Hi ${lead.name}, this is ${business} about your ${service} request.`
+    : `Hi ${lead.name}, this is ${business} following up on your request.`
+}
+
+// A Business API template message. Templates must be approved in WhatsApp
+// Manager first; `parameters` fill the body placeholders in order.
+export interface WhatsAppTemplateMessage {
+  // Digits only, see toWhatsAppNumber
+  to: string
+  template: string
+  language: string
+  parameters: string[]
+}
+
+export interface WhatsAppProvider {
+  readonly name: string
+  sendTemplate(message: WhatsAppTemplateMessage): Promise<{ messageId: string }>
+}
+
+export interface WhatsAppCloudProviderOptions {
+  accessToken: string
+  phoneNumberId: string
+  // Defaults to Meta's Graph API; the mock server stands in for it locally
+  apiUrl?: string
+  apiVersion?: string
+  fetch?: typeof fetch
+}
+
+interface CloudApiResponse {
+  messages?: { id: string }[]
+  error?: { message: string }
+}
+
+// Sends through Meta's WhatsApp Cloud API
+export function createWhatsAppCloudProvider({
+  accessToken,
+  phoneNumberId,
+  apiUrl = WHATSAPP_CONFIG.CLOUD_API_URL,
+  apiVersion = WHATSAPP_CONFIG.CLOUD_API_VERSION,
+  fetch: fetchImpl = fetch,
+}: WhatsAppCloudProviderOptions): WhatsAppProvider {
+  const url = new URL(`/${apiVersion}/${phoneNumberId}/messages`, apiUrl)
+
+  return {
+    name: 'cloud-api',
+    async sendTemplate({ to, template, language, parameters }) {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          to,
+          type: 'template',
+          template: {
+            name: template,
+            language: { code: language },
+            components: [{ type: 'body', parameters: parameters.map((text) => ({ type: 'text', text })) }],
+          },
+        }),
+      })
+      const result = (await response.json().catch(() => ({}))) as CloudApiResponse
+      const messageId = result.messages?.[0]?.id
+
+      if (!response.ok || !messageId) {
+        throw new BusinessError(
+          `WhatsApp API responded with ${response.status}: ${result.error?.message ?? 'no message ID'}`,
+          'WHATSAPP_FAILED',
+          502
+        )
+      }
+      return { messageId }
+    },
+  }
+}
+
+export interface WhatsAppAlertDatabaseClient extends LeadDatabaseClient, SettingsDatabaseClient {
+  teamMember: DatabaseDelegate<'teamMember', 'findUnique'>
+}
+
+// Outcome of one alert. Failed sends carry the provider's error.
+export interface WhatsAppAlertResult {
+  to: string
+  messageId: string | null
+  error: string | null
+}
+
+/**
+ * New-lead alerts over WhatsApp. The lead's owner is messaged on the phone
+ * of their team member profile; unassigned leads, and owners without a
+ * usable number, go to the whatsapp_number setting. Every send, and every
+ * failed one, is logged on the lead as a WHATSAPP activity.
+ */
+export class WhatsAppAlertManager {
+  private readonly leads: LeadManager
+  private readonly settings: SettingsManager
+
+  constructor(
+    private readonly db: WhatsAppAlertDatabaseClient,
+    private readonly provider: WhatsAppProvider
+  ) {
+    this.leads = new LeadManager(db)
+    this.settings = new SettingsManager(db)
+  }
+
+  // `url` is where the lead opens in the CMS. Null when nobody has a WhatsApp number.
+  async alertNewLead(leadId: string, { url }: { url: string }): Promise<WhatsAppAlertResult | null> {
+    const lead = await this.db.lead.findUnique({ where: { id: leadId } })
+    if (!lead) {
+      throw new NotFoundError('Lead', leadId)
+    }
+
+    const to = await this.getRecipient(lead)
+    if (!to) return null
+
+    const { name, language } = WHATSAPP_CONFIG.TEMPLATES.NEW_LEAD
+    const parameters = [
+      lead.name,
+      lead.serviceType ? formatServiceName(lead.serviceType) : '-',
+      PRIORITY_META[lead.priority].name,
+      url,
+    ]
+    const metadata = { provider: this.provider.name, template: name, to }
+
+    try {
+      const { messageId } = await this.provider.sendTemplate({ to, template: name, language, parameters })
+      await this.leads.addLeadActivity(lead.id, 'WHATSAPP', `WhatsApp alert sent to +${to}`, undefined, {
+        ...metadata,
+        messageId,
+      })
+      return { to, messageId, error: null }
+    } catch (caught) {
+      const error = caught instanceof Error ? caught.message : String(caught)
+      await this.leads.addLeadActivity(lead.id, 'WHATSAPP', `WhatsApp alert to +${to} failed`, error, metadata)
+      return { to, messageId: null, error }
+    }
+  }
+
+  private async getRecipient(lead: LeadRecord): Promise<string | null> {
+    const owner = lead.assignedToId
+      ? await this.db.teamMember.findUnique({ where: { userId: lead.assignedToId }, select: { phone: true } })
+      : null
+    const ownerNumber = owner?.phone ? toWhatsAppNumber(owner.phone) : null
+
+    return ownerNumber ?? toWhatsAppNumber(await this.settings.getSetting('whatsapp_number'))
+  }
+}
@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config'
 import path from 'path'
 
+// Business hours and day boundaries must not depend on the server's zone; run
+// in UTC, as production servers do, far from the business's America/Chicago
+process.env.TZ = 'UTC'
+
 export default defineConfig({
   test: {
     environment: 'node',
@@ -0,0 +1,17 @@
+-- Moves existing users onto the unified role set before `db:push` applies the
+-- new UserRole enum. USER becomes VIEWER, keeping every user's row and the
+-- column default; AUTHOR is new, and so is AGENT on databases that predate
+-- lead assignment. Safe to run more than once.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_enum e JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'UserRole' AND e.enumlabel = 'USER'
+  ) THEN
+    ALTER TYPE "UserRole" RENAME VALUE 'USER' TO 'VIEWER';
+  END IF;
+END $$;
+
+-- AGENT first, so AUTHOR has a value to sort before
+ALTER TYPE "UserRole" ADD VALUE IF NOT EXISTS 'AGENT' BEFORE 'VIEWER';
+ALTER TYPE "UserRole" ADD VALUE IF NOT EXISTS 'AUTHOR' BEFORE 'AGENT';
@@ -0,0 +1,74 @@
+// Writes the shared enum module in @workspace/config from prisma/schema.prisma.
+//
+//   tsx scripts/generate-enums.ts          regenerate the module
+//   tsx scripts/generate-enums.ts --check  fail when the module is stale or a
+//                                          package hand-rolls a diverging enum
+
+import { readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { findEnumDivergences, parseSchemaEnums, renderEnumModule } from '../src/enum-codegen'
+
+const ROOT = path.resolve(__dirname, '../../..')
+const SCHEMA_PATH = path.join(ROOT, 'packages/database/prisma/schema.prisma')
+const OUTPUT_PATH = path.join(ROOT, 'packages/config/src/generated/enums.ts')
+const SCAN_ROOTS = ['packages', 'apps'].map((dir) => path.join(ROOT, dir))
+const SKIP_DIRS = new Set(['node_modules', 'dist', '.next', 'generated', 'test', 'coverage'])
+
+function collectSourceFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      return SKIP_DIRS.has(entry.name) ? [] : collectSourceFiles(fullPath)
+    }
+    return /\.tsx?$/.test(entry.name) && !/\.(test|spec)\.tsx?$/.test(entry.name) ? [fullPath] : []
+  })
+}
+
+function main() {
+  const enums = parseSchemaEnums(readFileSync(SCHEMA_PATH, 'utf8'))
+  const output = renderEnumModule(enums, 'packages/database/prisma/schema.prisma')
+
+  if (!process.argv.includes('--check')) {
+    writeFileSync(OUTPUT_PATH, output)
+    console.log(`✅ Wrote ${enums.length} enums to ${path.relative(ROOT, OUTPUT_PATH)}`)
+    return
+  }
+
+  let failed = false
+
+  let current = ''
+  try {
+    current = readFileSync(OUTPUT_PATH, 'utf8')
+  } catch {
+    // Treated as stale below
+  }
+
+  if (current !== output) {
+    console.error(`❌ ${path.relative(ROOT, OUTPUT_PATH)} is out of date. Run \`pnpm enums:generate\`.`)
+    failed = true
+  }
+
+  const files = SCAN_ROOTS.flatMap(collectSourceFiles).map((file) => ({
+    path: path.relative(ROOT, file),
+    source: readFileSync(file, 'utf8'),
+  }))
+
+  for (const divergence of findEnumDivergences(enums, files)) {
+    const details = [
+      divergence.unknown.length ? `unknown: ${divergence.unknown.join(', ')}` : '',
+      divergence.missing.length ? `missing: ${divergence.missing.join(', ')}` : '',
+    ].filter(Boolean)
+    console.error(
+      `❌ ${divergence.file}:${divergence.line} diverges from ${divergence.enumName} (${details.join('; ')})`
+    )
+    failed = true
+  }
+
+  if (failed) {
+    process.exit(1)
+  }
+
+  console.log('✅ Enums match the Prisma schema')
+}
+
+main()
@@ -0,0 +1,213 @@
+// Enum code generation from the Prisma schema.
+// schema.prisma is the single source of truth for enum members. Display
+// metadata comes from trailing comments on enum values:
+//
+//   enum LeadSource {
+//     WEBSITE  // Website #3B82F6
+//   }
+//
+// The label defaults to the humanized member name and the color to gray.
+
+export interface SchemaEnumMember {
+  value: string
+  name: string
+  color: string
+}
+
+export interface SchemaEnum {
+  name: string
+  members: SchemaEnumMember[]
+}
+
+export interface EnumDivergence {
+  file: string
+  line: number
+  enumName: string
+  members: string[]
+  unknown: string[]
+  missing: string[]
+}
+
+export const DEFAULT_ENUM_COLOR = '#6B7280'
+
+// Lines containing this marker are skipped by findEnumDivergences
+export const ENUM_CHECK_IGNORE = 'enum-check: ignore'
+
+const ENUM_BLOCK = /^enum\s+(\w+)\s*\{([\s\S]*?)^\}/gm
+const MEMBER_LINE = /^\s*([A-Z][A-Z0-9_]*)\s*(?:\/\/\s*(.*))?$/
+const HEX_COLOR = /#[0-9A-Fa-f]{6}\b/
+
+export function humanizeEnumValue(value: string): string {
+  return value
+    .toLowerCase()
+    .split('_')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+export function parseSchemaEnums(schema: string): SchemaEnum[] {
+  const enums: SchemaEnum[] = []
+
+  for (const [, name, body] of schema.matchAll(ENUM_BLOCK)) {
+    const members: SchemaEnumMember[] = []
+
+    for (const line of body.split('\n')) {
+      const match = line.match(MEMBER_LINE)
+      if (!match) continue
+
+      const [, value, comment = ''] = match
+      const color = comment.match(HEX_COLOR)?.[0]
+      const label = comment.replace(HEX_COLOR, '').trim()
+
+      members.push({
+        value,
+        name: label || humanizeEnumValue(value),
+        color: color ?? DEFAULT_ENUM_COLOR,
+      })
+    }
+
+    enums.push({ name, members })
+  }
+
+  return enums
+}
+
+// LeadSource -> LEAD_SOURCE
+function toConstantCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()
+}
+
+// LEAD_STATUS -> LEAD_STATUSES, PRIORITY -> PRIORITIES
+function pluralize(name: string): string {
+  if (/[^AEIOU]Y$/.test(name)) return `${name.slice(0, -1)}IES`
+  if (/(S|X|CH|SH)$/.test(name)) return `${name}ES`
+  return `${name}S`
+}
+
+export function getEnumIdentifiers(enumName: string) {
+  const constant = toConstantCase(enumName)
+
+  return {
+    type: enumName,
+    values: pluralize(constant),
+    schema: `${enumName.charAt(0).toLowerCase()}${enumName.slice(1)}Schema`,
+    meta: `${constant}_META`,
+  }
+}
+
+export function renderEnumModule(enums: SchemaEnum[], source: string): string {
+  const lines = [
+    `// Generated from ${source} by \`pnpm --filter @workspace/database enums:generate\`.`,
+    '// Do not edit by hand; change the schema and regenerate instead.',
+    '',
+    "import { z } from 'zod'",
+    '',
+    'export interface EnumMeta {',
+    '  name: string',
+    '  color: string',
+    '}',
+  ]
+
+  for (const schemaEnum of enums) {
+    const ids = getEnumIdentifiers(schemaEnum.name)
+
+    lines.push(
+      '',
+      `// ${schemaEnum.name}`,
+      `export const ${ids.values} = [`,
+      ...schemaEnum.members.map((member) => `  '${member.value}',`),
+      '] as const',
+      `export type ${ids.type} = (typeof ${ids.values})[number]`,
+      `export const ${ids.schema} = z.enum(${ids.values})`,
+      `export const ${ids.meta}: Readonly<Record<${ids.type}, EnumMeta>> = {`,
+      ...schemaEnum.members.map(
+        (member) => `  ${member.value}: { name: '${member.name.replace(/'/g, "\\'")}', color: '${member.color}' },`
+      ),
+      '}'
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+const ENUM_LIST_PATTERNS = [
+  // z.enum(['A', 'B'])
+  /z\.enum\(\s*\[([^\]]*)\]/g,
+  // ['A', 'B'] as const
+  /\[([^[\]]*)\]\s*as\s+const/g,
+  // type X = 'A' | 'B'
+  /type\s+\w+\s*=((?:\s*\|?\s*['"][^'"]*['"])+)/g,
+]
+
+const STRING_LITERAL = /['"]([^'"]*)['"]/g
+const ENUM_VALUE = /^[A-Z][A-Z0-9_]*$/
+
+function extractLiteralLists(source: string): { index: number; members: string[] }[] {
+  const lists: { index: number; members: string[] }[] = []
+
+  for (const pattern of ENUM_LIST_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      const members = [...match[1].matchAll(STRING_LITERAL)].map(([, value]) => value)
+      if (members.length >= 2 && members.every((member) => ENUM_VALUE.test(member))) {
+        lists.push({ index: match.index ?? 0, members })
+      }
+    }
+  }
+
+  return lists
+}
+
+/**
+ * Finds hand-written string enums that look like copies of a schema enum but
+ * disagree with it: they either contain members the schema does not define,
+ * or drop fewer than half of the schema members (a stale copy rather than an
+ * intentional subset such as `['WON', 'LOST']`).
+ */
+export function findEnumDivergences(
+  enums: SchemaEnum[],
+  files: { path: string; source: string }[]
+): EnumDivergence[] {
+  const divergences: EnumDivergence[] = []
+
+  for (const file of files) {
+    const lines = file.source.split('\n')
+
+    for (const list of extractLiteralLists(file.source)) {
+      const line = file.source.slice(0, list.index).split('\n').length
+      if (lines[line - 1]?.includes(ENUM_CHECK_IGNORE) || lines[line - 2]?.includes(ENUM_CHECK_IGNORE)) {
+        continue
+      }
+
+      const candidates = enums
+        .map((schemaEnum) => {
+          const values = schemaEnum.members.map((member) => member.value)
+          return {
+            schemaEnum,
+            values,
+            overlap: list.members.filter((member) => values.includes(member)).length,
+          }
+        })
+        .filter((candidate) => candidate.overlap >= 2)
+        .sort((a, b) => b.overlap - a.overlap)
+
+      const best = candidates[0]
+      if (!best) continue
+
+      const unknown = list.members.filter((member) => !best.values.includes(member))
+      const missing = best.values.filter((value) => !list.members.includes(value))
+
+      if (unknown.length > 0 || (missing.length > 0 && missing.length < best.values.length / 2)) {
+        divergences.push({
+          file: file.path,
+          line,
+          enumName: best.schemaEnum.name,
+          members: list.members,
+          unknown,
+          missing,
+        })
+      }
+    }
+  }
+
+  return divergences
+}
@@ -129,6 +129,9 @@ exports.Prisma.UserScalarFieldEnum = {
   image: 'image',
   password: 'password',
   role: 'role',
+  active: 'active',
+  lastAssignedAt: 'lastAssignedAt',
+  calendarToken: 'calendarToken',
   emailVerified: 'emailVerified',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -195,11 +198,21 @@ exports.Prisma.LeadScalarFieldEnum = {
   source: 'source',
   status: 'status',
   priority: 'priority',
+  urgency: 'urgency',
   serviceId: 'serviceId',
+  serviceType: 'serviceType',
+  city: 'city',
+  zipCode: 'zipCode',
+  inServiceArea: 'inServiceArea',
+  serviceAreaId: 'serviceAreaId',
+  travelSurcharge: 'travelSurcharge',
+  score: 'score',
   assignedToId: 'assignedToId',
   estimatedValue: 'estimatedValue',
   notes: 'notes',
   followUpDate: 'followUpDate',
+  slaBreachedAt: 'slaBreachedAt',
+  reminderSentAt: 'reminderSentAt',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -210,9 +223,83 @@ exports.Prisma.LeadActivityScalarFieldEnum = {
   type: 'type',
   title: 'title',
   description: 'description',
+  metadata: 'metadata',
   createdAt: 'createdAt'
 };
 
+exports.Prisma.LeadAssignmentRuleScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  serviceCategory: 'serviceCategory',
+  priority: 'priority',
+  urgency: 'urgency',
+  agentIds: 'agentIds',
+  order: 'order',
+  active: 'active',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.QuoteScalarFieldEnum = {
+  id: 'id',
+  number: 'number',
+  version: 'version',
+  leadId: 'leadId',
+  status: 'status',
+  title: 'title',
+  notes: 'notes',
+  emergency: 'emergency',
+  serviceDate: 'serviceDate',
+  subtotal: 'subtotal',
+  surcharge: 'surcharge',
+  taxRate: 'taxRate',
+  tax: 'tax',
+  total: 'total',
+  financing: 'financing',
+  validDays: 'validDays',
+  sentAt: 'sentAt',
+  expiresAt: 'expiresAt',
+  createdById: 'createdById',
+  acceptedAt: 'acceptedAt',
+  signatureName: 'signatureName',
+  signatureIp: 'signatureIp',
+  financingMonths: 'financingMonths',
+  declinedAt: 'declinedAt',
+  declineReason: 'declineReason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AppointmentScalarFieldEnum = {
+  id: 'id',
+  leadId: 'leadId',
+  technicianId: 'technicianId',
+  status: 'status',
+  startsAt: 'startsAt',
+  endsAt: 'endsAt',
+  serviceType: 'serviceType',
+  serviceLocation: 'serviceLocation',
+  notes: 'notes',
+  emergency: 'emergency',
+  cancelledAt: 'cancelledAt',
+  cancelReason: 'cancelReason',
+  sequence: 'sequence',
+  createdById: 'createdById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.QuoteLineItemScalarFieldEnum = {
+  id: 'id',
+  quoteId: 'quoteId',
+  type: 'type',
+  description: 'description',
+  quantity: 'quantity',
+  unitPrice: 'unitPrice',
+  total: 'total',
+  order: 'order'
+};
+
 exports.Prisma.TestimonialScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -223,6 +310,7 @@ exports.Prisma.TestimonialScalarFieldEnum = {
   image: 'image',
   featured: 'featured',
   approved: 'approved',
+  status: 'status',
   serviceId: 'serviceId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -298,6 +386,23 @@ exports.Prisma.TeamMemberScalarFieldEnum = {
   specialties: 'specialties',
   featured: 'featured',
   active: 'active',
+  status: 'status',
+  order: 'order',
+  technician: 'technician',
+  workingHours: 'workingHours',
+  userId: 'userId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ServiceAreaScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  cities: 'cities',
+  zipCodes: 'zipCodes',
+  polygon: 'polygon',
+  surcharge: 'surcharge',
+  active: 'active',
   order: 'order',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -313,11 +418,59 @@ exports.Prisma.SettingScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.RevalidationLogScalarFieldEnum = {
+  id: 'id',
+  source: 'source',
+  tags: 'tags',
+  status: 'status',
+  attempts: 'attempts',
+  error: 'error',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.NotificationOutboxScalarFieldEnum = {
+  id: 'id',
+  template: 'template',
+  locale: 'locale',
+  to: 'to',
+  subject: 'subject',
+  html: 'html',
+  text: 'text',
+  attachments: 'attachments',
+  status: 'status',
+  attempts: 'attempts',
+  nextAttemptAt: 'nextAttemptAt',
+  lastError: 'lastError',
+  sentAt: 'sentAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.NotificationDeliveryScalarFieldEnum = {
+  id: 'id',
+  outboxId: 'outboxId',
+  attempt: 'attempt',
+  transport: 'transport',
+  success: 'success',
+  messageId: 'messageId',
+  error: 'error',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -327,10 +480,18 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.UserRole = exports.$Enums.UserRole = {
   ADMIN: 'ADMIN',
   EDITOR: 'EDITOR',
-  USER: 'USER'
+  AUTHOR: 'AUTHOR',
+  AGENT: 'AGENT',
+  VIEWER: 'VIEWER'
 };
 
 exports.PriceType = exports.$Enums.PriceType = {
@@ -375,6 +536,13 @@ exports.Priority = exports.$Enums.Priority = {
   URGENT: 'URGENT'
 };
 
+exports.Urgency = exports.$Enums.Urgency = {
+  IMMEDIATE: 'IMMEDIATE',
+  WITHIN_24H: 'WITHIN_24H',
+  WITHIN_WEEK: 'WITHIN_WEEK',
+  FLEXIBLE: 'FLEXIBLE'
+};
+
 exports.LeadActivityType = exports.$Enums.LeadActivityType = {
   CALL: 'CALL',
   EMAIL: 'EMAIL',
@@ -382,7 +550,49 @@ exports.LeadActivityType = exports.$Enums.LeadActivityType = {
   PROPOSAL: 'PROPOSAL',
   FOLLOW_UP: 'FOLLOW_UP',
   NOTE: 'NOTE',
-  STATUS_CHANGE: 'STATUS_CHANGE'
+  STATUS_CHANGE: 'STATUS_CHANGE',
+  ASSIGNED: 'ASSIGNED',
+  SLA_BREACHED: 'SLA_BREACHED',
+  QUOTE_ACCEPTED: 'QUOTE_ACCEPTED',
+  QUOTE_DECLINED: 'QUOTE_DECLINED',
+  APPOINTMENT_BOOKED: 'APPOINTMENT_BOOKED',
+  APPOINTMENT_RESCHEDULED: 'APPOINTMENT_RESCHEDULED',
+  APPOINTMENT_CANCELLED: 'APPOINTMENT_CANCELLED',
+  WHATSAPP: 'WHATSAPP'
+};
+
+exports.QuoteStatus = exports.$Enums.QuoteStatus = {
+  DRAFT: 'DRAFT',
+  SENT: 'SENT',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  EXPIRED: 'EXPIRED',
+  SUPERSEDED: 'SUPERSEDED'
+};
+
+exports.AppointmentStatus = exports.$Enums.AppointmentStatus = {
+  SCHEDULED: 'SCHEDULED',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED',
+  NO_SHOW: 'NO_SHOW'
+};
+
+exports.QuoteItemType = exports.$Enums.QuoteItemType = {
+  LABOR: 'LABOR',
+  MATERIAL: 'MATERIAL',
+  DIAGNOSTIC: 'DIAGNOSTIC',
+  OTHER: 'OTHER'
+};
+
+exports.RevalidationStatus = exports.$Enums.RevalidationStatus = {
+  DELIVERED: 'DELIVERED',
+  FAILED: 'FAILED'
+};
+
+exports.NotificationStatus = exports.$Enums.NotificationStatus = {
+  PENDING: 'PENDING',
+  SENT: 'SENT',
+  FAILED: 'FAILED'
 };
 
 exports.Prisma.ModelName = {
@@ -393,12 +603,20 @@ exports.Prisma.ModelName = {
   Service: 'Service',
   Lead: 'Lead',
   LeadActivity: 'LeadActivity',
+  LeadAssignmentRule: 'LeadAssignmentRule',
+  Quote: 'Quote',
+  Appointment: 'Appointment',
+  QuoteLineItem: 'QuoteLineItem',
   Testimonial: 'Testimonial',
   Project: 'Project',
   Post: 'Post',
   Page: 'Page',
   TeamMember: 'TeamMember',
-  Setting: 'Setting'
+  ServiceArea: 'ServiceArea',
+  Setting: 'Setting',
+  RevalidationLog: 'RevalidationLog',
+  NotificationOutbox: 'NotificationOutbox',
+  NotificationDelivery: 'NotificationDelivery'
 };
 
 /**
@@ -2,6 +2,7 @@
 // Exports Prisma client and database utilities
 
 export { PrismaClient } from './generated'
+export type { Prisma } from './generated'
 export type {
   User,
   Account,
@@ -9,19 +10,57 @@ export type {
   Service,
   Lead,
   LeadActivity,
+  LeadAssignmentRule,
+  Quote,
+  QuoteLineItem,
+  Appointment,
   Testimonial,
   Project,
   Post,
   Page,
   TeamMember,
+  ServiceArea,
   Setting,
+  RevalidationLog,
   UserRole,
   ContentStatus,
   PriceType,
   LeadSource,
   LeadStatus,
   Priority,
+  Urgency,
   LeadActivityType,
+  QuoteStatus,
+  QuoteItemType,
+  AppointmentStatus,
+  RevalidationStatus,
 } from './generated'
 
-export { db } from './client'
\ No newline at end of file
+export { db } from './client'
+export {
+  leadUtils,
+  serviceUtils,
+  contentUtils,
+  testimonialUtils,
+  projectUtils,
+  teamUtils,
+  serviceAreaUtils,
+} from './utils'
+export type {
+  SortDirection,
+  ListOptions,
+  ListPage,
+  ContentFilter,
+  ServiceFilter,
+  PostFilter,
+  PageFilter,
+  ProjectFilter,
+  TestimonialFilter,
+  TeamMemberFilter,
+  ServiceAreaFilter,
+  ContentSortField,
+  ProjectSortField,
+  TestimonialSortField,
+  TeamMemberSortField,
+  ServiceAreaSortField,
+} from './utils'
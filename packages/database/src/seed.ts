@@ -1,3 +1,4 @@
+import { SETTINGS, SETTING_KEYS, getSettingType, serializeSetting } from '@workspace/config'
 import { db } from './client'
 import type { UserRole } from './generated'
 
@@ -128,6 +129,7 @@ export async function seedDatabase() {
         featured: true,
         active: true,
         order: 1,
+        technician: true,
       },
       {
         name: 'Maria Garcia',
@@ -146,6 +148,9 @@ export async function seedDatabase() {
         featured: false,
         active: true,
         order: 3,
+        technician: true,
+        // Weekend cover: off on Mondays, works all of Sunday
+        workingHours: { monday: { closed: true }, sunday: { open: '8:00', close: '18:00' } },
       },
     ]
 
@@ -157,6 +162,44 @@ export async function seedDatabase() {
 
     console.log('✅ Team members created')
 
+    // Create service areas, from the home base outwards; each ring carries a
+    // larger travel surcharge
+    const serviceAreas = [
+      {
+        name: 'Springfield Metro',
+        cities: ['Springfield', 'Chatham', 'Sherman', 'Rochester'],
+        zipCodes: ['62701', '62702', '62703', '62704', '62707', '62711', '62712'],
+        polygon: {
+          type: 'Polygon',
+          coordinates: [[[-89.78, 39.68], [-89.52, 39.68], [-89.52, 39.88], [-89.78, 39.88], [-89.78, 39.68]]],
+        },
+        surcharge: 0,
+        order: 1,
+      },
+      {
+        name: 'Central Illinois',
+        cities: ['Decatur', 'Bloomington', 'Peoria', 'Champaign'],
+        zipCodes: ['62521', '62522', '62526', '61701', '61704', '61602', '61603', '61604', '61820', '61821', '61822'],
+        surcharge: 50,
+        order: 2,
+      },
+      {
+        name: 'Western Illinois',
+        cities: ['Quincy'],
+        zipCodes: ['62301', '62305'],
+        surcharge: 90,
+        order: 3,
+      },
+    ]
+
+    for (const area of serviceAreas) {
+      await db.serviceArea.create({
+        data: area,
+      })
+    }
+
+    console.log('✅ Service areas created')
+
     // Create sample projects
     const projects = [
       {
@@ -235,24 +278,16 @@ export async function seedDatabase() {
 
     console.log('✅ Blog posts created')
 
-    // Create essential settings
-    const settings = [
-      { key: 'site_title', value: 'Aurora HVAC Services', category: 'general' },
-      { key: 'site_description', value: 'Professional HVAC installation, repair, and maintenance services', category: 'general' },
-      { key: 'contact_email', value: 'info@aurora-hvac.com', category: 'contact' },
-      { key: 'contact_phone', value: '+1 (555) 123-4567', category: 'contact' },
-      { key: 'business_hours', value: 'Mon-Fri: 8AM-6PM, Sat: 9AM-4PM', category: 'contact' },
-      { key: 'emergency_phone', value: '+1 (555) 911-HVAC', category: 'contact' },
-      { key: 'service_areas', value: 'Metro Area, Suburbs, Commercial District', category: 'business' },
-      { key: 'google_recaptcha_site_key', value: '', category: 'security' },
-      { key: 'plausible_domain', value: 'aurora-hvac.com', category: 'analytics' },
-    ]
+    // Create essential settings from the registry defaults
+    for (const key of SETTING_KEYS) {
+      const value = serializeSetting(key, SETTINGS[key].default)
+      const type = getSettingType(key)
+      const { category } = SETTINGS[key]
 
-    for (const setting of settings) {
       await db.setting.upsert({
-        where: { key: setting.key },
-        update: { value: setting.value, category: setting.category },
-        create: setting,
+        where: { key },
+        update: { value, type, category },
+        create: { key, value, type, category },
       })
     }
 
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import path from 'path'
+import {
+  findEnumDivergences,
+  getEnumIdentifiers,
+  humanizeEnumValue,
+  parseSchemaEnums,
+  renderEnumModule,
+} from '../enum-codegen'
+
+const schema = `
+model Lead {
+  id     String     @id
+  source LeadSource @default(WEBSITE)
+}
+
+enum LeadSource {
+  WEBSITE       // Website #3B82F6
+  SOCIAL_MEDIA  // Social Media #EF4444
+  GOOGLE_ADS
+  OTHER
+}
+
+enum PriceType {
+  FIXED
+  STARTING_FROM
+  QUOTE_REQUIRED
+  HOURLY
+}
+`
+
+describe('Enum Codegen', () => {
+  describe('parseSchemaEnums', () => {
+    it('should read enum members and their display metadata', () => {
+      const [leadSource, priceType] = parseSchemaEnums(schema)
+
+      expect(leadSource.name).toBe('LeadSource')
+      expect(leadSource.members).toEqual([
+        { value: 'WEBSITE', name: 'Website', color: '#3B82F6' },
+        { value: 'SOCIAL_MEDIA', name: 'Social Media', color: '#EF4444' },
+        { value: 'GOOGLE_ADS', name: 'Google Ads', color: '#6B7280' },
+        { value: 'OTHER', name: 'Other', color: '#6B7280' },
+      ])
+      expect(priceType.members.map((member) => member.value)).toEqual([
+        'FIXED',
+        'STARTING_FROM',
+        'QUOTE_REQUIRED',
+        'HOURLY',
+      ])
+    })
+
+    it('should ignore models', () => {
+      expect(parseSchemaEnums(schema).map((schemaEnum) => schemaEnum.name)).toEqual([
+        'LeadSource',
+        'PriceType',
+      ])
+    })
+  })
+
+  describe('naming', () => {
+    it('should humanize enum values', () => {
+      expect(humanizeEnumValue('PROPOSAL_SENT')).toBe('Proposal Sent')
+    })
+
+    it('should derive identifiers from the enum name', () => {
+      expect(getEnumIdentifiers('LeadStatus')).toEqual({
+        type: 'LeadStatus',
+        values: 'LEAD_STATUSES',
+        schema: 'leadStatusSchema',
+        meta: 'LEAD_STATUS_META',
+      })
+      expect(getEnumIdentifiers('Priority').values).toBe('PRIORITIES')
+      expect(getEnumIdentifiers('LeadActivityType').values).toBe('LEAD_ACTIVITY_TYPES')
+    })
+  })
+
+  describe('renderEnumModule', () => {
+    it('should emit values, a union type, a zod enum and metadata', () => {
+      const output = renderEnumModule(parseSchemaEnums(schema), 'schema.prisma')
+
+      expect(output).toContain("export const LEAD_SOURCES = [\n  'WEBSITE',")
+      expect(output).toContain('export type LeadSource = (typeof LEAD_SOURCES)[number]')
+      expect(output).toContain('export const leadSourceSchema = z.enum(LEAD_SOURCES)')
+      expect(output).toContain("  SOCIAL_MEDIA: { name: 'Social Media', color: '#EF4444' },")
+    })
+
+    it('should match the committed module in @workspace/config', () => {
+      const root = path.resolve(__dirname, '../../..')
+      const output = renderEnumModule(
+        parseSchemaEnums(readFileSync(path.join(root, 'database/prisma/schema.prisma'), 'utf8')),
+        'packages/database/prisma/schema.prisma'
+      )
+
+      expect(readFileSync(path.join(root, 'config/src/generated/enums.ts'), 'utf8')).toBe(output)
+    })
+  })
+
+  describe('findEnumDivergences', () => {
+    const enums = parseSchemaEnums(schema)
+    const check = (source: string) => findEnumDivergences(enums, [{ path: 'file.ts', source }])
+
+    it('should flag zod enums with members the schema does not define', () => {
+      const [divergence] = check(`
+const schema = z.object({
+  priceType: z.enum(['FIXED', 'HOURLY', 'QUOTE']),
+})`)
+
+      expect(divergence).toMatchObject({
+        file: 'file.ts',
+        line: 3,
+        enumName: 'PriceType',
+        unknown: ['QUOTE'],
+        missing: ['STARTING_FROM', 'QUOTE_REQUIRED'],
+      })
+    })
+
+    it('should flag string unions and const arrays', () => {
+      const divergences = check(`
+export type LeadSource = 'WEBSITE' | 'SOCIAL' | 'OTHER'
+export const SOURCES = ['WEBSITE', 'SOCIAL_MEDIA', 'OTHER'] as const
+`)
+
+      expect(divergences.map((divergence) => divergence.line)).toEqual([3, 2])
+      expect(divergences[1].unknown).toEqual(['SOCIAL'])
+      expect(divergences[0]).toMatchObject({ unknown: [], missing: ['GOOGLE_ADS'] })
+    })
+
+    it('should accept exact copies and intentional subsets', () => {
+      expect(check(`const all = ['WEBSITE', 'SOCIAL_MEDIA', 'GOOGLE_ADS', 'OTHER'] as const`)).toEqual([])
+      expect(check(`const paid = ['FIXED', 'HOURLY'] as const`)).toEqual([])
+    })
+
+    it('should ignore unrelated and opted-out lists', () => {
+      expect(check(`const methods = z.enum(['GET', 'POST'])`)).toEqual([])
+      expect(
+        check(`// enum-check: ignore
+const legacy = ['WEBSITE', 'SOCIAL', 'OTHER'] as const`)
+      ).toEqual([])
+    })
+  })
+})
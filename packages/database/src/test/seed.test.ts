@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { mockPrismaClient } from './setup'
 import { seedDatabase } from '../seed'
+import { SETTING_KEYS } from '@workspace/config'
 
 describe('Database Seed', () => {
   beforeEach(() => {
@@ -176,9 +177,14 @@ describe('Database Seed', () => {
           featured: true,
           active: true,
           order: 1,
+          technician: true,
         },
       })
 
+      // Verify service areas creation
+      expect(mockPrismaClient.serviceArea.create).toHaveBeenCalledTimes(3)
+      expect(mockPrismaClient.serviceArea.create.mock.calls.map(([args]) => args.data.surcharge)).toEqual([0, 50, 90])
+
       // Verify projects creation
       expect(mockPrismaClient.project.create).toHaveBeenCalledTimes(2)
       
@@ -200,16 +206,22 @@ describe('Database Seed', () => {
       })
 
       // Verify settings creation
-      expect(mockPrismaClient.setting.upsert).toHaveBeenCalledTimes(9)
+      expect(mockPrismaClient.setting.upsert).toHaveBeenCalledTimes(SETTING_KEYS.length)
       expect(mockPrismaClient.setting.upsert).toHaveBeenCalledWith({
         where: { key: 'site_title' },
-        update: { value: 'Aurora HVAC Services', category: 'general' },
+        update: { value: 'Aurora HVAC Services', type: 'string', category: 'general' },
         create: {
           key: 'site_title',
           value: 'Aurora HVAC Services',
+          type: 'string',
           category: 'general',
         },
       })
+      expect(mockPrismaClient.setting.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ key: 'business_calendar', type: 'json', category: 'business' }),
+        })
+      )
 
       // Verify sample leads creation
       expect(mockPrismaClient.lead.create).toHaveBeenCalledTimes(2)
@@ -314,14 +326,14 @@ describe('Database Seed', () => {
       const generalSettings = settingCalls.filter(call => call[0].create.category === 'general')
       const contactSettings = settingCalls.filter(call => call[0].create.category === 'contact')
       const businessSettings = settingCalls.filter(call => call[0].create.category === 'business')
-      const securitySettings = settingCalls.filter(call => call[0].create.category === 'security')
-      const analyticsSettings = settingCalls.filter(call => call[0].create.category === 'analytics')
-
-      expect(generalSettings).toHaveLength(2) // site_title, site_description
-      expect(contactSettings).toHaveLength(4) // contact_email, contact_phone, business_hours, emergency_phone
-      expect(businessSettings).toHaveLength(1) // service_areas
-      expect(securitySettings).toHaveLength(1) // google_recaptcha_site_key
-      expect(analyticsSettings).toHaveLength(1) // plausible_domain
+      const ctaSettings = settingCalls.filter(call => call[0].create.category === 'cta')
+      const integrationSettings = settingCalls.filter(call => call[0].create.category === 'integrations')
+
+      expect(generalSettings).toHaveLength(3) // site_title, site_description, allow_registration
+      expect(contactSettings).toHaveLength(4) // contact_email, contact_phone, emergency_phone, whatsapp_number
+      expect(businessSettings).toHaveLength(4) // business_name, business_tagline, business_address, business_calendar
+      expect(ctaSettings).toHaveLength(4) // primary and secondary label and link
+      expect(integrationSettings).toHaveLength(2) // google_recaptcha_site_key, plausible_domain
     })
 
     it('should create leads with different priorities and statuses', async () => {
@@ -7,7 +7,6 @@ import {
   testimonialUtils,
   projectUtils,
   teamUtils,
-  settingsUtils,
 } from '../utils'
 
 describe('Database Utils', () => {
@@ -101,10 +100,11 @@ describe('Database Utils', () => {
           id: 'activity-123',
           leadId: 'lead-123',
           type: 'STATUS_CHANGE',
-          title: 'Status changed to QUALIFIED',
+          title: 'Status changed from CONTACTED to QUALIFIED',
           description: 'Lead qualified after review',
         }
 
+        mockPrismaClient.lead.findUnique.mockResolvedValue({ status: 'CONTACTED' })
         mockPrismaClient.lead.update.mockResolvedValue(mockLead)
         mockPrismaClient.leadActivity.create.mockResolvedValue(mockActivity)
 
@@ -123,8 +123,9 @@ describe('Database Utils', () => {
           data: {
             leadId: 'lead-123',
             type: 'STATUS_CHANGE',
-            title: 'Status changed to QUALIFIED',
+            title: 'Status changed from CONTACTED to QUALIFIED',
             description: 'Lead qualified after review',
+            metadata: { from: 'CONTACTED', to: 'QUALIFIED' },
           },
         })
 
@@ -133,6 +134,7 @@ describe('Database Utils', () => {
 
       it('should update lead status without notes', async () => {
         const mockLead = createMockLead({ status: 'CONTACTED' })
+        mockPrismaClient.lead.findUnique.mockResolvedValue({ status: 'NEW' })
         mockPrismaClient.lead.update.mockResolvedValue(mockLead)
         mockPrismaClient.leadActivity.create.mockResolvedValue({})
 
@@ -142,11 +144,44 @@ describe('Database Utils', () => {
           data: {
             leadId: 'lead-123',
             type: 'STATUS_CHANGE',
-            title: 'Status changed to CONTACTED',
+            title: 'Status changed from NEW to CONTACTED',
             description: undefined,
+            metadata: { from: 'NEW', to: 'CONTACTED' },
           },
         })
       })
+
+      it('should reject transitions the workflow does not allow', async () => {
+        mockPrismaClient.lead.findUnique.mockResolvedValue({ status: 'NEW' })
+
+        await expect(leadUtils.updateLeadStatus('lead-123', 'WON')).rejects.toThrow(
+          'Cannot move lead from NEW to WON'
+        )
+        expect(mockPrismaClient.lead.update).not.toHaveBeenCalled()
+        expect(mockPrismaClient.leadActivity.create).not.toHaveBeenCalled()
+      })
+
+      it('should require an estimated value before marking a lead as won', async () => {
+        mockPrismaClient.lead.findUnique.mockResolvedValue({ status: 'PROPOSAL_SENT', estimatedValue: null })
+
+        await expect(leadUtils.updateLeadStatus('lead-123', 'WON')).rejects.toThrow(
+          'An estimated value is required before a lead can be marked as won'
+        )
+        expect(mockPrismaClient.lead.update).not.toHaveBeenCalled()
+
+        mockPrismaClient.lead.findUnique.mockResolvedValue({ status: 'PROPOSAL_SENT', estimatedValue: 4200 })
+        mockPrismaClient.lead.update.mockResolvedValue(createMockLead({ status: 'WON' }))
+
+        await expect(leadUtils.updateLeadStatus('lead-123', 'WON')).resolves.toMatchObject({ status: 'WON' })
+      })
+
+      it('should throw when the lead does not exist', async () => {
+        mockPrismaClient.lead.findUnique.mockResolvedValue(null)
+
+        await expect(leadUtils.updateLeadStatus('missing', 'CONTACTED')).rejects.toThrow(
+          'Lead missing not found'
+        )
+      })
     })
 
     describe('getLeads', () => {
@@ -287,6 +322,119 @@ describe('Database Utils', () => {
         expect(result).toEqual(mockServices)
       })
     })
+
+    describe('listServices', () => {
+      it('should hide archived services and page with a cursor', async () => {
+        const mockServices = [
+          createMockService({ id: 'service-1' }),
+          createMockService({ id: 'service-2' }),
+          createMockService({ id: 'service-3' }),
+        ]
+        mockPrismaClient.service.findMany.mockResolvedValue(mockServices)
+
+        const result = await serviceUtils.listServices({ take: 2 })
+
+        expect(mockPrismaClient.service.findMany).toHaveBeenCalledWith({
+          where: { status: { not: 'ARCHIVED' } },
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          take: 3,
+        })
+        expect(result.items.map((service: any) => service.id)).toEqual(['service-1', 'service-2'])
+        expect(result.nextCursor).toBe('service-2')
+      })
+
+      it('should apply filters, sort and cursor', async () => {
+        mockPrismaClient.service.findMany.mockResolvedValue([createMockService()])
+
+        const result = await serviceUtils.listServices({
+          filter: { status: 'ARCHIVED', category: 'hvac', search: 'duct' },
+          sort: { field: 'title' },
+          cursor: 'service-2',
+          take: 10,
+        })
+
+        expect(mockPrismaClient.service.findMany).toHaveBeenCalledWith({
+          where: {
+            status: 'ARCHIVED',
+            category: 'hvac',
+            title: { contains: 'duct', mode: 'insensitive' },
+          },
+          orderBy: [{ title: 'asc' }, { id: 'asc' }],
+          take: 11,
+          cursor: { id: 'service-2' },
+          skip: 1,
+        })
+        expect(result.nextCursor).toBeNull()
+      })
+
+      it('should cap the page size', async () => {
+        mockPrismaClient.service.findMany.mockResolvedValue([])
+
+        await serviceUtils.listServices({ take: 5000 })
+
+        expect(mockPrismaClient.service.findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 101 }))
+      })
+    })
+
+    describe('createService', () => {
+      it('should mark published services and stamp publishedAt', async () => {
+        mockPrismaClient.service.create.mockResolvedValue(createMockService())
+
+        await serviceUtils.createService({
+          title: 'Duct Cleaning',
+          slug: 'duct-cleaning',
+          category: 'maintenance',
+          status: 'PUBLISHED',
+        })
+
+        expect(mockPrismaClient.service.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            slug: 'duct-cleaning',
+            status: 'PUBLISHED',
+            published: true,
+            publishedAt: expect.any(Date),
+          }),
+        })
+      })
+    })
+
+    describe('updateService', () => {
+      it('should return null for a missing service', async () => {
+        mockPrismaClient.service.findUnique.mockResolvedValue(null)
+
+        const result = await serviceUtils.updateService('missing', { title: 'New title' })
+
+        expect(result).toBeNull()
+        expect(mockPrismaClient.service.update).not.toHaveBeenCalled()
+      })
+
+      it('should keep the original publish date when republishing', async () => {
+        const publishedAt = new Date('2024-01-01')
+        mockPrismaClient.service.findUnique.mockResolvedValue({ publishedAt })
+        mockPrismaClient.service.update.mockResolvedValue(createMockService())
+
+        await serviceUtils.updateService('service-123', { status: 'PUBLISHED' })
+
+        expect(mockPrismaClient.service.update).toHaveBeenCalledWith({
+          where: { id: 'service-123' },
+          data: { status: 'PUBLISHED', published: true },
+        })
+      })
+    })
+
+    describe('archiveService', () => {
+      it('should archive and unpublish the service', async () => {
+        mockPrismaClient.service.findUnique.mockResolvedValue({ publishedAt: new Date() })
+        mockPrismaClient.service.update.mockResolvedValue(createMockService({ status: 'ARCHIVED' }))
+
+        await serviceUtils.archiveService('service-123')
+
+        expect(mockPrismaClient.service.update).toHaveBeenCalledWith({
+          where: { id: 'service-123' },
+          data: { status: 'ARCHIVED', published: false },
+        })
+      })
+    })
   })
 
   describe('contentUtils', () => {
@@ -389,6 +537,24 @@ describe('Database Utils', () => {
         expect(result).toEqual(mockPage)
       })
     })
+
+    describe('listPosts', () => {
+      it('should filter posts by tag and author', async () => {
+        mockPrismaClient.post.findMany.mockResolvedValue([])
+
+        await contentUtils.listPosts({ filter: { tag: 'hvac', authorId: 'user-123' } })
+
+        expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith({
+          where: {
+            status: { not: 'ARCHIVED' },
+            tags: { has: 'hvac' },
+            authorId: 'user-123',
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          take: 21,
+        })
+      })
+    })
   })
 
   describe('testimonialUtils', () => {
@@ -454,6 +620,20 @@ describe('Database Utils', () => {
         expect(result).toEqual(mockTestimonial)
       })
     })
+
+    describe('archiveTestimonial', () => {
+      it('should archive and unapprove the testimonial', async () => {
+        mockPrismaClient.testimonial.findUnique.mockResolvedValue({ id: 'testimonial-123' })
+        mockPrismaClient.testimonial.update.mockResolvedValue(createMockTestimonial())
+
+        await testimonialUtils.archiveTestimonial('testimonial-123')
+
+        expect(mockPrismaClient.testimonial.update).toHaveBeenCalledWith({
+          where: { id: 'testimonial-123' },
+          data: { status: 'ARCHIVED', approved: false },
+        })
+      })
+    })
   })
 
   describe('projectUtils', () => {
@@ -553,85 +733,26 @@ describe('Database Utils', () => {
         expect(result).toEqual(mockTeamMembers)
       })
     })
-  })
-
-  describe('settingsUtils', () => {
-    describe('getSetting', () => {
-      it('should get setting value by key', async () => {
-        const mockSetting = createMockSetting({ key: 'site_title', value: 'Aurora HVAC' })
-        mockPrismaClient.setting.findUnique.mockResolvedValue(mockSetting)
-
-        const result = await settingsUtils.getSetting('site_title')
-
-        expect(mockPrismaClient.setting.findUnique).toHaveBeenCalledWith({
-          where: { key: 'site_title' },
-        })
-        expect(result).toBe('Aurora HVAC')
-      })
-
-      it('should return undefined for non-existent setting', async () => {
-        mockPrismaClient.setting.findUnique.mockResolvedValue(null)
-
-        const result = await settingsUtils.getSetting('non_existent')
-
-        expect(result).toBeUndefined()
-      })
-    })
-
-    describe('setSetting', () => {
-      it('should upsert setting with default values', async () => {
-        const mockSetting = createMockSetting()
-        mockPrismaClient.setting.upsert.mockResolvedValue(mockSetting)
-
-        const result = await settingsUtils.setSetting('test_key', 'test_value')
 
-        expect(mockPrismaClient.setting.upsert).toHaveBeenCalledWith({
-          where: { key: 'test_key' },
-          update: { value: 'test_value', type: 'string', category: 'general' },
-          create: { key: 'test_key', value: 'test_value', type: 'string', category: 'general' },
-        })
-        expect(result).toEqual(mockSetting)
-      })
+    describe('listTeamMembers', () => {
+      it('should list team members in display order', async () => {
+        mockPrismaClient.teamMember.findMany.mockResolvedValue([])
 
-      it('should upsert setting with custom type and category', async () => {
-        const mockSetting = createMockSetting()
-        mockPrismaClient.setting.upsert.mockResolvedValue(mockSetting)
+        await teamUtils.listTeamMembers({ filter: { active: true } })
 
-        await settingsUtils.setSetting('test_key', 'test_value', 'number', 'config')
-
-        expect(mockPrismaClient.setting.upsert).toHaveBeenCalledWith({
-          where: { key: 'test_key' },
-          update: { value: 'test_value', type: 'number', category: 'config' },
-          create: { key: 'test_key', value: 'test_value', type: 'number', category: 'config' },
+        expect(mockPrismaClient.teamMember.findMany).toHaveBeenCalledWith({
+          where: { status: { not: 'ARCHIVED' }, active: true },
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+          take: 21,
         })
       })
     })
 
-    describe('getSettingsByCategory', () => {
-      it('should get settings by category as key-value object', async () => {
-        const mockSettings = [
-          createMockSetting({ key: 'setting1', value: 'value1', category: 'general' }),
-          createMockSetting({ key: 'setting2', value: 'value2', category: 'general' }),
-        ]
-        mockPrismaClient.setting.findMany.mockResolvedValue(mockSettings)
-
-        const result = await settingsUtils.getSettingsByCategory('general')
-
-        expect(mockPrismaClient.setting.findMany).toHaveBeenCalledWith({
-          where: { category: 'general' },
-        })
-        expect(result).toEqual({
-          setting1: 'value1',
-          setting2: 'value2',
-        })
-      })
-
-      it('should return empty object for category with no settings', async () => {
-        mockPrismaClient.setting.findMany.mockResolvedValue([])
-
-        const result = await settingsUtils.getSettingsByCategory('empty')
+    describe('archiveTeamMember', () => {
+      it('should return null for a missing team member', async () => {
+        mockPrismaClient.teamMember.findUnique.mockResolvedValue(null)
 
-        expect(result).toEqual({})
+        await expect(teamUtils.archiveTeamMember('missing')).resolves.toBeNull()
       })
     })
   })
@@ -1,5 +1,123 @@
+import { API_CONFIG, isLeadTransitionAllowed } from '@workspace/config'
 import { db } from './client'
-import type { LeadStatus, Priority, ContentStatus, UserRole } from './generated'
+import { Prisma, type LeadStatus, type Priority, type ContentStatus, type UserRole } from './generated'
+
+// Content list options shared by the CRUD helpers below
+export type SortDirection = 'asc' | 'desc'
+
+export interface ListOptions<TFilter, TSortField extends string> {
+  filter?: TFilter
+  sort?: { field: TSortField; direction?: SortDirection }
+  cursor?: string
+  take?: number
+}
+
+export interface ListPage<T> {
+  items: T[]
+  nextCursor: string | null
+}
+
+interface PageQuery {
+  orderBy: Record<string, SortDirection>[]
+  take: number
+  cursor?: { id: string }
+  skip?: number
+}
+
+export interface ContentFilter {
+  status?: ContentStatus
+  search?: string
+}
+
+export interface ServiceFilter extends ContentFilter {
+  category?: string
+  published?: boolean
+}
+
+export interface PostFilter extends ContentFilter {
+  category?: string
+  tag?: string
+  authorId?: string
+  published?: boolean
+}
+
+export interface PageFilter extends ContentFilter {
+  published?: boolean
+}
+
+export interface ProjectFilter extends ContentFilter {
+  serviceId?: string
+  featured?: boolean
+  published?: boolean
+}
+
+export interface TestimonialFilter extends ContentFilter {
+  serviceId?: string
+  featured?: boolean
+  approved?: boolean
+}
+
+export interface TeamMemberFilter extends ContentFilter {
+  featured?: boolean
+  active?: boolean
+}
+
+// Service areas have no publishing workflow; inactive ones are kept
+export interface ServiceAreaFilter {
+  active?: boolean
+  search?: string
+}
+
+type SortFields = typeof API_CONFIG.SORT_FIELDS
+
+export type ContentSortField = SortFields['services' | 'posts' | 'pages'][number]
+export type ProjectSortField = SortFields['projects'][number]
+export type TestimonialSortField = SortFields['testimonials'][number]
+export type TeamMemberSortField = SortFields['team'][number]
+export type ServiceAreaSortField = SortFields['serviceAreas'][number]
+
+// Fetches one row past the page to know whether there is a next cursor.
+// Rows are tie-broken by id so cursors stay stable on equal sort values.
+async function listPage<T extends { id: string }, TSortField extends string>(
+  options: ListOptions<unknown, TSortField>,
+  defaultSort: { field: TSortField; direction: SortDirection },
+  query: (page: PageQuery) => Promise<T[]>
+): Promise<ListPage<T>> {
+  const { defaultTake, maxTake } = API_CONFIG.PAGINATION
+  const take = Math.min(Math.max(1, options.take ?? defaultTake), maxTake)
+  const { field, direction = 'asc' } = options.sort ?? defaultSort
+
+  const rows = await query({
+    orderBy: [{ [field]: direction }, { id: 'asc' }],
+    take: take + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  })
+
+  const items = rows.slice(0, take)
+  return {
+    items,
+    nextCursor: rows.length > take ? items[items.length - 1].id : null,
+  }
+}
+
+// Archived rows are kept; lists only return them when asked for by status
+function statusWhere(status?: ContentStatus) {
+  return status ? { status } : { status: { not: 'ARCHIVED' as const } }
+}
+
+function containsText(search?: string) {
+  return search ? { contains: search, mode: 'insensitive' as const } : undefined
+}
+
+// Keeps the published flag in step with status and stamps the first publish
+function publishState(status?: ContentStatus, publishedAt?: Date | string | null) {
+  if (!status) return {}
+
+  return {
+    published: status === 'PUBLISHED',
+    ...(status === 'PUBLISHED' && !publishedAt && { publishedAt: new Date() }),
+  }
+}
 
 // Lead Management Utilities
 export const leadUtils = {
@@ -26,8 +144,31 @@ export const leadUtils = {
     })
   },
 
-  // Update lead status
+  /**
+   * Update lead status, following the transitions in LEAD_CONFIG.STATUSES.
+   * A lead needs an estimated value before it can be won.
+   *
+   * @deprecated Use LeadManager.updateLeadStatus from @workspace/core. It
+   * runs every workflow guard and reports failures as BusinessErrors.
+   */
   async updateLeadStatus(leadId: string, status: LeadStatus, notes?: string) {
+    const current = await db.lead.findUnique({
+      where: { id: leadId },
+      select: { status: true, estimatedValue: true },
+    })
+
+    if (!current) {
+      throw new Error(`Lead ${leadId} not found`)
+    }
+
+    if (!isLeadTransitionAllowed(current.status, status)) {
+      throw new Error(`Cannot move lead from ${current.status} to ${status}`)
+    }
+
+    if (status === 'WON' && current.estimatedValue === null) {
+      throw new Error('An estimated value is required before a lead can be marked as won')
+    }
+
     const lead = await db.lead.update({
       where: { id: leadId },
       data: { status, updatedAt: new Date() },
@@ -38,8 +179,9 @@ export const leadUtils = {
       data: {
         leadId,
         type: 'STATUS_CHANGE',
-        title: `Status changed to ${status}`,
+        title: `Status changed from ${current.status} to ${status}`,
         description: notes,
+        metadata: { from: current.status, to: status },
       },
     })
 
@@ -124,6 +266,51 @@ export const serviceUtils = {
       orderBy: { createdAt: 'desc' },
     })
   },
+
+  // List services for the CMS, newest first
+  async listServices(options: ListOptions<ServiceFilter, ContentSortField> = {}) {
+    const { category, published, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'createdAt', direction: 'desc' }, (page) =>
+      db.service.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(category && { category }),
+          ...(published !== undefined && { published }),
+          ...(search && { title: containsText(search) }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get service by id
+  async getServiceById(id: string) {
+    return db.service.findUnique({ where: { id } })
+  },
+
+  // Create service
+  async createService(data: Prisma.ServiceCreateInput) {
+    return db.service.create({
+      data: { ...data, ...publishState(data.status, data.publishedAt) },
+    })
+  },
+
+  // Update service, returns null when it does not exist
+  async updateService(id: string, data: Prisma.ServiceUpdateInput & { status?: ContentStatus }) {
+    const current = await db.service.findUnique({ where: { id }, select: { publishedAt: true } })
+    if (!current) return null
+
+    return db.service.update({
+      where: { id },
+      data: { ...data, ...publishState(data.status, current.publishedAt) },
+    })
+  },
+
+  // Soft-archive service, returns null when it does not exist
+  async archiveService(id: string) {
+    return serviceUtils.updateService(id, { status: 'ARCHIVED' })
+  },
 }
 
 // Content Management Utilities
@@ -174,6 +361,97 @@ export const contentUtils = {
       },
     })
   },
+
+  // List posts for the CMS, newest first
+  async listPosts(options: ListOptions<PostFilter, ContentSortField> = {}) {
+    const { category, tag, authorId, published, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'createdAt', direction: 'desc' }, (page) =>
+      db.post.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(category && { category }),
+          ...(tag && { tags: { has: tag } }),
+          ...(authorId && { authorId }),
+          ...(published !== undefined && { published }),
+          ...(search && { title: containsText(search) }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get post by id
+  async getPostById(id: string) {
+    return db.post.findUnique({ where: { id } })
+  },
+
+  // Create post
+  async createPost(data: Prisma.PostUncheckedCreateInput) {
+    return db.post.create({
+      data: { ...data, ...publishState(data.status, data.publishedAt) },
+    })
+  },
+
+  // Update post, returns null when it does not exist
+  async updatePost(id: string, data: Prisma.PostUncheckedUpdateInput & { status?: ContentStatus }) {
+    const current = await db.post.findUnique({ where: { id }, select: { publishedAt: true } })
+    if (!current) return null
+
+    return db.post.update({
+      where: { id },
+      data: { ...data, ...publishState(data.status, current.publishedAt) },
+    })
+  },
+
+  // Soft-archive post, returns null when it does not exist
+  async archivePost(id: string) {
+    return contentUtils.updatePost(id, { status: 'ARCHIVED' })
+  },
+
+  // List pages for the CMS, newest first
+  async listPages(options: ListOptions<PageFilter, ContentSortField> = {}) {
+    const { published, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'createdAt', direction: 'desc' }, (page) =>
+      db.page.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(published !== undefined && { published }),
+          ...(search && { title: containsText(search) }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get page by id
+  async getPageById(id: string) {
+    return db.page.findUnique({ where: { id } })
+  },
+
+  // Create page
+  async createPage(data: Prisma.PageCreateInput) {
+    return db.page.create({
+      data: { ...data, ...publishState(data.status, data.publishedAt) },
+    })
+  },
+
+  // Update page, returns null when it does not exist
+  async updatePage(id: string, data: Prisma.PageUpdateInput & { status?: ContentStatus }) {
+    const current = await db.page.findUnique({ where: { id }, select: { publishedAt: true } })
+    if (!current) return null
+
+    return db.page.update({
+      where: { id },
+      data: { ...data, ...publishState(data.status, current.publishedAt) },
+    })
+  },
+
+  // Soft-archive page, returns null when it does not exist
+  async archivePage(id: string) {
+    return contentUtils.updatePage(id, { status: 'ARCHIVED' })
+  },
 }
 
 // Testimonial Utilities
@@ -199,15 +477,54 @@ export const testimonialUtils = {
     position?: string
     content: string
     rating: number
+    image?: string
+    featured?: boolean
+    approved?: boolean
     serviceId?: string
   }) {
     return db.testimonial.create({
       data: {
         ...data,
-        approved: false, // Requires manual approval
+        approved: data.approved ?? false, // Requires manual approval
       },
     })
   },
+
+  // List testimonials for the CMS, newest first
+  async listTestimonials(options: ListOptions<TestimonialFilter, TestimonialSortField> = {}) {
+    const { serviceId, featured, approved, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'createdAt', direction: 'desc' }, (page) =>
+      db.testimonial.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(serviceId && { serviceId }),
+          ...(featured !== undefined && { featured }),
+          ...(approved !== undefined && { approved }),
+          ...(search && { OR: [{ name: containsText(search) }, { company: containsText(search) }] }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get testimonial by id
+  async getTestimonialById(id: string) {
+    return db.testimonial.findUnique({ where: { id } })
+  },
+
+  // Update testimonial, returns null when it does not exist
+  async updateTestimonial(id: string, data: Prisma.TestimonialUncheckedUpdateInput) {
+    const current = await db.testimonial.findUnique({ where: { id }, select: { id: true } })
+    if (!current) return null
+
+    return db.testimonial.update({ where: { id }, data })
+  },
+
+  // Soft-archive testimonial; it is also unapproved so public pages drop it
+  async archiveTestimonial(id: string) {
+    return testimonialUtils.updateTestimonial(id, { status: 'ARCHIVED', approved: false })
+  },
 }
 
 // Project Portfolio Utilities
@@ -245,6 +562,52 @@ export const projectUtils = {
       },
     })
   },
+
+  // List projects for the CMS, newest first
+  async listProjects(options: ListOptions<ProjectFilter, ProjectSortField> = {}) {
+    const { serviceId, featured, published, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'createdAt', direction: 'desc' }, (page) =>
+      db.project.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(serviceId && { serviceId }),
+          ...(featured !== undefined && { featured }),
+          ...(published !== undefined && { published }),
+          ...(search && { title: containsText(search) }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get project by id
+  async getProjectById(id: string) {
+    return db.project.findUnique({ where: { id } })
+  },
+
+  // Create project
+  async createProject(data: Prisma.ProjectUncheckedCreateInput) {
+    return db.project.create({
+      data: { ...data, ...publishState(data.status, data.publishedAt) },
+    })
+  },
+
+  // Update project, returns null when it does not exist
+  async updateProject(id: string, data: Prisma.ProjectUncheckedUpdateInput & { status?: ContentStatus }) {
+    const current = await db.project.findUnique({ where: { id }, select: { publishedAt: true } })
+    if (!current) return null
+
+    return db.project.update({
+      where: { id },
+      data: { ...data, ...publishState(data.status, current.publishedAt) },
+    })
+  },
+
+  // Soft-archive project, returns null when it does not exist
+  async archiveProject(id: string) {
+    return projectUtils.updateProject(id, { status: 'ARCHIVED' })
+  },
 }
 
 // Team Management Utilities
@@ -260,36 +623,100 @@ export const teamUtils = {
       ],
     })
   },
+
+  // List team members for the CMS in display order
+  async listTeamMembers(options: ListOptions<TeamMemberFilter, TeamMemberSortField> = {}) {
+    const { featured, active, search, status } = options.filter ?? {}
+
+    return listPage(options, { field: 'order', direction: 'asc' }, (page) =>
+      db.teamMember.findMany({
+        where: {
+          ...statusWhere(status),
+          ...(featured !== undefined && { featured }),
+          ...(active !== undefined && { active }),
+          ...(search && { OR: [{ name: containsText(search) }, { position: containsText(search) }] }),
+        },
+        ...page,
+      })
+    )
+  },
+
+  // Get team member by id
+  async getTeamMemberById(id: string) {
+    return db.teamMember.findUnique({ where: { id } })
+  },
+
+  // Create team member
+  async createTeamMember(data: Prisma.TeamMemberUncheckedCreateInput) {
+    return db.teamMember.create({ data })
+  },
+
+  // Update team member, returns null when it does not exist
+  async updateTeamMember(id: string, data: Prisma.TeamMemberUncheckedUpdateInput) {
+    const current = await db.teamMember.findUnique({ where: { id }, select: { id: true } })
+    if (!current) return null
+
+    return db.teamMember.update({ where: { id }, data })
+  },
+
+  // Soft-archive team member; it is also deactivated so public pages drop it
+  async archiveTeamMember(id: string) {
+    return teamUtils.updateTeamMember(id, { status: 'ARCHIVED', active: false })
+  },
 }
 
-// Settings Utilities
-export const settingsUtils = {
-  // Get setting by key
-  async getSetting(key: string) {
-    const setting = await db.setting.findUnique({
-      where: { key },
+// Write data for service areas; a null polygon clears the shape
+type ServiceAreaData<T> = Omit<T, 'polygon'> & { polygon?: Prisma.InputJsonValue | null }
+
+function withPolygon<T>({ polygon, ...data }: ServiceAreaData<T>) {
+  return { ...data, ...(polygon !== undefined && { polygon: polygon ?? Prisma.DbNull }) }
+}
+
+// Service Area Utilities
+export const serviceAreaUtils = {
+  // Active areas in lookup order
+  async getActiveServiceAreas() {
+    return db.serviceArea.findMany({
+      where: { active: true },
+      orderBy: [{ order: 'asc' }, { name: 'asc' }],
     })
-    return setting?.value
   },
 
-  // Set setting
-  async setSetting(key: string, value: string, type = 'string', category = 'general') {
-    return db.setting.upsert({
-      where: { key },
-      update: { value, type, category },
-      create: { key, value, type, category },
-    })
+  // List service areas for the CMS
+  async listServiceAreas(options: ListOptions<ServiceAreaFilter, ServiceAreaSortField> = {}) {
+    const { active, search } = options.filter ?? {}
+
+    return listPage(options, { field: 'order', direction: 'asc' }, (page) =>
+      db.serviceArea.findMany({
+        where: {
+          ...(active !== undefined && { active }),
+          ...(search && { name: containsText(search) }),
+        },
+        ...page,
+      })
+    )
   },
 
-  // Get settings by category
-  async getSettingsByCategory(category: string) {
-    const settings = await db.setting.findMany({
-      where: { category },
-    })
-    
-    return settings.reduce((acc: Record<string, string>, setting: any) => {
-      acc[setting.key] = setting.value
-      return acc
-    }, {} as Record<string, string>)
+  // Get service area by id
+  async getServiceAreaById(id: string) {
+    return db.serviceArea.findUnique({ where: { id } })
   },
-}
\ No newline at end of file
+
+  // Create service area
+  async createServiceArea(data: ServiceAreaData<Prisma.ServiceAreaCreateInput>) {
+    return db.serviceArea.create({ data: withPolygon(data) })
+  },
+
+  // Update service area, returns null when it does not exist
+  async updateServiceArea(id: string, data: ServiceAreaData<Prisma.ServiceAreaUpdateInput>) {
+    const current = await db.serviceArea.findUnique({ where: { id }, select: { id: true } })
+    if (!current) return null
+
+    return db.serviceArea.update({ where: { id }, data: withPolygon(data) })
+  },
+
+  // Deactivate service area; leads keep the area they were tagged with
+  async archiveServiceArea(id: string) {
+    return serviceAreaUtils.updateServiceArea(id, { active: false })
+  },
+}
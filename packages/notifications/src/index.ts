@@ -0,0 +1,39 @@
+// Outbox
+export { NotificationOutbox, getRetryDelay, sendEmail, sendTemplate } from './outbox'
+
+export type {
+  OutboxRecord,
+  NotificationDatabaseClient,
+  QueueOptions,
+  TemplateQueueOptions,
+  OutboxRunResult,
+} from './outbox'
+
+// Templates
+export { renderEmail, renderTemplate, resolveLocale, isNotificationLocale } from './templates'
+
+export type {
+  NotificationLocale,
+  NotificationTemplate,
+  TemplateData,
+  EmailContent,
+  RenderedEmail,
+} from './templates'
+
+// Transports
+export {
+  createSmtpTransport,
+  createFileTransport,
+  createConsoleTransport,
+  createMemoryTransport,
+  getDefaultTransport,
+} from './transports'
+
+export type {
+  EmailAttachment,
+  EmailMessage,
+  DeliveryReceipt,
+  EmailTransport,
+  MemoryTransport,
+  SmtpConfig,
+} from './transports'
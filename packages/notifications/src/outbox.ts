@@ -0,0 +1,200 @@
+import { NOTIFICATION_CONFIG, type NotificationStatus } from '@workspace/config'
+import type { Prisma } from '@workspace/database'
+import {
+  renderTemplate,
+  type NotificationLocale,
+  type NotificationTemplate,
+  type TemplateData,
+} from './templates'
+import { getDefaultTransport, type EmailAttachment, type EmailMessage, type EmailTransport } from './transports'
+
+// Emails are saved to the outbox before anything is sent. A failed send
+// stays queued and is retried with exponential backoff, and every attempt
+// is written to the delivery log.
+
+export interface OutboxRecord {
+  id: string
+  template: string | null
+  locale: string
+  to: string
+  subject: string
+  html: string | null
+  text: string | null
+  attachments: unknown
+  status: NotificationStatus
+  attempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  sentAt: Date | null
+  createdAt: Date
+}
+
+// The outbox's slice of the Prisma client; transaction clients satisfy it too
+export interface NotificationDatabaseClient {
+  notificationOutbox: Pick<
+    Prisma.TransactionClient['notificationOutbox'],
+    'create' | 'findUnique' | 'findMany' | 'update' | 'updateMany'
+  >
+  notificationDelivery: Pick<Prisma.TransactionClient['notificationDelivery'], 'create'>
+}
+
+export interface QueueOptions {
+  template?: NotificationTemplate
+  locale?: NotificationLocale
+  // Held back until then; defaults to now
+  sendAfter?: Date
+}
+
+export interface TemplateQueueOptions extends Omit<QueueOptions, 'template'> {
+  to: string
+  attachments?: EmailAttachment[]
+}
+
+export interface OutboxRunResult {
+  sent: number
+  retrying: number
+  failed: number
+}
+
+// Wait before the attempt after `attempt` failed ones
+export function getRetryDelay(attempt: number): number {
+  return Math.min(NOTIFICATION_CONFIG.RETRY_BASE_MS * 2 ** (attempt - 1), NOTIFICATION_CONFIG.RETRY_MAX_MS)
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+function toMessage(email: OutboxRecord): EmailMessage {
+  return {
+    to: email.to,
+    subject: email.subject,
+    html: email.html ?? undefined,
+    text: email.text ?? undefined,
+    attachments: Array.isArray(email.attachments) ? (email.attachments as EmailAttachment[]) : undefined,
+  }
+}
+
+export class NotificationOutbox {
+  constructor(
+    private readonly db: NotificationDatabaseClient,
+    private readonly transport: EmailTransport = getDefaultTransport(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  async enqueue(message: EmailMessage, options: QueueOptions = {}): Promise<OutboxRecord> {
+    return this.db.notificationOutbox.create({
+      data: {
+        to: message.to,
+        subject: message.subject,
+        html: message.html ?? null,
+        text: message.text ?? null,
+        ...(message.attachments?.length && { attachments: message.attachments }),
+        template: options.template ?? null,
+        locale: options.locale ?? NOTIFICATION_CONFIG.DEFAULT_LOCALE,
+        nextAttemptAt: options.sendAfter ?? this.now(),
+      },
+    })
+  }
+
+  // Rendered now, so retries send exactly what was queued
+  async enqueueTemplate<K extends NotificationTemplate>(
+    template: K,
+    data: TemplateData<K>,
+    { to, attachments, locale = NOTIFICATION_CONFIG.DEFAULT_LOCALE, sendAfter }: TemplateQueueOptions
+  ): Promise<OutboxRecord> {
+    const { subject, html, text } = renderTemplate(template, data, locale)
+    return this.enqueue({ to, subject, html, text, attachments }, { template, locale, sendAfter })
+  }
+
+  /**
+   * Sends one queued email if it is due and no other worker holds it.
+   * Returns its new status, or null when it was skipped.
+   */
+  async deliver(id: string): Promise<NotificationStatus | null> {
+    const email = await this.claim(id)
+    return email ? this.attempt(email) : null
+  }
+
+  // Sends due emails, oldest first. Overlapping runs skip each other's emails.
+  async processDue(limit: number = NOTIFICATION_CONFIG.BATCH_SIZE): Promise<OutboxRunResult> {
+    const due = await this.db.notificationOutbox.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: this.now() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    })
+
+    const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 }
+    for (const { id } of due) {
+      const status = await this.deliver(id)
+      if (status === 'SENT') result.sent++
+      else if (status === 'PENDING') result.retrying++
+      else if (status === 'FAILED') result.failed++
+    }
+    return result
+  }
+
+  // Pushes the next attempt past the claim window, so a worker that dies
+  // mid-send only delays the email
+  private async claim(id: string): Promise<OutboxRecord | null> {
+    const now = this.now()
+    const { count } = await this.db.notificationOutbox.updateMany({
+      where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + NOTIFICATION_CONFIG.CLAIM_MS) },
+    })
+    return count ? this.db.notificationOutbox.findUnique({ where: { id } }) : null
+  }
+
+  private async attempt(email: OutboxRecord): Promise<NotificationStatus> {
+    const attempt = email.attempts + 1
+    const log = { outboxId: email.id, attempt, transport: this.transport.name }
+
+    try {
+      const { messageId } = await this.transport.send(toMessage(email))
+      await this.db.notificationDelivery.create({ data: { ...log, success: true, messageId: messageId ?? null } })
+      await this.db.notificationOutbox.update({
+        where: { id: email.id },
+        data: { status: 'SENT', attempts: attempt, sentAt: this.now(), lastError: null },
+      })
+      return 'SENT'
+    } catch (error) {
+      const status: NotificationStatus = attempt >= NOTIFICATION_CONFIG.MAX_ATTEMPTS ? 'FAILED' : 'PENDING'
+      await this.db.notificationDelivery.create({ data: { ...log, success: false, error: errorMessage(error) } })
+      await this.db.notificationOutbox.update({
+        where: { id: email.id },
+        data: {
+          status,
+          attempts: attempt,
+          lastError: errorMessage(error),
+          ...(status === 'PENDING' && { nextAttemptAt: new Date(this.now().getTime() + getRetryDelay(attempt)) }),
+        },
+      })
+      return status
+    }
+  }
+}
+
+/**
+ * Queues an email and tries it straight away. If that attempt fails the
+ * email stays queued for the outbox job, so callers never lose a message
+ * to a brief SMTP outage and never see the error.
+ */
+export async function sendEmail(
+  db: NotificationDatabaseClient,
+  message: EmailMessage,
+  options?: QueueOptions
+): Promise<NotificationStatus | null> {
+  const outbox = new NotificationOutbox(db)
+  const email = await outbox.enqueue(message, options)
+  return outbox.deliver(email.id)
+}
+
+export async function sendTemplate<K extends NotificationTemplate>(
+  db: NotificationDatabaseClient,
+  template: K,
+  data: TemplateData<K>,
+  options: TemplateQueueOptions
+): Promise<NotificationStatus | null> {
+  const outbox = new NotificationOutbox(db)
+  const email = await outbox.enqueueTemplate(template, data, options)
+  return outbox.deliver(email.id)
+}
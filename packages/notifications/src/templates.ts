@@ -0,0 +1,252 @@
+import { BUSINESS_INFO, NOTIFICATION_CONFIG } from '@workspace/config'
+
+// Email templates in English and Arabic. A template only says what the
+// email contains; renderEmail lays it out as HTML and plain text, right to
+// left for Arabic.
+
+export type NotificationLocale = (typeof NOTIFICATION_CONFIG.LOCALES)[number]
+
+// What a template says; the layout decides how it looks
+export interface EmailContent {
+  subject: string
+  heading: string
+  paragraphs: string[]
+  // Label and value pairs, e.g. a lead's contact details
+  details?: [label: string, value: string][]
+  action?: { label: string; url: string }
+  // Small print under the action, e.g. when a link expires
+  note?: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+interface TemplateDataMap {
+  'verify-email': { url: string; name?: string | null }
+  'password-reset': { url: string }
+  'new-lead': {
+    name: string
+    email: string
+    phone?: string | null
+    serviceType?: string | null
+    serviceArea?: string | null
+    message?: string | null
+    // Display labels, e.g. "Website Form" and "High"
+    source: string
+    priority: string
+    url: string
+  }
+  'appointment-confirmation': {
+    name: string
+    startsAt: Date
+    // Zone the visit time is shown in
+    timeZone: string
+    location: string
+    technician?: string | null
+  }
+}
+
+export type NotificationTemplate = keyof TemplateDataMap
+
+export type TemplateData<K extends NotificationTemplate> = TemplateDataMap[K]
+
+type Template<T> = Record<NotificationLocale, (data: T) => EmailContent>
+
+export function isNotificationLocale(value: unknown): value is NotificationLocale {
+  return (NOTIFICATION_CONFIG.LOCALES as readonly unknown[]).includes(value)
+}
+
+// Unknown or missing locales fall back to English
+export function resolveLocale(value: unknown): NotificationLocale {
+  return isNotificationLocale(value) ? value : NOTIFICATION_CONFIG.DEFAULT_LOCALE
+}
+
+// Drops detail rows without a value
+const present = (rows: [string, string | null | undefined][]) =>
+  rows.filter((row): row is [string, string] => Boolean(row[1]))
+
+const formatVisitTime = (locale: NotificationLocale, startsAt: Date, timeZone: string) =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeStyle: 'short', timeZone }).format(startsAt)
+
+const TEMPLATES: { [K in NotificationTemplate]: Template<TemplateDataMap[K]> } = {
+  'verify-email': {
+    en: ({ url, name }) => ({
+      subject: 'Verify your email address',
+      heading: 'Verify your email address',
+      paragraphs: [
+        name ? `Hi ${name},` : 'Hi,',
+        `Thanks for signing up with ${BUSINESS_INFO.name}. Confirm your email address to finish setting up your account.`,
+      ],
+      action: { label: 'Verify email', url },
+      note: 'This link expires in 24 hours.',
+    }),
+    ar: ({ url, name }) => ({
+      subject: 'تأكيد بريدك الإلكتروني',
+      heading: 'تأكيد بريدك الإلكتروني',
+      paragraphs: [
+        name ? `مرحباً ${name}،` : 'مرحباً،',
+        `شكراً لتسجيلك لدى ${BUSINESS_INFO.name}. يرجى تأكيد بريدك الإلكتروني لإكمال إعداد حسابك.`,
+      ],
+      action: { label: 'تأكيد البريد الإلكتروني', url },
+      note: 'تنتهي صلاحية هذا الرابط خلال 24 ساعة.',
+    }),
+  },
+  'password-reset': {
+    en: ({ url }) => ({
+      subject: 'Reset your password',
+      heading: 'Reset your password',
+      paragraphs: ['We received a request to reset the password for your account.'],
+      action: { label: 'Reset password', url },
+      note: "This link expires in 1 hour. If you didn't ask to reset your password, you can ignore this email.",
+    }),
+    ar: ({ url }) => ({
+      subject: 'إعادة تعيين كلمة المرور',
+      heading: 'إعادة تعيين كلمة المرور',
+      paragraphs: ['تلقينا طلباً لإعادة تعيين كلمة المرور لحسابك.'],
+      action: { label: 'إعادة تعيين كلمة المرور', url },
+      note: 'تنتهي صلاحية هذا الرابط خلال ساعة واحدة. إذا لم تطلب إعادة التعيين، يمكنك تجاهل هذه الرسالة.',
+    }),
+  },
+  'new-lead': {
+    en: (lead) => ({
+      subject: `New lead: ${lead.name}${lead.serviceType ? ` (${lead.serviceType})` : ''}`,
+      heading: `New lead from ${lead.name}`,
+      paragraphs: [lead.message || 'No message was left.'],
+      details: present([
+        ['Email', lead.email],
+        ['Phone', lead.phone],
+        ['Service', lead.serviceType],
+        ['Service area', lead.serviceArea],
+        ['Priority', lead.priority],
+        ['Source', lead.source],
+      ]),
+      action: { label: 'Open lead', url: lead.url },
+    }),
+    ar: (lead) => ({
+      subject: `عميل محتمل جديد: ${lead.name}${lead.serviceType ? ` (${lead.serviceType})` : ''}`,
+      heading: `عميل محتمل جديد: ${lead.name}`,
+      paragraphs: [lead.message || 'لم يترك رسالة.'],
+      details: present([
+        ['البريد الإلكتروني', lead.email],
+        ['الهاتف', lead.phone],
+        ['الخدمة', lead.serviceType],
+        ['منطقة الخدمة', lead.serviceArea],
+        ['الأولوية', lead.priority],
+        ['المصدر', lead.source],
+      ]),
+      action: { label: 'فتح العميل', url: lead.url },
+    }),
+  },
+  'appointment-confirmation': {
+    en: ({ name, startsAt, timeZone, location, technician }) => {
+      const when = formatVisitTime('en', startsAt, timeZone)
+      return {
+        subject: `Your ${BUSINESS_INFO.name} appointment on ${when}`,
+        heading: 'Your appointment is booked',
+        paragraphs: [
+          `Hi ${name},`,
+          technician ? `${technician} will visit you on ${when}.` : `We will visit you on ${when}.`,
+          `To reschedule or cancel, call us at ${BUSINESS_INFO.phone}.`,
+        ],
+        details: present([
+          ['When', when],
+          ['Address', location],
+          ['Technician', technician],
+        ]),
+        note: 'The attached calendar file adds the visit to your calendar.',
+      }
+    },
+    ar: ({ name, startsAt, timeZone, location, technician }) => {
+      const when = formatVisitTime('ar', startsAt, timeZone)
+      return {
+        subject: `موعدك مع ${BUSINESS_INFO.name} في ${when}`,
+        heading: 'تم حجز موعدك',
+        paragraphs: [
+          `مرحباً ${name}،`,
+          technician ? `سيزورك ${technician} في ${when}.` : `سنزورك في ${when}.`,
+          `لإعادة الجدولة أو الإلغاء، اتصل بنا على ${BUSINESS_INFO.phone}.`,
+        ],
+        details: present([
+          ['الموعد', when],
+          ['العنوان', location],
+          ['الفني', technician],
+        ]),
+        note: 'يضيف ملف التقويم المرفق الزيارة إلى تقويمك.',
+      }
+    },
+  },
+}
+
+const LAYOUT_MESSAGES: Record<NotificationLocale, { linkFallback: string }> = {
+  en: { linkFallback: "If the button doesn't work, paste this link into your browser:" },
+  ar: { linkFallback: 'إذا لم يعمل الزر، انسخ هذا الرابط والصقه في متصفحك:' },
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!)
+
+const paragraph = (value: string, style = '') =>
+  `<p style="margin:0 0 16px;${style}">${escapeHtml(value).replace(/\n/g, '<br>')}</p>`
+
+export function renderEmail(content: EmailContent, locale: NotificationLocale): RenderedEmail {
+  const dir = locale === 'ar' ? 'rtl' : 'ltr'
+  const align = dir === 'rtl' ? 'right' : 'left'
+  const { subject, heading, paragraphs, details = [], action, note } = content
+  const footer = `${BUSINESS_INFO.name} · ${BUSINESS_INFO.phone}`
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}" dir="${dir}">`,
+    `<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f4f4f5;">',
+    `<div dir="${dir}" style="max-width:600px;margin:0 auto;padding:24px;background:#ffffff;border-radius:8px;font-family:Arial,Tahoma,sans-serif;font-size:15px;line-height:1.5;color:#18181b;text-align:${align};">`,
+    `<h2 style="margin:0 0 16px;font-size:20px;">${escapeHtml(heading)}</h2>`,
+    ...paragraphs.map((text) => paragraph(text)),
+    details.length
+      ? `<table role="presentation" style="margin:0 0 16px;border-collapse:collapse;">${details
+          .map(
+            ([label, value]) =>
+              `<tr><td style="padding:4px 0;padding-${dir === 'rtl' ? 'left' : 'right'}:16px;color:#71717a;vertical-align:top;">${escapeHtml(label)}</td><td style="padding:4px 0;">${escapeHtml(value)}</td></tr>`
+          )
+          .join('')}</table>`
+      : '',
+    action
+      ? [
+          `<a href="${escapeHtml(action.url)}" style="display:inline-block;margin:8px 0 16px;padding:12px 24px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(action.label)}</a>`,
+          paragraph(LAYOUT_MESSAGES[locale].linkFallback, 'font-size:13px;color:#71717a;'),
+          paragraph(action.url, 'font-size:13px;color:#71717a;word-break:break-all;'),
+        ].join('')
+      : '',
+    note ? paragraph(note, 'font-size:13px;color:#71717a;') : '',
+    `<p style="margin:24px 0 0;padding-top:16px;border-top:1px solid #e4e4e7;font-size:13px;color:#71717a;">${escapeHtml(footer)}</p>`,
+    '</div>',
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  const text = [
+    heading,
+    '',
+    ...paragraphs.flatMap((value) => [value, '']),
+    ...(details.length ? [...details.map(([label, value]) => `${label}: ${value}`), ''] : []),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(note ? [note, ''] : []),
+    footer,
+  ].join('\n')
+
+  return { subject, html, text }
+}
+
+export function renderTemplate<K extends NotificationTemplate>(
+  template: K,
+  data: TemplateData<K>,
+  locale: NotificationLocale = NOTIFICATION_CONFIG.DEFAULT_LOCALE
+): RenderedEmail {
+  const content = (TEMPLATES[template] as Template<TemplateData<K>>)[locale](data)
+  return renderEmail(content, locale)
+}
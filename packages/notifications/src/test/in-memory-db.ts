@@ -0,0 +1,83 @@
+// In-memory stand-in for the outbox and delivery log Prisma delegates.
+// Supports equality and lte filters, select, orderBy on nextAttemptAt and take.
+
+import type { NotificationDatabaseClient } from '../outbox'
+
+type Row = Record<string, any>
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, condition]) =>
+    condition !== null && typeof condition === 'object' && 'lte' in condition
+      ? row[field] <= condition.lte
+      : row[field] === condition
+  )
+}
+
+export function createInMemoryDb() {
+  const outbox: Row[] = []
+  const deliveries: Row[] = []
+
+  const notificationOutbox = {
+    async create({ data }: { data: Row }) {
+      const now = new Date()
+      const row = {
+        id: `email_${outbox.length + 1}`,
+        template: null,
+        locale: 'en',
+        html: null,
+        text: null,
+        attachments: null,
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        sentAt: null,
+        createdAt: now,
+        ...data,
+      }
+      outbox.push(row)
+      return { ...row }
+    },
+    async findUnique({ where }: { where: Row }) {
+      const row = outbox.find((candidate) => candidate.id === where.id)
+      return row ? { ...row } : null
+    },
+    async findMany({ where, take }: { where?: Row; take?: number }) {
+      return outbox
+        .filter((row) => matches(row, where))
+        .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+        .slice(0, take)
+        .map((row) => ({ id: row.id }))
+    },
+    async update({ where, data }: { where: Row; data: Row }) {
+      const row = outbox.find((candidate) => candidate.id === where.id)!
+      Object.assign(row, data)
+      return { ...row }
+    },
+    async updateMany({ where, data }: { where: Row; data: Row }) {
+      const rows = outbox.filter((row) => matches(row, where))
+      rows.forEach((row) => Object.assign(row, data))
+      return { count: rows.length }
+    },
+  }
+
+  const notificationDelivery = {
+    async create({ data }: { data: Row }) {
+      const row = { id: `delivery_${deliveries.length + 1}`, createdAt: new Date(), ...data }
+      deliveries.push(row)
+      return { ...row }
+    },
+  }
+
+  const client = { notificationOutbox, notificationDelivery }
+
+  return {
+    // Prisma's delegates are generic over their arguments, so the fake is
+    // typed as the real client once, here
+    ...(client as unknown as NotificationDatabaseClient),
+    // Direct access to the stored rows for assertions
+    tables: { outbox, deliveries },
+  }
+}
+
+export type InMemoryDb = ReturnType<typeof createInMemoryDb>
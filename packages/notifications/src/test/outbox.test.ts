@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { NOTIFICATION_CONFIG } from '@workspace/config'
+import { NotificationOutbox, getRetryDelay } from '../outbox'
+import { createMemoryTransport, type EmailTransport } from '../transports'
+import { createInMemoryDb } from './in-memory-db'
+
+const MINUTE = 60 * 1000
+
+// Fails the first `failures` sends, then delivers
+function createFlakyTransport(failures: number): EmailTransport & { calls: number } {
+  return {
+    name: 'flaky',
+    calls: 0,
+    async send() {
+      this.calls++
+      if (this.calls <= failures) throw new Error('Connection refused')
+      return { messageId: `message-${this.calls}` }
+    },
+  }
+}
+
+describe('Notification Outbox Tests', () => {
+  it('should render templates when queued and log the delivery', async () => {
+    const db = createInMemoryDb()
+    const transport = createMemoryTransport()
+    const outbox = new NotificationOutbox(db, transport)
+
+    const email = await outbox.enqueueTemplate(
+      'password-reset',
+      { url: 'https://example.com/reset?token=abc' },
+      { to: 'sara@example.com', locale: 'ar' }
+    )
+    expect(email).toMatchObject({ template: 'password-reset', locale: 'ar', status: 'PENDING' })
+    expect(email.html).toContain('dir="rtl"')
+
+    expect(await outbox.deliver(email.id)).toBe('SENT')
+    expect(transport.sent).toEqual([
+      expect.objectContaining({ to: 'sara@example.com', subject: 'إعادة تعيين كلمة المرور' }),
+    ])
+    expect(db.tables.outbox[0]).toMatchObject({ status: 'SENT', attempts: 1, sentAt: expect.any(Date) })
+    expect(db.tables.deliveries).toEqual([
+      expect.objectContaining({ attempt: 1, transport: 'memory', success: true, messageId: 'memory-1' }),
+    ])
+
+    // Already sent, so a second delivery is skipped
+    expect(await outbox.deliver(email.id)).toBeNull()
+    expect(transport.sent).toHaveLength(1)
+  })
+
+  it('should retry failed sends with exponential backoff', async () => {
+    let now = new Date('2025-05-01T12:00:00Z')
+    const db = createInMemoryDb()
+    const transport = createFlakyTransport(2)
+    const outbox = new NotificationOutbox(db, transport, () => now)
+
+    await outbox.enqueue({ to: 'ops@example.com', subject: 'Digest', text: 'Hello' })
+
+    expect(await outbox.processDue()).toEqual({ sent: 0, retrying: 1, failed: 0 })
+    expect(db.tables.outbox[0]).toMatchObject({
+      status: 'PENDING',
+      attempts: 1,
+      lastError: 'Connection refused',
+      nextAttemptAt: new Date(now.getTime() + MINUTE),
+    })
+
+    // Not due yet
+    expect(await outbox.processDue()).toEqual({ sent: 0, retrying: 0, failed: 0 })
+
+    now = new Date(now.getTime() + MINUTE)
+    await outbox.processDue()
+    expect(db.tables.outbox[0].nextAttemptAt).toEqual(new Date(now.getTime() + 2 * MINUTE))
+
+    now = new Date(now.getTime() + 2 * MINUTE)
+    expect(await outbox.processDue()).toEqual({ sent: 1, retrying: 0, failed: 0 })
+    expect(db.tables.outbox[0]).toMatchObject({ status: 'SENT', attempts: 3, lastError: null })
+    expect(db.tables.deliveries.map((delivery) => delivery.success)).toEqual([false, false, true])
+  })
+
+  it('should give up after the last attempt and cap the backoff', async () => {
+    let now = new Date('2025-05-01T12:00:00Z')
+    const db = createInMemoryDb()
+    const outbox = new NotificationOutbox(db, createFlakyTransport(Infinity), () => now)
+    await outbox.enqueue({ to: 'ops@example.com', subject: 'Digest', text: 'Hello' })
+
+    for (let attempt = 1; attempt < NOTIFICATION_CONFIG.MAX_ATTEMPTS; attempt++) {
+      expect(await outbox.processDue()).toEqual({ sent: 0, retrying: 1, failed: 0 })
+      now = new Date(now.getTime() + getRetryDelay(attempt))
+    }
+    expect(await outbox.processDue()).toEqual({ sent: 0, retrying: 0, failed: 1 })
+    expect(db.tables.outbox[0]).toMatchObject({ status: 'FAILED', attempts: NOTIFICATION_CONFIG.MAX_ATTEMPTS })
+
+    expect(getRetryDelay(1)).toBe(MINUTE)
+    expect(getRetryDelay(20)).toBe(NOTIFICATION_CONFIG.RETRY_MAX_MS)
+  })
+
+  it('should hold scheduled emails and skip ones another worker has claimed', async () => {
+    const now = new Date('2025-05-01T12:00:00Z')
+    const db = createInMemoryDb()
+    const transport = createMemoryTransport()
+    const outbox = new NotificationOutbox(db, transport, () => now)
+
+    await outbox.enqueue(
+      { to: 'later@example.com', subject: 'Reminder' },
+      { sendAfter: new Date(now.getTime() + 60 * MINUTE) }
+    )
+    const claimed = await outbox.enqueue({ to: 'busy@example.com', subject: 'Claimed' })
+    db.tables.outbox[1].nextAttemptAt = new Date(now.getTime() + NOTIFICATION_CONFIG.CLAIM_MS)
+
+    expect(await outbox.processDue()).toEqual({ sent: 0, retrying: 0, failed: 0 })
+    expect(await outbox.deliver(claimed.id)).toBeNull()
+    expect(transport.sent).toEqual([])
+  })
+})
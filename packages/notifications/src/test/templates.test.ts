@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { renderEmail, renderTemplate, resolveLocale } from '../templates'
+
+const NEW_LEAD = {
+  name: 'Omar <Ali>',
+  email: 'omar@example.com',
+  phone: '5551234567',
+  serviceType: 'ac_repair',
+  serviceArea: null,
+  message: 'AC stopped\ncooling',
+  source: 'Website Form',
+  priority: 'High',
+  url: 'http://localhost:3001/leads?lead=lead_1',
+}
+
+describe('Notification Template Tests', () => {
+  it('should lay out Arabic emails right to left', () => {
+    const english = renderTemplate('verify-email', { url: 'https://example.com/verify?token=abc', name: 'Sara' })
+    expect(english.subject).toBe('Verify your email address')
+    expect(english.html).toContain('<html lang="en" dir="ltr">')
+    expect(english.html).toContain('text-align:left')
+    expect(english.text).toContain('Verify email: https://example.com/verify?token=abc')
+
+    const arabic = renderTemplate('verify-email', { url: 'https://example.com/verify?token=abc' }, 'ar')
+    expect(arabic.subject).toBe('تأكيد بريدك الإلكتروني')
+    expect(arabic.html).toContain('<html lang="ar" dir="rtl">')
+    expect(arabic.html).toContain('text-align:right')
+    expect(arabic.text).toContain('تأكيد البريد الإلكتروني: https://example.com/verify?token=abc')
+  })
+
+  it('should escape HTML and leave out empty details', () => {
+    const { subject, html, text } = renderTemplate('new-lead', NEW_LEAD)
+
+    expect(subject).toBe('New lead: Omar <Ali> (ac_repair)')
+    expect(html).toContain('New lead from Omar &lt;Ali&gt;')
+    expect(html).toContain('AC stopped<br>cooling')
+    expect(html).not.toContain('Service area')
+    expect(text).toContain('Priority: High')
+    expect(text).not.toContain('Service area')
+  })
+
+  it('should show appointment times in the business time zone and language', () => {
+    const appointment = {
+      name: 'Omar',
+      startsAt: new Date('2025-05-18T06:00:00Z'),
+      timeZone: 'Asia/Riyadh',
+      location: '12 King Fahd Rd',
+      technician: 'Khalid',
+    }
+
+    expect(renderTemplate('appointment-confirmation', appointment).text).toContain(
+      'Khalid will visit you on Sunday, May 18, 2025 at 9:00 AM.'
+    )
+    const arabic = renderTemplate('appointment-confirmation', appointment, 'ar')
+    expect(arabic.text).toContain(
+      new Intl.DateTimeFormat('ar', { dateStyle: 'full', timeStyle: 'short', timeZone: 'Asia/Riyadh' }).format(
+        appointment.startsAt
+      )
+    )
+    expect(arabic.text).toContain('العنوان: 12 King Fahd Rd')
+  })
+
+  it('should fall back to English for unsupported locales', () => {
+    expect(resolveLocale('ar')).toBe('ar')
+    expect(resolveLocale('fr')).toBe('en')
+    expect(resolveLocale(undefined)).toBe('en')
+    expect(renderEmail({ subject: 'Hi', heading: 'Hi', paragraphs: [] }, 'en').text).toContain('Hi')
+  })
+})
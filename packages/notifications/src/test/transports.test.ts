@@ -0,0 +1,44 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { describe, it, expect } from 'vitest'
+import { createConsoleTransport, createFileTransport, getDefaultTransport } from '../transports'
+
+describe('Email Transport Tests', () => {
+  it('should write each email as an .eml file', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'aurora-emails-'))
+    try {
+      const { messageId } = await createFileTransport(dir).send({
+        to: 'sara@example.com',
+        subject: 'Your appointment',
+        text: 'See you on Monday',
+        attachments: [{ filename: 'appointment.ics', content: 'BEGIN:VCALENDAR', contentType: 'text/calendar' }],
+      })
+
+      const [file] = await readdir(dir)
+      const eml = await readFile(path.join(dir, file!), 'utf8')
+      expect(file).toMatch(/\.eml$/)
+      expect(messageId).toBeTruthy()
+      expect(eml).toContain('To: sara@example.com')
+      expect(eml).toContain('Subject: Your appointment')
+      expect(eml).toContain('filename=appointment.ics')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should log emails to the console sink', async () => {
+    const entries: string[] = []
+    await createConsoleTransport((entry) => entries.push(entry)).send({
+      to: 'sara@example.com',
+      subject: 'Hello',
+      text: 'Body',
+    })
+
+    expect(entries).toEqual(['To: sara@example.com\nSubject: Hello\n\nBody'])
+  })
+
+  it('should fall back to the console without SMTP outside production', () => {
+    expect(getDefaultTransport().name).toBe('console')
+  })
+})
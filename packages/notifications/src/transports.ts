@@ -0,0 +1,130 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { env, getSmtpConfig, isProduction } from '@workspace/config'
+
+// A type alias so queued attachments fit the outbox's Json column
+export type EmailAttachment = {
+  filename: string
+  content: string
+  contentType?: string
+  // Binary attachments are queued as base64 text
+  encoding?: 'base64'
+}
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html?: string
+  text?: string
+  replyTo?: string
+  attachments?: EmailAttachment[]
+}
+
+export interface DeliveryReceipt {
+  messageId?: string
+}
+
+// Where emails go. Outbox deliveries record the transport name.
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<DeliveryReceipt>
+}
+
+export type SmtpConfig = NonNullable<ReturnType<typeof getSmtpConfig>>
+
+const defaultFrom = () => env.SMTP_FROM || env.SMTP_USER || env.BUSINESS_EMAIL
+
+// One pooled connection per process rather than a new transport per email
+export function createSmtpTransport({ from, ...options }: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({ ...options, pool: true })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({ from, ...message })
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+// Local development: each email becomes an .eml file that opens in any mail client
+export function createFileTransport(dir: string): EmailTransport {
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await builder.sendMail({ from: defaultFrom(), ...message })
+      await mkdir(dir, { recursive: true })
+      await writeFile(path.join(dir, `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, '')}.eml`), info.message)
+      return { messageId: info.messageId }
+    },
+  }
+}
+
+export function createConsoleTransport(log: (entry: string) => void = console.info): EmailTransport {
+  return {
+    name: 'console',
+    async send({ to, subject, text, html, attachments }) {
+      log(
+        [
+          `To: ${to}`,
+          `Subject: ${subject}`,
+          ...(attachments?.length ? [`Attachments: ${attachments.map((file) => file.filename).join(', ')}`] : []),
+          '',
+          text ?? html ?? '',
+        ].join('\n')
+      )
+      return {}
+    },
+  }
+}
+
+export interface MemoryTransport extends EmailTransport {
+  sent: EmailMessage[]
+}
+
+// Tests: keeps every email in `sent`
+export function createMemoryTransport(): MemoryTransport {
+  const sent: EmailMessage[] = []
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message) {
+      sent.push(message)
+      return { messageId: `memory-${sent.length}` }
+    },
+  }
+}
+
+// Production without SMTP: every attempt fails, so the outbox keeps the
+// email and the delivery log shows why instead of it vanishing
+const unconfiguredTransport: EmailTransport = {
+  name: 'unconfigured',
+  async send() {
+    throw new Error('SMTP is not configured')
+  },
+}
+
+let defaultTransport: EmailTransport | null = null
+
+/**
+ * SMTP when it is configured. Elsewhere emails are written to
+ * EMAIL_SINK_DIR, or logged when that is unset, so local setups never need
+ * a mail server.
+ */
+export function getDefaultTransport(): EmailTransport {
+  if (!defaultTransport) {
+    const smtp = getSmtpConfig()
+    defaultTransport = smtp
+      ? createSmtpTransport(smtp)
+      : isProduction()
+        ? unconfiguredTransport
+        : env.EMAIL_SINK_DIR
+          ? createFileTransport(env.EMAIL_SINK_DIR)
+          : createConsoleTransport()
+  }
+  return defaultTransport
+}
@@ -68,7 +68,7 @@ export async function indexService(serviceId: string) {
       category: 'hvac_installation',
       status: 'PUBLISHED',
       featured: true,
-      priceType: 'QUOTE',
+      priceType: 'QUOTE_REQUIRED',
       price: 0,
       tags: ['hvac', 'installation'],
       createdAt: Date.now(),
@@ -351,7 +351,7 @@ export async function indexAllServices() {
         category: 'hvac_installation',
         status: 'PUBLISHED',
         featured: true,
-        priceType: 'QUOTE',
+        priceType: 'QUOTE_REQUIRED',
         price: 0,
         tags: ['hvac', 'installation'],
         createdAt: Date.now(),
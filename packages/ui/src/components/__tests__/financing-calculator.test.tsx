@@ -0,0 +1,59 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FinancingCalculator, type FinancingCalculatorPlan } from '../financing-calculator'
+
+const plans: FinancingCalculatorPlan[] = [
+  { months: 12, apr: 0, monthlyPayment: 416.67, totalInterest: 0, totalPaid: 5000, promotional: true },
+  {
+    months: 24,
+    apr: 9.99,
+    monthlyPayment: 230.7,
+    totalInterest: 536.87,
+    totalPaid: 5536.87,
+    schedule: [{ period: 1, payment: 230.7, principal: 189.07, interest: 41.63, balance: 4810.93 }],
+  },
+]
+
+describe('FinancingCalculator', () => {
+  it('shows the first term by default', () => {
+    render(<FinancingCalculator amount={5000} plans={plans} />)
+
+    expect(screen.getByText('$416.67')).toBeInTheDocument()
+    expect(screen.getByText('Promotional rate')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: '12 months' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('switches terms and shows the schedule', async () => {
+    const handleSelect = vi.fn()
+    const user = userEvent.setup()
+    render(<FinancingCalculator amount={5000} plans={plans} onSelectedMonthsChange={handleSelect} />)
+
+    await user.click(screen.getByRole('button', { name: '24 months' }))
+    expect(handleSelect).toHaveBeenCalledWith(24)
+    expect(screen.getByText('$536.87')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Show payment schedule' }))
+    expect(screen.getByText('$4,810.93')).toBeInTheDocument()
+  })
+
+  it('reports amount changes and explains when the amount cannot be financed', async () => {
+    const handleAmount = vi.fn()
+    const user = userEvent.setup()
+    render(
+      <FinancingCalculator amount={500} plans={[]} minAmount={1000} maxAmount={25000} onAmountChange={handleAmount} />
+    )
+
+    expect(screen.getByText('Financing is available for amounts from $1,000.00 to $25,000.00.')).toBeInTheDocument()
+
+    const input = screen.getByLabelText('Amount to finance')
+    await user.clear(input)
+    await user.type(input, '2000')
+    expect(handleAmount).toHaveBeenLastCalledWith(2000)
+  })
+
+  it('formats amounts for the locale', () => {
+    render(<FinancingCalculator amount={5000} plans={plans} locale="de-DE" currency="EUR" />)
+
+    expect(screen.getByText('416,67 €')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,254 @@
+"use client"
+
+import * as React from "react"
+
+import { cn, formatCurrency } from "../lib/utils"
+import { Badge } from "./badge"
+import { Button } from "./button"
+import { Card, CardContent, CardHeader, CardTitle } from "./card"
+import { Input } from "./input"
+import { Label } from "./label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./table"
+
+// Matches the plans computed by getFinancingPlans in @workspace/core
+export interface FinancingCalculatorPlan {
+  months: number
+  apr: number
+  monthlyPayment: number
+  totalInterest: number
+  totalPaid: number
+  promotional?: boolean
+  schedule?: {
+    period: number
+    payment: number
+    principal: number
+    interest: number
+    balance: number
+  }[]
+}
+
+// `{months}`, `{min}` and `{max}` are filled in where they appear
+export interface FinancingCalculatorLabels {
+  title: string
+  amount: string
+  term: string
+  termOption: string
+  monthlyPayment: string
+  apr: string
+  promotional: string
+  totalInterest: string
+  totalPaid: string
+  showSchedule: string
+  hideSchedule: string
+  period: string
+  payment: string
+  principal: string
+  interest: string
+  balance: string
+  unavailable: string
+  outOfRange: string
+}
+
+const defaultLabels: FinancingCalculatorLabels = {
+  title: "Financing",
+  amount: "Amount to finance",
+  term: "Term",
+  termOption: "{months} months",
+  monthlyPayment: "Monthly payment",
+  apr: "APR",
+  promotional: "Promotional rate",
+  totalInterest: "Total interest",
+  totalPaid: "Total cost",
+  showSchedule: "Show payment schedule",
+  hideSchedule: "Hide payment schedule",
+  period: "Month",
+  payment: "Payment",
+  principal: "Principal",
+  interest: "Interest",
+  balance: "Balance",
+  unavailable: "Financing is not available for this amount.",
+  outOfRange: "Financing is available for amounts from {min} to {max}.",
+}
+
+export interface FinancingCalculatorProps {
+  amount: number
+  // One per term; empty when the amount cannot be financed
+  plans: FinancingCalculatorPlan[]
+  minAmount?: number
+  maxAmount?: number
+  // Shows an amount field; the caller recalculates the plans
+  onAmountChange?: (amount: number) => void
+  selectedMonths?: number
+  onSelectedMonthsChange?: (months: number) => void
+  locale?: string
+  currency?: string
+  labels?: Partial<FinancingCalculatorLabels>
+  loading?: boolean
+  className?: string
+}
+
+const fill = (label: string, values: Record<string, string | number>) =>
+  label.replace(/\{(\w+)\}/g, (match, key) => String(values[key] ?? match))
+
+/**
+ * Monthly payment, totals and the amortization schedule for each financing
+ * term. Plans are computed by the caller, so the component holds no rates.
+ */
+function FinancingCalculator({
+  amount,
+  plans,
+  minAmount,
+  maxAmount,
+  onAmountChange,
+  selectedMonths,
+  onSelectedMonthsChange,
+  locale = "en-US",
+  currency = "USD",
+  labels: labelOverrides,
+  loading = false,
+  className,
+}: FinancingCalculatorProps) {
+  const labels = { ...defaultLabels, ...labelOverrides }
+  const id = React.useId()
+  const [amountInput, setAmountInput] = React.useState(String(amount))
+  const [ownMonths, setOwnMonths] = React.useState(selectedMonths)
+  const [showSchedule, setShowSchedule] = React.useState(false)
+
+  const money = (value: number) => formatCurrency(value, currency, locale)
+  const months = selectedMonths ?? ownMonths
+  const plan = plans.find((candidate) => candidate.months === months) ?? plans[0]
+
+  const selectTerm = (term: number) => {
+    setOwnMonths(term)
+    onSelectedMonthsChange?.(term)
+  }
+
+  const changeAmount = (value: string) => {
+    setAmountInput(value)
+    const parsed = Number(value)
+    if (value !== "" && Number.isFinite(parsed) && parsed > 0) {
+      onAmountChange?.(parsed)
+    }
+  }
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="text-lg">{labels.title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5" aria-busy={loading}>
+        {onAmountChange && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-amount`}>{labels.amount}</Label>
+            <Input
+              id={`${id}-amount`}
+              type="number"
+              inputMode="decimal"
+              min={minAmount}
+              max={maxAmount}
+              step="100"
+              value={amountInput}
+              onChange={(event) => changeAmount(event.target.value)}
+            />
+          </div>
+        )}
+
+        {!plan ? (
+          <p className="text-sm text-muted-foreground">
+            {minAmount !== undefined && maxAmount !== undefined
+              ? fill(labels.outOfRange, { min: money(minAmount), max: money(maxAmount) })
+              : labels.unavailable}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm font-medium" id={`${id}-term`}>
+                {labels.term}
+              </p>
+              <div className="flex flex-wrap gap-2" role="group" aria-labelledby={`${id}-term`}>
+                {plans.map((option) => (
+                  <Button
+                    key={option.months}
+                    type="button"
+                    size="sm"
+                    variant={option.months === plan.months ? "default" : "outline"}
+                    aria-pressed={option.months === plan.months}
+                    onClick={() => selectTerm(option.months)}
+                  >
+                    {fill(labels.termOption, { months: option.months })}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className={cn("space-y-3", loading && "opacity-60")}>
+              <div>
+                <p className="text-sm text-muted-foreground">{labels.monthlyPayment}</p>
+                <p className="text-3xl font-bold tabular-nums">{money(plan.monthlyPayment)}</p>
+              </div>
+              <dl className="grid grid-cols-3 gap-3 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">{labels.apr}</dt>
+                  <dd className="flex items-center gap-2 tabular-nums">
+                    {new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(plan.apr)}%
+                    {plan.promotional && <Badge variant="secondary">{labels.promotional}</Badge>}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">{labels.totalInterest}</dt>
+                  <dd className="tabular-nums">{money(plan.totalInterest)}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">{labels.totalPaid}</dt>
+                  <dd className="tabular-nums">{money(plan.totalPaid)}</dd>
+                </div>
+              </dl>
+            </div>
+
+            {plan.schedule && plan.schedule.length > 0 && (
+              <div className="space-y-2">
+                <Button
+                  type="button"
+                  variant="link"
+                  className="h-auto p-0"
+                  aria-expanded={showSchedule}
+                  onClick={() => setShowSchedule((shown) => !shown)}
+                >
+                  {showSchedule ? labels.hideSchedule : labels.showSchedule}
+                </Button>
+                {showSchedule && (
+                  <div className="max-h-72 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>{labels.period}</TableHead>
+                          <TableHead className="text-end">{labels.payment}</TableHead>
+                          <TableHead className="text-end">{labels.principal}</TableHead>
+                          <TableHead className="text-end">{labels.interest}</TableHead>
+                          <TableHead className="text-end">{labels.balance}</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.schedule.map((row) => (
+                          <TableRow key={row.period}>
+                            <TableCell>{row.period}</TableCell>
+                            <TableCell className="text-end tabular-nums">{money(row.payment)}</TableCell>
+                            <TableCell className="text-end tabular-nums">{money(row.principal)}</TableCell>
+                            <TableCell className="text-end tabular-nums">{money(row.interest)}</TableCell>
+                            <TableCell className="text-end tabular-nums">{money(row.balance)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export { FinancingCalculator }
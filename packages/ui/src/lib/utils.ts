@@ -12,8 +12,8 @@ export function cn(...inputs: ClassValue[]) {
 /**
  * Format currency values
  */
-export function formatCurrency(amount: number, currency = 'USD') {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(amount: number, currency = 'USD', locale = 'en-US') {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency,
   }).format(amount)